@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   output: "standalone",
+  // pdfkit reads its font metrics from its own package directory at runtime
+  serverExternalPackages: ["pdfkit"],
   images: {
     remotePatterns: [
       {
@@ -2,7 +2,7 @@
 
 import { useSession } from "next-auth/react"
 import { useRouter, useParams } from "next/navigation"
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useRef } from "react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -11,6 +11,13 @@ import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   Dialog,
   DialogContent,
@@ -29,8 +36,10 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
-import { ArrowLeft, Download, RefreshCw, Trash2, Eye, Upload, Palette } from "lucide-react"
+import { ArrowLeft, Download, RefreshCw, Trash2, Eye, Upload, Palette, Printer, Tags, Move } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { streamJob, estimateRemainingMs, formatDuration, type JobPageEvent, type JobStream } from "@/lib/utils/jobClient"
+import { ANCHOR_LABELS, PLACEMENT_ANCHORS, pagePlacement, type PlacementAnchor } from "@/lib/types/placement"
 
 interface Page {
   id: string
@@ -38,6 +47,66 @@ interface Page {
   code: string
   audioLink: string
   imageUrl: string
+  symbologyVersion: string
+  placementAnchor: string | null
+  placementOffsetX: number | null
+  placementOffsetY: number | null
+  placementWidth: number | null
+  placementHeight: number | null
+  placementMirror: boolean | null
+}
+
+// Placement dialog fields; blank numbers are left unset
+interface PlacementForm {
+  anchor: PlacementAnchor | "none"
+  offsetX: string
+  offsetY: string
+  width: string
+  height: string
+  mirror: boolean
+}
+
+const EMPTY_PLACEMENT_FORM: PlacementForm = {
+  anchor: "none",
+  offsetX: "",
+  offsetY: "",
+  width: "",
+  height: "",
+  mirror: false,
+}
+
+function formNumber(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function describePlacement(page: Page): string {
+  const placement = pagePlacement(page)
+  if (!placement) return "—"
+
+  const parts: string[] = []
+  if (placement.anchor) parts.push(ANCHOR_LABELS[placement.anchor])
+  if (placement.offsetXMm !== null || placement.offsetYMm !== null) {
+    parts.push(`${placement.offsetXMm ?? 0}/${placement.offsetYMm ?? 0} mm in`)
+  }
+  if (placement.widthMm !== null || placement.heightMm !== null) {
+    parts.push(`${placement.widthMm ?? "auto"} × ${placement.heightMm ?? "auto"} mm`)
+  }
+  if (placement.mirrorOnVerso) parts.push("mirrored on verso")
+  return parts.join(", ")
+}
+
+interface GenerationResult {
+  newPages: number
+  keptPages: number
+}
+
+interface LabelTemplateOption {
+  name: string
+  description: string
+  rows: number
+  columns: number
+  labelsPerSheet: number
 }
 
 interface Book {
@@ -62,10 +131,28 @@ export default function BookDetailPage() {
   const [book, setBook] = useState<Book | null>(null)
   const [loading, setLoading] = useState(true)
   const [audioLinks, setAudioLinks] = useState("")
+  // Reused when the same links are submitted again after a failed request
+  const generateRequest = useRef<{ links: string; key: string } | null>(null)
   const [generating, setGenerating] = useState(false)
   const [generationProgress, setGenerationProgress] = useState(0)
+  const [generationCounts, setGenerationCounts] = useState<{ done: number; total: number } | null>(null)
+  const [generationEta, setGenerationEta] = useState<number | null>(null)
+  const [generationNote, setGenerationNote] = useState<string | null>(null)
+  const [failedPages, setFailedPages] = useState<JobPageEvent[]>([])
+  const generationStream = useRef<JobStream<GenerationResult> | null>(null)
   const [previewCode, setPreviewCode] = useState<Page | null>(null)
   const [regenerating, setRegenerating] = useState<string | null>(null)
+  const [sheetSize, setSheetSize] = useState("A4")
+  const [labelsOpen, setLabelsOpen] = useState(false)
+  const [labelTemplates, setLabelTemplates] = useState<LabelTemplateOption[]>([])
+  const [labelTemplate, setLabelTemplate] = useState("")
+  const [labelStart, setLabelStart] = useState(1)
+  const [labelRange, setLabelRange] = useState<{ from: number; to: number } | null>(null)
+  const [labelOutlines, setLabelOutlines] = useState(false)
+  const [placementOpen, setPlacementOpen] = useState(false)
+  const [placementRange, setPlacementRange] = useState<{ from: number; to: number } | null>(null)
+  const [placementForm, setPlacementForm] = useState<PlacementForm>(EMPTY_PLACEMENT_FORM)
+  const [savingPlacement, setSavingPlacement] = useState(false)
 
   const fetchBook = useCallback(async () => {
     try {
@@ -96,6 +183,88 @@ export default function BookDetailPage() {
     }
   }, [session, bookId, fetchBook])
 
+  // Follow a generation job's event stream until it finishes
+  const followGeneration = useCallback(async (jobId: string) => {
+    generationStream.current?.close()
+    setGenerating(true)
+    setGenerationProgress(0)
+    setGenerationCounts(null)
+    setGenerationEta(null)
+    setGenerationNote(null)
+    setFailedPages([])
+
+    let startedAt = Date.now()
+    const stream = streamJob<GenerationResult>(jobId, {
+      onStatus: (status, error) => {
+        setGenerationNote(status === "queued" && error ? `Retrying after error: ${error}` : null)
+      },
+      onProgress: (done, total, at) => {
+        // Progress restarts at 0 on each attempt, and so do its failures
+        if (done === 0) {
+          startedAt = at
+          setFailedPages([])
+        }
+        setGenerationProgress(total > 0 ? (done / total) * 100 : 0)
+        setGenerationCounts({ done, total })
+        setGenerationEta(estimateRemainingMs(startedAt, Date.now(), done, total))
+      },
+      onPage: (page) => {
+        // Keep only the latest outcome for each page
+        setFailedPages((prev) => {
+          const others = prev.filter((failed) => failed.pageNumber !== page.pageNumber)
+          return page.success ? others : [...others, page]
+        })
+      },
+    })
+    generationStream.current = stream
+
+    try {
+      const result = await stream.done
+
+      toast({
+        title: "Success",
+        description: result.keptPages > 0
+          ? `Generated ${result.newPages} new codes, kept ${result.keptPages} unchanged`
+          : `Generated ${result.newPages} codes`,
+      })
+
+      setAudioLinks("")
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate codes",
+        variant: "destructive",
+      })
+    } finally {
+      if (generationStream.current === stream) {
+        generationStream.current = null
+        setGenerating(false)
+        setGenerationProgress(0)
+        setGenerationCounts(null)
+        setGenerationEta(null)
+        setGenerationNote(null)
+        fetchBook()
+      }
+    }
+  }, [toast, fetchBook])
+
+  // Reattach to a generation still running from before a page reload
+  useEffect(() => {
+    if (!session || !bookId) return
+
+    fetch(`/api/admin/jobs?bookId=${bookId}&type=generate-codes&active=true`)
+      .then((response) => (response.ok ? response.json() : { jobs: [] }))
+      .then((data: { jobs: { id: string }[] }) => {
+        if (data.jobs.length > 0) followGeneration(data.jobs[0].id)
+      })
+      .catch((error) => console.error("Error checking for running jobs:", error))
+
+    return () => {
+      generationStream.current?.close()
+      generationStream.current = null
+    }
+  }, [session, bookId, followGeneration])
+
   async function handleGenerateCodes() {
     if (!audioLinks.trim()) {
       toast({
@@ -141,16 +310,23 @@ export default function BookDetailPage() {
 
     try {
       setGenerating(true)
-      setGenerationProgress(0)
+      setFailedPages([])
 
       const audioLinksData = links.map((audioLink, index) => ({
         pageNumber: index + 1,
         audioLink,
       }))
 
+      if (generateRequest.current?.links !== audioLinks) {
+        generateRequest.current = { links: audioLinks, key: crypto.randomUUID() }
+      }
+
       const response = await fetch(`/api/admin/books/${bookId}/generate-codes`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": generateRequest.current.key,
+        },
         body: JSON.stringify({ audioLinks: audioLinksData }),
       })
 
@@ -159,31 +335,18 @@ export default function BookDetailPage() {
         throw new Error(error.error || "Failed to generate codes")
       }
 
-      const result = await response.json()
-
-      if (result.failedPages > 0) {
-        toast({
-          title: "Partial Success",
-          description: `Generated ${result.successfulPages} of ${result.totalPages} codes`,
-        })
-      } else {
-        toast({
-          title: "Success",
-          description: `Generated ${result.successfulPages} codes`,
-        })
-      }
+      // The job is queued; a retry from here on should queue a new one
+      const { jobId } = await response.json()
+      generateRequest.current = null
 
-      setAudioLinks("")
-      fetchBook()
+      await followGeneration(jobId)
     } catch (error) {
       toast({
         title: "Error",
         description: error instanceof Error ? error.message : "Failed to generate codes",
         variant: "destructive",
       })
-    } finally {
       setGenerating(false)
-      setGenerationProgress(0)
     }
   }
 
@@ -216,14 +379,14 @@ export default function BookDetailPage() {
     }
   }
 
-  async function handleDownload() {
+  async function handleDownload(path: string, description: string, fallbackName: string, init?: RequestInit) {
     try {
       toast({
         title: "Preparing download",
-        description: "Generating ZIP file...",
+        description,
       })
 
-      const response = await fetch(`/api/admin/books/${bookId}/download`)
+      const response = await fetch(`/api/admin/books/${bookId}/${path}`, init)
 
       if (!response.ok) {
         const error = await response.json()
@@ -234,7 +397,7 @@ export default function BookDetailPage() {
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
-      a.download = response.headers.get("Content-Disposition")?.split("filename=")[1]?.replace(/"/g, "") || "codes.zip"
+      a.download = response.headers.get("Content-Disposition")?.split("filename=")[1]?.replace(/"/g, "") || fallbackName
       document.body.appendChild(a)
       a.click()
       window.URL.revokeObjectURL(url)
@@ -253,6 +416,103 @@ export default function BookDetailPage() {
     }
   }
 
+  async function openLabels() {
+    setLabelsOpen(true)
+    if (book && !labelRange && book.pages.length > 0) {
+      setLabelRange({ from: book.pages[0].pageNumber, to: book.pages[book.pages.length - 1].pageNumber })
+    }
+    if (labelTemplates.length > 0) return
+
+    try {
+      const response = await fetch("/api/admin/label-templates")
+      if (response.ok) {
+        const data = await response.json()
+        setLabelTemplates(data.templates)
+        setLabelTemplate((current) => current || data.templates[0]?.name || "")
+      }
+    } catch (error) {
+      console.error("Error fetching label templates:", error)
+    }
+  }
+
+  async function handleDownloadLabels() {
+    if (!book || !labelRange) return
+
+    const pageIds = book.pages
+      .filter((page) => page.pageNumber >= labelRange.from && page.pageNumber <= labelRange.to)
+      .map((page) => page.id)
+
+    await handleDownload("labels", "Filling label sheets...", "labels.pdf", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        template: labelTemplate,
+        startPosition: labelStart,
+        pageIds,
+        outlines: labelOutlines,
+      }),
+    })
+    setLabelsOpen(false)
+  }
+
+  function openPlacement() {
+    setPlacementOpen(true)
+    if (book && !placementRange && book.pages.length > 0) {
+      setPlacementRange({ from: book.pages[0].pageNumber, to: book.pages[book.pages.length - 1].pageNumber })
+    }
+  }
+
+  // Apply the form to the pages in range, or clear their placement
+  async function handleSavePlacement(clear: boolean) {
+    if (!book || !placementRange) return
+
+    const pageIds = book.pages
+      .filter((page) => page.pageNumber >= placementRange.from && page.pageNumber <= placementRange.to)
+      .map((page) => page.id)
+
+    try {
+      setSavingPlacement(true)
+      const response = await fetch(`/api/admin/books/${bookId}/placement`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          pageIds,
+          placement: clear
+            ? null
+            : {
+                anchor: placementForm.anchor === "none" ? null : placementForm.anchor,
+                offsetXMm: formNumber(placementForm.offsetX),
+                offsetYMm: formNumber(placementForm.offsetY),
+                widthMm: formNumber(placementForm.width),
+                heightMm: formNumber(placementForm.height),
+                mirrorOnVerso: placementForm.mirror || null,
+              },
+        }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update placement")
+      }
+
+      const { updated } = await response.json()
+      toast({
+        title: "Placement saved",
+        description: `${clear ? "Cleared" : "Updated"} placement of ${updated} ${updated === 1 ? "page" : "pages"}`,
+      })
+      setPlacementOpen(false)
+      fetchBook()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update placement",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingPlacement(false)
+    }
+  }
+
   async function handleDelete() {
     try {
       const response = await fetch(`/api/admin/books/${bookId}`, {
@@ -317,6 +577,14 @@ export default function BookDetailPage() {
     )
   }
 
+  const selectedLabelTemplate = labelTemplates.find((template) => template.name === labelTemplate)
+  const labelPageCount = labelRange
+    ? book.pages.filter((page) => page.pageNumber >= labelRange.from && page.pageNumber <= labelRange.to).length
+    : book.pages.length
+  const labelSheetCount = selectedLabelTemplate
+    ? Math.ceil((labelPageCount + labelStart - 1) / selectedLabelTemplate.labelsPerSheet)
+    : 0
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="border-b bg-white">
@@ -425,8 +693,24 @@ export default function BookDetailPage() {
                 <div className="space-y-2">
                   <Progress value={generationProgress} />
                   <p className="text-sm text-muted-foreground">
-                    Generating codes...
+                    {generationCounts && generationCounts.total > 0
+                      ? `Generating codes... ${generationCounts.done} of ${generationCounts.total} pages`
+                      : "Waiting for the job to start..."}
+                    {generationEta !== null && ` (${formatDuration(generationEta)} left)`}
                   </p>
+                  {generationNote && (
+                    <p className="text-sm text-muted-foreground">{generationNote}</p>
+                  )}
+                </div>
+              )}
+
+              {failedPages.length > 0 && (
+                <div className="space-y-1 text-sm text-destructive">
+                  {failedPages.map((page) => (
+                    <p key={page.pageNumber}>
+                      Page {page.pageNumber} failed: {page.error || "Unknown error"}
+                    </p>
+                  ))}
                 </div>
               )}
 
@@ -447,10 +731,39 @@ export default function BookDetailPage() {
                   {book.pages.length} pages with wave codes
                 </CardDescription>
               </div>
-              <Button onClick={handleDownload}>
-                <Download className="mr-2 h-4 w-4" />
-                Download ZIP
-              </Button>
+              <div className="flex gap-2">
+                <Select value={sheetSize} onValueChange={setSheetSize}>
+                  <SelectTrigger className="w-28" aria-label="Sheet size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="A4">A4</SelectItem>
+                    <SelectItem value="Letter">Letter</SelectItem>
+                    <SelectItem value="SRA3">SRA3</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    handleDownload(`imposition?sheet=${sheetSize}`, "Laying out print sheets...", "sheets.pdf")
+                  }
+                >
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print Sheets
+                </Button>
+                <Button variant="outline" onClick={openLabels}>
+                  <Tags className="mr-2 h-4 w-4" />
+                  Labels
+                </Button>
+                <Button variant="outline" onClick={openPlacement}>
+                  <Move className="mr-2 h-4 w-4" />
+                  Placement
+                </Button>
+                <Button onClick={() => handleDownload("download", "Generating ZIP file...", "codes.zip")}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download ZIP
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <Table>
@@ -459,6 +772,7 @@ export default function BookDetailPage() {
                     <TableHead className="w-20">Page</TableHead>
                     <TableHead className="w-32">Code</TableHead>
                     <TableHead>Audio Link</TableHead>
+                    <TableHead>Placement</TableHead>
                     <TableHead className="w-32 text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -470,6 +784,9 @@ export default function BookDetailPage() {
                       <TableCell className="max-w-md truncate text-xs text-muted-foreground">
                         {page.audioLink}
                       </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {describePlacement(page)}
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
                           <Button
@@ -520,11 +837,269 @@ export default function BookDetailPage() {
             )}
             <div className="text-center text-sm text-muted-foreground">
               <p className="font-mono text-lg">{previewCode?.code}</p>
+              <p className="mt-1 text-xs">Symbology {previewCode?.symbologyVersion}</p>
               <p className="mt-2 max-w-md break-all">{previewCode?.audioLink}</p>
             </div>
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Placement Dialog */}
+      <Dialog open={placementOpen} onOpenChange={setPlacementOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Code Placement</DialogTitle>
+            <DialogDescription>
+              Where the code goes on each printed page. Saving replaces the placement of every page in the range.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="placementFrom">From Page</Label>
+                <Input
+                  id="placementFrom"
+                  type="number"
+                  value={placementRange?.from ?? ""}
+                  onChange={(e) =>
+                    setPlacementRange((range) => range && { ...range, from: parseInt(e.target.value) || 0 })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="placementTo">To Page</Label>
+                <Input
+                  id="placementTo"
+                  type="number"
+                  value={placementRange?.to ?? ""}
+                  onChange={(e) =>
+                    setPlacementRange((range) => range && { ...range, to: parseInt(e.target.value) || 0 })
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="placementAnchor">Anchor</Label>
+              <Select
+                value={placementForm.anchor}
+                onValueChange={(value) =>
+                  setPlacementForm((form) => ({ ...form, anchor: value as PlacementForm["anchor"] }))
+                }
+              >
+                <SelectTrigger id="placementAnchor">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not set</SelectItem>
+                  {PLACEMENT_ANCHORS.map((anchor) => (
+                    <SelectItem key={anchor} value={anchor}>
+                      {ANCHOR_LABELS[anchor]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="placementOffsetX">Offset X (mm)</Label>
+                <Input
+                  id="placementOffsetX"
+                  type="number"
+                  step="0.5"
+                  value={placementForm.offsetX}
+                  onChange={(e) => setPlacementForm((form) => ({ ...form, offsetX: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="placementOffsetY">Offset Y (mm)</Label>
+                <Input
+                  id="placementOffsetY"
+                  type="number"
+                  step="0.5"
+                  value={placementForm.offsetY}
+                  onChange={(e) => setPlacementForm((form) => ({ ...form, offsetY: e.target.value }))}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Offsets move the code in from the anchor&apos;s edges; for centred anchors they move it right and down.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="placementWidth">Width (mm)</Label>
+                <Input
+                  id="placementWidth"
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  placeholder="Theme size"
+                  value={placementForm.width}
+                  onChange={(e) => setPlacementForm((form) => ({ ...form, width: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="placementHeight">Height (mm)</Label>
+                <Input
+                  id="placementHeight"
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  placeholder="Theme size"
+                  value={placementForm.height}
+                  onChange={(e) => setPlacementForm((form) => ({ ...form, height: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={placementForm.mirror}
+                onChange={(e) => setPlacementForm((form) => ({ ...form, mirror: e.target.checked }))}
+              />
+              Mirror left and right on verso (even) pages
+            </label>
+
+            <div className="flex items-center justify-between">
+              <Button variant="outline" onClick={() => handleSavePlacement(true)} disabled={savingPlacement}>
+                Clear Placement
+              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    handleDownload(
+                      `imposition?layout=pages&sheet=${sheetSize}`,
+                      "Placing codes on pages...",
+                      "placement.pdf"
+                    )
+                  }
+                >
+                  <Printer className="mr-2 h-4 w-4" />
+                  Placement PDF
+                </Button>
+                <Button onClick={() => handleSavePlacement(false)} disabled={savingPlacement}>
+                  {savingPlacement ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Label Sheets Dialog */}
+      <Dialog open={labelsOpen} onOpenChange={setLabelsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Print on Label Sheets</DialogTitle>
+            <DialogDescription>
+              Codes fill the labels left to right, top to bottom, in page order
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="labelTemplate">Label Sheet</Label>
+              <Select
+                value={labelTemplate}
+                onValueChange={(value) => {
+                  setLabelTemplate(value)
+                  setLabelStart(1)
+                }}
+              >
+                <SelectTrigger id="labelTemplate">
+                  <SelectValue placeholder="Choose a label sheet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {labelTemplates.map((template) => (
+                    <SelectItem key={template.name} value={template.name}>
+                      {template.description || template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="labelFrom">From Page</Label>
+                <Input
+                  id="labelFrom"
+                  type="number"
+                  value={labelRange?.from ?? ""}
+                  onChange={(e) =>
+                    setLabelRange((range) => range && { ...range, from: parseInt(e.target.value) || 0 })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="labelTo">To Page</Label>
+                <Input
+                  id="labelTo"
+                  type="number"
+                  value={labelRange?.to ?? ""}
+                  onChange={(e) =>
+                    setLabelRange((range) => range && { ...range, to: parseInt(e.target.value) || 0 })
+                  }
+                />
+              </div>
+            </div>
+
+            {selectedLabelTemplate && (
+              <div className="space-y-2">
+                <Label>Start at Label {labelStart}</Label>
+                <p className="text-xs text-muted-foreground">
+                  Click the first free label to reuse a partly used sheet.
+                </p>
+                <div
+                  className="grid w-fit gap-0.5 rounded border bg-white p-1"
+                  style={{ gridTemplateColumns: `repeat(${selectedLabelTemplate.columns}, 1fr)` }}
+                >
+                  {Array.from({ length: selectedLabelTemplate.labelsPerSheet }, (_, i) => i + 1).map((position) => (
+                    <button
+                      key={position}
+                      type="button"
+                      title={`Label ${position}`}
+                      onClick={() => setLabelStart(position)}
+                      className={`h-2.5 w-6 rounded-sm ${
+                        position < labelStart
+                          ? "bg-gray-200"
+                          : position === labelStart
+                            ? "bg-primary"
+                            : "bg-primary/30"
+                      }`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={labelOutlines}
+                onChange={(e) => setLabelOutlines(e.target.checked)}
+              />
+              Draw label outlines (for a test print on plain paper)
+            </label>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {labelPageCount} labels on {labelSheetCount} {labelSheetCount === 1 ? "sheet" : "sheets"}
+              </p>
+              <Button
+                onClick={handleDownloadLabels}
+                disabled={!selectedLabelTemplate || labelPageCount === 0}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Download PDF
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
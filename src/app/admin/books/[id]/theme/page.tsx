@@ -10,13 +10,47 @@ import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ArrowLeft, Save, RotateCcw, RefreshCw, AlertTriangle } from "lucide-react"
-import { ThemeConfig, DEFAULT_THEME, PRESET_THEMES, ThemeValidationWarning } from "@/lib/types/theme"
+import {
+  ThemeConfig,
+  DEFAULT_THEME,
+  PRESET_THEMES,
+  CAPTION_FONTS,
+  LAYOUT_MODES,
+  ThemeValidationWarning,
+  type CaptionFont,
+  type CmykColor,
+  type LayoutMode,
+  type ColorSlot,
+  type PrintColor,
+} from "@/lib/types/theme"
+import { waitForJob } from "@/lib/utils/jobClient"
 
 interface PreviewSample {
   code: string
   imageUrl: string
 }
 
+interface LayoutSample {
+  mode: LayoutMode
+  imageUrl: string
+}
+
+interface BookAsset {
+  id: string
+  name: string
+  url: string
+}
+
+const DEFAULT_LOGO = { position: "start", size: 80, quietZone: 1.5 } as const
+
+const LAYOUT_LABELS: Record<LayoutMode, string> = {
+  horizontal: "Horizontal",
+  mirrored: "Mirrored (from a baseline)",
+  vertical: "Vertical",
+  circular: "Circular",
+  arc: "Arc",
+}
+
 export default function ThemeEditorPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -28,10 +62,14 @@ export default function ThemeEditorPage() {
   const [, setOriginalTheme] = useState<ThemeConfig>(DEFAULT_THEME)
   const [warnings, setWarnings] = useState<ThemeValidationWarning[]>([])
   const [previews, setPreviews] = useState<PreviewSample[]>([])
+  const [layoutPreviews, setLayoutPreviews] = useState<LayoutSample[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [regenerating, setRegenerating] = useState(false)
+  const [regenerationProgress, setRegenerationProgress] = useState<{ done: number; total: number } | null>(null)
   const [previewLoading, setPreviewLoading] = useState(false)
+  const [assets, setAssets] = useState<BookAsset[]>([])
+  const [uploading, setUploading] = useState(false)
 
   useEffect(() => {
     if (status === "unauthenticated") {
@@ -45,11 +83,12 @@ export default function ThemeEditorPage() {
       const response = await fetch(`/api/admin/books/${bookId}/theme-preview`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ themeConfig }),
+        body: JSON.stringify({ themeConfig, layouts: true }),
       })
       if (response.ok) {
         const data = await response.json()
         setPreviews(data.samples)
+        setLayoutPreviews(data.layoutSamples ?? [])
       }
     } catch (error) {
       console.error("Error fetching previews:", error)
@@ -77,11 +116,24 @@ export default function ThemeEditorPage() {
     }
   }, [bookId, fetchPreviews])
 
+  const fetchAssets = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/books/${bookId}/assets`)
+      if (response.ok) {
+        const data = await response.json()
+        setAssets(data.assets)
+      }
+    } catch (error) {
+      console.error("Error fetching assets:", error)
+    }
+  }, [bookId])
+
   useEffect(() => {
     if (session && bookId) {
       fetchTheme()
+      fetchAssets()
     }
-  }, [session, bookId, fetchTheme])
+  }, [session, bookId, fetchTheme, fetchAssets])
 
   // Debounced preview update
   useEffect(() => {
@@ -142,16 +194,20 @@ export default function ThemeEditorPage() {
         body: JSON.stringify({}),
       })
       if (response.ok) {
-        const data = await response.json()
+        const { jobId } = await response.json()
+        const data = await waitForJob<{ regenerated: number }>(jobId, {
+          onProgress: (done, total) => setRegenerationProgress({ done, total }),
+        })
         alert(`Regenerated ${data.regenerated} pages`)
       } else {
         alert("Failed to regenerate codes")
       }
     } catch (error) {
       console.error("Error regenerating:", error)
-      alert("Failed to regenerate codes")
+      alert(error instanceof Error ? error.message : "Failed to regenerate codes")
     } finally {
       setRegenerating(false)
+      setRegenerationProgress(null)
     }
   }
 
@@ -176,6 +232,28 @@ export default function ThemeEditorPage() {
     }))
   }
 
+  const updatePrintColor = (slot: ColorSlot, updates: PrintColor | null) => {
+    setTheme((prev) => {
+      const print = { ...prev.colorScheme.print }
+      const next = updates && { ...print[slot], ...updates }
+      if (next && (next.cmyk || next.spot)) {
+        print[slot] = next
+      } else {
+        delete print[slot]
+      }
+      return { ...prev, colorScheme: { ...prev.colorScheme, print } }
+    })
+  }
+
+  const updatePrintCmyk = (slot: ColorSlot, channel: number, value: string) => {
+    const cmyk = [...(theme.colorScheme.print?.[slot]?.cmyk ?? [0, 0, 0, 0])] as CmykColor
+    cmyk[channel] = Math.min(100, Math.max(0, Number(value) || 0))
+    updatePrintColor(slot, { cmyk })
+  }
+
+  const printSlots: ColorSlot[] =
+    theme.colorScheme.type === "solid" ? ["primary", "background"] : ["primary", "secondary", "background"]
+
   const updateBarStyle = (updates: Partial<ThemeConfig["barStyle"]>) => {
     setTheme((prev) => ({
       ...prev,
@@ -183,6 +261,13 @@ export default function ThemeEditorPage() {
     }))
   }
 
+  const updateLayout = (updates: Partial<ThemeConfig["layout"]>) => {
+    setTheme((prev) => ({
+      ...prev,
+      layout: { ...prev.layout, ...updates },
+    }))
+  }
+
   const updateEffects = (updates: Partial<ThemeConfig["effects"]>) => {
     setTheme((prev) => ({
       ...prev,
@@ -190,6 +275,49 @@ export default function ThemeEditorPage() {
     }))
   }
 
+  const updateCaption = (updates: Partial<ThemeConfig["caption"]>) => {
+    setTheme((prev) => ({
+      ...prev,
+      caption: { ...prev.caption, ...updates },
+    }))
+  }
+
+  const updateLogo = (updates: Partial<NonNullable<ThemeConfig["logo"]>> | null) => {
+    setTheme((prev) => {
+      if (!updates) {
+        const next = { ...prev }
+        delete next.logo
+        return next
+      }
+      const logo = { ...DEFAULT_LOGO, ...prev.logo, ...updates }
+      return logo.assetId ? { ...prev, logo: { ...logo, assetId: logo.assetId } } : prev
+    })
+  }
+
+  const handleLogoUpload = async (file: File) => {
+    try {
+      setUploading(true)
+      const formData = new FormData()
+      formData.append("file", file)
+      const response = await fetch(`/api/admin/books/${bookId}/assets`, {
+        method: "POST",
+        body: formData,
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setAssets((prev) => [data, ...prev])
+        updateLogo({ assetId: data.id })
+      } else {
+        alert(data.error || "Failed to upload logo")
+      }
+    } catch (error) {
+      console.error("Error uploading logo:", error)
+      alert("Failed to upload logo")
+    } finally {
+      setUploading(false)
+    }
+  }
+
   const updateDimensions = (updates: Partial<ThemeConfig["dimensions"]>) => {
     setTheme((prev) => ({
       ...prev,
@@ -346,6 +474,53 @@ export default function ThemeEditorPage() {
               </CardContent>
             </Card>
 
+            {/* Print Colors */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Print Colors</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-500">
+                  Optional CMYK values (%) or a named spot color for PDF and TIFF output. Without them,
+                  colors are converted from RGB.
+                </p>
+                {printSlots.map((slot) => {
+                  const print = theme.colorScheme.print?.[slot]
+                  return (
+                    <div key={slot} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label className="capitalize">{slot}</Label>
+                        {print && (
+                          <Button variant="ghost" size="sm" onClick={() => updatePrintColor(slot, null)}>
+                            Clear
+                          </Button>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-4 gap-2">
+                        {["C", "M", "Y", "K"].map((channel, i) => (
+                          <Input
+                            key={channel}
+                            type="number"
+                            min="0"
+                            max="100"
+                            placeholder={channel}
+                            aria-label={`${slot} ${channel}`}
+                            value={print?.cmyk?.[i] ?? ""}
+                            onChange={(e) => updatePrintCmyk(slot, i, e.target.value)}
+                          />
+                        ))}
+                      </div>
+                      <Input
+                        placeholder="Spot color, e.g. PANTONE 871 C"
+                        value={print?.spot ?? ""}
+                        onChange={(e) => updatePrintColor(slot, { spot: e.target.value || undefined })}
+                      />
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+
             {/* Bar Style */}
             <Card>
               <CardHeader>
@@ -404,6 +579,82 @@ export default function ThemeEditorPage() {
               </CardContent>
             </Card>
 
+            {/* Layout */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Layout</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label>Mode</Label>
+                  <Select
+                    value={theme.layout.mode}
+                    onValueChange={(v) => updateLayout({ mode: v as LayoutMode })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LAYOUT_MODES.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {LAYOUT_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {theme.layout.mode === "arc" && (
+                  <div>
+                    <Label>Arc Angle: {theme.layout.arcAngle}°</Label>
+                    <Input
+                      type="range"
+                      min="60"
+                      max="300"
+                      step="10"
+                      value={theme.layout.arcAngle}
+                      onChange={(e) => updateLayout({ arcAngle: parseInt(e.target.value) })}
+                    />
+                  </div>
+                )}
+                {(theme.layout.mode === "circular" || theme.layout.mode === "arc") && (
+                  <div>
+                    <Label>Inner Radius: {theme.layout.innerRadius}% of the outer</Label>
+                    <Input
+                      type="range"
+                      min="20"
+                      max="90"
+                      value={theme.layout.innerRadius}
+                      onChange={(e) => updateLayout({ innerRadius: parseInt(e.target.value) })}
+                    />
+                  </div>
+                )}
+                {layoutPreviews.length > 0 && (
+                  <div className="grid grid-cols-5 gap-2">
+                    {layoutPreviews.map((sample) => (
+                      <button
+                        key={sample.mode}
+                        type="button"
+                        title={LAYOUT_LABELS[sample.mode]}
+                        onClick={() => updateLayout({ mode: sample.mode })}
+                        className={`flex h-16 items-center justify-center rounded-md border p-1 ${
+                          sample.mode === theme.layout.mode ? "ring-2 ring-primary" : ""
+                        }`}
+                        style={{ backgroundColor: theme.colorScheme.background }}
+                      >
+                        {/* Samples are data URLs from the preview endpoint; next/image can't optimise them */}
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img
+                          src={sample.imageUrl}
+                          alt={LAYOUT_LABELS[sample.mode]}
+                          className="max-h-full max-w-full"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Effects */}
             <Card>
               <CardHeader>
@@ -458,6 +709,188 @@ export default function ThemeEditorPage() {
               </CardContent>
             </Card>
 
+            {/* Caption */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Caption</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label>Position</Label>
+                  <Select
+                    value={theme.caption.position}
+                    onValueChange={(v) => updateCaption({ position: v as ThemeConfig["caption"]["position"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="below">Below the code</SelectItem>
+                      <SelectItem value="right">Right of the code</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {theme.caption.position !== "none" && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Font</Label>
+                        <Select
+                          value={theme.caption.font}
+                          onValueChange={(v) => updateCaption({ font: v as CaptionFont })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(CAPTION_FONTS) as CaptionFont[]).map((font) => (
+                              <SelectItem key={font} value={font}>
+                                {CAPTION_FONTS[font]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label>Size (pt)</Label>
+                        <Input
+                          type="number"
+                          min="4"
+                          max="24"
+                          step="0.5"
+                          value={theme.caption.size}
+                          onChange={(e) => updateCaption({ size: parseFloat(e.target.value) || 7 })}
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label>Color</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          type="color"
+                          value={theme.caption.color}
+                          onChange={(e) => updateCaption({ color: e.target.value })}
+                          className="h-10 w-16 p-1"
+                        />
+                        <Input
+                          value={theme.caption.color}
+                          onChange={(e) => updateCaption({ color: e.target.value })}
+                          className="flex-1"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label>Letter Spacing: {theme.caption.letterSpacing.toFixed(2)} em</Label>
+                      <Input
+                        type="range"
+                        min="0"
+                        max="0.5"
+                        step="0.01"
+                        value={theme.caption.letterSpacing}
+                        onChange={(e) => updateCaption({ letterSpacing: parseFloat(e.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <Label>Prefix</Label>
+                      <Input
+                        placeholder="e.g. Listen:"
+                        maxLength={24}
+                        value={theme.caption.prefix ?? ""}
+                        onChange={(e) => updateCaption({ prefix: e.target.value || undefined })}
+                      />
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Logo */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Logo</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label>Image</Label>
+                  <Select
+                    value={theme.logo?.assetId ?? "none"}
+                    onValueChange={(v) => updateLogo(v === "none" ? null : { assetId: v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {assets.map((asset) => (
+                        <SelectItem key={asset.id} value={asset.id}>
+                          {asset.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Upload PNG or SVG</Label>
+                  <Input
+                    type="file"
+                    accept="image/png,image/svg+xml"
+                    disabled={uploading}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) handleLogoUpload(file)
+                      e.target.value = ""
+                    }}
+                  />
+                </div>
+                {theme.logo && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Position</Label>
+                        <Select
+                          value={theme.logo.position}
+                          onValueChange={(v) => updateLogo({ position: v as "start" | "end" })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="start">Start of the bars</SelectItem>
+                            <SelectItem value="end">End of the bars</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label>Quiet Zone (mm)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="20"
+                          step="0.1"
+                          value={theme.logo.quietZone}
+                          onChange={(e) => updateLogo({ quietZone: parseFloat(e.target.value) || 0 })}
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label>
+                        Size: {theme.logo.size}% of the{" "}
+                        {theme.layout.mode === "circular" || theme.layout.mode === "arc" ? "ring's hole" : "bar height"}
+                      </Label>
+                      <Input
+                        type="range"
+                        min="10"
+                        max="100"
+                        value={theme.logo.size}
+                        onChange={(e) => updateLogo({ size: parseInt(e.target.value) })}
+                      />
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Dimensions */}
             <Card>
               <CardHeader>
@@ -583,7 +1016,11 @@ export default function ThemeEditorPage() {
                   disabled={regenerating}
                 >
                   <RefreshCw className={`mr-2 h-4 w-4 ${regenerating ? "animate-spin" : ""}`} />
-                  {regenerating ? "Regenerating..." : "Apply Theme & Regenerate All Codes"}
+                  {regenerating
+                    ? regenerationProgress && regenerationProgress.total > 0
+                      ? `Regenerating ${regenerationProgress.done}/${regenerationProgress.total}...`
+                      : "Regenerating..."
+                    : "Apply Theme & Regenerate All Codes"}
                 </Button>
                 <p className="text-sm text-muted-foreground text-center">
                   This will regenerate all code images with the saved theme.
@@ -10,6 +10,13 @@ import { z } from "zod"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ArrowLeft } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
@@ -19,19 +26,42 @@ const bookSchema = z.object({
   author: z.string().min(1, "Author is required").max(255),
   isbn: z.string().optional(),
   pageCount: z.number().int().min(1, "Page count must be at least 1").max(10000),
+  codeProfile: z.string().min(1),  // INHERIT_PROFILE for the publisher's default
 })
 
+// Select value for "no profile of its own": the book follows its publisher's
+// profile, then standard
+const INHERIT_PROFILE = "inherit"
+
 type BookFormData = z.infer<typeof bookSchema>
 
+interface CodeProfileOption {
+  name: string
+  length: number
+  prefix: string
+  checkCharacter: boolean
+  builtIn: boolean
+}
+
+function describeProfile(profile: CodeProfileOption): string {
+  const total = profile.prefix.length + profile.length + (profile.checkCharacter ? 1 : 0)
+  if (profile.name === "standard") return `Standard (${total} characters)`
+  if (profile.name === "checked") return `Typo-resistant (${total} characters, with check character)`
+  return `${profile.name} (${total} characters${profile.prefix ? `, prefix ${profile.prefix}` : ""})`
+}
+
 export default function NewBookPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const { toast } = useToast()
   const [loading, setLoading] = useState(false)
+  const [codeProfiles, setCodeProfiles] = useState<CodeProfileOption[]>([])
 
   const {
     register,
     handleSubmit,
+    setValue,
+    watch,
     formState: { errors },
   } = useForm<BookFormData>({
     resolver: zodResolver(bookSchema),
@@ -40,9 +70,18 @@ export default function NewBookPage() {
       author: "",
       isbn: "",
       pageCount: 1,
+      codeProfile: INHERIT_PROFILE,
     },
   })
 
+  useEffect(() => {
+    if (status !== "authenticated") return
+    fetch("/api/admin/code-profiles")
+      .then((response) => (response.ok ? response.json() : { profiles: [] }))
+      .then((data) => setCodeProfiles(data.profiles))
+      .catch(() => setCodeProfiles([]))
+  }, [status])
+
   useEffect(() => {
     if (status === "unauthenticated") {
       router.push("/admin/login")
@@ -55,7 +94,10 @@ export default function NewBookPage() {
       const response = await fetch("/api/admin/books", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...data,
+          codeProfile: data.codeProfile === INHERIT_PROFILE ? null : data.codeProfile,
+        }),
       })
 
       if (!response.ok) {
@@ -156,6 +198,29 @@ export default function NewBookPage() {
                 )}
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="codeProfile">Code Format</Label>
+                <Select
+                  value={watch("codeProfile")}
+                  onValueChange={(v) => setValue("codeProfile", v)}
+                >
+                  <SelectTrigger id="codeProfile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={INHERIT_PROFILE}>Publisher default (otherwise Standard)</SelectItem>
+                    {codeProfiles.map((profile) => (
+                      <SelectItem key={profile.name} value={profile.name}>
+                        {describeProfile(profile)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Typo-resistant codes avoid look-alike characters (O/0, I/1) and catch mistyped codes.
+                </p>
+              </div>
+
               <div className="flex gap-4 pt-4">
                 <Button type="submit" disabled={loading}>
                   {loading ? "Creating..." : "Create Book"}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import { deleteBookAsset, BookAssetError } from '@/lib/services/bookAssets'
+
+interface RouteParams {
+  params: Promise<{ id: string; assetId: string }>
+}
+
+// DELETE /api/admin/books/[id]/assets/[assetId] - Delete an asset the theme doesn't use
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id: bookId, assetId } = await params
+
+    await deleteBookAsset(bookId, assetId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof BookAssetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error deleting asset:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete asset' },
+      { status: 500 }
+    )
+  }
+}
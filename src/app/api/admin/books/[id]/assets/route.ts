@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import {
+  createBookAsset,
+  listBookAssets,
+  BookAssetError,
+  MAX_ASSET_BYTES,
+} from '@/lib/services/bookAssets'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/admin/books/[id]/assets - List the book's uploaded assets
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id: bookId } = await params
+
+    const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } })
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ assets: await listBookAssets(bookId) })
+  } catch (error) {
+    console.error('Error listing assets:', error)
+    return NextResponse.json(
+      { error: 'Failed to list assets' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/books/[id]/assets - Upload a PNG or SVG (multipart field "file", optional "name")
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id: bookId } = await params
+
+    if (!(request.headers.get('content-type') || '').startsWith('multipart/form-data')) {
+      return NextResponse.json({ error: 'Upload the image as multipart/form-data' }, { status: 400 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'A file is required (multipart field "file")' }, { status: 400 })
+    }
+    if (file.size > MAX_ASSET_BYTES) {
+      return NextResponse.json({ error: 'The file is too large (max 2MB)' }, { status: 413 })
+    }
+
+    const name = formData.get('name')
+    const asset = await createBookAsset(
+      bookId,
+      (typeof name === 'string' && name.trim() ? name.trim() : file.name || 'logo').slice(0, 200),
+      Buffer.from(await file.arrayBuffer()),
+      file.type
+    )
+
+    return NextResponse.json(asset, { status: 201 })
+  } catch (error) {
+    if (error instanceof BookAssetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error uploading asset:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload asset' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,14 +2,15 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/authOptions'
 import prisma from '@/lib/db/prisma'
-import archiver from 'archiver'
-import { generatePrintableWaveCode } from '@/lib/services/imageGenerator'
+import { streamBookExport } from '@/lib/services/bookExport'
+import { downloadSchema } from '@/lib/utils/validation'
+import { pagePlacement } from '@/lib/types/placement'
 
 interface RouteParams {
   params: Promise<{ id: string }>
 }
 
-// GET /api/admin/books/[id]/download - Download ZIP of all code images
+// GET /api/admin/books/[id]/download - Download ZIP of all code images (?format=png|svg|pdf|pdfx|tiff&manifest=csv|json|xml&profile=standard|datamerge)
 export async function GET(request: NextRequest, { params }: RouteParams) {
   const session = await getServerSession(authOptions)
 
@@ -19,6 +20,20 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
   try {
     const { id: bookId } = await params
+    const { searchParams } = new URL(request.url)
+
+    const validated = downloadSchema.safeParse({
+      ...Object.fromEntries(searchParams),
+      chapter: searchParams.getAll('chapter'),
+    })
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
+    const { format, manifest, profile, encoding, columns, pageLabel, chapter } = validated.data
+    const dataMerge = profile === 'datamerge' ? { columns, encoding, pageLabel, chapters: chapter } : undefined
 
     // Get book with pages
     const book = await prisma.book.findUnique({
@@ -41,61 +56,22 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    // Create ZIP archive in memory
-    const chunks: Uint8Array[] = []
-
-    const archive = archiver('zip', {
-      zlib: { level: 9 },
-    })
-
-    archive.on('data', (chunk) => {
-      chunks.push(chunk)
-    })
-
-    const archiveFinished = new Promise<void>((resolve, reject) => {
-      archive.on('end', resolve)
-      archive.on('error', reject)
-    })
-
-    // Add images to archive
-    for (const page of book.pages) {
-      // Regenerate image to ensure fresh copy
-      const imageBuffer = await generatePrintableWaveCode(page.code)
-      const pageNumPadded = page.pageNumber.toString().padStart(3, '0')
-      const filename = `page_${pageNumPadded}_${page.code}.png`
-
-      archive.append(imageBuffer, { name: filename })
-    }
-
-    // Add manifest CSV
-    const manifestContent = [
-      'page_number,code,audio_link',
-      ...book.pages.map(
-        (p: { pageNumber: number; code: string; audioLink: string }) =>
-          `${p.pageNumber},"${p.code}","${p.audioLink}"`
-      ),
-    ].join('\n')
-
-    archive.append(manifestContent, { name: 'manifest.csv' })
-
-    // Finalize archive
-    archive.finalize()
-    await archiveFinished
-
-    // Combine chunks into buffer
-    const buffer = Buffer.concat(chunks)
-
     // Create filename
     const safeTitle = book.title.replace(/[^a-zA-Z0-9]/g, '_')
     const timestamp = new Date().toISOString().split('T')[0]
-    const filename = `${safeTitle}_codes_${timestamp}.zip`
-
-    // Return ZIP file
-    return new NextResponse(buffer, {
+    const suffix = (format === 'png' ? '' : `_${format}`) + (dataMerge ? '_datamerge' : '')
+    const filename = `${safeTitle}_codes${suffix}_${timestamp}.zip`
+
+    // Stream the ZIP as it is written: themed images (from the render cache
+    // where possible), the manifest, datamerge.csv for the data merge
+    // profile and errors.txt for pages that failed
+    const pages = book.pages.map((page) => ({ ...page, placement: pagePlacement(page) }))
+    return new Response(streamBookExport(book, pages, format, { manifest, dataMerge }), {
       headers: {
         'Content-Type': 'application/zip',
         'Content-Disposition': `attachment; filename="${filename}"`,
-        'Content-Length': buffer.length.toString(),
+        'Cache-Control': 'no-store',
+        'X-Accel-Buffering': 'no',
       },
     })
   } catch (error) {
@@ -2,20 +2,19 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/authOptions'
 import prisma from '@/lib/db/prisma'
-import { generateUniqueCode } from '@/lib/services/codeGenerator'
-import { generatePrintableWaveCode } from '@/lib/services/imageGenerator'
-import { uploadWaveCodeImage, isGCSConfigured } from '@/lib/services/gcsUpload'
+import { enqueueJob } from '@/lib/jobs/queue'
+import { runIdempotent, hashRequest, IdempotencyError } from '@/lib/services/idempotency'
+import { createPagesSchema } from '@/lib/utils/validation'
 
 interface RouteParams {
   params: Promise<{ id: string }>
 }
 
-interface AudioLinkInput {
-  pageNumber: number
-  audioLink: string
-}
-
-// POST /api/admin/books/[id]/generate-codes - Generate codes for all pages
+// POST /api/admin/books/[id]/generate-codes - Queue code generation for all pages
+// Returns 202 with a job id; poll GET /api/admin/jobs/[id] for progress.
+// Pages whose audio link is unchanged keep their codes; nothing changes
+// unless every page succeeds. Send an Idempotency-Key header so a retried
+// request returns the same job instead of queueing another.
 export async function POST(request: NextRequest, { params }: RouteParams) {
   const session = await getServerSession(authOptions)
 
@@ -26,16 +25,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id: bookId } = await params
     const body = await request.json()
-    const { audioLinks } = body as { audioLinks: AudioLinkInput[] }
-
-    // Verify book exists
-    const book = await prisma.book.findUnique({
-      where: { id: bookId },
-    })
-
-    if (!book) {
-      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
-    }
+    const { audioLinks } = body as { audioLinks: unknown }
 
     // Validate audio links
     if (!audioLinks || !Array.isArray(audioLinks) || audioLinks.length === 0) {
@@ -45,114 +35,62 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    // Delete existing pages for this book
-    await prisma.page.deleteMany({
-      where: { bookId },
-    })
-
-    // Generate codes and images for each page
-    const results: {
-      pageNumber: number
-      code: string
-      imageUrl: string
-      success: boolean
-      error?: string
-    }[] = []
-
-    const existingCodes = new Set<string>()
-
-    for (const { pageNumber, audioLink } of audioLinks) {
-      try {
-        // Generate unique code (retry if collision)
-        let code: string
-        let attempts = 0
-        const maxAttempts = 10
-
-        do {
-          code = generateUniqueCode()
-          attempts++
-        } while (
-          (existingCodes.has(code) ||
-            (await prisma.page.findUnique({ where: { code } }))) &&
-          attempts < maxAttempts
-        )
-
-        if (attempts >= maxAttempts) {
-          results.push({
-            pageNumber,
-            code: '',
-            imageUrl: '',
-            success: false,
-            error: 'Failed to generate unique code',
-          })
-          continue
-        }
-
-        existingCodes.add(code)
-
-        // Generate wave code image
-        const imageBuffer = await generatePrintableWaveCode(code)
+    const validated = createPagesSchema.safeParse(audioLinks)
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
 
-        // Upload to GCS or local storage
-        let imageUrl: string
-        if (isGCSConfigured()) {
-          imageUrl = await uploadWaveCodeImage(bookId, code, imageBuffer)
-        } else {
-          // For local development, store as base64 data URL
-          imageUrl = `data:image/png;base64,${imageBuffer.toString('base64')}`
-        }
+    const book = await prisma.book.findUnique({
+      where: { id: bookId },
+      select: { id: true },
+    })
 
-        // Create page record
-        await prisma.page.create({
-          data: {
-            bookId,
-            pageNumber,
-            code,
-            audioLink,
-            imageUrl,
-          },
-        })
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    }
 
-        results.push({
-          pageNumber,
-          code,
-          imageUrl,
-          success: true,
-        })
-      } catch (error) {
-        console.error(`Error generating code for page ${pageNumber}:`, error)
-        results.push({
-          pageNumber,
-          code: '',
-          imageUrl: '',
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        })
-      }
+    const pageNumbers = new Set(validated.data.map((link) => link.pageNumber))
+    if (pageNumbers.size !== validated.data.length) {
+      return NextResponse.json({ error: 'Page numbers must be unique' }, { status: 400 })
     }
 
-    // Update book page count if different
-    const successfulPages = results.filter(r => r.success).length
-    if (book.pageCount !== successfulPages) {
-      await prisma.book.update({
-        where: { id: bookId },
-        data: { pageCount: successfulPages },
-      })
+    const generate = async () => {
+      const job = await enqueueJob(
+        'generate-codes',
+        { bookId, audioLinks: validated.data },
+        { bookId }
+      )
+      return {
+        status: 202,
+        body: { jobId: job.id, status: job.status },
+      }
     }
 
-    const failedCount = results.filter(r => !r.success).length
+    const idempotencyKey = request.headers.get('idempotency-key')
+    const { status, body: responseBody, replayed } = idempotencyKey
+      ? await runIdempotent(
+          `generate-codes:${bookId}`,
+          idempotencyKey,
+          hashRequest(validated.data),
+          generate
+        )
+      : { ...(await generate()), replayed: false }
 
-    return NextResponse.json({
-      success: failedCount === 0,
-      totalPages: audioLinks.length,
-      successfulPages,
-      failedPages: failedCount,
-      results,
+    return NextResponse.json(responseBody, {
+      status,
+      headers: replayed ? { 'Idempotent-Replayed': 'true' } : undefined,
     })
   } catch (error) {
+    if (error instanceof IdempotencyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error generating codes:', error)
     return NextResponse.json(
-      { error: 'Failed to generate codes' },
+      { error: 'Failed to queue code generation' },
       { status: 500 }
     )
   }
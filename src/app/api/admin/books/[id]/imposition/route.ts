@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { renderImposition, ImpositionError } from '@/lib/services/imposition'
+import { impositionSchema } from '@/lib/utils/validation'
+import { pagePlacement, PLACEMENT_SELECT } from '@/lib/types/placement'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/admin/books/[id]/imposition - Download print sheets (PDF) of all codes, or a page per code where it's placed (?layout=pages)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id: bookId } = await params
+    const { searchParams } = new URL(request.url)
+
+    const validated = impositionSchema.safeParse(Object.fromEntries(searchParams))
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const book = await prisma.book.findUnique({
+      where: { id: bookId },
+      select: {
+        title: true,
+        themeConfig: true,
+        pages: {
+          select: { pageNumber: true, code: true, symbologyVersion: true, ...PLACEMENT_SELECT },
+          orderBy: { pageNumber: 'asc' },
+        },
+      },
+    })
+
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    }
+
+    const pages = book.pages.map((page) => ({ ...page, placement: pagePlacement(page) }))
+    const pdf = await renderImposition(book, pages, validated.data)
+
+    const safeTitle = book.title.replace(/[^a-zA-Z0-9]/g, '_')
+    const timestamp = new Date().toISOString().split('T')[0]
+    const kind = validated.data.layout === 'pages' ? 'placement' : 'sheets'
+    const filename = `${safeTitle}_${kind}_${validated.data.sheet ?? 'A4'}_${timestamp}.pdf`
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': pdf.length.toString(),
+      },
+    })
+  } catch (error) {
+    if (error instanceof ImpositionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error creating print sheets:', error)
+    return NextResponse.json(
+      { error: 'Failed to create print sheets' },
+      { status: 500 }
+    )
+  }
+}
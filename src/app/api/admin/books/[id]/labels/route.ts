@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { renderLabelSheets, LabelSheetError } from '@/lib/services/labelSheets'
+import { findLabelTemplate } from '@/lib/services/labelTemplates'
+import { labelExportSchema } from '@/lib/utils/validation'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/admin/books/[id]/labels - Download the book's codes on sticker sheets (PDF)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id: bookId } = await params
+    const body = await request.json()
+    const validated = labelExportSchema.safeParse(body)
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { template: templateName, startPosition, pageIds, outlines } = validated.data
+
+    const template = await findLabelTemplate(templateName)
+    if (!template) {
+      return NextResponse.json({ error: 'Label template not found' }, { status: 404 })
+    }
+
+    const book = await prisma.book.findUnique({
+      where: { id: bookId },
+      select: {
+        title: true,
+        themeConfig: true,
+        pages: {
+          where: pageIds ? { id: { in: pageIds } } : undefined,
+          select: { pageNumber: true, code: true, symbologyVersion: true },
+          orderBy: { pageNumber: 'asc' },
+        },
+      },
+    })
+
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    }
+
+    const pdf = await renderLabelSheets(book, book.pages, template, { startPosition, outlines })
+
+    const safeTitle = book.title.replace(/[^a-zA-Z0-9]/g, '_')
+    const timestamp = new Date().toISOString().split('T')[0]
+    const filename = `${safeTitle}_labels_${template.name}_${timestamp}.pdf`
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': pdf.length.toString(),
+      },
+    })
+  } catch (error) {
+    if (error instanceof LabelSheetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error creating label sheets:', error)
+    return NextResponse.json(
+      { error: 'Failed to create label sheets' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { placementUpdateSchema } from '@/lib/utils/validation'
+import { placementColumns, NO_PLACEMENT } from '@/lib/types/placement'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// PATCH /api/admin/books/[id]/placement - Set or clear the placement of many pages at once
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id: bookId } = await params
+    const body = await request.json()
+    const validated = placementUpdateSchema.safeParse(body)
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { pageIds, placement } = validated.data
+
+    const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } })
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    }
+
+    const { count } = await prisma.page.updateMany({
+      where: { bookId, ...(pageIds ? { id: { in: pageIds } } : {}) },
+      data: placementColumns(placement ?? NO_PLACEMENT),
+    })
+
+    return NextResponse.json({ updated: count })
+  } catch (error) {
+    console.error('Error updating page placement:', error)
+    return NextResponse.json(
+      { error: 'Failed to update page placement' },
+      { status: 500 }
+    )
+  }
+}
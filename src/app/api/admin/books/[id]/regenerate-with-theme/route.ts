@@ -2,14 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/authOptions'
 import prisma from '@/lib/db/prisma'
-import { ThemeConfig, mergeWithDefault } from '@/lib/types/theme'
-import { generateThemedWaveCode } from '@/lib/services/imageGenerator'
+import { enqueueJob } from '@/lib/jobs/queue'
 
 interface RouteParams {
   params: Promise<{ id: string }>
 }
 
-// POST /api/admin/books/[id]/regenerate-with-theme - Regenerate all codes with theme
+// POST /api/admin/books/[id]/regenerate-with-theme - Queue regeneration of all codes with theme
+// Returns 202 with a job id; poll GET /api/admin/jobs/[id] for progress.
 export async function POST(request: NextRequest, { params }: RouteParams) {
   const session = await getServerSession(authOptions)
 
@@ -24,83 +24,29 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const book = await prisma.book.findUnique({
       where: { id: bookId },
-      select: {
-        id: true,
-        title: true,
-        themeConfig: true,
-        pages: {
-          select: {
-            id: true,
-            code: true,
-            pageNumber: true,
-          },
-          orderBy: { pageNumber: 'asc' },
-        },
-      },
+      select: { id: true },
     })
 
     if (!book) {
       return NextResponse.json({ error: 'Book not found' }, { status: 404 })
     }
 
-    const theme = mergeWithDefault(book.themeConfig as Partial<ThemeConfig> | null)
-
-    // Filter pages if specific IDs provided
-    let pagesToRegenerate = book.pages
-    if (pageIds && Array.isArray(pageIds) && pageIds.length > 0) {
-      pagesToRegenerate = book.pages.filter(
-        (p: { id: string }) => pageIds.includes(p.id)
-      )
-    }
-
-    if (pagesToRegenerate.length === 0) {
-      return NextResponse.json({
-        success: true,
-        message: 'No pages to regenerate',
-        regenerated: 0,
-      })
-    }
-
-    // Regenerate images for each page
-    // In a production environment, this would be done in a background job
-    const regenerationResults = await Promise.all(
-      pagesToRegenerate.map(async (page: { id: string; code: string; pageNumber: number }) => {
-        try {
-          // Generate new image with theme
-          const imageBuffer = await generateThemedWaveCode(page.code, theme)
-
-          // For now, we'll store as base64 data URL
-          // In production, you'd upload to cloud storage
-          const imageUrl = `data:image/png;base64,${imageBuffer.toString('base64')}`
-
-          // Update page with new image URL
-          await prisma.page.update({
-            where: { id: page.id },
-            data: { imageUrl },
-          })
-
-          return { pageId: page.id, success: true }
-        } catch (error) {
-          console.error(`Error regenerating page ${page.id}:`, error)
-          return { pageId: page.id, success: false, error: String(error) }
-        }
-      })
+    const job = await enqueueJob(
+      'regenerate-with-theme',
+      {
+        bookId,
+        pageIds: Array.isArray(pageIds)
+          ? pageIds.filter((id: unknown): id is string => typeof id === 'string')
+          : [],
+      },
+      { bookId }
     )
 
-    const successCount = regenerationResults.filter((r) => r.success).length
-    const failureCount = regenerationResults.filter((r) => !r.success).length
-
-    return NextResponse.json({
-      success: failureCount === 0,
-      message: `Regenerated ${successCount} of ${pagesToRegenerate.length} pages`,
-      regenerated: successCount,
-      failed: failureCount,
-      results: regenerationResults,
-    })
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 })
   } catch (error) {
-    console.error('Error regenerating codes:', error)
+    console.error('Error queueing regeneration:', error)
     return NextResponse.json(
-      { error: 'Failed to regenerate codes' },
+      { error: 'Failed to queue regeneration' },
       { status: 500 }
     )
   }
@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/authOptions'
 import prisma from '@/lib/db/prisma'
+import { findCodeProfile } from '@/lib/services/codeProfiles'
 import { updateBookSchema } from '@/lib/utils/validation'
-import { deleteBookImages } from '@/lib/services/gcsUpload'
+import { deleteBookImages, deleteBookAssetFiles } from '@/lib/storage'
+import { invalidateBookRenders } from '@/lib/services/renderCache'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -65,6 +67,16 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       )
     }
 
+    const { codeProfile, publisherId } = validated.data
+
+    if (codeProfile && !(await findCodeProfile(codeProfile))) {
+      return NextResponse.json({ error: 'Unknown code profile' }, { status: 400 })
+    }
+
+    if (publisherId && !(await prisma.publisher.findUnique({ where: { id: publisherId } }))) {
+      return NextResponse.json({ error: 'Publisher not found' }, { status: 400 })
+    }
+
     const book = await prisma.book.update({
       where: { id },
       data: validated.data,
@@ -91,8 +103,10 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params
 
-    // Delete book images from GCS
+    // Delete book images, uploaded assets and cached renders from storage
     await deleteBookImages(id)
+    await deleteBookAssetFiles(id)
+    await invalidateBookRenders(id)
 
     // Delete book (pages will be deleted via cascade)
     await prisma.book.delete({
@@ -2,13 +2,29 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/authOptions'
 import prisma from '@/lib/db/prisma'
-import { ThemeConfig, mergeWithDefault } from '@/lib/types/theme'
-import { generateThemedWaveCodeDataUrl } from '@/lib/services/imageGenerator'
+import { ThemeConfig, LAYOUT_MODES, mergeWithDefault } from '@/lib/types/theme'
+import { cachedPreviewDataUrl } from '@/lib/services/renderCache'
+import { RenderPoolError } from '@/lib/services/renderPool'
+import { loadLogo, isBookAsset } from '@/lib/services/bookAssets'
+import {
+  SymbologyVersion,
+  CURRENT_SYMBOLOGY_VERSION,
+  parseSymbologyVersion,
+} from '@/lib/services/symbology'
 
 interface RouteParams {
   params: Promise<{ id: string }>
 }
 
+// Render existing pages in their own symbology; made-up samples in the current one
+function symbologyFor(
+  code: string,
+  pages: { code: string; symbologyVersion: string }[]
+): SymbologyVersion {
+  const page = pages.find((p) => p.code === code)
+  return page ? parseSymbologyVersion(page.symbologyVersion) : CURRENT_SYMBOLOGY_VERSION
+}
+
 // GET /api/admin/books/[id]/theme-preview - Generate preview images
 export async function GET(request: NextRequest, { params }: RouteParams) {
   const session = await getServerSession(authOptions)
@@ -29,7 +45,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         themeConfig: true,
         pages: {
           take: 5,
-          select: { code: true },
+          select: { code: true, symbologyVersion: true },
           orderBy: { pageNumber: 'asc' },
         },
       },
@@ -53,17 +69,28 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     const theme = mergeWithDefault(book.themeConfig as Partial<ThemeConfig> | null)
+    const logo = await loadLogo(theme)
 
     // Generate preview images
     const samples = await Promise.all(
       sampleCodes.map(async (code) => ({
         code,
-        imageUrl: await generateThemedWaveCodeDataUrl(code, theme),
+        imageUrl: await cachedPreviewDataUrl(
+          bookId,
+          code,
+          theme,
+          symbologyFor(code, book.pages),
+          logo
+        ),
       }))
     )
 
     return NextResponse.json({ samples })
   } catch (error) {
+    if (error instanceof RenderPoolError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error generating theme preview:', error)
     return NextResponse.json(
       { error: 'Failed to generate preview' },
@@ -83,7 +110,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id: bookId } = await params
     const body = await request.json()
-    const { themeConfig, sampleCodes = [] } = body
+    const { themeConfig, sampleCodes = [], layouts = false } = body
 
     const book = await prisma.book.findUnique({
       where: { id: bookId },
@@ -91,7 +118,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         id: true,
         pages: {
           take: 5,
-          select: { code: true },
+          select: { code: true, symbologyVersion: true },
           orderBy: { pageNumber: 'asc' },
         },
       },
@@ -111,17 +138,47 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     const theme = mergeWithDefault(themeConfig as Partial<ThemeConfig> | null)
+    // Only the book's own assets can be its logo
+    const logo = theme.logo && (await isBookAsset(bookId, theme.logo.assetId)) ? await loadLogo(theme) : null
 
     // Generate preview images with the provided theme
     const samples = await Promise.all(
       codes.map(async (code) => ({
         code,
-        imageUrl: await generateThemedWaveCodeDataUrl(code, theme),
+        imageUrl: await cachedPreviewDataUrl(
+          bookId,
+          code,
+          theme,
+          symbologyFor(code, book.pages),
+          logo
+        ),
       }))
     )
 
-    return NextResponse.json({ samples })
+    if (!layouts) {
+      return NextResponse.json({ samples })
+    }
+
+    // The first code in every layout mode, for picking between them
+    const layoutSamples = await Promise.all(
+      LAYOUT_MODES.map(async (mode) => ({
+        mode,
+        imageUrl: await cachedPreviewDataUrl(
+          bookId,
+          codes[0],
+          { ...theme, layout: { ...theme.layout, mode } },
+          symbologyFor(codes[0], book.pages),
+          logo
+        ),
+      }))
+    )
+
+    return NextResponse.json({ samples, layoutSamples })
   } catch (error) {
+    if (error instanceof RenderPoolError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error generating theme preview:', error)
     return NextResponse.json(
       { error: 'Failed to generate preview' },
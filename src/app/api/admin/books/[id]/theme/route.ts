@@ -2,7 +2,17 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/authOptions'
 import prisma from '@/lib/db/prisma'
-import { ThemeConfig, mergeWithDefault, validateTheme, PRESET_THEMES } from '@/lib/types/theme'
+import {
+  ThemeConfig,
+  CaptionFont,
+  CAPTION_FONTS,
+  LAYOUT_MODES,
+  mergeWithDefault,
+  validateTheme,
+  PRESET_THEMES,
+} from '@/lib/types/theme'
+import { isBookAsset } from '@/lib/services/bookAssets'
+import { invalidateBookRenders } from '@/lib/services/renderCache'
 import { z } from 'zod'
 import { Prisma } from '@prisma/client'
 
@@ -10,6 +20,17 @@ interface RouteParams {
   params: Promise<{ id: string }>
 }
 
+// Print colour for a slot: CMYK percentages and/or a spot colour name
+const printColorSchema = z.object({
+  cmyk: z.tuple([
+    z.number().min(0).max(100),
+    z.number().min(0).max(100),
+    z.number().min(0).max(100),
+    z.number().min(0).max(100),
+  ]).optional(),
+  spot: z.string().trim().min(1).max(64).regex(/^[^#]/, 'Spot color names cannot start with #').optional(),
+})
+
 // Validation schema for theme config
 const themeConfigSchema = z.object({
   colorScheme: z.object({
@@ -18,6 +39,11 @@ const themeConfigSchema = z.object({
     secondary: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
     background: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
     gradientAngle: z.number().min(0).max(360).optional(),
+    print: z.object({
+      primary: printColorSchema.optional(),
+      secondary: printColorSchema.optional(),
+      background: printColorSchema.optional(),
+    }).optional(),
   }).optional(),
   barStyle: z.object({
     shape: z.enum(['rectangle', 'rounded', 'circular', 'triangle']),
@@ -36,6 +62,26 @@ const themeConfigSchema = z.object({
     height: z.number().min(1).max(50),
     dpi: z.number().min(72).max(1200),
   }).optional(),
+  caption: z.object({
+    position: z.enum(['below', 'right', 'none']),
+    font: z.enum(Object.keys(CAPTION_FONTS) as [CaptionFont, ...CaptionFont[]]),
+    size: z.number().min(4).max(24),
+    color: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+    letterSpacing: z.number().min(0).max(0.5),
+    // The bundled fonts only have Latin characters
+    prefix: z.string().max(24).regex(/^[\x20-\x7E\u00A0-\u00FF]*$/, 'Prefix can only use Latin characters').optional(),
+  }).optional(),
+  logo: z.object({
+    assetId: z.string().min(1),
+    position: z.enum(['start', 'end']),
+    size: z.number().min(10).max(100),
+    quietZone: z.number().min(0).max(20),
+  }).optional(),
+  layout: z.object({
+    mode: z.enum(LAYOUT_MODES),
+    arcAngle: z.number().min(60).max(300),
+    innerRadius: z.number().min(20).max(90),
+  }).optional(),
 })
 
 // GET /api/admin/books/[id]/theme - Get current theme config
@@ -106,6 +152,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         where: { id: bookId },
         data: { themeConfig: presetTheme as unknown as Prisma.InputJsonValue },
       })
+      await invalidateBookRenders(bookId)
 
       const fullTheme = mergeWithDefault(presetTheme)
       const warnings = validateTheme(fullTheme)
@@ -136,11 +183,17 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Book not found' }, { status: 404 })
     }
 
+    const { logo } = validated.data
+    if (logo && !(await isBookAsset(bookId, logo.assetId))) {
+      return NextResponse.json({ error: 'Logo asset not found for this book' }, { status: 400 })
+    }
+
     // Update theme config
     await prisma.book.update({
       where: { id: bookId },
       data: { themeConfig: validated.data as unknown as Prisma.InputJsonValue },
     })
+    await invalidateBookRenders(bookId)
 
     const fullTheme = mergeWithDefault(validated.data as Partial<ThemeConfig>)
     const warnings = validateTheme(fullTheme)
@@ -183,6 +236,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       where: { id: bookId },
       data: { themeConfig: Prisma.DbNull },
     })
+    await invalidateBookRenders(bookId)
 
     return NextResponse.json({
       success: true,
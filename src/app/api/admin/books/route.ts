@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/authOptions'
 import prisma from '@/lib/db/prisma'
+import { findCodeProfile } from '@/lib/services/codeProfiles'
 import { createBookSchema } from '@/lib/utils/validation'
 
 // GET /api/admin/books - List all books
@@ -82,6 +83,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const { codeProfile, publisherId } = validated.data
+
+    if (codeProfile && !(await findCodeProfile(codeProfile))) {
+      return NextResponse.json({ error: 'Unknown code profile' }, { status: 400 })
+    }
+
+    if (publisherId && !(await prisma.publisher.findUnique({ where: { id: publisherId } }))) {
+      return NextResponse.json({ error: 'Publisher not found' }, { status: 400 })
+    }
+
     const book = await prisma.book.create({
       data: validated.data,
     })
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+
+interface RouteParams {
+  params: Promise<{ name: string }>
+}
+
+// DELETE /api/admin/code-profiles/[name] - Delete an unused custom code profile
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { name } = await params
+
+    const profile = await prisma.codeProfile.findUnique({ where: { name } })
+    if (!profile) {
+      return NextResponse.json({ error: 'Code profile not found' }, { status: 404 })
+    }
+
+    const [books, publishers] = await Promise.all([
+      prisma.book.count({ where: { codeProfile: name } }),
+      prisma.publisher.count({ where: { codeProfile: name } }),
+    ])
+
+    if (books > 0 || publishers > 0) {
+      return NextResponse.json(
+        { error: 'Code profile is in use by books or publishers' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.codeProfile.delete({ where: { name } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting code profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete code profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { isBuiltInCodeProfile } from '@/lib/services/codeGenerator'
+import { listCodeProfiles } from '@/lib/services/codeProfiles'
+import { createCodeFilter } from '@/lib/services/codeFilter'
+import { codeProfileSchema } from '@/lib/utils/validation'
+
+// GET /api/admin/code-profiles - List built-in and custom code profiles
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const profiles = await listCodeProfiles()
+
+    return NextResponse.json({
+      profiles: profiles.map((profile) => ({
+        ...profile,
+        builtIn: isBuiltInCodeProfile(profile.name),
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching code profiles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch code profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/code-profiles - Create a custom code profile
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const validated = codeProfileSchema.safeParse(body)
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { name, prefix } = validated.data
+
+    if (await prisma.codeProfile.findUnique({ where: { name } })) {
+      return NextResponse.json(
+        { error: 'A code profile with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    // Every code would carry the prefix, so a denied prefix would block allocation
+    if (prefix && createCodeFilter()(prefix)) {
+      return NextResponse.json(
+        { error: 'Prefix contains a denied word' },
+        { status: 400 }
+      )
+    }
+
+    // Reserve the prefix so other profiles never allocate codes that start with it
+    const profile = await prisma.$transaction(async (tx) => {
+      const created = await tx.codeProfile.create({ data: validated.data })
+      if (prefix) {
+        await tx.reservedCodePrefix.upsert({
+          where: { prefix },
+          create: { prefix, note: `Code profile ${name}` },
+          update: {},
+        })
+      }
+      return created
+    })
+
+    return NextResponse.json(profile, { status: 201 })
+  } catch (error) {
+    console.error('Error creating code profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to create code profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import { getNamespaceUsage } from '@/lib/services/codeAllocator'
+
+// GET /api/admin/codes/namespaces - Report how much of each code namespace is free
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const namespaces = await getNamespaceUsage()
+
+    return NextResponse.json({ namespaces })
+  } catch (error) {
+    console.error('Error fetching code namespaces:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch code namespaces' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { profileCodeFilter } from '@/lib/services/codeAllocator'
+import { resolveBookCodeProfile } from '@/lib/services/codeProfiles'
+import type { CodeFilter } from '@/lib/services/codeFilter'
+
+const BATCH_SIZE = 1000
+
+// GET /api/admin/codes/scan - Find existing codes that the code filter would reject
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const reserved = await prisma.reservedCodePrefix.findMany({
+      select: { prefix: true },
+    })
+    const prefixes = reserved.map((r: { prefix: string }) => r.prefix)
+
+    // Each page is checked with its book's profile's filter, which exempts
+    // the profile's own reserved prefix, as allocation does
+    const filters = new Map<string, CodeFilter>()
+    async function filterFor(book: {
+      codeProfile: string | null
+      publisher: { codeProfile: string | null } | null
+    }): Promise<CodeFilter> {
+      const key = book.codeProfile ?? book.publisher?.codeProfile ?? ''
+      let filter = filters.get(key)
+      if (!filter) {
+        filter = profileCodeFilter(await resolveBookCodeProfile(book), prefixes)
+        filters.set(key, filter)
+      }
+      return filter
+    }
+
+    const matches: {
+      pageId: string
+      bookId: string
+      bookTitle: string
+      pageNumber: number
+      code: string
+      rule: string
+      term: string
+    }[] = []
+
+    // Walk all pages in id order, a batch at a time
+    let scanned = 0
+    let cursor: string | undefined
+    for (;;) {
+      const pages = await prisma.page.findMany({
+        take: BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        orderBy: { id: 'asc' },
+        select: {
+          id: true,
+          bookId: true,
+          pageNumber: true,
+          code: true,
+          book: {
+            select: {
+              title: true,
+              codeProfile: true,
+              publisher: { select: { codeProfile: true } },
+            },
+          },
+        },
+      })
+
+      for (const page of pages) {
+        const match = (await filterFor(page.book))(page.code)
+        if (match) {
+          matches.push({
+            pageId: page.id,
+            bookId: page.bookId,
+            bookTitle: page.book.title,
+            pageNumber: page.pageNumber,
+            code: page.code,
+            rule: match.rule,
+            term: match.term,
+          })
+        }
+      }
+
+      scanned += pages.length
+      if (pages.length < BATCH_SIZE) break
+      cursor = pages[pages.length - 1].id
+    }
+
+    return NextResponse.json({
+      scanned,
+      matchCount: matches.length,
+      matches,
+    })
+  } catch (error) {
+    console.error('Error scanning codes:', error)
+    return NextResponse.json(
+      { error: 'Failed to scan codes' },
+      { status: 500 }
+    )
+  }
+}
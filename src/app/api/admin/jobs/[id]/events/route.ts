@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { isTerminalStatus } from '@/lib/jobs/queue'
+import {
+  listJobEvents,
+  parseLastEventId,
+  formatSseEvent,
+  type JobEventRecord,
+} from '@/lib/jobs/events'
+
+export const dynamic = 'force-dynamic'
+
+const POLL_INTERVAL_MS = 500
+const HEARTBEAT_INTERVAL_MS = 15000
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+function isTerminalEvent(event: JobEventRecord): boolean {
+  const data = event.data as { status?: string } | null
+  return event.type === 'status' && !!data?.status && isTerminalStatus(data.status)
+}
+
+// GET /api/admin/jobs/[id]/events - Stream job events as Server-Sent Events
+// Sends status, progress and page events and closes once the job finishes.
+// Reconnecting clients resume after the Last-Event-ID header (EventSource
+// sends it automatically) or the lastEventId query parameter.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const job = await prisma.job.findUnique({ where: { id }, select: { id: true } })
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    let cursor = parseLastEventId(
+      request.headers.get('last-event-id') ?? searchParams.get('lastEventId')
+    )
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let lastWrite = Date.now()
+        const send = (message: string) => {
+          controller.enqueue(encoder.encode(message))
+          lastWrite = Date.now()
+        }
+
+        // Returns true once the job's final status has been sent
+        const flush = async (): Promise<boolean> => {
+          const events = await listJobEvents(id, cursor)
+          for (const event of events) {
+            send(formatSseEvent({ id: event.id, event: event.type, data: event.data }))
+            cursor = event.id
+          }
+          return events.some(isTerminalEvent)
+        }
+
+        try {
+          send('retry: 2000\n\n')
+
+          while (!request.signal.aborted) {
+            if (await flush()) break
+
+            // Jobs can finish without an event (e.g. a dead worker's job
+            // failed by the stale lock sweep), so check the row as well
+            const current = await prisma.job.findUnique({
+              where: { id },
+              select: { status: true, error: true, result: true },
+            })
+            if (!current || isTerminalStatus(current.status)) {
+              if (!(await flush())) {
+                send(formatSseEvent({
+                  event: 'status',
+                  data: current ?? { status: 'cancelled' },
+                }))
+              }
+              break
+            }
+
+            if (Date.now() - lastWrite > HEARTBEAT_INTERVAL_MS) {
+              send(': heartbeat\n\n')
+            }
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+          }
+        } catch (error) {
+          console.error('Error streaming job events:', error)
+        } finally {
+          try {
+            controller.close()
+          } catch {
+            // Already closed by a disconnected client
+          }
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('Error streaming job:', error)
+    return NextResponse.json(
+      { error: 'Failed to stream job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { cancelJob } from '@/lib/jobs/queue'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/admin/jobs/[id] - Get job status and progress
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const job = await prisma.job.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        bookId: true,
+        progress: true,
+        total: true,
+        attempts: true,
+        maxAttempts: true,
+        cancelRequested: true,
+        error: true,
+        result: true,
+        createdAt: true,
+        startedAt: true,
+        finishedAt: true,
+      },
+    })
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Error fetching job:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/jobs/[id] - Cancel a job
+// Queued jobs are cancelled at once; running jobs stop at their next progress
+// report without committing anything.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const status = await cancelJob(id)
+
+    if (!status) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    if (status !== 'cancelled' && status !== 'running') {
+      return NextResponse.json(
+        { error: `Job already ${status}` },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      status,
+      cancelRequested: true,
+    })
+  } catch (error) {
+    console.error('Error cancelling job:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    )
+  }
+}
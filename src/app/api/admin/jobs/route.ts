@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+
+// GET /api/admin/jobs - List recent jobs, optionally for one book
+// ?active=true only returns queued and running jobs, e.g. to reattach to
+// a job after a page reload.
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const bookId = searchParams.get('bookId')
+    const type = searchParams.get('type')
+    const active = searchParams.get('active') === 'true'
+
+    const jobs = await prisma.job.findMany({
+      where: {
+        ...(bookId ? { bookId } : {}),
+        ...(type ? { type } : {}),
+        ...(active ? { status: { in: ['queued', 'running'] } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        bookId: true,
+        progress: true,
+        total: true,
+        attempts: true,
+        error: true,
+        createdAt: true,
+        startedAt: true,
+        finishedAt: true,
+      },
+    })
+
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    console.error('Error fetching jobs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+
+interface RouteParams {
+  params: Promise<{ name: string }>
+}
+
+// DELETE /api/admin/label-templates/[name] - Delete a custom label template
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { name } = await params
+
+    const { count } = await prisma.labelTemplate.deleteMany({ where: { name } })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Label template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting label template:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete label template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { isBuiltInLabelTemplate, labelsPerSheet } from '@/lib/services/labelSheets'
+import { listLabelTemplates } from '@/lib/services/labelTemplates'
+import { labelTemplateSchema } from '@/lib/utils/validation'
+
+// GET /api/admin/label-templates - List built-in and custom label templates
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const templates = await listLabelTemplates()
+
+    return NextResponse.json({
+      templates: templates.map((template) => ({
+        ...template,
+        labelsPerSheet: labelsPerSheet(template),
+        builtIn: isBuiltInLabelTemplate(template.name),
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching label templates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch label templates' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/label-templates - Create a custom label template
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const validated = labelTemplateSchema.safeParse(body)
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (await prisma.labelTemplate.findUnique({ where: { name: validated.data.name } })) {
+      return NextResponse.json(
+        { error: 'A label template with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const template = await prisma.labelTemplate.create({ data: validated.data })
+
+    return NextResponse.json(template, { status: 201 })
+  } catch (error) {
+    console.error('Error creating label template:', error)
+    return NextResponse.json(
+      { error: 'Failed to create label template' },
+      { status: 500 }
+    )
+  }
+}
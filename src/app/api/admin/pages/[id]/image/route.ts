@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { cachedPageOutput } from '@/lib/services/renderCache'
+import { RenderPoolError } from '@/lib/services/renderPool'
+import { exportImageName } from '@/lib/services/bookExport'
+import { outputFormatSchema } from '@/lib/utils/validation'
+import { pagePlacement, PLACEMENT_SELECT } from '@/lib/types/placement'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/admin/pages/[id]/image - Render a page's code (?format=png|svg|pdf|pdfx|tiff)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id: pageId } = await params
+    const { searchParams } = new URL(request.url)
+
+    const format = outputFormatSchema.safeParse(searchParams.get('format') ?? undefined)
+    if (!format.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: format.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const page = await prisma.page.findUnique({
+      where: { id: pageId },
+      select: {
+        pageNumber: true,
+        code: true,
+        symbologyVersion: true,
+        ...PLACEMENT_SELECT,
+        book: { select: { id: true, themeConfig: true } },
+      },
+    })
+
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 })
+    }
+
+    const output = await cachedPageOutput({ ...page, placement: pagePlacement(page) }, page.book, format.data)
+    const filename = exportImageName(page, output.extension)
+
+    return new NextResponse(new Uint8Array(output.body), {
+      headers: {
+        'Content-Type': output.contentType,
+        'Content-Disposition': `${searchParams.get('download') === 'true' ? 'attachment' : 'inline'}; filename="${filename}"`,
+        'Content-Length': output.body.length.toString(),
+        'Cache-Control': 'private, no-cache',
+      },
+    })
+  } catch (error) {
+    if (error instanceof RenderPoolError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error rendering page image:', error)
+    return NextResponse.json(
+      { error: 'Failed to render page image' },
+      { status: 500 }
+    )
+  }
+}
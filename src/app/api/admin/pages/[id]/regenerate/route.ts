@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/authOptions'
-import prisma from '@/lib/db/prisma'
-import { generateUniqueCode } from '@/lib/services/codeGenerator'
-import { generatePrintableWaveCode } from '@/lib/services/imageGenerator'
-import { uploadWaveCodeImage, isGCSConfigured, deleteFromGCS } from '@/lib/services/gcsUpload'
+import { regeneratePage, PageGenerationError } from '@/lib/services/pageGeneration'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -20,70 +17,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
   try {
     const { id: pageId } = await params
-
-    // Get existing page
-    const page = await prisma.page.findUnique({
-      where: { id: pageId },
-      include: { book: true },
-    })
-
-    if (!page) {
-      return NextResponse.json({ error: 'Page not found' }, { status: 404 })
-    }
-
-    const oldCode = page.code
-
-    // Generate new unique code
-    let newCode: string
-    let attempts = 0
-    const maxAttempts = 10
-
-    do {
-      newCode = generateUniqueCode()
-      attempts++
-      const existing = await prisma.page.findUnique({
-        where: { code: newCode },
-      })
-      if (!existing) break
-    } while (attempts < maxAttempts)
-
-    if (attempts >= maxAttempts) {
-      return NextResponse.json(
-        { error: 'Failed to generate unique code' },
-        { status: 500 }
-      )
-    }
-
-    // Generate new wave code image
-    const imageBuffer = await generatePrintableWaveCode(newCode)
-
-    // Upload to GCS or local storage
-    let imageUrl: string
-    if (isGCSConfigured()) {
-      // Delete old image
-      await deleteFromGCS(`books/${page.bookId}/${oldCode}.png`)
-      // Upload new image
-      imageUrl = await uploadWaveCodeImage(page.bookId, newCode, imageBuffer)
-    } else {
-      imageUrl = `data:image/png;base64,${imageBuffer.toString('base64')}`
-    }
-
-    // Update page record
-    const updatedPage = await prisma.page.update({
-      where: { id: pageId },
-      data: {
-        code: newCode,
-        imageUrl,
-      },
-    })
+    const { page, oldCode, newCode } = await regeneratePage(pageId)
 
     return NextResponse.json({
       success: true,
-      page: updatedPage,
+      page,
       oldCode,
       newCode,
     })
   } catch (error) {
+    if (error instanceof PageGenerationError && error.status < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error regenerating code:', error)
     return NextResponse.json(
       { error: 'Failed to regenerate code' },
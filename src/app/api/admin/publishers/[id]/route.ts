@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { findCodeProfile } from '@/lib/services/codeProfiles'
+import { updatePublisherSchema } from '@/lib/utils/validation'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/admin/publishers/[id] - Get publisher with its books
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const publisher = await prisma.publisher.findUnique({
+      where: { id },
+      include: {
+        books: {
+          select: { id: true, title: true, author: true, codeProfile: true },
+          orderBy: { title: 'asc' },
+        },
+      },
+    })
+
+    if (!publisher) {
+      return NextResponse.json({ error: 'Publisher not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(publisher)
+  } catch (error) {
+    console.error('Error fetching publisher:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch publisher' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/admin/publishers/[id] - Update publisher
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validated = updatePublisherSchema.safeParse(body)
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { codeProfile } = validated.data
+    if (codeProfile && !(await findCodeProfile(codeProfile))) {
+      return NextResponse.json({ error: 'Unknown code profile' }, { status: 400 })
+    }
+
+    const publisher = await prisma.publisher.update({
+      where: { id },
+      data: validated.data,
+    })
+
+    return NextResponse.json(publisher)
+  } catch (error) {
+    console.error('Error updating publisher:', error)
+    return NextResponse.json(
+      { error: 'Failed to update publisher' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/publishers/[id] - Delete publisher (books are kept)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+
+    await prisma.publisher.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting publisher:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete publisher' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { findCodeProfile } from '@/lib/services/codeProfiles'
+import { publisherSchema } from '@/lib/utils/validation'
+
+// GET /api/admin/publishers - List publishers
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const publishers = await prisma.publisher.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: { books: true },
+        },
+      },
+    })
+
+    return NextResponse.json({ publishers })
+  } catch (error) {
+    console.error('Error fetching publishers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch publishers' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/publishers - Create a publisher
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const validated = publisherSchema.safeParse(body)
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { codeProfile } = validated.data
+    if (codeProfile && !(await findCodeProfile(codeProfile))) {
+      return NextResponse.json({ error: 'Unknown code profile' }, { status: 400 })
+    }
+
+    const publisher = await prisma.publisher.create({
+      data: validated.data,
+    })
+
+    return NextResponse.json(publisher, { status: 201 })
+  } catch (error) {
+    console.error('Error creating publisher:', error)
+    return NextResponse.json(
+      { error: 'Failed to create publisher' },
+      { status: 500 }
+    )
+  }
+}
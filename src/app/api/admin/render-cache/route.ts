@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import { renderCacheStats } from '@/lib/services/renderCache'
+
+// GET /api/admin/render-cache - Render cache hit/miss counts for this instance
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(renderCacheStats())
+  } catch (error) {
+    console.error('Error reading render cache stats:', error)
+    return NextResponse.json(
+      { error: 'Failed to read render cache stats' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// DELETE /api/admin/reserved-prefixes/[id] - Release a reserved prefix
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+
+    await prisma.reservedCodePrefix.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting reserved prefix:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete reserved prefix' },
+      { status: 500 }
+    )
+  }
+}
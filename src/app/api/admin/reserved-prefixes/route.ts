@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { reservedPrefixSchema } from '@/lib/utils/validation'
+
+// GET /api/admin/reserved-prefixes - List reserved code prefixes
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const prefixes = await prisma.reservedCodePrefix.findMany({
+      orderBy: { prefix: 'asc' },
+    })
+
+    return NextResponse.json({ prefixes })
+  } catch (error) {
+    console.error('Error fetching reserved prefixes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch reserved prefixes' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/reserved-prefixes - Reserve a code prefix
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const validated = reservedPrefixSchema.safeParse(body)
+
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.reservedCodePrefix.findUnique({
+      where: { prefix: validated.data.prefix },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'Prefix is already reserved' },
+        { status: 409 }
+      )
+    }
+
+    const prefix = await prisma.reservedCodePrefix.create({
+      data: validated.data,
+    })
+
+    return NextResponse.json(prefix, { status: 201 })
+  } catch (error) {
+    console.error('Error reserving prefix:', error)
+    return NextResponse.json(
+      { error: 'Failed to reserve prefix' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/authOptions'
+import prisma from '@/lib/db/prisma'
+import { enqueueJob } from '@/lib/jobs/queue'
+import { reconcileStorage } from '@/lib/services/storageReconcile'
+
+// GET /api/admin/storage/reconcile - Dry run: report what a reconcile would change
+// ?bookId= limits the report to one book.
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const bookId = searchParams.get('bookId') || undefined
+
+    if (bookId) {
+      const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } })
+      if (!book) {
+        return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+      }
+    }
+
+    const report = await reconcileStorage({ dryRun: true, bookId })
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error checking storage:', error)
+    return NextResponse.json(
+      { error: 'Failed to check storage' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/storage/reconcile - Queue a reconcile that moves images into
+// the configured storage and deletes orphaned objects
+// Body: { bookId?: string }. Returns 202 with a job id; the job's result is
+// the same report as the dry run, with fixedPages and deletedObjects filled in.
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const bookId = typeof body.bookId === 'string' && body.bookId ? body.bookId : undefined
+
+    if (bookId) {
+      const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } })
+      if (!book) {
+        return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+      }
+    }
+
+    const job = await enqueueJob(
+      'storage-reconcile',
+      bookId ? { bookId } : {},
+      { bookId, maxAttempts: 1 }
+    )
+
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 })
+  } catch (error) {
+    console.error('Error queueing storage reconcile:', error)
+    return NextResponse.json(
+      { error: 'Failed to queue storage reconcile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { decodeWaveCode, WaveDecodeError } from '@/lib/services/waveDecoder'
+import { rateLimit, getClientIP, rateLimitHeaders } from '@/lib/utils/rateLimit'
+
+// CORS headers for public API
+const corsHeaders = {
+  'Access-Control-Allow-Origin': process.env.ALLOWED_ORIGINS || '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+}
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024 // 10MB
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders,
+  })
+}
+
+// Read the image from a multipart "image" field or a raw image/* body
+async function readImage(request: NextRequest): Promise<Buffer | null> {
+  const contentType = request.headers.get('content-type') || ''
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const formData = await request.formData()
+    const file = formData.get('image')
+    if (!file || typeof file === 'string') {
+      return null
+    }
+    return Buffer.from(await file.arrayBuffer())
+  }
+
+  if (contentType.startsWith('image/') || contentType === 'application/octet-stream') {
+    return Buffer.from(await request.arrayBuffer())
+  }
+
+  return null
+}
+
+// POST /api/decode - Read a wave code back from an image
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting (decoding is heavier than validation)
+    const clientIP = getClientIP(request)
+    const rateLimitResult = rateLimit(`decode:${clientIP}`, { limit: 30, interval: 60000 })
+    const headers = {
+      ...corsHeaders,
+      ...rateLimitHeaders(rateLimitResult.remaining, rateLimitResult.reset, 30),
+    }
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { decoded: false, message: 'Rate limit exceeded' },
+        { status: 429, headers }
+      )
+    }
+
+    const image = await readImage(request)
+
+    if (!image || image.length === 0) {
+      return NextResponse.json(
+        { decoded: false, message: 'An image is required (multipart field "image" or image/* body)' },
+        { status: 400, headers }
+      )
+    }
+
+    if (image.length > MAX_IMAGE_BYTES) {
+      return NextResponse.json(
+        { decoded: false, message: 'Image is too large (max 10MB)' },
+        { status: 413, headers }
+      )
+    }
+
+    const result = await decodeWaveCode(image)
+
+    return NextResponse.json(
+      {
+        decoded: true,
+        code: result.code,
+        confidence: result.confidence,
+        bar_count: result.barCount,
+        symbology_version: result.version,
+        mirrored: result.mirrored,
+        corrections: result.corrections,
+      },
+      { headers }
+    )
+  } catch (error) {
+    if (error instanceof WaveDecodeError) {
+      return NextResponse.json(
+        { decoded: false, message: error.message },
+        { status: 422, headers: corsHeaders }
+      )
+    }
+
+    console.error('Error decoding image:', error)
+    return NextResponse.json(
+      { decoded: false, message: 'Internal server error' },
+      {
+        status: 500,
+        headers: corsHeaders,
+      }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/db/prisma'
+import { renderPoolStats } from '@/lib/services/renderPool'
 
 function getDbConfigInfo() {
   const { DB_USER, DB_NAME, DB_HOST, DB_PORT, DATABASE_URL } = process.env
@@ -28,6 +29,7 @@ export async function GET() {
         timestamp: new Date().toISOString(),
         database: 'connected',
         config: dbConfig,
+        renderPool: renderPoolStats(),
       },
       { status: 200 }
     )
@@ -40,6 +42,7 @@ export async function GET() {
         timestamp: new Date().toISOString(),
         database: 'disconnected',
         config: dbConfig,
+        renderPool: renderPoolStats(),
         error: error instanceof Error ? error.message : 'Unknown error',
       },
       { status: 503 }
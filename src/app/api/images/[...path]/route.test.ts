@@ -0,0 +1,58 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    name: 'local',
+    get: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/storage')>()),
+  getStorage: () => storage,
+}))
+
+function get(key: string) {
+  return GET(new NextRequest(`http://localhost/api/images/${key}`), {
+    params: Promise.resolve({ path: key.split('/') }),
+  })
+}
+
+describe('GET /api/images/[...path]', () => {
+  beforeEach(() => {
+    storage.name = 'local'
+    storage.get.mockReset()
+    storage.get.mockResolvedValue({
+      body: Buffer.from('png'),
+      contentType: 'image/png',
+      size: 3,
+      updatedAt: new Date(0),
+    })
+  })
+
+  it('serves page images from local storage', async () => {
+    const response = await get('books/b1/K7Q2ZBF.png')
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('image/png')
+    expect(Buffer.from(await response.arrayBuffer()).toString()).toBe('png')
+  })
+
+  it('never serves keys outside the public prefixes', async () => {
+    const response = await get('renders/b1/abc.pdf')
+
+    expect(response.status).toBe(404)
+    expect(storage.get).not.toHaveBeenCalled()
+  })
+
+  it('serves nothing when another driver is configured', async () => {
+    storage.name = 's3'
+    const response = await get('books/b1/K7Q2ZBF.png')
+
+    expect(response.status).toBe(404)
+    expect(storage.get).not.toHaveBeenCalled()
+  })
+})
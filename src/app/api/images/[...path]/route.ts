@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage, isPublicImageKey, StorageKeyError } from '@/lib/storage'
+
+interface RouteParams {
+  params: Promise<{ path: string[] }>
+}
+
+// Image URLs carry a ?v= content hash, so versioned requests never change
+const IMMUTABLE_CACHE = 'public, max-age=31536000, immutable'
+const SHORT_CACHE = 'public, max-age=300'
+
+// GET /api/images/[...path] - Serve a stored image (local storage driver)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { path } = await params
+    const key = path.join('/')
+    const storage = getStorage()
+
+    // Other drivers serve their own URLs; only public keys are served at all
+    if (storage.name !== 'local' || !isPublicImageKey(key)) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    const object = await storage.get(key)
+    if (!object) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    const etag = `"${object.size.toString(16)}-${(object.updatedAt?.getTime() ?? 0).toString(16)}"`
+    const headers: Record<string, string> = {
+      'Content-Type': object.contentType,
+      'Cache-Control': request.nextUrl.searchParams.has('v') ? IMMUTABLE_CACHE : SHORT_CACHE,
+      ETag: etag,
+      'X-Content-Type-Options': 'nosniff',
+    }
+    // Uploaded SVG assets are served from our origin; never let one run anything
+    if (object.contentType === 'image/svg+xml') {
+      headers['Content-Security-Policy'] = "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox"
+    }
+    if (object.updatedAt) {
+      headers['Last-Modified'] = object.updatedAt.toUTCString()
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    return new NextResponse(new Uint8Array(object.body), {
+      headers: { ...headers, 'Content-Length': object.size.toString() },
+    })
+  } catch (error) {
+    if (error instanceof StorageKeyError) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    console.error('Error serving image:', error)
+    return NextResponse.json(
+      { error: 'Failed to serve image' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/db/prisma'
 import { validateCodeSchema } from '@/lib/utils/validation'
+import { listCodeProfiles } from '@/lib/services/codeProfiles'
+import { codeLookup, suggestCodeCorrections } from '@/lib/services/codeGenerator'
 import { rateLimit, getClientIP, rateLimitHeaders } from '@/lib/utils/rateLimit'
 
 // CORS headers for public API
@@ -55,11 +57,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { code } = validated.data
-
-    // Find the page by code
-    const currentPage = await prisma.page.findUnique({
-      where: { code: code.toUpperCase() },
+    // Try the code as typed, then as normalised by each profile it verifies
+    // under; several profiles can share a shape, so none of them is assumed
+    const { candidates, mismatched } = codeLookup(validated.data.code, await listCodeProfiles())
+    const found = await prisma.page.findMany({
+      where: { code: { in: candidates } },
       include: {
         book: {
           select: {
@@ -70,6 +72,38 @@ export async function POST(request: NextRequest) {
         },
       },
     })
+    const currentPage = candidates
+      .map((code) => found.find((page: { code: string }) => page.code === code))
+      .find((page) => page !== undefined)
+
+    // A checked code whose check character doesn't match was mistyped:
+    // offer the existing codes it could have been instead of a plain 404
+    if (!currentPage && mismatched.length > 0) {
+      const corrections = new Set(
+        mismatched.flatMap((profile) => suggestCodeCorrections(validated.data.code, profile))
+      )
+      const matches = corrections.size > 0
+        ? await prisma.page.findMany({
+            where: { code: { in: Array.from(corrections) } },
+            select: { code: true },
+          })
+        : []
+
+      return NextResponse.json(
+        {
+          valid: false,
+          message: 'Checksum mismatch',
+          suggestions: matches.map((p: { code: string }) => p.code),
+        },
+        {
+          status: 422,
+          headers: {
+            ...corsHeaders,
+            ...rateLimitHeaders(rateLimitResult.remaining, rateLimitResult.reset),
+          },
+        }
+      )
+    }
 
     if (!currentPage) {
       return NextResponse.json(
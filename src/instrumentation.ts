@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // Background jobs need Node APIs; JOB_WORKER=off leaves them to other instances
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.JOB_WORKER !== 'off') {
+    const { startJobWorker } = await import('./lib/jobs/worker')
+    startJobWorker()
+  }
+}
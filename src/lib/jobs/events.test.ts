@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { formatSseEvent, parseLastEventId } from './events'
+
+describe('job events', () => {
+  describe('formatSseEvent', () => {
+    it('writes id, event name and JSON data', () => {
+      expect(formatSseEvent({ id: 7, event: 'progress', data: { progress: 1, total: 2 } })).toBe(
+        'id: 7\nevent: progress\ndata: {"progress":1,"total":2}\n\n'
+      )
+    })
+
+    it('omits the id and event name when not given', () => {
+      expect(formatSseEvent({ data: { status: 'failed' } })).toBe('data: {"status":"failed"}\n\n')
+    })
+  })
+
+  describe('parseLastEventId', () => {
+    it('parses positive integer ids', () => {
+      expect(parseLastEventId('42')).toBe(42)
+    })
+
+    it('starts from the beginning for missing or invalid ids', () => {
+      expect(parseLastEventId(null)).toBe(0)
+      expect(parseLastEventId('')).toBe(0)
+      expect(parseLastEventId('abc')).toBe(0)
+      expect(parseLastEventId('-3')).toBe(0)
+      expect(parseLastEventId('1.5')).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import type { Prisma } from '@prisma/client'
+import prisma from '../db/prisma'
+
+/**
+ * Job events
+ *
+ * Everything a client watching a job needs to know is appended to the
+ * job_events table: status changes, progress and per-page results. Event ids
+ * increase, so a client that reconnects with the last id it saw (the SSE
+ * Last-Event-ID header) gets exactly the events it missed.
+ */
+
+export type JobEventType = 'status' | 'progress' | 'page'
+
+export interface JobEventRecord {
+  id: number
+  type: string
+  data: Prisma.JsonValue
+  createdAt: Date
+}
+
+export interface PageEventData {
+  pageNumber: number
+  code?: string
+  success: boolean
+  error?: string
+}
+
+export async function recordJobEvent(
+  jobId: string,
+  type: JobEventType,
+  data: Prisma.InputJsonValue
+): Promise<void> {
+  await prisma.jobEvent.create({ data: { jobId, type, data } })
+}
+
+/**
+ * Events of a job after the given event id, oldest first
+ */
+export async function listJobEvents(
+  jobId: string,
+  afterId: number = 0,
+  limit: number = 500
+): Promise<JobEventRecord[]> {
+  return prisma.jobEvent.findMany({
+    where: { jobId, id: { gt: afterId } },
+    orderBy: { id: 'asc' },
+    take: limit,
+    select: { id: true, type: true, data: true, createdAt: true },
+  })
+}
+
+/**
+ * Parse a Last-Event-ID header (or query parameter); 0 means from the start
+ */
+export function parseLastEventId(value: string | null): number {
+  const id = Number(value)
+  return Number.isSafeInteger(id) && id > 0 ? id : 0
+}
+
+/**
+ * Serialize one Server-Sent Event
+ */
+export function formatSseEvent(event: { id?: number; event?: string; data: unknown }): string {
+  let message = ''
+  if (event.id !== undefined) message += `id: ${event.id}\n`
+  if (event.event) message += `event: ${event.event}\n`
+  for (const line of JSON.stringify(event.data).split('\n')) {
+    message += `data: ${line}\n`
+  }
+  return message + '\n'
+}
@@ -0,0 +1,115 @@
+import type { Prisma } from '@prisma/client'
+import { generateBookPages, PageGenerationError, type AudioLinkInput } from '../services/pageGeneration'
+import { regenerateBookWithTheme, ThemeRegenerationError } from '../services/themeRegeneration'
+import { reconcileStorage } from '../services/storageReconcile'
+import { PermanentJobError, type JobType } from './queue'
+import type { JobEventType, PageEventData } from './events'
+
+/**
+ * Job handlers, one per job type
+ * A handler does the work for a job's payload, reports progress through the
+ * context and returns the result stored on the job.
+ */
+
+export interface JobContext {
+  jobId: string
+  attempt: number
+  progress: (done: number, total: number) => Promise<void>
+  emit: (type: JobEventType, data: Prisma.InputJsonValue) => Promise<void>
+}
+
+export type JobHandler = (
+  payload: Prisma.JsonValue,
+  context: JobContext
+) => Promise<Prisma.InputJsonValue>
+
+export interface GenerateCodesPayload {
+  bookId: string
+  audioLinks: AudioLinkInput[]
+}
+
+export interface RegenerateWithThemePayload {
+  bookId: string
+  pageIds?: string[]
+}
+
+export interface StorageReconcilePayload {
+  bookId?: string
+}
+
+// Client errors (bad input, missing book) fail the job at once
+function permanentIfClientError(error: unknown): unknown {
+  if (
+    (error instanceof PageGenerationError || error instanceof ThemeRegenerationError) &&
+    error.status < 500
+  ) {
+    return new PermanentJobError(error.message)
+  }
+  return error
+}
+
+// Page outcomes are streamed to clients as they happen
+function pageEvent(emit: JobContext['emit']) {
+  return ({ pageNumber, code, success, error }: PageEventData) =>
+    emit('page', { pageNumber, code, success, ...(error ? { error } : {}) })
+}
+
+const generateCodes: JobHandler = async (payload, { progress, emit }) => {
+  const { bookId, audioLinks } = payload as unknown as GenerateCodesPayload
+
+  try {
+    const result = await generateBookPages(bookId, audioLinks, {
+      onPage: pageEvent(emit),
+      onProgress: progress,
+    })
+    return {
+      success: true,
+      totalPages: result.totalPages,
+      successfulPages: result.totalPages,
+      failedPages: 0,
+      keptPages: result.keptPages,
+      newPages: result.newPages,
+      removedPages: result.removedPages,
+      results: result.pages.map((page) => ({ ...page, success: true })),
+    }
+  } catch (error) {
+    throw permanentIfClientError(error)
+  }
+}
+
+const regenerateWithTheme: JobHandler = async (payload, { progress, emit }) => {
+  const { bookId, pageIds } = payload as unknown as RegenerateWithThemePayload
+
+  try {
+    const result = await regenerateBookWithTheme(bookId, {
+      pageIds,
+      onPage: pageEvent(emit),
+      onProgress: progress,
+    })
+    return { ...result, results: result.results.map((r) => ({ ...r })) }
+  } catch (error) {
+    throw permanentIfClientError(error)
+  }
+}
+
+const storageReconcile: JobHandler = async (payload, { progress }) => {
+  const { bookId } = payload as unknown as StorageReconcilePayload
+  const report = await reconcileStorage({ dryRun: false, bookId, onProgress: progress })
+  return {
+    ...report,
+    issueCounts: { ...report.issueCounts },
+    pages: report.pages.map((page) => ({ ...page })),
+    orphans: report.orphans.map((object) => ({
+      key: object.key,
+      size: object.size,
+      updatedAt: object.updatedAt?.toISOString() ?? null,
+    })),
+    errors: report.errors.map((error) => ({ ...error })),
+  }
+}
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  'generate-codes': generateCodes,
+  'regenerate-with-theme': regenerateWithTheme,
+  'storage-reconcile': storageReconcile,
+}
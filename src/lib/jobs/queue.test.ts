@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { isTerminalStatus, retryDelayMs } from './queue'
+
+describe('job queue', () => {
+  describe('isTerminalStatus', () => {
+    it('treats finished jobs as terminal', () => {
+      expect(isTerminalStatus('succeeded')).toBe(true)
+      expect(isTerminalStatus('failed')).toBe(true)
+      expect(isTerminalStatus('cancelled')).toBe(true)
+    })
+
+    it('treats queued and running jobs as active', () => {
+      expect(isTerminalStatus('queued')).toBe(false)
+      expect(isTerminalStatus('running')).toBe(false)
+    })
+  })
+
+  describe('retryDelayMs', () => {
+    it('doubles the delay with each attempt', () => {
+      expect(retryDelayMs(1)).toBe(5000)
+      expect(retryDelayMs(2)).toBe(10000)
+      expect(retryDelayMs(3)).toBe(20000)
+    })
+
+    it('never goes below the base delay', () => {
+      expect(retryDelayMs(0)).toBe(5000)
+    })
+  })
+})
@@ -0,0 +1,260 @@
+import { Prisma } from '@prisma/client'
+import prisma from '../db/prisma'
+import { recordJobEvent } from './events'
+
+/**
+ * Postgres-backed job queue
+ *
+ * Jobs are rows in the jobs table. Workers claim the oldest runnable job with
+ * FOR UPDATE SKIP LOCKED, so any number of instances can share the queue
+ * without double-processing. A running job refreshes locked_at whenever it
+ * reports progress; jobs whose lock goes stale (the instance died) are put
+ * back in the queue. Status changes and progress are also written to
+ * job_events for clients streaming a job (see events.ts).
+ */
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export const JOB_TYPES = ['generate-codes', 'regenerate-with-theme', 'storage-reconcile'] as const
+export type JobType = (typeof JOB_TYPES)[number]
+
+export interface JobRecord {
+  id: string
+  type: string
+  status: string
+  payload: Prisma.JsonValue
+  attempts: number
+  maxAttempts: number
+  bookId: string | null
+}
+
+// Running jobs silent for longer than this are assumed dead
+export const STALE_LOCK_MS = 10 * 60 * 1000
+
+const RETRY_BASE_DELAY_MS = 5000
+
+/**
+ * Thrown by a handler that noticed its job was cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
+
+/**
+ * Thrown by a handler for failures a retry can't fix (bad input, missing book)
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
+}
+
+export function isTerminalStatus(status: string): boolean {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled'
+}
+
+/**
+ * Delay before retrying after the given (1-based) attempt failed: 5s, 10s, 20s...
+ */
+export function retryDelayMs(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0)
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Prisma.InputJsonValue,
+  options: { bookId?: string; maxAttempts?: number } = {}
+): Promise<{ id: string; status: string }> {
+  return prisma.job.create({
+    data: {
+      type,
+      payload,
+      bookId: options.bookId,
+      maxAttempts: options.maxAttempts,
+    },
+    select: { id: true, status: true },
+  })
+}
+
+/**
+ * Claim the next runnable job for a worker, or null if the queue is empty
+ */
+export async function claimNextJob(workerId: string): Promise<JobRecord | null> {
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE jobs
+    SET status = 'running',
+        locked_at = now(),
+        locked_by = ${workerId},
+        attempts = attempts + 1,
+        started_at = COALESCE(started_at, now()),
+        updated_at = now()
+    WHERE id = (
+      SELECT id FROM jobs
+      WHERE status = 'queued' AND run_after <= now()
+      ORDER BY created_at
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING id
+  `
+
+  if (claimed.length === 0) {
+    return null
+  }
+
+  await recordJobEvent(claimed[0].id, 'status', { status: 'running' })
+
+  return prisma.job.findUnique({
+    where: { id: claimed[0].id },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      payload: true,
+      attempts: true,
+      maxAttempts: true,
+      bookId: true,
+    },
+  })
+}
+
+/**
+ * Record progress and refresh the lock. Throws JobCancelledError if the job
+ * was cancelled, so handlers stop at the next progress report.
+ */
+export async function reportProgress(jobId: string, progress: number, total: number): Promise<void> {
+  const job = await prisma.job.update({
+    where: { id: jobId },
+    data: { progress, total, lockedAt: new Date() },
+    select: { cancelRequested: true },
+  })
+  await recordJobEvent(jobId, 'progress', { progress, total, at: new Date().toISOString() })
+
+  if (job.cancelRequested) {
+    throw new JobCancelledError()
+  }
+}
+
+export async function completeJob(jobId: string, result: Prisma.InputJsonValue): Promise<void> {
+  await prisma.job.update({
+    where: { id: jobId },
+    data: {
+      status: 'succeeded',
+      result,
+      error: null,
+      lockedAt: null,
+      lockedBy: null,
+      finishedAt: new Date(),
+    },
+  })
+  await recordJobEvent(jobId, 'status', { status: 'succeeded', result })
+}
+
+/**
+ * Record a failed attempt: retry later with backoff, or give up
+ */
+export async function failJob(job: JobRecord, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof JobCancelledError) {
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { status: 'cancelled', lockedAt: null, lockedBy: null, finishedAt: new Date() },
+    })
+    await recordJobEvent(job.id, 'status', { status: 'cancelled' })
+    return
+  }
+
+  const retry = !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: retry
+      ? {
+          status: 'queued',
+          error: message,
+          lockedAt: null,
+          lockedBy: null,
+          runAfter: new Date(Date.now() + retryDelayMs(job.attempts)),
+        }
+      : {
+          status: 'failed',
+          error: message,
+          lockedAt: null,
+          lockedBy: null,
+          finishedAt: new Date(),
+        },
+  })
+  await recordJobEvent(job.id, 'status', {
+    status: retry ? 'queued' : 'failed',
+    error: message,
+    willRetry: retry,
+  })
+}
+
+/**
+ * Cancel a job. Queued jobs stop at once; running jobs stop at their next
+ * progress report. Returns the job's status afterwards, or null if not found.
+ */
+export async function cancelJob(jobId: string): Promise<string | null> {
+  const job = await prisma.job.findUnique({ where: { id: jobId }, select: { status: true } })
+  if (!job) {
+    return null
+  }
+
+  if (job.status === 'queued') {
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, status: 'queued' },
+      data: { status: 'cancelled', cancelRequested: true, finishedAt: new Date() },
+    })
+    if (count > 0) {
+      await recordJobEvent(jobId, 'status', { status: 'cancelled' })
+      return 'cancelled'
+    }
+  }
+
+  if (job.status === 'running' || job.status === 'queued') {
+    await prisma.job.updateMany({
+      where: { id: jobId, status: 'running' },
+      data: { cancelRequested: true },
+    })
+    return 'running'
+  }
+
+  return job.status
+}
+
+/**
+ * Put jobs whose worker stopped reporting back in the queue
+ */
+export async function requeueStaleJobs(): Promise<number> {
+  const stale = {
+    status: 'running',
+    lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) },
+  }
+
+  const { count } = await prisma.job.updateMany({
+    where: { ...stale, attempts: { lt: prisma.job.fields.maxAttempts } },
+    data: { status: 'queued', lockedAt: null, lockedBy: null },
+  })
+
+  await prisma.job.updateMany({
+    where: stale,
+    data: {
+      status: 'failed',
+      error: 'Worker stopped responding',
+      lockedAt: null,
+      lockedBy: null,
+      finishedAt: new Date(),
+    },
+  })
+
+  return count
+}
@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+import { JOB_HANDLERS } from './handlers'
+import { recordJobEvent } from './events'
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  reportProgress,
+  requeueStaleJobs,
+  PermanentJobError,
+  type JobRecord,
+  type JobType,
+} from './queue'
+
+/**
+ * In-process job worker
+ *
+ * Polls the queue and runs one job at a time. Started from instrumentation.ts
+ * on server boot; every instance runs its own worker and the queue's row
+ * locking keeps them from picking up the same job.
+ */
+
+const POLL_INTERVAL_MS = 2000
+const STALE_CHECK_INTERVAL_MS = 60 * 1000
+
+let started = false
+
+async function runJob(job: JobRecord): Promise<void> {
+  const handler = JOB_HANDLERS[job.type as JobType]
+
+  try {
+    if (!handler) {
+      throw new PermanentJobError(`Unknown job type "${job.type}"`)
+    }
+    const result = await handler(job.payload, {
+      jobId: job.id,
+      attempt: job.attempts,
+      progress: (done, total) => reportProgress(job.id, done, total),
+      emit: (type, data) => recordJobEvent(job.id, type, data),
+    })
+    await completeJob(job.id, result)
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.type}) failed:`, error)
+    await failJob(job, error)
+  }
+}
+
+/**
+ * Run queued jobs until none are left
+ */
+export async function drainJobQueue(workerId: string): Promise<number> {
+  let processed = 0
+  for (let job = await claimNextJob(workerId); job; job = await claimNextJob(workerId)) {
+    await runJob(job)
+    processed++
+  }
+  return processed
+}
+
+/**
+ * Start polling the queue in the background. Safe to call more than once.
+ */
+export function startJobWorker(): void {
+  if (started) return
+  started = true
+
+  const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+  let lastStaleCheck = 0
+
+  const tick = async () => {
+    try {
+      if (Date.now() - lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+        lastStaleCheck = Date.now()
+        await requeueStaleJobs()
+      }
+      await drainJobQueue(workerId)
+    } catch (error) {
+      console.error('Job worker error:', error)
+    } finally {
+      setTimeout(tick, POLL_INTERVAL_MS).unref()
+    }
+  }
+
+  console.log(`Job worker ${workerId} started`)
+  void tick()
+}
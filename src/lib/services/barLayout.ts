@@ -0,0 +1,153 @@
+import { ThemeConfig, RING_GAP_PITCHES, ringExtents } from '../types/theme'
+import type { Box } from './captionLayout'
+
+/**
+ * Bar tracks: the path the theme's layout mode sends the bars along, shared
+ * by the PNG and vector renderers
+ *
+ * Renderers lay the bars out along a straight track as they would a row (x
+ * along the track, y across it), then place() moves each bar onto the
+ * artwork: shifted for rows, turned on its side for a vertical column, and
+ * stood around the ring for circular and arc layouts. Bars keep their order,
+ * widths and heights, so the pattern is the same in every mode.
+ */
+
+// Degrees clockwise about (x, y)
+export interface Rotation {
+  angle: number
+  x: number
+  y: number
+}
+
+// A bar drawn upright at x, y, then turned by its rotation (if any)
+export interface PlacedBar extends Box {
+  rotation?: Rotation
+}
+
+// The circle circular and arc layouts stand their bars around
+export interface Ring {
+  cx: number
+  cy: number
+  outer: number   // Radius of the bars' outer ends
+  inner: number   // and of their inner ends
+  sweep: number   // Degrees the ring spans, centred on 12 o'clock
+}
+
+export interface BarTrack {
+  length: number      // Along the bars
+  thickness: number   // Across them: the room each bar grows in
+  spread: boolean     // Bars are spaced out to fill the length, not packed in the middle
+  taper: number       // Pitch where bars come closest (inside a ring), relative to the track's
+  baseline: boolean   // Bars stand on the far edge instead of being centred
+  place(bar: Box): PlacedBar
+}
+
+export function isRingLayout(theme: ThemeConfig): boolean {
+  return theme.layout.mode === 'circular' || theme.layout.mode === 'arc'
+}
+
+/**
+ * The largest ring the theme's layout fits in an area, centred in it.
+ * hollow is a box to keep room for around the ring's centre, sized for an
+ * outer radius of 1.
+ */
+export function fitRing(
+  theme: ThemeConfig,
+  area: Box,
+  hollow: { width: number; height: number } | null = null
+): Ring {
+  const { layout } = theme
+  const extents = ringExtents(layout, hollow)
+  const outer = Math.min(area.width / (extents.maxX - extents.minX), area.height / (extents.maxY - extents.minY))
+
+  return {
+    cx: area.x + area.width / 2 - (outer * (extents.minX + extents.maxX)) / 2,
+    cy: area.y + area.height / 2 - (outer * (extents.minY + extents.maxY)) / 2,
+    outer,
+    inner: (outer * layout.innerRadius) / 100,
+    sweep: layout.mode === 'arc' ? layout.arcAngle : 360,
+  }
+}
+
+/**
+ * Bar width and gap that share a track's length evenly between count bars,
+ * each centred in its share. Around a ring, bars are closest at their inner
+ * ends; they keep the given bar to gap ratio there, so they never touch.
+ */
+export function spreadBars(
+  count: number,
+  track: BarTrack,
+  barWidth: number,
+  barGap: number
+): { barWidth: number; barGap: number } {
+  const pitch = track.length / count
+  const width = (pitch * track.taper * barWidth) / (barWidth + barGap)
+  return { barWidth: width, barGap: pitch - width }
+}
+
+/**
+ * The track for count bars in the artwork's bar area (wave) or ring
+ */
+export function barTrack(
+  theme: ThemeConfig,
+  artwork: { wave: Box; ring: Ring | null },
+  count: number
+): BarTrack {
+  const { wave, ring } = artwork
+  const { mode } = theme.layout
+
+  if (ring) {
+    // A circle leaves a gap of a few bar pitches at the bottom
+    const sweep = mode === 'circular' ? (ring.sweep * count) / (count + RING_GAP_PITCHES) : ring.sweep
+    const middle = (ring.outer + ring.inner) / 2
+    return {
+      length: middle * sweep * (Math.PI / 180),
+      thickness: ring.outer - ring.inner,
+      spread: true,
+      taper: ring.inner / middle,
+      baseline: false,
+      // The track's near edge is the outside of the ring
+      place: (bar) => ({
+        x: ring.cx - bar.width / 2,
+        y: ring.cy - ring.outer + bar.y,
+        width: bar.width,
+        height: bar.height,
+        rotation: {
+          angle: -sweep / 2 + ((bar.x + bar.width / 2) / middle) * (180 / Math.PI),
+          x: ring.cx,
+          y: ring.cy,
+        },
+      }),
+    }
+  }
+
+  if (mode === 'vertical') {
+    // A row turned a quarter clockwise about the area's top right corner: the
+    // first bar at the top, tops pointing right
+    const x = wave.x + wave.width
+    const y = wave.y
+    return {
+      length: wave.height,
+      thickness: wave.width,
+      spread: false,
+      taper: 1,
+      baseline: false,
+      place: (bar) => ({
+        x: x + bar.x,
+        y: y + bar.y,
+        width: bar.width,
+        height: bar.height,
+        rotation: { angle: 90, x, y },
+      }),
+    }
+  }
+
+  return {
+    length: wave.width,
+    thickness: wave.height,
+    spread: false,
+    taper: 1,
+    baseline: mode === 'mirrored',
+    place: (bar) => ({ ...bar, x: wave.x + bar.x, y: wave.y + bar.y }),
+  }
+}
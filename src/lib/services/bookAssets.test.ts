@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import sharp from 'sharp'
+import { DEFAULT_THEME, type ThemeConfig } from '../types/theme'
+import { inspectAsset, prepareLogo, loadLogo, BookAssetError } from './bookAssets'
+
+const { db, objects } = vi.hoisted(() => ({
+  db: { bookAsset: { findUnique: vi.fn() } },
+  objects: new Map<string, Buffer>(),
+}))
+
+vi.mock('../db/prisma', () => ({ default: db }))
+
+vi.mock('../storage', () => ({
+  getStorage: () => ({
+    get: async (key: string) => {
+      const body = objects.get(key)
+      return body ? { body, contentType: 'image/svg+xml', size: body.length, updatedAt: null } : null
+    },
+    url: (key: string) => `/api/images/${key}`,
+  }),
+  bookAssetKey: (bookId: string, assetId: string, extension: string) => `assets/${bookId}/${assetId}.${extension}`,
+}))
+
+const SVG = Buffer.from(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="60" height="30"><rect width="60" height="30" fill="#1DB954"/></svg>'
+)
+
+async function png(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 4, background: '#00000000' } }).png().toBuffer()
+}
+
+function withLogo(assetId: string): ThemeConfig {
+  return { ...DEFAULT_THEME, logo: { assetId, position: 'start', size: 80, quietZone: 1 } }
+}
+
+describe('bookAssets', () => {
+  describe('inspectAsset', () => {
+    it('accepts PNG and SVG images and reports their size', async () => {
+      expect(await inspectAsset(await png(40, 20), 'image/png')).toEqual({
+        contentType: 'image/png',
+        width: 40,
+        height: 20,
+      })
+      expect(await inspectAsset(SVG, 'image/svg+xml')).toEqual({
+        contentType: 'image/svg+xml',
+        width: 60,
+        height: 30,
+      })
+    })
+
+    it('rejects other types and files that are not what they claim', async () => {
+      await expect(inspectAsset(SVG, 'image/gif')).rejects.toMatchObject({ status: 415 })
+      await expect(inspectAsset(SVG, 'image/png')).rejects.toThrow(BookAssetError)
+      await expect(inspectAsset(Buffer.from('not an image'), 'image/png')).rejects.toThrow('not a readable image')
+    })
+
+    it.each([
+      '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>',
+      '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"></svg>',
+      '<svg xmlns="http://www.w3.org/2000/svg"><image href="file:///etc/passwd"/></svg>',
+      '<svg xmlns="http://www.w3.org/2000/svg"><rect style="fill: url(https://x.test/a)"/></svg>',
+    ])('rejects unsafe SVG %#', async (svg) => {
+      await expect(inspectAsset(Buffer.from(svg), 'image/svg+xml')).rejects.toThrow('cannot contain scripts')
+    })
+
+    it('keeps internal references in SVGs', async () => {
+      const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><defs><linearGradient id="g"/></defs><rect width="10" height="10" fill="url(#g)"/></svg>'
+      await expect(inspectAsset(Buffer.from(svg), 'image/svg+xml')).resolves.toMatchObject({ width: 10 })
+    })
+  })
+
+  describe('prepareLogo', () => {
+    it('keeps the upload for SVG output and rasterises it for PDF', async () => {
+      const logo = await prepareLogo(SVG, 'image/svg+xml', '#FFFFFF')
+
+      expect(logo.href).toBe(`data:image/svg+xml;base64,${SVG.toString('base64')}`)
+      expect(logo.aspectRatio).toBe(2)
+      expect(await sharp(logo.png).metadata()).toMatchObject({ format: 'png', width: 1200, height: 600 })
+      expect(await sharp(logo.cmyk).metadata()).toMatchObject({ format: 'jpeg', space: 'cmyk' })
+    })
+  })
+
+  describe('loadLogo', () => {
+    beforeEach(() => {
+      db.bookAsset.findUnique.mockReset()
+      objects.clear()
+    })
+
+    it('is null for a theme without a logo', async () => {
+      expect(await loadLogo(DEFAULT_THEME)).toBeNull()
+      expect(db.bookAsset.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('leaves out a logo whose asset is gone', async () => {
+      db.bookAsset.findUnique.mockResolvedValue(null)
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(await loadLogo(withLogo('gone'))).toBeNull()
+      expect(warn).toHaveBeenCalled()
+      warn.mockRestore()
+    })
+
+    it('loads the asset from storage once', async () => {
+      objects.set('assets/b1/a1.svg', SVG)
+      db.bookAsset.findUnique.mockResolvedValue({ storageKey: 'assets/b1/a1.svg', contentType: 'image/svg+xml' })
+
+      const first = await loadLogo(withLogo('a1'))
+      const second = await loadLogo(withLogo('a1'))
+
+      expect(first!.aspectRatio).toBe(2)
+      expect(second).toBe(first)
+      expect(db.bookAsset.findUnique).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,269 @@
+import { randomUUID } from 'crypto'
+import sharp from 'sharp'
+import prisma from '../db/prisma'
+import { getStorage, bookAssetKey } from '../storage'
+import { ThemeConfig } from '../types/theme'
+import { logoImages } from './renderPool'
+
+/**
+ * Book assets: images uploaded for a book's themes (imprint marks, glyphs)
+ *
+ * Files go through the storage layer under assets/{bookId}/, apart from the
+ * generated images storage reconcile looks after. A theme's logo names one
+ * of its book's assets; renderers get it as a LogoImage. An asset's file
+ * never changes (a new upload is a new asset), so loaded logos are cached.
+ */
+
+export const ASSET_CONTENT_TYPES = {
+  'image/png': 'png',
+  'image/svg+xml': 'svg',
+} as const
+export type AssetContentType = keyof typeof ASSET_CONTENT_TYPES
+
+export const MAX_ASSET_BYTES = 2 * 1024 * 1024 // 2MB
+const MAX_ASSET_PIXELS = 4096                   // Longest side of a PNG
+
+// PDFs draw logos as images this many pixels along the longest side
+const PDF_LOGO_PIXELS = 1200
+const LOGO_CACHE_SIZE = 32
+
+export class BookAssetError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'BookAssetError'
+    this.status = status
+  }
+}
+
+export interface BookAssetInfo {
+  id: string
+  bookId: string
+  name: string
+  contentType: string
+  size: number
+  width: number
+  height: number
+  url: string
+  createdAt: Date
+}
+
+/**
+ * A logo ready to draw, in each form the renderers need
+ */
+export interface LogoImage {
+  href: string        // data: URL of the uploaded file, for SVG and PNG artwork
+  png: Buffer         // Raster with transparency, for PDF
+  cmyk: Buffer        // CMYK JPEG flattened onto the theme background, for PDF/X and TIFF
+  aspectRatio: number // Width / height
+}
+
+interface StoredAsset {
+  id: string
+  bookId: string
+  name: string
+  contentType: string
+  storageKey: string
+  size: number
+  width: number
+  height: number
+  createdAt: Date
+}
+
+function toAssetInfo(row: StoredAsset): BookAssetInfo {
+  return {
+    id: row.id,
+    bookId: row.bookId,
+    name: row.name,
+    contentType: row.contentType,
+    size: row.size,
+    width: row.width,
+    height: row.height,
+    url: getStorage().url(row.storageKey),
+    createdAt: row.createdAt,
+  }
+}
+
+// Scripts, event handlers and references to other files: SVGs are served
+// from our own origin and rendered server-side, so they must be self-contained
+const UNSAFE_SVG = [
+  /<script/i,
+  /<foreignObject/i,
+  /\son[a-z]+\s*=/i,
+  /javascript:/i,
+  /<!ENTITY/i,
+  /href\s*=\s*["'](?!#|data:image\/(?:png|jpeg);)/i,
+  /url\(\s*["']?(?!#)/i,
+  /@import/i,
+]
+
+function isAssetContentType(contentType: string): contentType is AssetContentType {
+  return Object.prototype.hasOwnProperty.call(ASSET_CONTENT_TYPES, contentType)
+}
+
+/**
+ * Check an upload and return its size in pixels (for SVGs, its intrinsic size)
+ */
+export async function inspectAsset(
+  body: Buffer,
+  contentType: string
+): Promise<{ contentType: AssetContentType; width: number; height: number }> {
+  if (!isAssetContentType(contentType)) {
+    throw new BookAssetError('Assets must be PNG or SVG images', 415)
+  }
+  if (body.length === 0) {
+    throw new BookAssetError('The file is empty')
+  }
+  if (body.length > MAX_ASSET_BYTES) {
+    throw new BookAssetError('The file is too large (max 2MB)', 413)
+  }
+  if (contentType === 'image/svg+xml' && UNSAFE_SVG.some((pattern) => pattern.test(body.toString('utf8')))) {
+    throw new BookAssetError('SVG assets cannot contain scripts, event handlers or external references')
+  }
+
+  let metadata: sharp.Metadata
+  try {
+    metadata = await sharp(body).metadata()
+  } catch {
+    throw new BookAssetError('The file is not a readable image')
+  }
+
+  if (metadata.format !== ASSET_CONTENT_TYPES[contentType] || !metadata.width || !metadata.height) {
+    throw new BookAssetError(`The file is not a valid ${ASSET_CONTENT_TYPES[contentType].toUpperCase()} image`)
+  }
+  if (contentType === 'image/png' && Math.max(metadata.width, metadata.height) > MAX_ASSET_PIXELS) {
+    throw new BookAssetError(`PNG assets can be at most ${MAX_ASSET_PIXELS}px on a side`)
+  }
+
+  return { contentType, width: metadata.width, height: metadata.height }
+}
+
+/**
+ * Store an uploaded image as an asset of the book
+ */
+export async function createBookAsset(
+  bookId: string,
+  name: string,
+  body: Buffer,
+  contentType: string
+): Promise<BookAssetInfo> {
+  const book = await prisma.book.findUnique({ where: { id: bookId }, select: { id: true } })
+  if (!book) {
+    throw new BookAssetError('Book not found', 404)
+  }
+
+  const image = await inspectAsset(body, contentType)
+  const id = randomUUID()
+  const storageKey = bookAssetKey(bookId, id, ASSET_CONTENT_TYPES[image.contentType])
+  await getStorage().put(storageKey, body, image.contentType)
+
+  try {
+    const asset = await prisma.bookAsset.create({
+      data: {
+        id,
+        bookId,
+        name,
+        contentType: image.contentType,
+        storageKey,
+        size: body.length,
+        width: image.width,
+        height: image.height,
+      },
+    })
+    return toAssetInfo(asset)
+  } catch (error) {
+    await getStorage().delete(storageKey)
+    throw error
+  }
+}
+
+/**
+ * A book's assets, newest first
+ */
+export async function listBookAssets(bookId: string): Promise<BookAssetInfo[]> {
+  const assets = await prisma.bookAsset.findMany({
+    where: { bookId },
+    orderBy: { createdAt: 'desc' },
+  })
+  return assets.map(toAssetInfo)
+}
+
+/**
+ * Delete an asset, unless the book's theme uses it as its logo
+ */
+export async function deleteBookAsset(bookId: string, assetId: string): Promise<void> {
+  const asset = await prisma.bookAsset.findFirst({
+    where: { id: assetId, bookId },
+    include: { book: { select: { themeConfig: true } } },
+  })
+  if (!asset) {
+    throw new BookAssetError('Asset not found', 404)
+  }
+
+  const theme = asset.book.themeConfig as Partial<ThemeConfig> | null
+  if (theme?.logo?.assetId === assetId) {
+    throw new BookAssetError('The book theme uses this asset as its logo; remove the logo first', 409)
+  }
+
+  await prisma.bookAsset.delete({ where: { id: assetId } })
+  await getStorage().delete(asset.storageKey)
+}
+
+/**
+ * Whether an asset belongs to the book
+ */
+export async function isBookAsset(bookId: string, assetId: string): Promise<boolean> {
+  const asset = await prisma.bookAsset.findFirst({ where: { id: assetId, bookId }, select: { id: true } })
+  return !!asset
+}
+
+/**
+ * Turn an asset's file into a LogoImage for a theme with the given background
+ */
+export async function prepareLogo(body: Buffer, contentType: string, background: string): Promise<LogoImage> {
+  const { png, cmyk, width, height } = await logoImages(body, {
+    svg: contentType === 'image/svg+xml',
+    maxPixels: PDF_LOGO_PIXELS,
+    background,
+  })
+
+  return {
+    href: `data:${contentType};base64,${body.toString('base64')}`,
+    png,
+    cmyk,
+    aspectRatio: width / height,
+  }
+}
+
+const logoCache = new Map<string, LogoImage>()
+
+/**
+ * The theme's logo, or null if it has none. A logo whose asset is gone is
+ * left out (with a warning) rather than failing the render.
+ */
+export async function loadLogo(theme: ThemeConfig): Promise<LogoImage | null> {
+  if (!theme.logo) {
+    return null
+  }
+
+  const cacheKey = `${theme.logo.assetId}:${theme.colorScheme.background}`
+  const cached = logoCache.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  const asset = await prisma.bookAsset.findUnique({ where: { id: theme.logo.assetId } })
+  const object = asset ? await getStorage().get(asset.storageKey) : null
+  if (!asset || !object) {
+    console.warn(`Logo asset ${theme.logo.assetId} not found; rendering without it`)
+    return null
+  }
+
+  const logo = await prepareLogo(object.body, asset.contentType, theme.colorScheme.background)
+  if (logoCache.size >= LOGO_CACHE_SIZE) {
+    logoCache.delete(logoCache.keys().next().value as string)
+  }
+  logoCache.set(cacheKey, logo)
+  return logo
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createHash } from 'crypto'
+import { bookExportEntries, streamBookExport, type ExportPage } from './bookExport'
+
+const { cachedPageOutput } = vi.hoisted(() => ({ cachedPageOutput: vi.fn() }))
+
+vi.mock('./renderCache', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./renderCache')>()),
+  cachedPageOutput,
+}))
+
+const book = { id: 'b1', title: 'The Book', author: 'An Author', isbn: '978-0-00-000000-2', themeConfig: null }
+
+function pages(count: number): ExportPage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    pageNumber: i + 1,
+    code: `CODE${i + 1}`,
+    audioLink: `https://example.com/${i + 1}.mp3`,
+    symbologyVersion: 'v2',
+  }))
+}
+
+function output(text: string) {
+  return { body: Buffer.from(text), contentType: 'image/png', extension: 'png' }
+}
+
+async function collect<T>(entries: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = []
+  for await (const entry of entries) collected.push(entry)
+  return collected
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const chunks: Uint8Array[] = []
+  const reader = stream.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return Buffer.concat(chunks)
+    chunks.push(value)
+  }
+}
+
+describe('bookExport', () => {
+  beforeEach(() => {
+    cachedPageOutput.mockReset()
+  })
+
+  describe('bookExportEntries', () => {
+    it('renders pages a few at a time and keeps them in page order', async () => {
+      let running = 0
+      let mostRunning = 0
+      cachedPageOutput.mockImplementation(async (page: ExportPage) => {
+        running++
+        mostRunning = Math.max(mostRunning, running)
+        // Later pages finish first
+        await new Promise((resolve) => setTimeout(resolve, 20 - page.pageNumber))
+        running--
+        return output(page.code)
+      })
+
+      const entries = await collect(bookExportEntries(book, pages(10), 'png', { concurrency: 3 }))
+
+      expect(entries.map((entry) => entry.name)).toEqual([
+        ...pages(10).map((page) => `page_${page.pageNumber.toString().padStart(3, '0')}_${page.code}.png`),
+        'manifest.csv',
+      ])
+      expect(mostRunning).toBe(3)
+    })
+
+    it('only renders as far ahead as the reader', async () => {
+      cachedPageOutput.mockImplementation(async (page: ExportPage) => output(page.code))
+      const entries = bookExportEntries(book, pages(20), 'png', { concurrency: 2 })
+
+      await entries.next()
+      await entries.return(undefined)
+
+      expect(cachedPageOutput.mock.calls.length).toBeLessThanOrEqual(3)
+    })
+
+    it('leaves out pages that fail and lists them in errors.txt', async () => {
+      cachedPageOutput.mockImplementation(async (page: ExportPage) => {
+        if (page.pageNumber === 2) throw new Error('Logo asset missing')
+        return output(page.code)
+      })
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const entries = await collect(bookExportEntries(book, pages(3), 'pdf'))
+      error.mockRestore()
+
+      expect(entries.map((entry) => entry.name)).toEqual([
+        'page_001_CODE1.png',
+        'page_003_CODE3.png',
+        'manifest.csv',
+        'errors.txt',
+      ])
+      expect(entries[3].data).toBe('1 of 3 pages could not be rendered:\npage_002_CODE2.pdf: Logo asset missing\n')
+    })
+
+    it('writes the manifest in the chosen format with each image\'s checksum', async () => {
+      cachedPageOutput.mockImplementation(async (page: ExportPage) => output(page.code))
+
+      const entries = await collect(bookExportEntries(book, pages(2), 'png', { manifest: 'json' }))
+      const manifest = JSON.parse(entries[2].data as string)
+
+      expect(entries[2].name).toBe('manifest.json')
+      expect(manifest.book).toMatchObject({ title: 'The Book', author: 'An Author', isbn: '978-0-00-000000-2' })
+      expect(manifest.pages[1]).toMatchObject({
+        pageNumber: 2,
+        image: 'page_002_CODE2.png',
+        sha256: createHash('sha256').update('CODE2').digest('hex'),
+      })
+    })
+
+    it('lays images out for data merge and adds datamerge.csv', async () => {
+      cachedPageOutput.mockImplementation(async (page: ExportPage) => output(page.code))
+
+      const entries = await collect(
+        bookExportEntries(book, pages(2), 'png', {
+          dataMerge: { columns: ['code'], encoding: 'utf-8', pageLabel: '{n}', chapters: [] },
+        })
+      )
+
+      expect(entries.map((entry) => entry.name)).toEqual([
+        'images/page_001_CODE1.png',
+        'images/page_002_CODE2.png',
+        'manifest.csv',
+        'datamerge.csv',
+      ])
+      expect(entries[3].data.toString()).toBe(
+        '@image,code\r\nimages/page_001_CODE1.png,CODE1\r\nimages/page_002_CODE2.png,CODE2\r\n'
+      )
+    })
+  })
+
+  describe('streamBookExport', () => {
+    it('streams a ZIP of every entry', async () => {
+      cachedPageOutput.mockImplementation(async (page: ExportPage) => output(page.code))
+
+      const zip = await readAll(streamBookExport(book, pages(5)))
+
+      expect(zip.subarray(0, 4).toString('latin1')).toBe('PK\x03\x04')
+      expect(zip.includes('page_005_CODE5.png')).toBe(true)
+      expect(zip.includes('manifest.csv')).toBe(true)
+      expect(zip.includes('errors.txt')).toBe(false)
+    })
+
+    it('stops rendering when the client goes away', async () => {
+      cachedPageOutput.mockImplementation(async (page: ExportPage) => ({
+        ...output(page.code),
+        body: Buffer.alloc(256 * 1024, page.pageNumber),
+      }))
+      const stream = streamBookExport(book, pages(200), 'png', { concurrency: 2 })
+      const reader = stream.getReader()
+
+      await reader.read()
+      await reader.cancel()
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      expect(cachedPageOutput.mock.calls.length).toBeLessThan(200)
+    })
+  })
+})
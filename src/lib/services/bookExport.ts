@@ -0,0 +1,209 @@
+import archiver from 'archiver'
+import { createHash } from 'crypto'
+import {
+  OUTPUT_TYPES,
+  resolveOutputTheme,
+  resolvePageTheme,
+  type OutputFormat,
+  type RenderableBook,
+  type RenderedOutput,
+} from './renderPipeline'
+import { cachedPageOutput } from './renderCache'
+import {
+  buildManifest,
+  manifestFileName,
+  manifestPage,
+  serializeManifest,
+  type ManifestBook,
+  type ManifestFormat,
+  type ManifestPage,
+} from './exportManifest'
+import { buildDataMergeCsv, DATA_MERGE_FILE, DATA_MERGE_IMAGE_DIR, type DataMergeOptions } from './dataMerge'
+import type { PagePlacement } from '../types/placement'
+
+/**
+ * Files for a book's print export (the download ZIP)
+ *
+ * Pages render a few at a time and are written to the archive in page
+ * order. Nothing runs further ahead than the reader of the archive: renders
+ * wait for the ZIP to be written, which waits for the client to take it.
+ * A page that fails to render is left out and listed in errors.txt, so one
+ * bad page never costs the whole export.
+ *
+ * The data merge profile lays the ZIP out for InDesign or Affinity
+ * Publisher: images in images/ and a datamerge.csv pointing at them (see
+ * dataMerge.ts).
+ */
+
+// Pages rendered at the same time
+export const EXPORT_CONCURRENCY = 4
+
+export const EXPORT_PROFILES = ['standard', 'datamerge'] as const
+export type ExportProfile = (typeof EXPORT_PROFILES)[number]
+
+export interface ExportPage {
+  pageNumber: number
+  code: string
+  audioLink: string
+  symbologyVersion: string
+  placement?: PagePlacement | null
+}
+
+export interface ExportBook extends RenderableBook, ManifestBook {
+  id: string
+}
+
+export interface ExportEntry {
+  name: string
+  data: Buffer | string
+}
+
+export interface ExportOptions {
+  concurrency?: number
+  manifest?: ManifestFormat   // Default csv
+  dataMerge?: DataMergeOptions  // Export with the data merge profile
+}
+
+type PageRender =
+  | { page: ExportPage; output: RenderedOutput }
+  | { page: ExportPage; error: string }
+
+export function exportImageName(
+  page: { pageNumber: number; code: string },
+  extension: string = 'png'
+): string {
+  return `page_${page.pageNumber.toString().padStart(3, '0')}_${page.code}.${extension}`
+}
+
+/**
+ * Page images (rendered through the shared pipeline in the given format, or
+ * taken from the render cache) followed by the manifest (CSV, JSON or XML,
+ * see exportManifest.ts), datamerge.csv for the data merge profile, and
+ * errors.txt if any page failed
+ */
+export async function* bookExportEntries(
+  book: ExportBook,
+  pages: ExportPage[],
+  format: OutputFormat = 'png',
+  options: ExportOptions = {}
+): AsyncGenerator<ExportEntry> {
+  const concurrency = Math.max(1, options.concurrency ?? EXPORT_CONCURRENCY)
+  const manifestFormat = options.manifest ?? 'csv'
+  const theme = resolvePageTheme(book)
+  const imageDir = options.dataMerge ? DATA_MERGE_IMAGE_DIR : ''
+  const render = (page: ExportPage): Promise<PageRender> =>
+    cachedPageOutput(page, book, format).then(
+      (output) => ({ page, output }),
+      (error) => ({ page, error: error instanceof Error ? error.message : String(error) })
+    )
+
+  const inFlight: Promise<PageRender>[] = []
+  const failures: string[] = []
+  const records: ManifestPage[] = []
+  let next = 0
+  while (next < pages.length || inFlight.length > 0) {
+    while (next < pages.length && inFlight.length < concurrency) {
+      inFlight.push(render(pages[next++]))
+    }
+
+    const result = await inFlight.shift()!
+    if ('output' in result) {
+      const name = imageDir + exportImageName(result.page, result.output.extension)
+      const sha256 = createHash('sha256').update(result.output.body).digest('hex')
+      records.push(manifestPage(result.page, resolveOutputTheme(result.page, book, format), { name, sha256 }))
+      yield { name, data: result.output.body }
+    } else {
+      console.error(`Failed to render page ${result.page.pageNumber} for export:`, result.error)
+      failures.push(`${imageDir}${exportImageName(result.page, OUTPUT_TYPES[format].extension)}: ${result.error}`)
+      records.push(manifestPage(result.page, resolveOutputTheme(result.page, book, format), null))
+    }
+  }
+
+  yield {
+    name: manifestFileName(manifestFormat),
+    data: serializeManifest(buildManifest(book, theme, format, records), manifestFormat),
+  }
+  if (options.dataMerge) {
+    yield { name: DATA_MERGE_FILE, data: buildDataMergeCsv(records, options.dataMerge) }
+  }
+  if (failures.length > 0) {
+    yield {
+      name: 'errors.txt',
+      data: [`${failures.length} of ${pages.length} pages could not be rendered:`, ...failures, ''].join('\n'),
+    }
+  }
+}
+
+/**
+ * The export as a ZIP, streamed as it is written. Cancelling the stream
+ * (the client going away) stops the export.
+ */
+export function streamBookExport(
+  book: ExportBook,
+  pages: ExportPage[],
+  format: OutputFormat = 'png',
+  options: ExportOptions = {}
+): ReadableStream<Uint8Array> {
+  const archive = archiver('zip', { zlib: { level: 9 } })
+  let closed = false
+
+  // Resolves once the archive has written the last appended entry, which
+  // it only does as fast as the stream is read
+  const written = () =>
+    new Promise<void>((resolve, reject) => {
+      const done = () => {
+        archive.off('entry', done)
+        archive.off('close', stopped)
+        resolve()
+      }
+      const stopped = () => {
+        archive.off('entry', done)
+        reject(new Error('Export stopped'))
+      }
+      archive.once('entry', done)
+      archive.once('close', stopped)
+    })
+
+  const fill = async () => {
+    try {
+      for await (const entry of bookExportEntries(book, pages, format, options)) {
+        if (closed) return
+        archive.append(entry.data, { name: entry.name })
+        await written()
+      }
+      await archive.finalize()
+    } catch (error) {
+      if (!closed) {
+        archive.destroy(error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+  }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      archive.on('data', (chunk: Buffer) => {
+        controller.enqueue(new Uint8Array(chunk))
+        if ((controller.desiredSize ?? 0) <= 0) archive.pause()
+      })
+      archive.on('end', () => {
+        if (closed) return
+        closed = true
+        controller.close()
+      })
+      archive.on('error', (error) => {
+        console.error('Error writing export archive:', error)
+        if (closed) return
+        closed = true
+        controller.error(error)
+      })
+      fill()
+    },
+    pull() {
+      archive.resume()
+    },
+    cancel() {
+      closed = true
+      archive.abort()
+    },
+  })
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_THEME, type Caption, type Layout, type Logo, type ThemeConfig } from '../types/theme'
+import { layoutArtwork } from './captionLayout'
+
+const CODE = 'K7Q2ZBF'
+const MM_PER_PT = 25.4 / 72
+
+function withCaption(caption: Partial<Caption>, width = 30, height = 12): ThemeConfig {
+  return {
+    ...DEFAULT_THEME,
+    dimensions: { ...DEFAULT_THEME.dimensions, width, height },
+    caption: { ...DEFAULT_THEME.caption, position: 'below', ...caption },
+  }
+}
+
+describe('layoutArtwork', () => {
+  it('gives the bars the whole artwork without a caption', () => {
+    const layout = layoutArtwork(CODE, DEFAULT_THEME, 15, 5, MM_PER_PT)
+
+    expect(layout.wave).toEqual({ x: 0, y: 0, width: 15, height: 5 })
+    expect(layout.caption).toBeNull()
+  })
+
+  it('puts a caption below the bars, centred', () => {
+    const { wave, caption } = layoutArtwork(CODE, withCaption({}), 30, 12, MM_PER_PT)
+
+    expect(wave.width).toBe(30)
+    expect(wave.height).toBeLessThan(12)
+    expect(caption!.fontSize).toBe(7)
+    expect(caption!.box.y).toBeGreaterThan(wave.height)
+    expect(caption!.box.y + caption!.box.height).toBeLessThanOrEqual(12)
+    expect(caption!.box.x).toBeCloseTo((30 - caption!.box.width) / 2, 6)
+    expect(caption!.path).toMatch(/^M/)
+  })
+
+  it('puts a caption right of the bars', () => {
+    const { wave, caption } = layoutArtwork(CODE, withCaption({ position: 'right' }, 40, 8), 40, 8, MM_PER_PT)
+
+    expect(wave.height).toBe(8)
+    expect(wave.width).toBeLessThan(40)
+    expect(caption!.box.x).toBeGreaterThan(wave.width)
+    expect(caption!.box.x + caption!.box.width).toBeLessThanOrEqual(40)
+  })
+
+  it('shrinks a caption too wide for the artwork', () => {
+    const theme = withCaption({ prefix: 'Scan or type:' }, 15, 5)
+    const { caption } = layoutArtwork(CODE, theme, 15, 5, MM_PER_PT)
+
+    expect(caption!.fontSize).toBeLessThan(7)
+    expect(caption!.box.width).toBeCloseTo(15, 6)
+  })
+
+  it('widens the caption with letter spacing', () => {
+    const tight = layoutArtwork(CODE, withCaption({ letterSpacing: 0 }), 30, 12, MM_PER_PT)
+    const loose = layoutArtwork(CODE, withCaption({ letterSpacing: 0.2 }), 30, 12, MM_PER_PT)
+
+    expect(loose.caption!.box.width).toBeGreaterThan(tight.caption!.box.width)
+  })
+
+  describe('logos', () => {
+    const withLogo = (logo: Partial<Logo>): ThemeConfig => ({
+      ...DEFAULT_THEME,
+      logo: { assetId: 'asset-1', position: 'start', size: 80, quietZone: 2, ...logo },
+    })
+
+    it('takes one end of the bars\' area, centred on the bar row', () => {
+      const layout = layoutArtwork(CODE, withLogo({}), 30, 10, MM_PER_PT, false, { aspectRatio: 1.5, barPitch: 0.5 })
+
+      expect(layout.logo).toEqual({ x: 0, y: 2.5, width: 7.5, height: 5 })
+      expect(layout.wave.x).toBeCloseTo(7.5 + 2, 9)
+      expect(layout.wave.width).toBeCloseTo(30 - 9.5, 9)
+    })
+
+    it('sizes the logo by height, up to its share of the width', () => {
+      const space = { aspectRatio: 1, barPitch: 0.5 }
+      const narrow = layoutArtwork(CODE, withLogo({ position: 'end', size: 50 }), 30, 10, MM_PER_PT, false, space)
+      const wide = layoutArtwork(CODE, withLogo({ position: 'end' }), 30, 10, MM_PER_PT, false, space)
+
+      expect(narrow.logo).toEqual({ x: 25, y: 2.5, width: 5, height: 5 })
+      expect(wide.logo).toEqual({ x: 22.5, y: 1.25, width: 7.5, height: 7.5 })
+    })
+
+    it('widens the quiet zone to three bar pitches', () => {
+      const { wave, logo } = layoutArtwork(CODE, withLogo({ quietZone: 0 }), 300, 100, 300 / 72, true, {
+        aspectRatio: 1,
+        barPitch: 9,
+      })
+
+      expect(wave.x - (logo!.x + logo!.width)).toBeGreaterThanOrEqual(27)
+      expect(Number.isInteger(wave.x)).toBe(true)
+    })
+
+    it('leaves the artwork alone without a logo image', () => {
+      const { wave, logo } = layoutArtwork(CODE, withLogo({}), 30, 10, MM_PER_PT)
+
+      expect(logo).toBeNull()
+      expect(wave).toEqual({ x: 0, y: 0, width: 30, height: 10 })
+    })
+  })
+
+  describe('layouts', () => {
+    const withLayout = (layout: Partial<Layout>, logo?: Partial<Logo>): ThemeConfig => ({
+      ...DEFAULT_THEME,
+      layout: { ...DEFAULT_THEME.layout, ...layout },
+      ...(logo && { logo: { assetId: 'asset-1', position: 'start', size: 80, quietZone: 1, ...logo } }),
+    })
+
+    it('fits a circular ring in the middle of the artwork', () => {
+      const { ring } = layoutArtwork(CODE, withLayout({ mode: 'circular', innerRadius: 40 }), 30, 20, MM_PER_PT)
+
+      expect(ring).toEqual({ cx: 15, cy: 10, outer: 10, inner: 4, sweep: 360 })
+    })
+
+    it('raises an arc to use the height its bowl leaves free', () => {
+      const { ring } = layoutArtwork(CODE, withLayout({ mode: 'arc', arcAngle: 180 }), 30, 10, MM_PER_PT)
+
+      expect(ring!.sweep).toBe(180)
+      expect(ring!.cy - ring!.outer).toBeCloseTo(0, 9)
+      expect(ring!.cy).toBeCloseTo(10, 9)
+    })
+
+    it('has no ring for linear layouts', () => {
+      expect(layoutArtwork(CODE, withLayout({ mode: 'vertical' }), 6, 20, MM_PER_PT).ring).toBeNull()
+    })
+
+    it('centres a logo inside the ring, clear of the bars', () => {
+      const theme = withLayout({ mode: 'circular', innerRadius: 50 }, { size: 100, quietZone: 2 })
+      const { ring, logo } = layoutArtwork(CODE, theme, 20, 20, MM_PER_PT, false, { aspectRatio: 1, barPitch: 0.2 })
+
+      expect(logo!.x + logo!.width / 2).toBeCloseTo(ring!.cx, 9)
+      expect(logo!.y + logo!.height / 2).toBeCloseTo(ring!.cy, 9)
+      expect(Math.hypot(logo!.width, logo!.height) / 2).toBeCloseTo(ring!.inner - 2, 9)
+    })
+
+    it('puts a logo at the top of a vertical column', () => {
+      const theme = withLayout({ mode: 'vertical' }, { quietZone: 2 })
+      const { wave, logo } = layoutArtwork(CODE, theme, 10, 40, MM_PER_PT, false, { aspectRatio: 1, barPitch: 0.5 })
+
+      expect(logo).toEqual({ x: 1, y: 0, width: 8, height: 8 })
+      expect(wave).toEqual({ x: 0, y: 10, width: 10, height: 30 })
+    })
+  })
+
+  it('keeps the bars to whole pixels', () => {
+    const { wave } = layoutArtwork(CODE, withCaption({}), 354, 142, 300 / 72, true)
+
+    expect(Number.isInteger(wave.height)).toBe(true)
+  })
+})
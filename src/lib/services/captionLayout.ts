@@ -0,0 +1,226 @@
+import path from 'path'
+import * as fontkit from 'fontkit'
+import {
+  ThemeConfig,
+  CaptionFont,
+  captionText,
+  logoQuietZone,
+  LOGO_QUIET_ZONE_PITCHES,
+  MAX_LOGO_SHARE,
+} from '../types/theme'
+import { Ring, isRingLayout, fitRing } from './barLayout'
+
+/**
+ * Caption and logo layout, shared by the PNG and vector renderers
+ *
+ * The caption takes a band of the artwork (under or right of the bars) and
+ * the bars are laid out in what's left. Text is set in one of the bundled
+ * fonts and returned as outlines (SVG path data), so PNG, SVG and PDF output
+ * match and nothing depends on installed fonts or font embedding. Captions
+ * that don't fit are shrunk. A logo then takes one end of the bars' area,
+ * with its quiet zone between it and the bars, or the middle of a ring
+ * (circular and arc layouts). Units are the caller's: mm for vector output,
+ * pixels for the PNG.
+ */
+
+export interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ArtworkLayout {
+  wave: Box                 // Where the bars go
+  ring: Ring | null         // The ring in it, for circular and arc layouts
+  caption: {
+    path: string            // Outlines of the caption text, in artwork coordinates
+    box: Box
+    fontSize: number        // pt, after shrinking to fit
+  } | null
+  logo: Box | null          // Where the logo image is drawn
+}
+
+// What the layout needs to know about a theme's logo
+export interface LogoSpace {
+  aspectRatio: number       // Width / height of the logo image
+  barPitch: number          // The renderer's bar pitch, in artwork units
+}
+
+const FONT_FILES: Record<CaptionFont, string> = {
+  sans: 'ibm-plex-sans-latin-400-normal.woff2',
+  serif: 'ibm-plex-serif-latin-400-normal.woff2',
+  mono: 'ibm-plex-mono-latin-400-normal.woff2',
+}
+
+const fonts = new Map<CaptionFont, fontkit.Font>()
+
+function loadFont(name: CaptionFont): fontkit.Font {
+  let font = fonts.get(name)
+  if (!font) {
+    font = fontkit.openSync(path.join(process.cwd(), 'public', 'fonts', FONT_FILES[name])) as fontkit.Font
+    fonts.set(name, font)
+  }
+  return font
+}
+
+// Space between the bars and the caption, relative to the font size
+const CAPTION_GAP = 0.4
+
+// 0.001 units is well below a pixel or a print dot
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+/**
+ * Split artwork of the given size between the bars, the code's caption and
+ * the theme's logo (if the logo image was found). unitsPerPt converts font
+ * sizes and mm to the artwork's units; with wholeUnits the bars' area is
+ * kept to whole units (pixels). Circular and arc layouts get the largest
+ * ring that fits the bars' area.
+ */
+export function layoutArtwork(
+  code: string,
+  theme: ThemeConfig,
+  width: number,
+  height: number,
+  unitsPerPt: number,
+  wholeUnits: boolean = false,
+  logo: LogoSpace | null = null
+): ArtworkLayout {
+  const { wave, caption } = layoutCaption(code, theme, width, height, unitsPerPt, wholeUnits)
+  if (!theme.logo || !logo) {
+    return { wave, ring: isRingLayout(theme) ? fitRing(theme, wave) : null, caption, logo: null }
+  }
+
+  // The quiet zone is never narrower than the renderer's own bar pitches
+  const unitsPerMm = (unitsPerPt * 72) / 25.4
+  const quietZone = Math.max(logoQuietZone(theme) * unitsPerMm, LOGO_QUIET_ZONE_PITCHES * logo.barPitch)
+  const size = theme.logo.size / 100
+
+  if (isRingLayout(theme)) {
+    // At 100% the logo's corners touch the inside of its quiet zone. The
+    // ring is fitted with room for it (less the quiet zone, which is small).
+    const diagonal = Math.hypot(1, logo.aspectRatio)
+    const hollowHeight = (2 * size * theme.layout.innerRadius) / 100 / diagonal
+    const ring = fitRing(theme, wave, { width: hollowHeight * logo.aspectRatio, height: hollowHeight })
+
+    const logoHeight = (2 * size * Math.max(0, ring.inner - quietZone)) / diagonal
+    const logoWidth = logoHeight * logo.aspectRatio
+    return {
+      wave,
+      ring,
+      caption,
+      logo: { x: ring.cx - logoWidth / 2, y: ring.cy - logoHeight / 2, width: logoWidth, height: logoHeight },
+    }
+  }
+
+  // Sized by the bars' depth (height, or width in a column), shortened to
+  // its share of their length if need be, and centred across them
+  const vertical = theme.layout.mode === 'vertical'
+  const length = vertical ? wave.height : wave.width
+  const depth = vertical ? wave.width : wave.height
+  const lengthPerDepth = vertical ? 1 / logo.aspectRatio : logo.aspectRatio
+  let logoDepth = depth * size
+  let logoLength = logoDepth * lengthPerDepth
+  if (logoLength > length * MAX_LOGO_SHARE) {
+    logoDepth *= (length * MAX_LOGO_SHARE) / logoLength
+    logoLength = length * MAX_LOGO_SHARE
+  }
+
+  const reserved = wholeUnits ? Math.ceil(logoLength + quietZone) : logoLength + quietZone
+  const start = theme.logo.position === 'start'
+  const offset = start ? reserved : 0
+  const logoAlong = start ? 0 : length - logoLength
+  const logoAcross = (depth - logoDepth) / 2
+
+  return vertical
+    ? {
+        wave: { x: wave.x, y: wave.y + offset, width: wave.width, height: wave.height - reserved },
+        ring: null,
+        caption,
+        logo: { x: wave.x + logoAcross, y: wave.y + logoAlong, width: logoDepth, height: logoLength },
+      }
+    : {
+        wave: { x: wave.x + offset, y: wave.y, width: wave.width - reserved, height: wave.height },
+        ring: null,
+        caption,
+        logo: { x: wave.x + logoAlong, y: wave.y + logoAcross, width: logoLength, height: logoDepth },
+      }
+}
+
+function layoutCaption(
+  code: string,
+  theme: ThemeConfig,
+  width: number,
+  height: number,
+  unitsPerPt: number,
+  wholeUnits: boolean
+): Omit<ArtworkLayout, 'ring' | 'logo'> {
+  const { caption } = theme
+  if (caption.position === 'none') {
+    return { wave: { x: 0, y: 0, width, height }, caption: null }
+  }
+
+  const font = loadFont(caption.font)
+  const run = font.layout(captionText(code, caption))
+  const em = font.unitsPerEm
+  const tracking = caption.letterSpacing * em
+
+  // Text size in font units (cap height to descender)
+  const textWidth = run.advanceWidth + tracking * (run.glyphs.length - 1)
+  const textHeight = font.capHeight - font.descent
+
+  // Everything scales with the font size; at 1pt the caption needs this much
+  // room. It may take half the artwork, along the side it sits on.
+  const below = caption.position === 'below'
+  const unit = unitsPerPt / em
+  const gapPerPt = unitsPerPt * CAPTION_GAP
+  const fontSize = below
+    ? Math.min(caption.size, width / (textWidth * unit), height / 2 / (textHeight * unit + gapPerPt))
+    : Math.min(caption.size, width / 2 / (textWidth * unit + gapPerPt), height / (textHeight * unit))
+
+  const scale = fontSize * unit
+  const gap = fontSize * gapPerPt
+  const bandSize = (below ? textHeight : textWidth) * scale + gap
+  const band = wholeUnits ? Math.ceil(bandSize) : bandSize
+  const box: Box = below
+    ? {
+        x: (width - textWidth * scale) / 2,
+        y: height - band + gap / 2,
+        width: textWidth * scale,
+        height: textHeight * scale,
+      }
+    : {
+        x: width - band + gap / 2,
+        y: (height - textHeight * scale) / 2,
+        width: textWidth * scale,
+        height: textHeight * scale,
+      }
+
+  // Glyph outlines, y flipped (fonts are y-up) and placed on the baseline
+  const baseline = box.y + font.capHeight * scale
+  const commands: string[] = []
+  let pen = 0
+  run.glyphs.forEach((glyph, i) => {
+    const position = run.positions[i]
+    const originX = box.x + (pen + position.xOffset) * scale
+    const originY = baseline - position.yOffset * scale
+    for (const { command, args } of glyph.path.commands) {
+      const points = []
+      for (let j = 0; j < args.length; j += 2) {
+        points.push(`${num(originX + args[j] * scale)} ${num(originY - args[j + 1] * scale)}`)
+      }
+      const op = { moveTo: 'M', lineTo: 'L', quadraticCurveTo: 'Q', bezierCurveTo: 'C', closePath: 'Z' }[command]
+      commands.push(`${op}${points.join(' ')}`)
+    }
+    pen += position.xAdvance + tracking
+  })
+
+  return {
+    wave: below
+      ? { x: 0, y: 0, width, height: height - band }
+      : { x: 0, y: 0, width: width - band, height },
+    caption: { path: commands.join(''), box, fontSize },
+  }
+}
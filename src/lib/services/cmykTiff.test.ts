@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import sharp from 'sharp'
+import { DEFAULT_THEME, type ThemeConfig } from '../types/theme'
+import { encodeCmykTiff, renderWaveCodeTiff } from './cmykTiff'
+
+const CODE = 'K7Q2ZBF'
+
+// Ink values of the top left pixel (the background). sharp would convert
+// to RGB on reading, so take them from the single strip, which ends the file.
+async function cornerInks(tiff: Buffer): Promise<number[]> {
+  const { width = 0, height = 0 } = await sharp(tiff).metadata()
+  return Array.from(tiff.subarray(tiff.length - width * height * 4).subarray(0, 4))
+}
+
+describe('cmykTiff', () => {
+  it('writes a CMYK TIFF sharp can read', async () => {
+    const pixels = Buffer.from([0, 0, 0, 255, 255, 0, 0, 0])
+    const metadata = await sharp(encodeCmykTiff(pixels, 2, 1, 300)).metadata()
+
+    expect(metadata.format).toBe('tiff')
+    expect(metadata.space).toBe('cmyk')
+    expect(metadata.channels).toBe(4)
+    expect(metadata.width).toBe(2)
+    expect(metadata.density).toBe(300)
+  })
+
+  it('renders at the theme size and DPI', async () => {
+    const metadata = await sharp(await renderWaveCodeTiff(CODE, DEFAULT_THEME, 'v2')).metadata()
+
+    expect(metadata.space).toBe('cmyk')
+    expect(metadata.width).toBe(177)
+    expect(metadata.height).toBe(59)
+    expect(metadata.density).toBe(300)
+  })
+
+  it('uses the theme\'s CMYK values', async () => {
+    const theme: ThemeConfig = {
+      ...DEFAULT_THEME,
+      colorScheme: { ...DEFAULT_THEME.colorScheme, print: { background: { cmyk: [0, 20, 100, 0] } } },
+    }
+
+    expect(await cornerInks(await renderWaveCodeTiff(CODE, theme, 'v2'))).toEqual([0, 51, 255, 0])
+  })
+
+  it('prints spot colours as their CMYK alternate', async () => {
+    const theme: ThemeConfig = {
+      ...DEFAULT_THEME,
+      colorScheme: { ...DEFAULT_THEME.colorScheme, print: { background: { spot: 'Warm Grey', cmyk: [0, 0, 0, 40] } } },
+    }
+
+    expect(await cornerInks(await renderWaveCodeTiff(CODE, theme, 'v2'))).toEqual([0, 0, 0, 102])
+  })
+})
@@ -0,0 +1,151 @@
+import { generateThemedWaveCode } from './imageGenerator'
+import { greyPlate, logoPlate } from './renderPool'
+import { slotInk, hexToCmyk } from './vectorRenderer'
+import { SymbologyVersion, LEGACY_SYMBOLOGY_VERSION } from './symbology'
+import { ThemeConfig, CmykColor } from '../types/theme'
+import type { LogoImage } from './bookAssets'
+
+/**
+ * CMYK TIFF output
+ *
+ * sharp only converts RGB to CMYK through an ICC profile, which can't honour
+ * a theme's own CMYK values. Instead each ink is rendered as a greyscale
+ * plate by the PNG renderer (every colour swapped for that ink's coverage,
+ * so gradients, opacity and shadows blend the ink the same way), and the
+ * four plates are written out as one CMYK TIFF. Spot colours print as their
+ * process alternates; a logo prints from its CMYK copy.
+ */
+
+const INKS = 4
+
+// Grey that stands for an ink coverage on a plate: white is no ink
+function coverageGrey(percent: number): string {
+  const value = Math.round(255 * (1 - Math.min(100, Math.max(0, percent)) / 100))
+  return `#${value.toString(16).padStart(2, '0').repeat(3)}`
+}
+
+// The theme with every colour replaced by one ink's coverage
+function plateTheme(theme: ThemeConfig, ink: number): ThemeConfig {
+  const { colorScheme, effects } = theme
+  const coverage = (cmyk: CmykColor) => coverageGrey(cmyk[ink])
+
+  return {
+    ...theme,
+    colorScheme: {
+      type: colorScheme.type,
+      primary: coverage(slotInk(theme, 'primary').cmyk),
+      secondary: colorScheme.secondary ? coverage(slotInk(theme, 'secondary').cmyk) : undefined,
+      background: coverage(slotInk(theme, 'background').cmyk),
+      gradientAngle: colorScheme.gradientAngle,
+    },
+    effects: {
+      ...effects,
+      shadowColor: coverage(hexToCmyk(effects.shadowColor || '#000000')),
+    },
+    caption: {
+      ...theme.caption,
+      color: coverage(hexToCmyk(theme.caption.color)),
+    },
+  }
+}
+
+// One ink of the logo's CMYK copy, as a plate logo in coverage greys
+async function plateLogo(logo: LogoImage, ink: number): Promise<LogoImage> {
+  const png = await logoPlate(logo.cmyk, ink)
+  return { ...logo, href: `data:image/png;base64,${png.toString('base64')}`, png }
+}
+
+/**
+ * Baseline TIFF of interleaved 8-bit CMYK pixels (0 = no ink), uncompressed,
+ * in one strip
+ */
+export function encodeCmykTiff(pixels: Buffer, width: number, height: number, dpi: number): Buffer {
+  // Tag, type (3 = SHORT, 4 = LONG, 5 = RATIONAL), count, value (or offset)
+  type Entry = [number, number, number, number]
+  const ENTRY_COUNT = 14
+  const ifdSize = 2 + ENTRY_COUNT * 12 + 4
+  const bitsOffset = 8 + ifdSize
+  const xResolutionOffset = bitsOffset + 8
+  const yResolutionOffset = xResolutionOffset + 8
+  const dataOffset = yResolutionOffset + 8
+
+  const entries: Entry[] = [
+    [256, 4, 1, width],             // ImageWidth
+    [257, 4, 1, height],            // ImageLength
+    [258, 3, INKS, bitsOffset],     // BitsPerSample: 8,8,8,8
+    [259, 3, 1, 1],                 // Compression: none
+    [262, 3, 1, 5],                 // PhotometricInterpretation: separated
+    [273, 4, 1, dataOffset],        // StripOffsets
+    [277, 3, 1, INKS],              // SamplesPerPixel
+    [278, 4, 1, height],            // RowsPerStrip
+    [279, 4, 1, pixels.length],     // StripByteCounts
+    [282, 5, 1, xResolutionOffset], // XResolution
+    [283, 5, 1, yResolutionOffset], // YResolution
+    [284, 3, 1, 1],                 // PlanarConfiguration: interleaved
+    [296, 3, 1, 2],                 // ResolutionUnit: inch
+    [332, 3, 1, 1],                 // InkSet: CMYK
+  ]
+
+  const header = Buffer.alloc(dataOffset)
+  header.write('II', 0, 'latin1')
+  header.writeUInt16LE(42, 2)
+  header.writeUInt32LE(8, 4)
+
+  header.writeUInt16LE(ENTRY_COUNT, 8)
+  entries.forEach(([tag, type, count, value], i) => {
+    const offset = 10 + i * 12
+    header.writeUInt16LE(tag, offset)
+    header.writeUInt16LE(type, offset + 2)
+    header.writeUInt32LE(count, offset + 4)
+    // A single SHORT sits in the first half of the value field
+    if (type === 3 && count === 1) {
+      header.writeUInt16LE(value, offset + 8)
+    } else {
+      header.writeUInt32LE(value, offset + 8)
+    }
+  })
+  header.writeUInt32LE(0, 10 + ENTRY_COUNT * 12)  // No next IFD
+
+  for (let i = 0; i < INKS; i++) {
+    header.writeUInt16LE(8, bitsOffset + i * 2)
+  }
+  for (const offset of [xResolutionOffset, yResolutionOffset]) {
+    header.writeUInt32LE(dpi, offset)
+    header.writeUInt32LE(1, offset + 4)
+  }
+
+  return Buffer.concat([header, pixels])
+}
+
+/**
+ * Render a wave code as a CMYK TIFF at the theme's size and DPI
+ */
+export async function renderWaveCodeTiff(
+  code: string,
+  theme: ThemeConfig,
+  symbologyVersion: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION,
+  logo: LogoImage | null = null
+): Promise<Buffer> {
+  // The plates render side by side on the pool
+  const plates = await Promise.all(
+    Array.from({ length: INKS }, async (_, ink) => {
+      const png = await generateThemedWaveCode(
+        code,
+        plateTheme(theme, ink),
+        symbologyVersion,
+        logo ? await plateLogo(logo, ink) : null
+      )
+      return greyPlate(png)
+    })
+  )
+
+  const { width, height } = plates[0]
+  const pixels = Buffer.alloc(width * height * INKS)
+  for (let i = 0; i < width * height; i++) {
+    for (let ink = 0; ink < INKS; ink++) {
+      pixels[i * INKS + ink] = 255 - plates[ink].data[i]
+    }
+  }
+
+  return encodeCmykTiff(pixels, width, height, theme.dimensions.dpi)
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { codeAtIndex, namespaceCapacity, namespaceName, profileCodeFilter } from './codeAllocator'
+import { ALPHABET, CODE_PROFILES, isValidCodeFormat } from './codeGenerator'
+
+describe('codeAllocator', () => {
+  describe('namespaceCapacity', () => {
+    it('counts every code a profile can express', () => {
+      expect(namespaceCapacity(CODE_PROFILES.standard)).toBe(36 ** 6)
+      expect(namespaceCapacity(CODE_PROFILES.checked)).toBe(32 ** 6)
+    })
+  })
+
+  describe('namespaceName', () => {
+    it('shares a namespace between profiles of the same shape', () => {
+      const copy = { ...CODE_PROFILES.standard, name: 'my-standard' }
+      const publisher = { name: 'big-publisher', alphabet: ALPHABET, length: 6, prefix: 'PX', checkCharacter: false }
+
+      expect(namespaceName(copy)).toBe('standard')
+      expect(namespaceName(CODE_PROFILES.checked)).toBe('checked')
+      expect(namespaceName({ ...publisher, name: 'other-publisher' })).toBe(namespaceName(publisher))
+      expect(namespaceName({ ...publisher, prefix: 'QX' })).not.toBe(namespaceName(publisher))
+    })
+
+    it('walks the same codes for same-shaped profiles, so counters never overlap', () => {
+      const copy = { ...CODE_PROFILES.standard, name: 'my-standard' }
+      for (let i = 0; i < 5; i++) {
+        expect(codeAtIndex(i, copy, 'key')).toBe(codeAtIndex(i, CODE_PROFILES.standard, 'key'))
+      }
+    })
+  })
+
+  describe('codeAtIndex', () => {
+    it('produces valid codes for each profile', () => {
+      for (const profile of Object.values(CODE_PROFILES)) {
+        for (let i = 0; i < 20; i++) {
+          expect(isValidCodeFormat(codeAtIndex(i, profile, 'key'), profile)).toBe(true)
+        }
+      }
+    })
+
+    it('supports the longest allowed profile', () => {
+      const profile = { name: 'long', alphabet: ALPHABET, length: 10, prefix: 'PX', checkCharacter: true }
+      const code = codeAtIndex(0, profile, 'key')
+      expect(code).toHaveLength(13)
+      expect(isValidCodeFormat(code, profile)).toBe(true)
+    })
+
+    it('never repeats a code across consecutive indexes', () => {
+      const codes = Array.from({ length: 2000 }, (_, i) =>
+        codeAtIndex(i, CODE_PROFILES.standard, 'key')
+      )
+      expect(new Set(codes).size).toBe(codes.length)
+    })
+
+    it('is stable for a key and unpredictable without it', () => {
+      const code = codeAtIndex(5, CODE_PROFILES.standard, 'key')
+      expect(codeAtIndex(5, CODE_PROFILES.standard, 'key')).toBe(code)
+      expect(codeAtIndex(5, CODE_PROFILES.standard, 'other-key')).not.toBe(code)
+      expect(codeAtIndex(6, CODE_PROFILES.standard, 'key')).not.toBe(code)
+    })
+  })
+
+  describe('profileCodeFilter', () => {
+    const publisher = { name: 'big-publisher', alphabet: ALPHABET, length: 6, prefix: 'PX', checkCharacter: false }
+
+    it('lets a profile use its own reserved prefix', () => {
+      expect(profileCodeFilter(publisher, ['PX', 'QA'])('PX7K2Q9B')).toBeNull()
+      expect(profileCodeFilter(publisher, ['P'])('PX7K2Q9B')).toBeNull()
+      expect(profileCodeFilter(publisher, ['PX', 'QA'])('QA7K2Q9B')).toMatchObject({ rule: 'reserved-prefix', term: 'QA' })
+    })
+
+    it('keeps other profiles out of it', () => {
+      expect(profileCodeFilter(CODE_PROFILES.standard, ['PX'])('PX1234')).toMatchObject({ rule: 'reserved-prefix', term: 'PX' })
+    })
+  })
+})
@@ -0,0 +1,220 @@
+import type { Prisma } from '@prisma/client'
+import prisma from '../db/prisma'
+import { createPermutation, type Permutation } from '../utils/permutation'
+import { CODE_PROFILES, withCheckCharacter, type CodeProfile } from './codeGenerator'
+import { createCodeFilter, type CodeFilter } from './codeFilter'
+import { listCodeProfiles } from './codeProfiles'
+
+/**
+ * Collision-free code allocation
+ *
+ * Each code profile is a namespace with a counter in the code_namespaces
+ * table. Allocating n codes atomically bumps the counter by n and maps each
+ * reserved index through a keyed permutation of the profile's code space,
+ * so codes are unpredictable but two indexes never give the same code.
+ * Codes rejected by the filter, or already used by pages allocated before
+ * this scheme, are skipped and more indexes are reserved.
+ */
+
+export class CodeSpaceExhaustedError extends Error {
+  constructor(namespace: string) {
+    super(`Code namespace "${namespace}" has no free codes left`)
+    this.name = 'CodeSpaceExhaustedError'
+  }
+}
+
+export interface NamespaceUsage {
+  namespace: string
+  capacity: number   // Total codes the profile can express
+  allocated: number  // Indexes handed out so far (including skipped codes)
+  free: number
+  freePercent: number
+}
+
+// Batches to reserve before giving up on a filter that rejects (nearly) everything
+const MAX_BATCHES = 20
+
+function allocationKey(): string {
+  // Changing the key reshuffles future codes; collisions are still caught
+  // by the existing-code check, but keep it stable in production
+  return process.env.CODE_ALLOCATION_KEY || process.env.NEXTAUTH_SECRET || 'bookcode'
+}
+
+/**
+ * Number of distinct codes a profile can express (check character excluded)
+ */
+export function namespaceCapacity(profile: CodeProfile): number {
+  return profile.alphabet.length ** profile.length
+}
+
+/**
+ * The namespace a profile allocates from. Profiles of the same shape
+ * (alphabet, length, prefix and check character) produce the same codes,
+ * so they share one counter and permutation whatever they're called. A
+ * shape the built-in profiles have keeps the built-in's name.
+ */
+export function namespaceName(profile: CodeProfile): string {
+  const builtIn = Object.values(CODE_PROFILES).find(
+    (candidate) =>
+      candidate.alphabet === profile.alphabet &&
+      candidate.length === profile.length &&
+      candidate.prefix === profile.prefix &&
+      candidate.checkCharacter === profile.checkCharacter
+  )
+  if (builtIn) {
+    return builtIn.name
+  }
+  return [profile.prefix, profile.length, profile.checkCharacter ? 'check' : 'plain', profile.alphabet].join(':')
+}
+
+const permutations = new Map<string, Permutation>()
+
+function permutationFor(profile: CodeProfile, key: string): Permutation {
+  const cacheKey = `${namespaceName(profile)}:${key}`
+  let permutation = permutations.get(cacheKey)
+  if (!permutation) {
+    permutation = createPermutation(namespaceCapacity(profile), cacheKey)
+    permutations.set(cacheKey, permutation)
+  }
+  return permutation
+}
+
+/**
+ * The code at a given counter index of a profile's namespace
+ */
+export function codeAtIndex(
+  index: number,
+  profile: CodeProfile,
+  key: string = allocationKey()
+): string {
+  let value = permutationFor(profile, key)(index)
+  const base = profile.alphabet.length
+  let payload = ''
+  for (let i = 0; i < profile.length; i++) {
+    payload = profile.alphabet[value % base] + payload
+    value = Math.floor(value / base)
+  }
+  return withCheckCharacter(profile.prefix + payload, profile)
+}
+
+// Reserve `count` indexes; the upsert locks the namespace row until commit
+async function reserveIndexes(
+  tx: Prisma.TransactionClient,
+  profile: CodeProfile,
+  count: number
+): Promise<number> {
+  const name = namespaceName(profile)
+  const namespace = await tx.codeNamespace.upsert({
+    where: { name },
+    create: { name, counter: BigInt(count) },
+    update: { counter: { increment: BigInt(count) } },
+    select: { counter: true },
+  })
+
+  const end = Number(namespace.counter)
+  if (end > namespaceCapacity(profile)) {
+    throw new CodeSpaceExhaustedError(profile.name)
+  }
+  return end - count
+}
+
+async function allocateWith(
+  tx: Prisma.TransactionClient,
+  count: number,
+  profile: CodeProfile,
+  filter: CodeFilter
+): Promise<string[]> {
+  const codes: string[] = []
+
+  for (let batch = 0; codes.length < count; batch++) {
+    if (batch >= MAX_BATCHES) {
+      throw new Error('Failed to allocate codes that pass the code filter')
+    }
+
+    const needed = count - codes.length
+    const start = await reserveIndexes(tx, profile, needed)
+
+    const candidates = Array.from({ length: needed }, (_, i) => codeAtIndex(start + i, profile))
+      .filter((code) => !filter(code))
+    if (candidates.length === 0) continue
+
+    // One query for the whole batch to skip codes from the old random allocator
+    const taken = await tx.page.findMany({
+      where: { code: { in: candidates } },
+      select: { code: true },
+    })
+    const takenCodes = new Set(taken.map((page: { code: string }) => page.code))
+
+    codes.push(...candidates.filter((code) => !takenCodes.has(code)))
+  }
+
+  return codes
+}
+
+/**
+ * The standard filter plus stored reserved prefixes. A profile's own prefix
+ * is usually reserved to keep other profiles out of it, so reservations
+ * covering that prefix don't apply to the profile itself.
+ */
+export async function loadCodeFilter(profile: CodeProfile): Promise<CodeFilter> {
+  const reserved = await prisma.reservedCodePrefix.findMany({ select: { prefix: true } })
+  return profileCodeFilter(profile, reserved.map((r: { prefix: string }) => r.prefix))
+}
+
+/**
+ * The code filter for a profile, given the reserved prefixes
+ */
+export function profileCodeFilter(profile: CodeProfile, reservedPrefixes: string[]): CodeFilter {
+  return createCodeFilter(
+    reservedPrefixes.filter((prefix) => !(profile.prefix && profile.prefix.startsWith(prefix)))
+  )
+}
+
+/**
+ * Allocate `count` unique codes from a profile's namespace
+ * Runs in its own transaction unless a transaction client is passed in.
+ */
+export async function allocateCodes(
+  count: number,
+  profile: CodeProfile,
+  filter: CodeFilter = createCodeFilter(),
+  tx?: Prisma.TransactionClient
+): Promise<string[]> {
+  if (count <= 0) {
+    return []
+  }
+
+  if (tx) {
+    return allocateWith(tx, count, profile, filter)
+  }
+
+  return prisma.$transaction((client: Prisma.TransactionClient) =>
+    allocateWith(client, count, profile, filter)
+  )
+}
+
+/**
+ * How much of each profile's namespace has been used
+ */
+export async function getNamespaceUsage(): Promise<NamespaceUsage[]> {
+  const [profiles, namespaces] = await Promise.all([
+    listCodeProfiles(),
+    prisma.codeNamespace.findMany(),
+  ])
+  const counters = new Map<string, number>(
+    namespaces.map((ns: { name: string; counter: bigint }) => [ns.name, Number(ns.counter)])
+  )
+
+  return profiles.map((profile) => {
+    const capacity = namespaceCapacity(profile)
+    const allocated = Math.min(counters.get(namespaceName(profile)) ?? 0, capacity)
+    const free = capacity - allocated
+    return {
+      namespace: profile.name,
+      capacity,
+      allocated,
+      free,
+      freePercent: Math.round((free / capacity) * 10000) / 100,
+    }
+  })
+}
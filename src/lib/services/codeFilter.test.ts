@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDenylistFilter,
+  createReservedPrefixFilter,
+  combineCodeFilters,
+  createCodeFilter,
+} from './codeFilter'
+import { generateUniqueCodes, CODE_PROFILES } from './codeGenerator'
+
+describe('codeFilter', () => {
+  describe('createDenylistFilter', () => {
+    const filter = createDenylistFilter(['SHIT', 'ASS'])
+
+    it('matches denied words anywhere in the code', () => {
+      expect(filter('SHIT42')).toEqual({ rule: 'denylist', term: 'SHIT' })
+      expect(filter('9ASS12')).toEqual({ rule: 'denylist', term: 'ASS' })
+    })
+
+    it('matches leetspeak spellings', () => {
+      expect(filter('5H1712')).toEqual({ rule: 'denylist', term: 'SHIT' })
+      expect(filter('X4S5Q0')).toEqual({ rule: 'denylist', term: 'ASS' })
+    })
+
+    it('is case-insensitive', () => {
+      expect(filter('shit42')).not.toBeNull()
+    })
+
+    it('passes innocent codes', () => {
+      expect(filter('ABC123')).toBeNull()
+      expect(filter('SH1P42')).toBeNull()
+    })
+  })
+
+  describe('createReservedPrefixFilter', () => {
+    it('matches codes starting with a reserved prefix', () => {
+      const filter = createReservedPrefixFilter(['tst', 'ZZ'])
+      expect(filter('TST123')).toEqual({ rule: 'reserved-prefix', term: 'TST' })
+      expect(filter('ZZ0000')).toEqual({ rule: 'reserved-prefix', term: 'ZZ' })
+      expect(filter('ATST12')).toBeNull()
+    })
+
+    it('ignores empty prefixes', () => {
+      expect(createReservedPrefixFilter([''])('ABC123')).toBeNull()
+    })
+  })
+
+  describe('combineCodeFilters', () => {
+    it('returns the first match', () => {
+      const filter = combineCodeFilters(
+        createReservedPrefixFilter(['POO']),
+        createDenylistFilter(['POO'])
+      )
+      expect(filter('POO123')?.rule).toBe('reserved-prefix')
+      expect(filter('1POO23')?.rule).toBe('denylist')
+    })
+  })
+
+  describe('allocation', () => {
+    it('never allocates codes the filter rejects', () => {
+      const filter = createCodeFilter(['A', 'B', 'C'])
+      const codes = generateUniqueCodes(200, CODE_PROFILES.standard, filter)
+      expect(codes.every((code) => filter(code) === null)).toBe(true)
+    })
+
+    it('gives up when the filter rejects every code', () => {
+      const rejectAll = () => ({ rule: 'denylist' as const, term: '' })
+      expect(() => generateUniqueCodes(1, CODE_PROFILES.standard, rejectAll)).toThrow()
+    })
+  })
+})
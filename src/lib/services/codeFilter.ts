@@ -0,0 +1,131 @@
+/**
+ * Code filters
+ *
+ * Random codes occasionally spell something we don't want printed in a
+ * book, or collide with prefixes reserved for our own use. A filter looks at
+ * a candidate code and returns the reason it's rejected, or null if the
+ * code is fine. The allocator in codeGenerator.ts keeps drawing until a code
+ * passes.
+ */
+
+export interface CodeFilterMatch {
+  rule: 'denylist' | 'reserved-prefix'
+  term: string  // Denied word or reserved prefix that matched
+}
+
+export type CodeFilter = (code: string) => CodeFilterMatch | null
+
+// Words that must never appear in a code, in any position. Kept to words of
+// 3+ letters since shorter ones turn up in too many innocent codes.
+export const DEFAULT_DENYLIST = [
+  'ANAL',
+  'ANUS',
+  'ARSE',
+  'ASS',
+  'BOOB',
+  'COCK',
+  'CRAP',
+  'CUM',
+  'CUNT',
+  'DICK',
+  'DIE',
+  'DILDO',
+  'FAG',
+  'FUCK',
+  'FUK',
+  'GAY',
+  'HELL',
+  'JIZZ',
+  'KILL',
+  'KKK',
+  'NAZI',
+  'NIGG',
+  'PENIS',
+  'PISS',
+  'POO',
+  'PORN',
+  'PUSSY',
+  'RAPE',
+  'SEX',
+  'SHIT',
+  'SLUT',
+  'TIT',
+  'TWAT',
+  'WANK',
+  'WHORE',
+  'XXX',
+]
+
+// Digits commonly substituted for letters ("leetspeak"). A denied letter
+// matches itself or any of these.
+const LEET_VARIANTS: Record<string, string> = {
+  A: '4',
+  B: '8',
+  E: '3',
+  G: '69',
+  I: '1',
+  L: '1',
+  O: '0',
+  S: '5',
+  T: '7',
+  Z: '2',
+}
+
+function leetPattern(word: string): RegExp {
+  const pattern = word
+    .toUpperCase()
+    .split('')
+    .map((char) => (LEET_VARIANTS[char] ? `[${char}${LEET_VARIANTS[char]}]` : char))
+    .join('')
+  return new RegExp(pattern)
+}
+
+/**
+ * Reject codes containing a denied word, including leetspeak spellings
+ * (e.g. "5H17" for "SHIT")
+ */
+export function createDenylistFilter(words: string[] = DEFAULT_DENYLIST): CodeFilter {
+  const patterns = words.map((word) => ({ term: word.toUpperCase(), pattern: leetPattern(word) }))
+
+  return (code) => {
+    const upper = code.toUpperCase()
+    const hit = patterns.find(({ pattern }) => pattern.test(upper))
+    return hit ? { rule: 'denylist', term: hit.term } : null
+  }
+}
+
+/**
+ * Reject codes starting with one of the given prefixes
+ */
+export function createReservedPrefixFilter(prefixes: string[]): CodeFilter {
+  const normalized = prefixes.map((prefix) => prefix.toUpperCase()).filter(Boolean)
+
+  return (code) => {
+    const upper = code.toUpperCase()
+    const prefix = normalized.find((p) => upper.startsWith(p))
+    return prefix ? { rule: 'reserved-prefix', term: prefix } : null
+  }
+}
+
+/**
+ * Combine filters; the first match wins
+ */
+export function combineCodeFilters(...filters: CodeFilter[]): CodeFilter {
+  return (code) => {
+    for (const filter of filters) {
+      const match = filter(code)
+      if (match) return match
+    }
+    return null
+  }
+}
+
+/**
+ * The standard filter: default denylist plus the given reserved prefixes
+ */
+export function createCodeFilter(reservedPrefixes: string[] = []): CodeFilter {
+  return combineCodeFilters(
+    createDenylistFilter(),
+    createReservedPrefixFilter(reservedPrefixes)
+  )
+}
@@ -5,8 +5,28 @@ import {
   isValidCodeFormat,
   codeToNumericValues,
   codeToWavePattern,
+  CODE_PROFILES,
+  ALPHABET,
+  SAFE_ALPHABET,
+  getCodeProfile,
+  normalizeCode,
+  isChecksumMismatch,
+  suggestCodeCorrections,
+  matchCodeProfiles,
+  codeLookup,
+  type CodeProfile,
 } from './codeGenerator'
 
+const checked = CODE_PROFILES.checked
+
+const publisher: CodeProfile = {
+  name: 'big-publisher',
+  alphabet: SAFE_ALPHABET,
+  length: 8,
+  prefix: 'PX',
+  checkCharacter: true,
+}
+
 describe('codeGenerator', () => {
   describe('generateUniqueCode', () => {
     it('generates a 6-character code', () => {
@@ -128,5 +148,138 @@ describe('codeGenerator', () => {
       const pattern2 = codeToWavePattern('TEST01')
       expect(pattern1).toEqual(pattern2)
     })
+
+    it('defaults to the v1 symbology', () => {
+      expect(codeToWavePattern('ABC123')).toEqual(codeToWavePattern('ABC123', 'v1'))
+    })
+
+    it('generates a v2 pattern with guard bars and discrete heights', () => {
+      const pattern = codeToWavePattern('ABC123', 'v2')
+      expect(pattern).toHaveLength(24)
+      expect(pattern[0]).toBe(1)
+      expect(pattern[1]).toBeCloseTo(0.2)
+      expect(pattern[23]).toBeCloseTo(0.2)
+      pattern.forEach((value) => {
+        const level = ((value - 0.2) / 0.8) * 7
+        expect(level).toBeCloseTo(Math.round(level))
+      })
+    })
+
+    it('generates different v1 and v2 patterns for the same code', () => {
+      expect(codeToWavePattern('ABC123', 'v2')).not.toEqual(codeToWavePattern('ABC123', 'v1'))
+    })
+  })
+
+  describe('code profiles', () => {
+    it('falls back to the standard profile for unknown names', () => {
+      expect(getCodeProfile('checked')).toBe(checked)
+      expect(getCodeProfile('nope').name).toBe('standard')
+      expect(getCodeProfile(null).name).toBe('standard')
+    })
+
+    it('generates 7-character checked codes from the safe alphabet', () => {
+      const codes = generateUniqueCodes(50, checked)
+      for (const code of codes) {
+        expect(code).toHaveLength(7)
+        expect(code.split('').every((char) => SAFE_ALPHABET.includes(char))).toBe(true)
+        expect(isValidCodeFormat(code, checked)).toBe(true)
+      }
+    })
+
+    it('keeps 6-character codes valid under the standard profile', () => {
+      expect(isValidCodeFormat('ABC123')).toBe(true)
+      expect(isValidCodeFormat(generateUniqueCode(checked))).toBe(false)
+    })
+
+    it('normalises confusable characters for checked codes only', () => {
+      expect(normalizeCode('o1lIab0', checked)).toBe('0111AB0')
+      expect(normalizeCode('olabcd')).toBe('OLABCD')
+    })
+
+    it('detects a mistyped check character', () => {
+      const code = generateUniqueCode(checked)
+      const typo = code.slice(0, 3) + (code[3] === 'X' ? 'Y' : 'X') + code.slice(4)
+      expect(isChecksumMismatch(code, checked)).toBe(false)
+      expect(isChecksumMismatch(typo, checked)).toBe(true)
+      expect(isChecksumMismatch('ABC123', checked)).toBe(false)
+    })
+
+    it('suggests the original code for a single typo or transposition', () => {
+      const valid = generateUniqueCode(checked)
+      const typo = valid.slice(0, 2) + (valid[2] === '5' ? '6' : '5') + valid.slice(3)
+      expect(suggestCodeCorrections(typo, checked)).toContain(valid)
+
+      if (valid[0] !== valid[1]) {
+        const swapped = valid[1] + valid[0] + valid.slice(2)
+        expect(suggestCodeCorrections(swapped, checked)).toContain(valid)
+      }
+    })
+  })
+
+  describe('custom profiles', () => {
+    it('generates prefixed codes of the configured length', () => {
+      const code = generateUniqueCode(publisher)
+      expect(code).toHaveLength(11)
+      expect(code.startsWith('PX')).toBe(true)
+      expect(isValidCodeFormat(code, publisher)).toBe(true)
+    })
+
+    it('rejects codes without the prefix', () => {
+      const code = generateUniqueCode(publisher)
+      expect(isValidCodeFormat('QX' + code.slice(2), publisher)).toBe(false)
+    })
+
+    it('never suggests changing the prefix', () => {
+      const code = generateUniqueCode(publisher)
+      const typo = code.slice(0, 5) + (code[5] === 'X' ? 'Y' : 'X') + code.slice(6)
+      const suggestions = suggestCodeCorrections(typo, publisher)
+      expect(suggestions).toContain(code)
+      expect(suggestions.every((s) => s.startsWith('PX'))).toBe(true)
+    })
+
+    it('matches codes to the profiles they could have been issued under', () => {
+      const profiles = [...Object.values(CODE_PROFILES), publisher]
+      const names = (code: string) => matchCodeProfiles(code, profiles).map((profile) => profile.name)
+
+      expect(names('ABC123')).toEqual(['standard'])
+      expect(names(generateUniqueCode(checked))).toEqual(['checked'])
+      expect(names(generateUniqueCode(publisher))[0]).toBe('big-publisher')
+      expect(names('ABC12')).toEqual([])
+    })
+
+    it('puts profiles a code fits as typed before ones it fits once normalised', () => {
+      const plain: CodeProfile = { name: 'plain-seven', alphabet: ALPHABET, length: 7, prefix: '', checkCharacter: false }
+      const profiles = [...Object.values(CODE_PROFILES), plain]
+
+      expect(matchCodeProfiles('LOUIS42', profiles).map((profile) => profile.name)).toEqual(['plain-seven', 'checked'])
+    })
+
+    it('looks a code up as typed before normalising it for a shared shape', () => {
+      const plain: CodeProfile = { name: 'plain-seven', alphabet: ALPHABET, length: 7, prefix: '', checkCharacter: false }
+      const profiles = [...Object.values(CODE_PROFILES), plain]
+
+      // Fails the checked profile's check character, but is a valid plain-seven code
+      const lookup = codeLookup('louis42', profiles)
+      expect(lookup.candidates[0]).toBe('LOUIS42')
+      expect(lookup.mismatched).toEqual([])
+
+      const valid = generateUniqueCode(checked)
+      expect(codeLookup(valid.toLowerCase(), profiles).candidates).toEqual([valid])
+    })
+
+    it('reports a mismatch only when no matching profile verifies the code', () => {
+      const valid = generateUniqueCode(checked)
+      const typo = valid.slice(0, 3) + (valid[3] === 'X' ? 'Y' : 'X') + valid.slice(4)
+      const plain: CodeProfile = { name: 'plain-seven', alphabet: ALPHABET, length: 7, prefix: '', checkCharacter: false }
+
+      expect(codeLookup(typo).mismatched.map((profile) => profile.name)).toEqual(['checked'])
+      expect(codeLookup(typo, [...Object.values(CODE_PROFILES), plain]).mismatched).toEqual([])
+    })
+
+    it('encodes long codes in the v2 symbology', () => {
+      const code = generateUniqueCode(publisher)
+      expect(codeToNumericValues(code)).toHaveLength(11)
+      expect(codeToWavePattern(code, 'v2')).toHaveLength(2 + (11 + 4) * 2 + 2)
+    })
   })
 })
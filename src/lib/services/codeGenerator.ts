@@ -1,42 +1,270 @@
 import { customAlphabet } from 'nanoid'
+import {
+  SymbologyVersion,
+  LEGACY_SYMBOLOGY_VERSION,
+  encodeV2Levels,
+  levelToAmplitude,
+} from './symbology'
+import { luhnModNCheckCharacter, hasValidLuhnModN } from '../utils/checkCharacter'
+import { createCodeFilter, type CodeFilter } from './codeFilter'
 
 // Create custom alphabet for 6-character codes (A-Z, 0-9)
 // This gives us 36^6 = ~2.1 billion possible combinations
-const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+export const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
 const CODE_LENGTH = 6
 
-const generateCode = customAlphabet(ALPHABET, CODE_LENGTH)
+// Crockford-style alphabet without I, L, O and U: nothing a reader can
+// confuse when typing a code in by hand. 32^6 = ~1 billion combinations.
+export const SAFE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+
+// Characters readers commonly type for the ones the safe alphabet dropped
+const CONFUSABLE_REPLACEMENTS: Record<string, string> = {
+  O: '0',
+  I: '1',
+  L: '1',
+  U: 'V',
+}
+
+// Code profiles beyond the built-in ones live in the code_profiles table.
+// Every profile alphabet is a subset of ALPHABET, so wave images encode the
+// same character values whichever profile a code came from.
+export interface CodeProfile {
+  name: string
+  alphabet: string
+  length: number           // Random characters, excluding prefix and check character
+  prefix: string           // Fixed leading characters ('' for none)
+  checkCharacter: boolean  // Append a Luhn mod N check character
+}
+
+export const CODE_PROFILES: Record<string, CodeProfile> = {
+  // Original 6-character codes
+  standard: {
+    name: 'standard',
+    alphabet: ALPHABET,
+    length: CODE_LENGTH,
+    prefix: '',
+    checkCharacter: false,
+  },
+  // Typo-resistant codes: safe alphabet plus a 7th check character
+  checked: {
+    name: 'checked',
+    alphabet: SAFE_ALPHABET,
+    length: CODE_LENGTH,
+    prefix: '',
+    checkCharacter: true,
+  },
+}
+
+export const DEFAULT_CODE_PROFILE = CODE_PROFILES.standard
+
+/**
+ * Look up a built-in profile by name, falling back to the default
+ * Use resolveCodeProfile in codeProfiles.ts to include stored profiles.
+ */
+export function getCodeProfile(name?: string | null): CodeProfile {
+  return (name && CODE_PROFILES[name]) || DEFAULT_CODE_PROFILE
+}
+
+export function isBuiltInCodeProfile(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CODE_PROFILES, name)
+}
 
 /**
- * Generate a unique 6-character alphanumeric code
+ * Total printed length of a code under a profile
  */
-export function generateUniqueCode(): string {
-  return generateCode()
+export function codeLengthFor(profile: CodeProfile): number {
+  return profile.prefix.length + profile.length + (profile.checkCharacter ? 1 : 0)
+}
+
+// Denylist only; callers pass createCodeFilter(prefixes) to add reserved prefixes
+const defaultCodeFilter = createCodeFilter()
+
+const generators = new Map<string, () => string>()
+
+function generatorFor(profile: CodeProfile): () => string {
+  const key = `${profile.alphabet}:${profile.length}`
+  let generator = generators.get(key)
+  if (!generator) {
+    generator = customAlphabet(profile.alphabet, profile.length)
+    generators.set(key, generator)
+  }
+  return generator
+}
+
+/**
+ * Append the profile's check character (if it uses one) to a payload
+ */
+export function withCheckCharacter(payload: string, profile: CodeProfile): string {
+  return profile.checkCharacter
+    ? payload + luhnModNCheckCharacter(payload, profile.alphabet)
+    : payload
+}
+
+// Draws before giving up on a filter that rejects (nearly) everything
+const MAX_FILTER_ATTEMPTS = 1000
+
+/**
+ * Generate a unique alphanumeric code (6 characters with the default profile)
+ * Codes rejected by the filter (denied words, reserved prefixes) are redrawn.
+ */
+export function generateUniqueCode(
+  profile: CodeProfile = DEFAULT_CODE_PROFILE,
+  filter: CodeFilter = defaultCodeFilter
+): string {
+  for (let attempt = 0; attempt < MAX_FILTER_ATTEMPTS; attempt++) {
+    const code = withCheckCharacter(profile.prefix + generatorFor(profile)(), profile)
+    if (!filter(code)) {
+      return code
+    }
+  }
+
+  throw new Error('Failed to generate a code that passes the code filter')
 }
 
 /**
  * Generate multiple unique codes
  */
-export function generateUniqueCodes(count: number): string[] {
+export function generateUniqueCodes(
+  count: number,
+  profile: CodeProfile = DEFAULT_CODE_PROFILE,
+  filter: CodeFilter = defaultCodeFilter
+): string[] {
   const codes = new Set<string>()
 
   while (codes.size < count) {
-    codes.add(generateCode())
+    codes.add(generateUniqueCode(profile, filter))
   }
 
   return Array.from(codes)
 }
 
+/**
+ * Uppercase a code and, for profiles with a safe alphabet, map confusable
+ * characters (O, I, L, U) to the ones they were most likely meant to be
+ */
+export function normalizeCode(code: string, profile: CodeProfile = DEFAULT_CODE_PROFILE): string {
+  const upper = code.toUpperCase()
+  if (!profile.checkCharacter) {
+    return upper
+  }
+  return upper
+    .split('')
+    .map((char) =>
+      profile.alphabet.includes(char) ? char : CONFUSABLE_REPLACEMENTS[char] || char
+    )
+    .join('')
+}
+
+function hasProfileShape(code: string, profile: CodeProfile): boolean {
+  return (
+    code.length === codeLengthFor(profile) &&
+    code.startsWith(profile.prefix) &&
+    code.split('').every((char) => profile.alphabet.includes(char))
+  )
+}
+
 /**
  * Validate that a code matches the expected format
+ * For profiles with a check character, the check character must match too.
+ */
+export function isValidCodeFormat(
+  code: string,
+  profile: CodeProfile = DEFAULT_CODE_PROFILE
+): boolean {
+  if (!code || code.length !== codeLengthFor(profile)) {
+    return false
+  }
+
+  const normalized = normalizeCode(code, profile)
+  if (!hasProfileShape(normalized, profile)) {
+    return false
+  }
+
+  return !profile.checkCharacter || hasValidLuhnModN(normalized, profile.alphabet)
+}
+
+/**
+ * Every profile a code could have been issued under: those whose length,
+ * prefix and alphabet it fits. Profiles it fits as typed come first, then
+ * those it only fits once confusable characters are mapped, each group
+ * with prefixed profiles first since they're the most specific. Several
+ * profiles can share a shape, so callers try them all.
+ */
+export function matchCodeProfiles(
+  code: string,
+  profiles: CodeProfile[] = Object.values(CODE_PROFILES)
+): CodeProfile[] {
+  const upper = code.toUpperCase()
+  const bySpecificity = [...profiles].sort((a, b) => b.prefix.length - a.prefix.length)
+  const asTyped = bySpecificity.filter((profile) => hasProfileShape(upper, profile))
+  const normalized = bySpecificity.filter(
+    (profile) => !asTyped.includes(profile) && hasProfileShape(normalizeCode(code, profile), profile)
+  )
+  return [...asTyped, ...normalized]
+}
+
+/**
+ * What to look a scanned or typed code up as: the code as typed, then its
+ * normalised form under each matching profile it verifies under. When it
+ * verifies under none of them, mismatched lists the checked profiles whose
+ * check character it fails, for typo suggestions.
+ */
+export function codeLookup(
+  code: string,
+  profiles: CodeProfile[] = Object.values(CODE_PROFILES)
+): { candidates: string[]; mismatched: CodeProfile[] } {
+  const matches = matchCodeProfiles(code, profiles)
+  const verified = matches.filter((profile) => isValidCodeFormat(code, profile))
+  const candidates = new Set([
+    code.toUpperCase(),
+    ...verified.map((profile) => normalizeCode(code, profile)),
+  ])
+
+  return {
+    candidates: Array.from(candidates),
+    mismatched: verified.length > 0 ? [] : matches.filter((profile) => isChecksumMismatch(code, profile)),
+  }
+}
+
+/**
+ * True when a code looks like a checked-profile code but its check
+ * character doesn't match, i.e. the reader probably made a typo
  */
-export function isValidCodeFormat(code: string): boolean {
-  if (!code || code.length !== CODE_LENGTH) {
+export function isChecksumMismatch(code: string, profile: CodeProfile): boolean {
+  if (!profile.checkCharacter || !code) {
     return false
   }
+  const normalized = normalizeCode(code, profile)
+  return hasProfileShape(normalized, profile) && !hasValidLuhnModN(normalized, profile.alphabet)
+}
+
+/**
+ * Candidate corrections for a mistyped checked code: every single-character
+ * substitution or adjacent transposition that yields a valid check character
+ */
+export function suggestCodeCorrections(code: string, profile: CodeProfile): string[] {
+  const normalized = normalizeCode(code, profile)
+  const candidates = new Set<string>()
 
-  const validPattern = /^[A-Z0-9]{6}$/
-  return validPattern.test(code.toUpperCase())
+  for (let i = profile.prefix.length; i < normalized.length; i++) {
+    for (const char of profile.alphabet) {
+      if (char === normalized[i]) continue
+      const candidate = normalized.slice(0, i) + char + normalized.slice(i + 1)
+      if (isValidCodeFormat(candidate, profile)) {
+        candidates.add(candidate)
+      }
+    }
+  }
+
+  for (let i = profile.prefix.length; i < normalized.length - 1; i++) {
+    const candidate =
+      normalized.slice(0, i) + normalized[i + 1] + normalized[i] + normalized.slice(i + 2)
+    if (candidate !== normalized && isValidCodeFormat(candidate, profile)) {
+      candidates.add(candidate)
+    }
+  }
+
+  return Array.from(candidates)
 }
 
 /**
@@ -59,7 +287,14 @@ export function codeToNumericValues(code: string): number[] {
  * Generate wave pattern from code for visual representation
  * Returns array of bar heights (normalized 0-1)
  */
-export function codeToWavePattern(code: string): number[] {
+export function codeToWavePattern(
+  code: string,
+  version: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION
+): number[] {
+  if (version === 'v2') {
+    return encodeV2Levels(codeToNumericValues(code)).map(levelToAmplitude)
+  }
+
   const charValues = codeToNumericValues(code)
   const maxValue = 35 // Maximum possible value (9 in alphanumeric)
 
@@ -0,0 +1,68 @@
+import prisma from '../db/prisma'
+import {
+  CODE_PROFILES,
+  DEFAULT_CODE_PROFILE,
+  type CodeProfile,
+} from './codeGenerator'
+
+/**
+ * Code profile lookup
+ *
+ * Built-in profiles (CODE_PROFILES) plus any stored in the code_profiles
+ * table. A book uses its own profile if set, otherwise its publisher's,
+ * otherwise the default.
+ */
+
+interface StoredCodeProfile {
+  name: string
+  alphabet: string
+  length: number
+  prefix: string
+  checkCharacter: boolean
+}
+
+interface BookWithProfile {
+  codeProfile: string | null
+  publisher?: { codeProfile: string | null } | null
+}
+
+function toCodeProfile(row: StoredCodeProfile): CodeProfile {
+  return {
+    name: row.name,
+    alphabet: row.alphabet,
+    length: row.length,
+    prefix: row.prefix,
+    checkCharacter: row.checkCharacter,
+  }
+}
+
+/**
+ * All profiles, built-in first
+ */
+export async function listCodeProfiles(): Promise<CodeProfile[]> {
+  const stored = await prisma.codeProfile.findMany({ orderBy: { name: 'asc' } })
+  return [...Object.values(CODE_PROFILES), ...stored.map(toCodeProfile)]
+}
+
+/**
+ * Look up a profile by name, or null if it doesn't exist
+ */
+export async function findCodeProfile(name: string): Promise<CodeProfile | null> {
+  if (CODE_PROFILES[name]) {
+    return CODE_PROFILES[name]
+  }
+
+  const stored = await prisma.codeProfile.findUnique({ where: { name } })
+  return stored ? toCodeProfile(stored) : null
+}
+
+/**
+ * The profile new codes for a book are allocated from
+ */
+export async function resolveBookCodeProfile(book: BookWithProfile): Promise<CodeProfile> {
+  const name = book.codeProfile ?? book.publisher?.codeProfile
+  if (!name) {
+    return DEFAULT_CODE_PROFILE
+  }
+  return (await findCodeProfile(name)) ?? DEFAULT_CODE_PROFILE
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_THEME } from '../types/theme'
+import { manifestPage } from './exportManifest'
+import { buildDataMergeCsv, chapterTitle, pageLabel, DEFAULT_DATA_MERGE_OPTIONS } from './dataMerge'
+
+const pages = [
+  manifestPage(
+    { pageNumber: 1, code: 'AAA111', audioLink: 'https://example.com/1.mp3', symbologyVersion: 'v2' },
+    DEFAULT_THEME,
+    { name: 'images/page_001_AAA111.pdf', sha256: '00' }
+  ),
+  manifestPage(
+    { pageNumber: 2, code: 'BBB222', audioLink: 'https://example.com/2.mp3', symbologyVersion: 'v2' },
+    DEFAULT_THEME,
+    null
+  ),
+]
+
+describe('dataMerge', () => {
+  describe('chapterTitle', () => {
+    const chapters = [
+      { page: 12, title: 'The Storm' },
+      { page: 3, title: 'Setting Sail' },
+    ]
+
+    it('finds the chapter a page falls in, whatever order chapters come in', () => {
+      expect(chapterTitle(2, chapters)).toBe('')
+      expect(chapterTitle(3, chapters)).toBe('Setting Sail')
+      expect(chapterTitle(11, chapters)).toBe('Setting Sail')
+      expect(chapterTitle(40, chapters)).toBe('The Storm')
+    })
+  })
+
+  describe('pageLabel', () => {
+    it('fills in the page number and code', () => {
+      expect(pageLabel('p. {n} ({code})', { pageNumber: 7, code: 'CCC333' })).toBe('p. 7 (CCC333)')
+    })
+  })
+
+  describe('buildDataMergeCsv', () => {
+    it('starts with @image paths and keeps a row for pages without an image', () => {
+      const csv = buildDataMergeCsv(pages, DEFAULT_DATA_MERGE_OPTIONS).toString('utf8')
+
+      expect(csv).toBe('@image,page_number,code\r\nimages/page_001_AAA111.pdf,1,AAA111\r\n,2,BBB222\r\n')
+    })
+
+    it('writes the chosen columns', () => {
+      const csv = buildDataMergeCsv(pages, {
+        ...DEFAULT_DATA_MERGE_OPTIONS,
+        columns: ['page_label', 'chapter'],
+        pageLabel: 'Page {n}',
+        chapters: [{ page: 2, title: 'Two, Too' }],
+      }).toString('utf8')
+
+      expect(csv.split('\r\n')).toEqual([
+        '@image,page_label,chapter',
+        'images/page_001_AAA111.pdf,Page 1,',
+        ',Page 2,"Two, Too"',
+        '',
+      ])
+    })
+
+    it('writes UTF-16 with a byte order mark', () => {
+      const csv = buildDataMergeCsv(pages, {
+        ...DEFAULT_DATA_MERGE_OPTIONS,
+        encoding: 'utf-16',
+        columns: ['chapter'],
+        chapters: [{ page: 1, title: 'Señor Ümlaut' }],
+      })
+
+      expect([...csv.subarray(0, 2)]).toEqual([0xff, 0xfe])
+      expect(csv.subarray(2).toString('utf16le')).toContain('Señor Ümlaut')
+    })
+
+    it('writes placement as it applies on each page', () => {
+      const placed = [3, 4].map((pageNumber) =>
+        manifestPage(
+          {
+            pageNumber,
+            code: 'DDD444',
+            audioLink: 'https://example.com/d.mp3',
+            symbologyVersion: 'v2',
+            placement: { anchor: 'top-right', offsetXMm: 5, offsetYMm: 8, widthMm: 30, heightMm: null, mirrorOnVerso: true },
+          },
+          DEFAULT_THEME,
+          null
+        )
+      )
+      const csv = buildDataMergeCsv([...placed, pages[0]], {
+        ...DEFAULT_DATA_MERGE_OPTIONS,
+        columns: ['side', 'anchor', 'offset_x_mm', 'offset_y_mm', 'width_mm', 'height_mm'],
+      }).toString('utf8')
+      const { width, height } = DEFAULT_THEME.dimensions
+
+      expect(csv.split('\r\n')).toEqual([
+        '@image,side,anchor,offset_x_mm,offset_y_mm,width_mm,height_mm',
+        `,recto,top-right,5,8,30,${(height * 30) / width}`,
+        `,verso,top-left,5,8,30,${(height * 30) / width}`,
+        `images/page_001_AAA111.pdf,recto,,,,${width},${height}`,
+        '',
+      ])
+    })
+  })
+})
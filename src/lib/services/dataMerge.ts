@@ -0,0 +1,122 @@
+import { csvField, type ManifestPage } from './exportManifest'
+import { placedSize, placementOnPage } from '../types/placement'
+
+/**
+ * Data merge source for InDesign and Affinity Publisher
+ *
+ * The data merge export profile puts the images in images/ and writes
+ * datamerge.csv beside them: an @image column of paths relative to the CSV
+ * (which both apps resolve against the data source's folder), then the
+ * chosen extra columns. Placement columns give the anchor and offsets as
+ * they apply on each page (mirrored on verso where asked) and the size to
+ * place the image at. InDesign reads UTF-8 or UTF-16 with a byte order
+ * mark ("Unicode" in its import options); older versions mangle anything
+ * but ASCII in UTF-8, so UTF-16 is there for them.
+ */
+
+export const DATA_MERGE_FILE = 'datamerge.csv'
+export const DATA_MERGE_IMAGE_DIR = 'images/'
+
+export const DATA_MERGE_COLUMNS = [
+  'page_number',
+  'page_label',
+  'chapter',
+  'code',
+  'audio_link',
+  'symbology_version',
+  'side',
+  'anchor',
+  'offset_x_mm',
+  'offset_y_mm',
+  'width_mm',
+  'height_mm',
+] as const
+export type DataMergeColumn = (typeof DATA_MERGE_COLUMNS)[number]
+
+export const DATA_MERGE_ENCODINGS = ['utf-8', 'utf-16'] as const
+export type DataMergeEncoding = (typeof DATA_MERGE_ENCODINGS)[number]
+
+// A chapter runs from its first page to the page before the next one
+export interface ChapterStart {
+  page: number
+  title: string
+}
+
+export interface DataMergeOptions {
+  columns: DataMergeColumn[]
+  encoding: DataMergeEncoding
+  pageLabel: string          // {n} is the page number, {code} the code
+  chapters: ChapterStart[]
+}
+
+export const DEFAULT_DATA_MERGE_OPTIONS: DataMergeOptions = {
+  columns: ['page_number', 'code'],
+  encoding: 'utf-8',
+  pageLabel: '{n}',
+  chapters: [],
+}
+
+export function chapterTitle(pageNumber: number, chapters: ChapterStart[]): string {
+  let title = ''
+  let start = 0
+  for (const chapter of chapters) {
+    if (chapter.page <= pageNumber && chapter.page >= start) {
+      title = chapter.title
+      start = chapter.page
+    }
+  }
+  return title
+}
+
+export function pageLabel(template: string, page: { pageNumber: number; code: string }): string {
+  return template.replace(/\{n\}/g, String(page.pageNumber)).replace(/\{code\}/g, page.code)
+}
+
+function columnValue(column: DataMergeColumn, page: ManifestPage, options: DataMergeOptions): unknown {
+  switch (column) {
+    case 'page_number':
+      return page.pageNumber
+    case 'page_label':
+      return pageLabel(options.pageLabel, page)
+    case 'chapter':
+      return chapterTitle(page.pageNumber, options.chapters)
+    case 'code':
+      return page.code
+    case 'audio_link':
+      return page.audioLink
+    case 'symbology_version':
+      return page.symbologyVersion
+    case 'side':
+      return page.side
+    case 'anchor':
+      return page.placement && placementOnPage(page.placement, page.pageNumber).anchor
+    case 'offset_x_mm':
+      return page.placement && placementOnPage(page.placement, page.pageNumber).offsetXMm
+    case 'offset_y_mm':
+      return page.placement && placementOnPage(page.placement, page.pageNumber).offsetYMm
+    case 'width_mm':
+      return placedSize(page.placement, { width: page.widthMm, height: page.heightMm }).width
+    case 'height_mm':
+      return placedSize(page.placement, { width: page.widthMm, height: page.heightMm }).height
+  }
+}
+
+/**
+ * datamerge.csv for the exported pages, encoded for the layout app. Pages
+ * that failed to render keep their row with an empty @image, so records
+ * still line up with pages.
+ */
+export function buildDataMergeCsv(pages: ManifestPage[], options: DataMergeOptions): Buffer {
+  const rows = [
+    ['@image', ...options.columns],
+    ...pages.map((page) => [
+      csvField(page.image),
+      ...options.columns.map((column) => csvField(columnValue(column, page, options))),
+    ]),
+  ]
+  const text = rows.map((row) => row.join(',')).join('\r\n') + '\r\n'
+
+  return options.encoding === 'utf-16'
+    ? Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')])
+    : Buffer.from(text, 'utf8')
+}
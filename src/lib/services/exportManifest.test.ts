@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_THEME } from '../types/theme'
+import { themeHash } from './renderCache'
+import {
+  buildManifest,
+  csvField,
+  manifestFileName,
+  manifestPage,
+  serializeManifest,
+  type ManifestPageSource,
+} from './exportManifest'
+
+const book = { title: 'Tales, "Tall" and Short', author: 'Ann <Editor> & Co', isbn: '978-3-16-148410-0' }
+
+function source(pageNumber: number): ManifestPageSource {
+  return {
+    pageNumber,
+    code: `CODE${pageNumber}`,
+    audioLink: `https://example.com/audio?page=${pageNumber}&lang=en`,
+    symbologyVersion: 'v2',
+  }
+}
+
+const manifest = buildManifest(book, DEFAULT_THEME, 'png', [
+  manifestPage(source(1), DEFAULT_THEME, { name: 'page_001_CODE1.png', sha256: 'ab'.repeat(32) }),
+  manifestPage(source(2), DEFAULT_THEME, null),
+])
+
+describe('exportManifest', () => {
+  describe('manifestPage', () => {
+    it('gives the image\'s size in pixels and mm', () => {
+      const page = manifestPage(source(1), DEFAULT_THEME, null)
+      const { width, height, dpi } = DEFAULT_THEME.dimensions
+
+      expect(page).toMatchObject({ widthMm: width, heightMm: height, dpi, side: 'recto', image: null, sha256: null, placement: null })
+      expect(page.widthPx).toBe(Math.round((width / 25.4) * dpi))
+      expect(page.heightPx).toBe(Math.round((height / 25.4) * dpi))
+    })
+  })
+
+  describe('csvField', () => {
+    it('quotes only fields that need it', () => {
+      expect(csvField('CODE1')).toBe('CODE1')
+      expect(csvField(12)).toBe('12')
+      expect(csvField(null)).toBe('')
+      expect(csvField('a,b')).toBe('"a,b"')
+      expect(csvField('say "hi"')).toBe('"say ""hi"""')
+      expect(csvField('two\nlines')).toBe('"two\nlines"')
+      expect(csvField(' padded')).toBe('" padded"')
+    })
+  })
+
+  describe('serializeManifest', () => {
+    it('writes a CSV row per page with the book on every row', () => {
+      const [header, first, second, end] = serializeManifest(manifest, 'csv').split('\r\n')
+
+      expect(header.split(',')).toEqual(expect.arrayContaining(['page_number', 'code', 'sha256', 'width_mm', 'isbn', 'theme_hash']))
+      expect(first.startsWith(`1,CODE1,https://example.com/audio?page=1&lang=en,v2,page_001_CODE1.png,${'ab'.repeat(32)},`)).toBe(true)
+      expect(first.endsWith(`,978-3-16-148410-0,"Tales, ""Tall"" and Short",Ann <Editor> & Co,${themeHash(DEFAULT_THEME)},png`)).toBe(true)
+      expect(second.startsWith('2,CODE2,https://example.com/audio?page=2&lang=en,v2,,,')).toBe(true)
+      expect(end).toBe('')
+      expect(first.split(',').length).toBe(second.split(',').length)
+    })
+
+    it('writes JSON', () => {
+      const parsed = JSON.parse(serializeManifest(manifest, 'json'))
+
+      expect(parsed.book).toEqual({ ...book, themeHash: themeHash(DEFAULT_THEME), imageFormat: 'png' })
+      expect(parsed.pages[0]).toMatchObject({ pageNumber: 1, image: 'page_001_CODE1.png', sha256: 'ab'.repeat(32) })
+      expect(parsed.pages[1]).toMatchObject({ pageNumber: 2, image: null, placement: null })
+    })
+
+    it('writes escaped XML, leaving out missing values', () => {
+      const xml = serializeManifest(manifest, 'xml')
+
+      expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<manifest>')).toBe(true)
+      expect(xml).toContain('<title>Tales, &quot;Tall&quot; and Short</title>')
+      expect(xml).toContain('<author>Ann &lt;Editor&gt; &amp; Co</author>')
+      expect(xml).toContain('<audioLink>https://example.com/audio?page=1&amp;lang=en</audioLink>')
+      expect(xml).toContain('<page number="1">')
+      expect(xml.match(/<image>/g)).toHaveLength(1)
+      expect(xml).not.toContain('<placement>')
+    })
+
+    it('writes placement when a page has it', () => {
+      const placed = buildManifest(book, DEFAULT_THEME, 'pdf', [
+        manifestPage(
+          {
+            ...source(3),
+            placement: { anchor: 'bottom-right', offsetXMm: 5, offsetYMm: 8, widthMm: null, heightMm: null, mirrorOnVerso: true },
+          },
+          DEFAULT_THEME,
+          null
+        ),
+      ])
+
+      expect(serializeManifest(placed, 'xml')).toContain(
+        '<placement>\n        <anchor>bottom-right</anchor>\n        <offsetXMm>5</offsetXMm>\n        <offsetYMm>8</offsetYMm>\n        <mirrorOnVerso>true</mirrorOnVerso>\n      </placement>'
+      )
+      expect(serializeManifest(placed, 'csv')).toContain(',recto,bottom-right,5,8,,,true,')
+    })
+  })
+
+  it('names the manifest file after its format', () => {
+    expect(manifestFileName('xml')).toBe('manifest.xml')
+  })
+})
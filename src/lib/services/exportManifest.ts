@@ -0,0 +1,198 @@
+import type { ThemeConfig } from '../types/theme'
+import { pageSide, type PagePlacement, type PageSide } from '../types/placement'
+import { mmToPixels } from './imageGenerator'
+import { themeHash } from './renderCache'
+import type { OutputFormat } from './renderPipeline'
+
+/**
+ * The manifest in a book's download ZIP
+ *
+ * One record per page: its code and audio link, the image file it was
+ * exported as (with a SHA-256 checksum, so a print shop can check what it
+ * received), the image's size, the page's side and where the code goes on
+ * it (its placement as set, before any mirroring on verso). The book's
+ * ISBN, title, author and theme hash come with it. The same manifest is
+ * written as CSV (one row per page, book fields repeated on every row), JSON
+ * or XML.
+ */
+
+export const MANIFEST_FORMATS = ['csv', 'json', 'xml'] as const
+export type ManifestFormat = (typeof MANIFEST_FORMATS)[number]
+
+export interface ManifestBook {
+  title: string
+  author: string
+  isbn: string | null
+}
+
+export interface ManifestPageSource {
+  pageNumber: number
+  code: string
+  audioLink: string
+  symbologyVersion: string
+  placement?: PagePlacement | null
+}
+
+export interface ManifestPage {
+  pageNumber: number
+  code: string
+  audioLink: string
+  symbologyVersion: string
+  image: string | null   // File in the ZIP; null if the page failed to render
+  sha256: string | null
+  widthPx: number
+  heightPx: number
+  widthMm: number
+  heightMm: number
+  dpi: number
+  side: PageSide
+  placement: PagePlacement | null
+}
+
+export interface Manifest {
+  book: ManifestBook & { themeHash: string; imageFormat: OutputFormat }
+  pages: ManifestPage[]
+}
+
+export function manifestFileName(format: ManifestFormat): string {
+  return `manifest.${format}`
+}
+
+/**
+ * A page's manifest record, with the theme it was rendered with. image is
+ * the exported file's name and checksum, or null if it couldn't be rendered.
+ */
+export function manifestPage(
+  page: ManifestPageSource,
+  theme: ThemeConfig,
+  image: { name: string; sha256: string } | null
+): ManifestPage {
+  const { width, height, dpi } = theme.dimensions
+  return {
+    pageNumber: page.pageNumber,
+    code: page.code,
+    audioLink: page.audioLink,
+    symbologyVersion: page.symbologyVersion,
+    image: image?.name ?? null,
+    sha256: image?.sha256 ?? null,
+    // Vector formats have no pixels of their own; these are the PNG's
+    widthPx: mmToPixels(width, dpi),
+    heightPx: mmToPixels(height, dpi),
+    widthMm: width,
+    heightMm: height,
+    dpi,
+    side: pageSide(page.pageNumber),
+    placement: page.placement ?? null,
+  }
+}
+
+export function buildManifest(
+  book: ManifestBook,
+  theme: ThemeConfig,
+  imageFormat: OutputFormat,
+  pages: ManifestPage[]
+): Manifest {
+  return {
+    book: {
+      title: book.title,
+      author: book.author,
+      isbn: book.isbn,
+      themeHash: themeHash(theme),
+      imageFormat,
+    },
+    pages,
+  }
+}
+
+const CSV_COLUMNS: [string, (page: ManifestPage, manifest: Manifest) => unknown][] = [
+  ['page_number', (page) => page.pageNumber],
+  ['code', (page) => page.code],
+  ['audio_link', (page) => page.audioLink],
+  ['symbology_version', (page) => page.symbologyVersion],
+  ['image', (page) => page.image],
+  ['sha256', (page) => page.sha256],
+  ['width_px', (page) => page.widthPx],
+  ['height_px', (page) => page.heightPx],
+  ['width_mm', (page) => page.widthMm],
+  ['height_mm', (page) => page.heightMm],
+  ['dpi', (page) => page.dpi],
+  ['side', (page) => page.side],
+  ['placement_anchor', (page) => page.placement?.anchor],
+  ['placement_offset_x_mm', (page) => page.placement?.offsetXMm],
+  ['placement_offset_y_mm', (page) => page.placement?.offsetYMm],
+  ['placement_width_mm', (page) => page.placement?.widthMm],
+  ['placement_height_mm', (page) => page.placement?.heightMm],
+  ['placement_mirror_on_verso', (page) => page.placement?.mirrorOnVerso],
+  ['isbn', (_, manifest) => manifest.book.isbn],
+  ['title', (_, manifest) => manifest.book.title],
+  ['author', (_, manifest) => manifest.book.author],
+  ['theme_hash', (_, manifest) => manifest.book.themeHash],
+  ['image_format', (_, manifest) => manifest.book.imageFormat],
+]
+
+// RFC 4180: quote fields with commas, quotes, line breaks or edge spaces,
+// doubling any quotes inside
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function manifestCsv(manifest: Manifest): string {
+  const rows = [
+    CSV_COLUMNS.map(([name]) => name),
+    ...manifest.pages.map((page) => CSV_COLUMNS.map(([, value]) => csvField(value(page, manifest)))),
+  ]
+  return rows.map((row) => row.join(',')).join('\r\n') + '\r\n'
+}
+
+// Characters XML 1.0 can't hold at all are dropped; markup is escaped
+function xmlText(value: unknown): string {
+  return String(value)
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Elements for each field that has a value
+function xmlFields(fields: object, indent: string): string[] {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== null && value !== undefined && typeof value !== 'object')
+    .map(([name, value]) => `${indent}<${name}>${xmlText(value)}</${name}>`)
+}
+
+function manifestXml(manifest: Manifest): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<manifest>',
+    '  <book>',
+    ...xmlFields(manifest.book, '    '),
+    '  </book>',
+    '  <pages>',
+  ]
+  for (const page of manifest.pages) {
+    const { pageNumber, placement, ...fields } = page
+    lines.push(`    <page number="${pageNumber}">`, ...xmlFields(fields, '      '))
+    if (placement) {
+      lines.push('      <placement>', ...xmlFields(placement, '        '), '      </placement>')
+    }
+    lines.push('    </page>')
+  }
+  lines.push('  </pages>', '</manifest>', '')
+  return lines.join('\n')
+}
+
+export function serializeManifest(manifest: Manifest, format: ManifestFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(manifest, null, 2)}\n`
+    case 'xml':
+      return manifestXml(manifest)
+    case 'csv':
+    default:
+      return manifestCsv(manifest)
+  }
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { hashRequest } from './idempotency'
+
+describe('idempotency', () => {
+  describe('hashRequest', () => {
+    it('gives the same hash for the same payload', () => {
+      const payload = [{ pageNumber: 1, audioLink: 'https://a.test/1.mp3' }]
+      expect(hashRequest(payload)).toBe(hashRequest(structuredClone(payload)))
+    })
+
+    it('gives different hashes for different payloads', () => {
+      expect(hashRequest([{ pageNumber: 1 }])).not.toBe(hashRequest([{ pageNumber: 2 }]))
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import { createHash } from 'crypto'
+import { Prisma } from '@prisma/client'
+import prisma from '../db/prisma'
+
+/**
+ * Idempotent request handling
+ *
+ * A client sends an Idempotency-Key header with a request that must not run
+ * twice. The first request with a key runs and its successful response is
+ * stored; later requests with the same key (and the same body) get that
+ * response back without running again. Failed requests release the key so
+ * they can be retried.
+ */
+
+// Keys older than this are forgotten and may be reused
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000
+
+export class IdempotencyError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'IdempotencyError'
+    this.status = status
+  }
+}
+
+export interface IdempotentResponse<T> {
+  status: number
+  body: T
+}
+
+export interface IdempotentResult<T> extends IdempotentResponse<T> {
+  replayed: boolean  // True when the stored response of an earlier request was returned
+}
+
+/**
+ * Stable hash of a request payload, to spot a key reused for a different request
+ */
+export function hashRequest(payload: unknown): string {
+  return createHash('sha256').update(JSON.stringify(payload)).digest('hex')
+}
+
+/**
+ * Run a request at most once per (scope, key)
+ * Throws IdempotencyError if the key is in use by a running request (409) or
+ * was used for a different payload (422).
+ */
+export async function runIdempotent<T>(
+  scope: string,
+  key: string,
+  requestHash: string,
+  run: () => Promise<IdempotentResponse<T>>
+): Promise<IdempotentResult<T>> {
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { scope_key: { scope, key } },
+  })
+
+  if (existing && Date.now() - existing.createdAt.getTime() > IDEMPOTENCY_TTL_MS) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } })
+  } else if (existing) {
+    if (existing.requestHash !== requestHash) {
+      throw new IdempotencyError('Idempotency key was already used for a different request', 422)
+    }
+    if (existing.status !== 'completed') {
+      throw new IdempotencyError('A request with this idempotency key is still in progress', 409)
+    }
+    return {
+      status: existing.responseStatus ?? 200,
+      body: existing.response as T,
+      replayed: true,
+    }
+  }
+
+  // Claim the key; the unique index makes concurrent first requests race safely
+  let claimId: string
+  try {
+    const claim = await prisma.idempotencyKey.create({
+      data: { scope, key, requestHash },
+    })
+    claimId = claim.id
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new IdempotencyError('A request with this idempotency key is still in progress', 409)
+    }
+    throw error
+  }
+
+  let response: IdempotentResponse<T>
+  try {
+    response = await run()
+  } catch (error) {
+    await prisma.idempotencyKey.delete({ where: { id: claimId } })
+    throw error
+  }
+
+  // Only successful responses are replayed; anything else may be retried
+  if (response.status >= 200 && response.status < 300) {
+    await prisma.idempotencyKey.update({
+      where: { id: claimId },
+      data: {
+        status: 'completed',
+        responseStatus: response.status,
+        response: response.body as Prisma.InputJsonValue,
+      },
+    })
+  } else {
+    await prisma.idempotencyKey.delete({ where: { id: claimId } })
+  }
+
+  return { ...response, replayed: false }
+}
@@ -1,6 +1,10 @@
-import sharp from 'sharp'
 import { codeToWavePattern } from './codeGenerator'
+import { SymbologyVersion, LEGACY_SYMBOLOGY_VERSION } from './symbology'
 import { ThemeConfig, mergeWithDefault } from '../types/theme'
+import { layoutArtwork } from './captionLayout'
+import { barTrack, spreadBars, type PlacedBar } from './barLayout'
+import type { LogoImage } from './bookAssets'
+import { rasterise, renderEach } from './renderPool'
 
 export interface WaveCodeOptions {
   width?: number        // Total image width in pixels
@@ -10,6 +14,7 @@ export interface WaveCodeOptions {
   backgroundColor?: string
   barColor?: string
   dpi?: number          // For print quality (300-600 recommended)
+  symbologyVersion?: SymbologyVersion
 }
 
 const DEFAULT_OPTIONS: Required<WaveCodeOptions> = {
@@ -20,13 +25,31 @@ const DEFAULT_OPTIONS: Required<WaveCodeOptions> = {
   backgroundColor: '#FFFFFF',
   barColor: '#000000',
   dpi: 300,
+  symbologyVersion: LEGACY_SYMBOLOGY_VERSION,
 }
 
 // Convert mm to pixels at given DPI
-function mmToPixels(mm: number, dpi: number): number {
+export function mmToPixels(mm: number, dpi: number): number {
   return Math.round((mm / 25.4) * dpi)
 }
 
+// Fit every bar across the width. Longer codes (more bars) get a narrower
+// bar and gap, keeping their ratio, instead of being cut off.
+function fitBars(
+  count: number,
+  width: number,
+  barWidth: number,
+  barGap: number
+): { barWidth: number; barGap: number } {
+  if (count * (barWidth + barGap) - barGap <= width) {
+    return { barWidth, barGap }
+  }
+
+  const pitch = Math.max(2, Math.floor((width + barGap) / count))
+  const fittedGap = Math.max(1, Math.round((pitch * barGap) / (barWidth + barGap)))
+  return { barWidth: Math.max(1, pitch - fittedGap), barGap: fittedGap }
+}
+
 // Generate SVG gradient definition
 function createGradientDef(
   id: string,
@@ -48,6 +71,18 @@ function createGradientDef(
   `
 }
 
+// A bar's shape, turned into place if its track isn't a plain row
+function createPlacedBarPath(
+  bar: PlacedBar,
+  shape: ThemeConfig['barStyle']['shape'],
+  roundness: number = 0
+): string {
+  const path = createBarPath(bar.x, bar.y, bar.width, bar.height, shape, roundness)
+  if (!bar.rotation) return path
+  const { angle, x, y } = bar.rotation
+  return `<g transform="rotate(${angle} ${x} ${y})">${path}</g>`
+}
+
 // Generate bar path based on shape
 function createBarPath(
   x: number,
@@ -87,7 +122,7 @@ function createBarPath(
 }
 
 /**
- * Generate a Spotify-style wave code image from a 6-character code
+ * Generate a Spotify-style wave code image from a code (any profile length)
  * Returns a PNG buffer suitable for printing or display
  */
 export async function generateWaveCode(
@@ -95,10 +130,11 @@ export async function generateWaveCode(
   options: WaveCodeOptions = {}
 ): Promise<Buffer> {
   const opts = { ...DEFAULT_OPTIONS, ...options }
-  const { width, height, barWidth, barGap, backgroundColor, barColor } = opts
+  const { width, height, backgroundColor, barColor } = opts
 
   // Get wave pattern from code
-  const wavePattern = codeToWavePattern(code)
+  const wavePattern = codeToWavePattern(code, opts.symbologyVersion)
+  const { barWidth, barGap } = fitBars(wavePattern.length, width, opts.barWidth, opts.barGap)
 
   // Calculate number of bars that fit
   const totalBarWidth = barWidth + barGap
@@ -124,17 +160,8 @@ export async function generateWaveCode(
     </svg>
   `
 
-  // Convert SVG to PNG using sharp
-  const pngBuffer = await sharp(Buffer.from(svg))
-    .png({
-      compressionLevel: 9,
-    })
-    .withMetadata({
-      density: opts.dpi,
-    })
-    .toBuffer()
-
-  return pngBuffer
+  // Convert SVG to PNG on the render pool
+  return rasterise(svg, opts.dpi)
 }
 
 /**
@@ -157,31 +184,14 @@ export async function generatePrintableWaveCode(
 }
 
 /**
- * Generate multiple wave codes in parallel
+ * Generate multiple wave codes, as many at once as the render pool runs
  */
 export async function generateWaveCodes(
   codes: string[],
   options: WaveCodeOptions = {}
 ): Promise<Map<string, Buffer>> {
-  const results = new Map<string, Buffer>()
-
-  // Process in batches to avoid memory issues
-  const batchSize = 50
-
-  for (let i = 0; i < codes.length; i += batchSize) {
-    const batch = codes.slice(i, i + batchSize)
-    const promises = batch.map(async (code) => {
-      const buffer = await generateWaveCode(code, options)
-      return { code, buffer }
-    })
-
-    const batchResults = await Promise.all(promises)
-    batchResults.forEach(({ code, buffer }) => {
-      results.set(code, buffer)
-    })
-  }
-
-  return results
+  const buffers = await renderEach(codes, (code) => generateWaveCode(code, options))
+  return new Map(codes.map((code, i) => [code, buffers[i]]))
 }
 
 /**
@@ -202,7 +212,9 @@ export async function generatePreviewWaveCode(code: string): Promise<Buffer> {
  */
 export async function generateThemedWaveCode(
   code: string,
-  themeConfig: Partial<ThemeConfig> | null
+  themeConfig: Partial<ThemeConfig> | null,
+  symbologyVersion: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION,
+  logo: LogoImage | null = null
 ): Promise<Buffer> {
   const theme = mergeWithDefault(themeConfig)
   const { colorScheme, barStyle, effects, dimensions } = theme
@@ -212,21 +224,42 @@ export async function generateThemedWaveCode(
   const height = mmToPixels(dimensions.height, dimensions.dpi)
 
   // Get wave pattern from code
-  const wavePattern = codeToWavePattern(code)
+  const wavePattern = codeToWavePattern(code, symbologyVersion)
 
   // Calculate bar dimensions based on theme
   const barWidthScale = barStyle.thickness / 5 // Scale thickness (5 is default)
   const spacingScale = barStyle.spacing / 3 // Scale spacing (3 is default)
-  const baseBarWidth = Math.max(2, Math.round(4 * barWidthScale * (dimensions.dpi / 300)))
-  const baseBarGap = Math.max(1, Math.round(2 * spacingScale * (dimensions.dpi / 300)))
+  const themeBarWidth = Math.max(2, Math.round(4 * barWidthScale * (dimensions.dpi / 300)))
+  const themeBarGap = Math.max(1, Math.round(2 * spacingScale * (dimensions.dpi / 300)))
+
+  // Leave room for the caption and logo; bars go in the rest
+  const artwork = layoutArtwork(
+    code,
+    theme,
+    width,
+    height,
+    dimensions.dpi / 72,
+    true,
+    logo ? { aspectRatio: logo.aspectRatio, barPitch: themeBarWidth + themeBarGap } : null
+  )
+
+  // Bars are laid out along the layout's track in whole pixels, except
+  // where they're spread around a ring
+  const track = barTrack(theme, artwork, wavePattern.length)
+  const { barWidth: baseBarWidth, barGap: baseBarGap } = track.spread
+    ? spreadBars(wavePattern.length, track, themeBarWidth, themeBarGap)
+    : fitBars(wavePattern.length, track.length, themeBarWidth, themeBarGap)
 
   // Calculate number of bars that fit
   const totalBarWidth = baseBarWidth + baseBarGap
-  const numBars = Math.min(wavePattern.length, Math.floor(width / totalBarWidth))
+  const numBars = track.spread
+    ? wavePattern.length
+    : Math.min(wavePattern.length, Math.floor(track.length / totalBarWidth))
 
   // Calculate starting position to center the bars
   const totalBarsWidth = numBars * totalBarWidth - baseBarGap
-  const startX = Math.floor((width - totalBarsWidth) / 2)
+  const offset = (track.length - totalBarsWidth) / 2
+  const startX = track.spread ? offset : Math.floor(offset)
 
   // Build SVG definitions (for gradients)
   let defs = ''
@@ -259,8 +292,10 @@ export async function generateThemedWaveCode(
   // Create bars with theme styling
   const bars = wavePattern.slice(0, numBars).map((amplitude, i) => {
     const x = startX + i * totalBarWidth
-    const barHeight = Math.max(4, Math.floor(amplitude * (height - 8)))
-    const y = Math.floor((height - barHeight) / 2)
+    const barHeight = Math.max(4, Math.floor(amplitude * (track.thickness - 8)))
+    const y = track.baseline
+      ? track.thickness - 4 - barHeight
+      : Math.floor((track.thickness - barHeight) / 2)
 
     // Determine fill color
     let barFill = fillRef
@@ -268,11 +303,8 @@ export async function generateThemedWaveCode(
       barFill = i % 2 === 0 ? colorScheme.primary : colorScheme.secondary
     }
 
-    const path = createBarPath(
-      x,
-      y,
-      baseBarWidth,
-      barHeight,
+    const path = createPlacedBarPath(
+      track.place({ x, y, width: baseBarWidth, height: barHeight }),
       barStyle.shape,
       barStyle.roundness
     )
@@ -292,20 +324,13 @@ export async function generateThemedWaveCode(
       <g ${opacityStyle}>
         ${bars}
       </g>
+      ${artwork.caption ? `<path d="${artwork.caption.path}" fill="${theme.caption.color}"/>` : ''}
+      ${logo && artwork.logo ? `<image x="${artwork.logo.x}" y="${artwork.logo.y}" width="${artwork.logo.width}" height="${artwork.logo.height}" href="${logo.href}"/>` : ''}
     </svg>
   `
 
-  // Convert SVG to PNG using sharp
-  const pngBuffer = await sharp(Buffer.from(svg))
-    .png({
-      compressionLevel: 9,
-    })
-    .withMetadata({
-      density: dimensions.dpi,
-    })
-    .toBuffer()
-
-  return pngBuffer
+  // Convert SVG to PNG on the render pool
+  return rasterise(svg, dimensions.dpi)
 }
 
 /**
@@ -313,45 +338,35 @@ export async function generateThemedWaveCode(
  */
 export async function generateThemedPrintableWaveCode(
   code: string,
-  themeConfig: Partial<ThemeConfig> | null
+  themeConfig: Partial<ThemeConfig> | null,
+  symbologyVersion: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION
 ): Promise<Buffer> {
-  return generateThemedWaveCode(code, themeConfig)
+  return generateThemedWaveCode(code, themeConfig, symbologyVersion)
 }
 
 /**
- * Generate multiple themed wave codes in parallel
+ * Generate multiple themed wave codes, as many at once as the render pool runs
  */
 export async function generateThemedWaveCodes(
   codes: string[],
-  themeConfig: Partial<ThemeConfig> | null
+  themeConfig: Partial<ThemeConfig> | null,
+  symbologyVersion: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION
 ): Promise<Map<string, Buffer>> {
-  const results = new Map<string, Buffer>()
-
-  // Process in batches to avoid memory issues
-  const batchSize = 50
-
-  for (let i = 0; i < codes.length; i += batchSize) {
-    const batch = codes.slice(i, i + batchSize)
-    const promises = batch.map(async (code) => {
-      const buffer = await generateThemedWaveCode(code, themeConfig)
-      return { code, buffer }
-    })
-
-    const batchResults = await Promise.all(promises)
-    batchResults.forEach(({ code, buffer }) => {
-      results.set(code, buffer)
-    })
-  }
-
-  return results
+  const buffers = await renderEach(codes, (code) => generateThemedWaveCode(code, themeConfig, symbologyVersion))
+  return new Map(codes.map((code, i) => [code, buffers[i]]))
 }
 
+// Resolution of themed previews in the theme editor
+export const PREVIEW_DPI = 72
+
 /**
  * Generate a themed preview (lower resolution for web display)
  */
 export async function generateThemedPreviewWaveCode(
   code: string,
-  themeConfig: Partial<ThemeConfig> | null
+  themeConfig: Partial<ThemeConfig> | null,
+  symbologyVersion: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION,
+  logo: LogoImage | null = null
 ): Promise<Buffer> {
   const theme = mergeWithDefault(themeConfig)
   // Override dimensions for preview
@@ -360,10 +375,10 @@ export async function generateThemedPreviewWaveCode(
     dimensions: {
       width: theme.dimensions.width,
       height: theme.dimensions.height,
-      dpi: 72, // Lower DPI for preview
+      dpi: PREVIEW_DPI,
     },
   }
-  return generateThemedWaveCode(code, previewTheme)
+  return generateThemedWaveCode(code, previewTheme, symbologyVersion, logo)
 }
 
 /**
@@ -371,8 +386,10 @@ export async function generateThemedPreviewWaveCode(
  */
 export async function generateThemedWaveCodeDataUrl(
   code: string,
-  themeConfig: Partial<ThemeConfig> | null
+  themeConfig: Partial<ThemeConfig> | null,
+  symbologyVersion: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION,
+  logo: LogoImage | null = null
 ): Promise<string> {
-  const buffer = await generateThemedPreviewWaveCode(code, themeConfig)
+  const buffer = await generateThemedPreviewWaveCode(code, themeConfig, symbologyVersion, logo)
   return `data:image/png;base64,${buffer.toString('base64')}`
 }
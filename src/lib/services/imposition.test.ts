@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { PRESET_THEMES } from '../types/theme'
+import {
+  planImposition,
+  cellPosition,
+  renderImposition,
+  groupBySize,
+  ImpositionError,
+  DEFAULT_IMPOSITION_OPTIONS,
+} from './imposition'
+import { resolvePageTheme } from './renderPipeline'
+
+const options = DEFAULT_IMPOSITION_OPTIONS
+
+function pageCount(pdf: Buffer): number {
+  return Number(/\/Type \/Pages\n\/Count (\d+)/.exec(pdf.toString('latin1'))![1])
+}
+
+function pages(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    pageNumber: i + 1,
+    code: 'K7Q2ZBF',
+    symbologyVersion: 'v2',
+  }))
+}
+
+describe('imposition', () => {
+  describe('planImposition', () => {
+    it('fills an A4 sheet with default 15 x 5 mm codes', () => {
+      const plan = planImposition(15, 5, 400, options)
+
+      expect(plan.sheetWidth).toBe(210)
+      expect(plan.sheetHeight).toBe(297)
+      // (186 + 6) / 21 columns, (273 + 6) / 14 rows (code, caption and gutter)
+      expect(plan.columns).toBe(9)
+      expect(plan.rows).toBe(19)
+      expect(plan.perSheet).toBe(171)
+      expect(plan.sheets).toBe(3)
+    })
+
+    it('centres the grid inside the margins', () => {
+      const plan = planImposition(15, 5, 10, options)
+      const gridRight = plan.originX + (plan.columns - 1) * plan.pitchX + plan.codeWidth
+
+      expect(plan.originX).toBeGreaterThanOrEqual(options.margin)
+      expect(plan.sheetWidth - gridRight).toBeCloseTo(plan.originX, 9)
+    })
+
+    it('turns the sheet for landscape', () => {
+      const plan = planImposition(15, 5, 10, { ...options, sheet: 'SRA3', orientation: 'landscape' })
+
+      expect(plan.sheetWidth).toBe(450)
+      expect(plan.sheetHeight).toBe(320)
+    })
+
+    it('leaves room for captions only when asked', () => {
+      const withCaptions = planImposition(15, 5, 10, options)
+      const without = planImposition(15, 5, 10, { ...options, captions: false })
+
+      expect(without.pitchY).toBe(withCaptions.pitchY - 3)
+      expect(without.rows).toBeGreaterThan(withCaptions.rows)
+    })
+
+    it('accepts custom sheet sizes', () => {
+      const plan = planImposition(15, 5, 10, { ...options, sheet: 'custom', width: 100, height: 150 })
+
+      expect([plan.sheetWidth, plan.sheetHeight]).toEqual([100, 150])
+    })
+
+    it('rejects custom sheets without a size and codes that do not fit', () => {
+      expect(() => planImposition(15, 5, 10, { ...options, sheet: 'custom' })).toThrow(ImpositionError)
+      expect(() => planImposition(200, 5, 10, options)).toThrow(/does not fit/)
+    })
+  })
+
+  describe('cellPosition', () => {
+    it('steps across, then down, then onto the next sheet', () => {
+      const plan = planImposition(15, 5, 400, options)
+
+      expect(cellPosition(plan, 1)).toEqual({ sheet: 0, x: plan.originX + plan.pitchX, y: plan.originY })
+      expect(cellPosition(plan, plan.columns)).toEqual({ sheet: 0, x: plan.originX, y: plan.originY + plan.pitchY })
+      expect(cellPosition(plan, plan.perSheet)).toEqual({ sheet: 1, x: plan.originX, y: plan.originY })
+    })
+  })
+
+  describe('renderImposition', () => {
+    const book = { title: 'The Tide Book', themeConfig: PRESET_THEMES.oceanBlue }
+
+    it('renders one PDF page per sheet', async () => {
+      const pdf = await renderImposition(book, pages(200))
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+      expect(pageCount(pdf)).toBe(2)
+    })
+
+    it('names the book in the document title', async () => {
+      const pdf = await renderImposition(book, pages(1), { slug: false, captions: false })
+
+      expect(pdf.toString('latin1')).toContain('(The Tide Book - print sheets)')
+    })
+
+    it('plans each code size on sheets of its own', async () => {
+      const mixed = pages(3).map((page, i) =>
+        i === 1
+          ? { ...page, placement: { anchor: null, offsetXMm: null, offsetYMm: null, widthMm: 30, heightMm: null, mirrorOnVerso: null } }
+          : page
+      )
+      const groups = groupBySize(mixed, resolvePageTheme(book))
+
+      expect(groups.map((group) => group.pages.map((page) => page.pageNumber))).toEqual([[1, 3], [2]])
+      expect(pageCount(await renderImposition(book, mixed))).toBe(2)
+    })
+
+    it('places codes on one trim-size page per book page', async () => {
+      const pdf = await renderImposition(book, pages(3), { layout: 'pages', slug: false })
+
+      expect(pageCount(pdf)).toBe(3)
+      expect(pdf.toString('latin1')).toContain('(The Tide Book - code placement)')
+    })
+
+    it('refuses a book without pages', async () => {
+      await expect(renderImposition(book, [])).rejects.toThrow(ImpositionError)
+    })
+  })
+})
@@ -0,0 +1,387 @@
+import { layoutWaveCode, createPdf, addPdfPage, drawWaveCode } from './vectorRenderer'
+import { resolvePageTheme, type RenderableBook } from './renderPipeline'
+import { parseSymbologyVersion } from './symbology'
+import { loadLogo, type LogoImage } from './bookAssets'
+import type { ThemeConfig } from '../types/theme'
+import { placedSize, placeOnPage, type PagePlacement } from '../types/placement'
+
+/**
+ * Print imposition: all of a book's codes stepped and repeated onto sheets
+ *
+ * Codes are drawn with the vector renderer at the theme's size (or their
+ * page's placement size), in a grid centred on each sheet. Codes of a
+ * different size go on sheets of their own. Crop marks in the margins line
+ * up with every cut; the optional caption under each code sits in the
+ * gutter and is trimmed away. Measurements are in mm.
+ *
+ * The pages layout instead gives every book page a sheet of its own, the
+ * size of the page, with its code where the page's placement puts it:
+ * artwork to lay over the book's pages.
+ */
+
+export const SHEET_SIZE_NAMES = ['A4', 'Letter', 'SRA3', 'custom'] as const
+export type SheetSizeName = (typeof SHEET_SIZE_NAMES)[number]
+
+export const IMPOSITION_LAYOUTS = ['grid', 'pages'] as const
+export type ImpositionLayout = (typeof IMPOSITION_LAYOUTS)[number]
+
+export const SHEET_SIZES: Record<Exclude<SheetSizeName, 'custom'>, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  Letter: { width: 215.9, height: 279.4 },
+  SRA3: { width: 320, height: 450 },
+}
+
+export class ImpositionError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'ImpositionError'
+    this.status = status
+  }
+}
+
+export interface ImpositionOptions {
+  layout: ImpositionLayout
+  sheet: SheetSizeName   // The book's page size for the pages layout
+  width?: number   // Custom sheet size
+  height?: number
+  orientation: 'portrait' | 'landscape'
+  margin: number   // Room for marks and the slug line
+  gutter: number   // Space between codes
+  cropMarks: boolean
+  registrationMarks: boolean
+  captions: boolean  // "Page N" under each code
+  slug: boolean      // Book title, date and sheet number in the bottom margin
+}
+
+export const DEFAULT_IMPOSITION_OPTIONS: ImpositionOptions = {
+  layout: 'grid',
+  sheet: 'A4',
+  orientation: 'portrait',
+  margin: 12,
+  gutter: 6,
+  cropMarks: true,
+  registrationMarks: true,
+  captions: true,
+  slug: true,
+}
+
+export interface ImpositionPlan {
+  sheetWidth: number
+  sheetHeight: number
+  codeWidth: number
+  codeHeight: number
+  columns: number
+  rows: number
+  perSheet: number
+  sheets: number
+  pitchX: number   // Distance between neighbouring codes' left edges
+  pitchY: number
+  originX: number  // Top left of the first code
+  originY: number
+}
+
+export interface ImpositionPage {
+  pageNumber: number
+  code: string
+  symbologyVersion: string
+  placement?: PagePlacement | null
+}
+
+export interface ImpositionBook extends RenderableBook {
+  title: string
+}
+
+const CAPTION_HEIGHT = 3
+const CAPTION_FONT_SIZE = 1.8   // ~5pt
+const SLUG_FONT_SIZE = 2.1      // ~6pt
+const MARK_OFFSET = 2           // Gap between a cut and its crop mark
+const MARK_LENGTH = 5
+const MARK_WIDTH = 0.1
+const REGISTRATION_RADIUS = 2
+
+// Prints on every separation, so marks line up on all plates
+const REGISTRATION_COLOR: [number, number, number, number] = [100, 100, 100, 100]
+
+function sheetDimensions(options: ImpositionOptions): { width: number; height: number } {
+  const size =
+    options.sheet === 'custom'
+      ? { width: options.width ?? 0, height: options.height ?? 0 }
+      : SHEET_SIZES[options.sheet]
+
+  if (size.width <= 0 || size.height <= 0) {
+    throw new ImpositionError('Custom sheets need a width and height')
+  }
+
+  const landscape = options.orientation === 'landscape'
+  return landscape === (size.width > size.height)
+    ? size
+    : { width: size.height, height: size.width }
+}
+
+/**
+ * How many codes of the given size fit on a sheet, and where they go
+ */
+export function planImposition(
+  codeWidth: number,
+  codeHeight: number,
+  pageCount: number,
+  options: ImpositionOptions
+): ImpositionPlan {
+  const sheet = sheetDimensions(options)
+  const cellHeight = codeHeight + (options.captions ? CAPTION_HEIGHT : 0)
+  const areaWidth = sheet.width - 2 * options.margin
+  const areaHeight = sheet.height - 2 * options.margin
+
+  const pitchX = codeWidth + options.gutter
+  const pitchY = cellHeight + options.gutter
+  const columns = Math.floor((areaWidth + options.gutter) / pitchX)
+  const rows = Math.floor((areaHeight + options.gutter) / pitchY)
+
+  if (columns < 1 || rows < 1) {
+    throw new ImpositionError(
+      `A ${codeWidth} x ${codeHeight} mm code does not fit inside the sheet margins`
+    )
+  }
+
+  const perSheet = columns * rows
+  const gridWidth = columns * pitchX - options.gutter
+  const gridHeight = rows * pitchY - options.gutter
+
+  return {
+    sheetWidth: sheet.width,
+    sheetHeight: sheet.height,
+    codeWidth,
+    codeHeight,
+    columns,
+    rows,
+    perSheet,
+    sheets: Math.max(1, Math.ceil(pageCount / perSheet)),
+    pitchX,
+    pitchY,
+    originX: (sheet.width - gridWidth) / 2,
+    originY: (sheet.height - gridHeight) / 2,
+  }
+}
+
+/**
+ * Sheet (0-based) and top left corner of the code at the given index
+ */
+export function cellPosition(plan: ImpositionPlan, index: number): { sheet: number; x: number; y: number } {
+  const slot = index % plan.perSheet
+  return {
+    sheet: Math.floor(index / plan.perSheet),
+    x: plan.originX + (slot % plan.columns) * plan.pitchX,
+    y: plan.originY + Math.floor(slot / plan.columns) * plan.pitchY,
+  }
+}
+
+// Cut positions along one axis: both edges of every code
+function cuts(origin: number, pitch: number, size: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => [origin + i * pitch, origin + i * pitch + size]).flat()
+}
+
+function drawCropMarks(doc: PDFKit.PDFDocument, plan: ImpositionPlan, rowsUsed: number): void {
+  const gridRight = plan.originX + (plan.columns - 1) * plan.pitchX + plan.codeWidth
+  const gridBottom = plan.originY + (rowsUsed - 1) * plan.pitchY + plan.codeHeight
+  const xCuts = cuts(plan.originX, plan.pitchX, plan.codeWidth, plan.columns)
+  const yCuts = cuts(plan.originY, plan.pitchY, plan.codeHeight, rowsUsed)
+
+  // Marks stay in the margins, shortened if the margin is narrow
+  const topLength = Math.min(MARK_LENGTH, plan.originY - MARK_OFFSET)
+  const bottomLength = Math.min(MARK_LENGTH, plan.sheetHeight - gridBottom - MARK_OFFSET)
+  const leftLength = Math.min(MARK_LENGTH, plan.originX - MARK_OFFSET)
+  const rightLength = Math.min(MARK_LENGTH, plan.sheetWidth - gridRight - MARK_OFFSET)
+
+  doc.save().lineWidth(MARK_WIDTH).strokeColor(REGISTRATION_COLOR)
+  for (const x of xCuts) {
+    if (topLength > 0) {
+      doc.moveTo(x, plan.originY - MARK_OFFSET).lineTo(x, plan.originY - MARK_OFFSET - topLength)
+    }
+    if (bottomLength > 0) {
+      doc.moveTo(x, gridBottom + MARK_OFFSET).lineTo(x, gridBottom + MARK_OFFSET + bottomLength)
+    }
+  }
+  for (const y of yCuts) {
+    if (leftLength > 0) {
+      doc.moveTo(plan.originX - MARK_OFFSET, y).lineTo(plan.originX - MARK_OFFSET - leftLength, y)
+    }
+    if (rightLength > 0) {
+      doc.moveTo(gridRight + MARK_OFFSET, y).lineTo(gridRight + MARK_OFFSET + rightLength, y)
+    }
+  }
+  doc.stroke().restore()
+}
+
+// Target (circle and cross hair) in each corner of the sheet, clear of the
+// crop marks, which only run alongside the grid
+function drawRegistrationMarks(doc: PDFKit.PDFDocument, plan: ImpositionPlan): void {
+  const size = REGISTRATION_RADIUS * 1.6
+  const cornerWidth = plan.originX - MARK_OFFSET
+  const cornerHeight = plan.originY - MARK_OFFSET
+  if (Math.min(cornerWidth, cornerHeight) < 2 * size) return
+
+  const left = cornerWidth / 2
+  const right = plan.sheetWidth - cornerWidth / 2
+  const top = cornerHeight / 2
+  const bottom = plan.sheetHeight - cornerHeight / 2
+  const targets = [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: left, y: bottom },
+    { x: right, y: bottom },
+  ]
+
+  doc.save().lineWidth(MARK_WIDTH).strokeColor(REGISTRATION_COLOR)
+  for (const { x, y } of targets) {
+    doc.circle(x, y, REGISTRATION_RADIUS)
+    doc.moveTo(x - size, y).lineTo(x + size, y)
+    doc.moveTo(x, y - size).lineTo(x, y + size)
+  }
+  doc.stroke().restore()
+}
+
+function drawCaption(doc: PDFKit.PDFDocument, plan: ImpositionPlan, x: number, y: number, pageNumber: number): void {
+  doc
+    .save()
+    .font('Helvetica')
+    .fontSize(CAPTION_FONT_SIZE)
+    .fillColor('#333333')
+    .text(`Page ${pageNumber}`, x, y + plan.codeHeight + (CAPTION_HEIGHT - CAPTION_FONT_SIZE) / 2, {
+      width: plan.codeWidth,
+      align: 'center',
+      lineBreak: false,
+    })
+    .restore()
+}
+
+function drawSlug(doc: PDFKit.PDFDocument, plan: ImpositionPlan, text: string): void {
+  // Below the crop marks
+  const gridBottom = plan.originY + (plan.rows - 1) * plan.pitchY + plan.codeHeight
+  const room = plan.sheetHeight - gridBottom - MARK_OFFSET - MARK_LENGTH
+  if (room < SLUG_FONT_SIZE * 1.5) return
+
+  doc
+    .save()
+    .font('Helvetica')
+    .fontSize(SLUG_FONT_SIZE)
+    .fillColor(REGISTRATION_COLOR)
+    .text(text, plan.originX, plan.sheetHeight - (room + SLUG_FONT_SIZE) / 2, {
+      width: plan.sheetWidth - 2 * plan.originX,
+      height: SLUG_FONT_SIZE * 1.5,
+      ellipsis: true,
+      lineBreak: false,
+    })
+    .restore()
+}
+
+/**
+ * Pages grouped by the size their codes are printed at, in order of first
+ * appearance
+ */
+export function groupBySize(
+  pages: ImpositionPage[],
+  theme: ThemeConfig
+): { width: number; height: number; pages: ImpositionPage[] }[] {
+  const groups = new Map<string, { width: number; height: number; pages: ImpositionPage[] }>()
+  for (const page of pages) {
+    const { width, height } = placedSize(page.placement ?? null, theme.dimensions)
+    const key = `${width}x${height}`
+    const group = groups.get(key) ?? { width, height, pages: [] }
+    group.pages.push(page)
+    groups.set(key, group)
+  }
+  return [...groups.values()]
+}
+
+function drawCode(
+  doc: PDFKit.PDFDocument,
+  page: ImpositionPage,
+  theme: ThemeConfig,
+  size: { width: number; height: number },
+  logo: LogoImage | null,
+  x: number,
+  y: number
+): void {
+  const sized = { ...theme, dimensions: { ...theme.dimensions, ...size } }
+  const layout = layoutWaveCode(page.code, sized, parseSymbologyVersion(page.symbologyVersion), logo)
+
+  doc.save().translate(x, y)
+  drawWaveCode(doc, layout, sized)
+  doc.restore()
+}
+
+/**
+ * Multi-page PDF of a book's codes on print sheets
+ */
+export async function renderImposition(
+  book: ImpositionBook,
+  pages: ImpositionPage[],
+  overrides: Partial<ImpositionOptions> = {},
+  now: Date = new Date()
+): Promise<Buffer> {
+  if (pages.length === 0) {
+    throw new ImpositionError('No pages generated for this book')
+  }
+
+  const options = { ...DEFAULT_IMPOSITION_OPTIONS, ...overrides }
+  const theme = resolvePageTheme(book)
+  const logo = await loadLogo(theme)
+
+  if (options.layout === 'pages') {
+    const trim = sheetDimensions(options)
+    const { doc, finish } = createPdf({ title: `${book.title} - code placement`, creationDate: now })
+    for (const page of pages) {
+      const size = placedSize(page.placement ?? null, theme.dimensions)
+      const { x, y } = placeOnPage(page.placement ?? null, page.pageNumber, size, trim)
+      addPdfPage(doc, trim.width, trim.height)
+      drawCode(doc, page, theme, size, logo, x, y)
+    }
+    return finish()
+  }
+
+  const groups = groupBySize(pages, theme).map((group) => ({
+    ...group,
+    plan: planImposition(group.width, group.height, group.pages.length, options),
+  }))
+  const totalSheets = groups.reduce((total, group) => total + group.plan.sheets, 0)
+  const date = now.toISOString().split('T')[0]
+
+  const { doc, finish } = createPdf({ title: `${book.title} - print sheets`, creationDate: now })
+
+  let sheetNumber = 0
+  for (const { plan, pages: groupPages } of groups) {
+    for (let sheet = 0; sheet < plan.sheets; sheet++) {
+      const sheetPages = groupPages.slice(sheet * plan.perSheet, (sheet + 1) * plan.perSheet)
+      sheetNumber++
+      addPdfPage(doc, plan.sheetWidth, plan.sheetHeight)
+
+      sheetPages.forEach((page, i) => {
+        const { x, y } = cellPosition(plan, i)
+        drawCode(doc, page, theme, { width: plan.codeWidth, height: plan.codeHeight }, logo, x, y)
+
+        if (options.captions) {
+          drawCaption(doc, plan, x, y, page.pageNumber)
+        }
+      })
+
+      if (options.cropMarks) {
+        drawCropMarks(doc, plan, Math.ceil(sheetPages.length / plan.columns))
+      }
+      if (options.registrationMarks) {
+        drawRegistrationMarks(doc, plan)
+      }
+      if (options.slug) {
+        drawSlug(
+          doc,
+          plan,
+          `${book.title}  |  Generated ${date}  |  Sheet ${sheetNumber} of ${totalSheets}  |  ` +
+            `${groupPages.length} codes, ${+plan.codeWidth.toFixed(2)} x ${+plan.codeHeight.toFixed(2)} mm`
+        )
+      }
+    }
+  }
+
+  return finish()
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import {
+  LABEL_TEMPLATES,
+  labelsPerSheet,
+  labelTemplateFits,
+  labelPosition,
+  labelSheetCount,
+  renderLabelSheets,
+  LabelSheetError,
+} from './labelSheets'
+
+const template = LABEL_TEMPLATES['avery-l7160']
+const book = { title: 'The Tide Book', themeConfig: null }
+
+function pages(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    pageNumber: i + 1,
+    code: 'K7Q2ZBF',
+    symbologyVersion: 'v2',
+  }))
+}
+
+function pageCount(pdf: Buffer): number {
+  return Number(/\/Type \/Pages\n\/Count (\d+)/.exec(pdf.toString('latin1'))![1])
+}
+
+describe('labelSheets', () => {
+  it('has built-in templates that fit their sheets', () => {
+    for (const builtIn of Object.values(LABEL_TEMPLATES)) {
+      expect(labelTemplateFits(builtIn), builtIn.name).toBe(true)
+    }
+  })
+
+  it('rejects overlapping or overhanging labels', () => {
+    expect(labelTemplateFits({ ...template, pitchX: template.labelWidth - 1 })).toBe(false)
+    expect(labelTemplateFits({ ...template, rows: template.rows + 1 })).toBe(false)
+  })
+
+  describe('labelPosition', () => {
+    it('fills labels left to right, then top to bottom', () => {
+      expect(labelPosition(template, 0)).toEqual({ sheet: 0, x: 7.21, y: 15.15 })
+      expect(labelPosition(template, 1).x).toBeCloseTo(7.21 + 66.04, 9)
+      expect(labelPosition(template, 3)).toEqual({ sheet: 0, x: 7.21, y: 15.15 + 38.1 })
+      expect(labelPosition(template, labelsPerSheet(template))).toEqual({ sheet: 1, x: 7.21, y: 15.15 })
+    })
+
+    it('starts part way into the first sheet', () => {
+      const first = labelPosition(template, 0, 5)
+
+      expect(first.sheet).toBe(0)
+      expect(first).toEqual(labelPosition(template, 4))
+      // 21 labels per sheet: codes 17 onwards go on the second sheet
+      expect(labelPosition(template, 16, 5).sheet).toBe(0)
+      expect(labelPosition(template, 17, 5)).toEqual({ sheet: 1, x: 7.21, y: 15.15 })
+    })
+  })
+
+  it('counts sheets including skipped labels', () => {
+    expect(labelSheetCount(template, 21)).toBe(1)
+    expect(labelSheetCount(template, 21, 2)).toBe(2)
+    expect(labelSheetCount(template, 1, 21)).toBe(1)
+  })
+
+  describe('renderLabelSheets', () => {
+    it('renders one PDF page per sheet at the template size', async () => {
+      const pdf = await renderLabelSheets(book, pages(30), template, { startPosition: 5 })
+      const mediaBox = /\/MediaBox \[([^\]]+)\]/.exec(pdf.toString('latin1'))![1].trim().split(/\s+/).map(Number)
+
+      expect(pageCount(pdf)).toBe(2)
+      expect(mediaBox[2]).toBeCloseTo((210 * 72) / 25.4, 3)
+    })
+
+    it('shrinks codes to fit small labels', async () => {
+      const tiny = { ...template, labelWidth: 10, labelHeight: 5, pitchX: 12, pitchY: 6 }
+      const pdf = await renderLabelSheets(book, pages(1), tiny)
+
+      expect(pageCount(pdf)).toBe(1)
+    })
+
+    it('rejects start positions off the sheet and empty page lists', async () => {
+      await expect(renderLabelSheets(book, pages(1), template, { startPosition: 22 })).rejects.toThrow(LabelSheetError)
+      await expect(renderLabelSheets(book, pages(1), template, { startPosition: 0 })).rejects.toThrow(LabelSheetError)
+      await expect(renderLabelSheets(book, [], template)).rejects.toThrow('No pages to print')
+    })
+  })
+})
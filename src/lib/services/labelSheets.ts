@@ -0,0 +1,256 @@
+import { layoutWaveCode, createPdf, addPdfPage, drawWaveCode } from './vectorRenderer'
+import { resolvePageTheme, type RenderableBook } from './renderPipeline'
+import { parseSymbologyVersion } from './symbology'
+import { loadLogo } from './bookAssets'
+
+/**
+ * Sticker (label sheet) export
+ *
+ * A label template describes a pre-cut sticker sheet: the sheet size, a grid
+ * of rows x columns labels and where the first label sits. Codes fill the
+ * labels left to right, top to bottom in page order, each shrunk to fit its
+ * label if needed. Printing can start part way into the first sheet so a
+ * partly used sheet can go back through the printer. Measurements are in mm.
+ */
+
+export interface LabelTemplate {
+  name: string
+  description: string
+  sheetWidth: number
+  sheetHeight: number
+  rows: number
+  columns: number
+  labelWidth: number
+  labelHeight: number
+  pitchX: number      // Left edge to left edge of neighbouring labels
+  pitchY: number
+  marginTop: number   // Sheet edge to the first label
+  marginLeft: number
+}
+
+export const LABEL_TEMPLATES: Record<string, LabelTemplate> = {
+  'avery-l7651': {
+    name: 'avery-l7651',
+    description: 'Avery L7651, A4, 65 labels (38.1 x 21.2 mm)',
+    sheetWidth: 210,
+    sheetHeight: 297,
+    rows: 13,
+    columns: 5,
+    labelWidth: 38.1,
+    labelHeight: 21.2,
+    pitchX: 40.64,
+    pitchY: 21.2,
+    marginTop: 10.7,
+    marginLeft: 4.67,
+  },
+  'avery-l7159': {
+    name: 'avery-l7159',
+    description: 'Avery L7159, A4, 24 labels (63.5 x 33.9 mm)',
+    sheetWidth: 210,
+    sheetHeight: 297,
+    rows: 8,
+    columns: 3,
+    labelWidth: 63.5,
+    labelHeight: 33.9,
+    pitchX: 66.04,
+    pitchY: 33.9,
+    marginTop: 12.9,
+    marginLeft: 7.21,
+  },
+  'avery-l7160': {
+    name: 'avery-l7160',
+    description: 'Avery L7160, A4, 21 labels (63.5 x 38.1 mm)',
+    sheetWidth: 210,
+    sheetHeight: 297,
+    rows: 7,
+    columns: 3,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    pitchX: 66.04,
+    pitchY: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.21,
+  },
+  'avery-5160': {
+    name: 'avery-5160',
+    description: 'Avery 5160, Letter, 30 labels (1" x 2 5/8")',
+    sheetWidth: 215.9,
+    sheetHeight: 279.4,
+    rows: 10,
+    columns: 3,
+    labelWidth: 66.675,
+    labelHeight: 25.4,
+    pitchX: 69.85,
+    pitchY: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.7625,
+  },
+  'avery-5167': {
+    name: 'avery-5167',
+    description: 'Avery 5167, Letter, 80 labels (1/2" x 1 3/4")',
+    sheetWidth: 215.9,
+    sheetHeight: 279.4,
+    rows: 20,
+    columns: 4,
+    labelWidth: 44.45,
+    labelHeight: 12.7,
+    pitchX: 52.3875,
+    pitchY: 12.7,
+    marginTop: 12.7,
+    marginLeft: 7.62,
+  },
+}
+
+export function isBuiltInLabelTemplate(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(LABEL_TEMPLATES, name)
+}
+
+export class LabelSheetError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'LabelSheetError'
+    this.status = status
+  }
+}
+
+export interface LabelSheetOptions {
+  startPosition?: number  // 1-based label on the first sheet to start from
+  outlines?: boolean      // Draw label outlines, for test prints on plain paper
+}
+
+export interface LabelPage {
+  pageNumber: number
+  code: string
+  symbologyVersion: string
+}
+
+export interface LabelBook extends RenderableBook {
+  title: string
+}
+
+// Kept clear around a code so it survives slightly misaligned printing
+const LABEL_PADDING = 1.5
+const CAPTION_HEIGHT = 2.5
+const CAPTION_FONT_SIZE = 1.8  // ~5pt
+
+export function labelsPerSheet(template: LabelTemplate): number {
+  return template.rows * template.columns
+}
+
+/**
+ * Whether every label lies on the sheet and labels don't overlap
+ */
+export function labelTemplateFits(template: LabelTemplate): boolean {
+  const right = template.marginLeft + (template.columns - 1) * template.pitchX + template.labelWidth
+  const bottom = template.marginTop + (template.rows - 1) * template.pitchY + template.labelHeight
+  return (
+    template.pitchX >= template.labelWidth &&
+    template.pitchY >= template.labelHeight &&
+    right <= template.sheetWidth + 0.01 &&
+    bottom <= template.sheetHeight + 0.01
+  )
+}
+
+/**
+ * Sheet (0-based) and top left corner of the label the index-th code goes on
+ */
+export function labelPosition(
+  template: LabelTemplate,
+  index: number,
+  startPosition: number = 1
+): { sheet: number; x: number; y: number } {
+  const slot = index + startPosition - 1
+  const onSheet = slot % labelsPerSheet(template)
+  return {
+    sheet: Math.floor(slot / labelsPerSheet(template)),
+    x: template.marginLeft + (onSheet % template.columns) * template.pitchX,
+    y: template.marginTop + Math.floor(onSheet / template.columns) * template.pitchY,
+  }
+}
+
+/**
+ * Number of sheets a run of labels needs
+ */
+export function labelSheetCount(template: LabelTemplate, labels: number, startPosition: number = 1): number {
+  return Math.ceil((labels + startPosition - 1) / labelsPerSheet(template))
+}
+
+/**
+ * PDF of the book's codes on a label template, in page order
+ */
+export async function renderLabelSheets(
+  book: LabelBook,
+  pages: LabelPage[],
+  template: LabelTemplate,
+  options: LabelSheetOptions = {}
+): Promise<Buffer> {
+  const startPosition = options.startPosition ?? 1
+  if (pages.length === 0) {
+    throw new LabelSheetError('No pages to print')
+  }
+  if (!Number.isInteger(startPosition) || startPosition < 1 || startPosition > labelsPerSheet(template)) {
+    throw new LabelSheetError(`Start position must be between 1 and ${labelsPerSheet(template)}`)
+  }
+
+  const theme = resolvePageTheme(book)
+  const logo = await loadLogo(theme)
+  const { width, height } = theme.dimensions
+
+  // Shrink (never enlarge) the code to fit inside the label's padding,
+  // leaving room for the page number if there is any to spare
+  const innerWidth = template.labelWidth - 2 * LABEL_PADDING
+  const innerHeight = template.labelHeight - 2 * LABEL_PADDING
+  const captions = innerHeight - height >= CAPTION_HEIGHT
+  const scale = Math.min(1, innerWidth / width, innerHeight / height)
+  if (scale <= 0) {
+    throw new LabelSheetError('Labels are too small for a code')
+  }
+  const codeWidth = width * scale
+  const codeHeight = height * scale
+  const blockHeight = codeHeight + (captions ? CAPTION_HEIGHT : 0)
+
+  const { doc, finish } = createPdf({ title: `${book.title} - ${template.name} labels` })
+  let sheet = -1
+
+  pages.forEach((page, index) => {
+    const position = labelPosition(template, index, startPosition)
+    while (sheet < position.sheet) {
+      addPdfPage(doc, template.sheetWidth, template.sheetHeight)
+      sheet++
+      if (options.outlines) {
+        doc.save().lineWidth(0.1).strokeColor('#999999')
+        for (let slot = 0; slot < labelsPerSheet(template); slot++) {
+          const { x, y } = labelPosition(template, slot)
+          doc.roundedRect(x, y, template.labelWidth, template.labelHeight, 1)
+        }
+        doc.stroke().restore()
+      }
+    }
+
+    const x = position.x + (template.labelWidth - codeWidth) / 2
+    const y = position.y + (template.labelHeight - blockHeight) / 2
+    const layout = layoutWaveCode(page.code, theme, parseSymbologyVersion(page.symbologyVersion), logo)
+
+    doc.save().translate(x, y).scale(scale)
+    drawWaveCode(doc, layout, theme)
+    doc.restore()
+
+    if (captions) {
+      doc
+        .save()
+        .font('Helvetica')
+        .fontSize(CAPTION_FONT_SIZE)
+        .fillColor('#333333')
+        .text(`p. ${page.pageNumber}`, position.x, y + codeHeight + (CAPTION_HEIGHT - CAPTION_FONT_SIZE) / 2, {
+          width: template.labelWidth,
+          align: 'center',
+          lineBreak: false,
+        })
+        .restore()
+    }
+  })
+
+  return finish()
+}
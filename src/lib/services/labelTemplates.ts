@@ -0,0 +1,50 @@
+import prisma from '../db/prisma'
+import { LABEL_TEMPLATES, type LabelTemplate } from './labelSheets'
+
+/**
+ * Label template lookup
+ *
+ * Built-in sticker sheet layouts (LABEL_TEMPLATES) plus any stored in the
+ * label_templates table.
+ */
+
+interface StoredLabelTemplate extends LabelTemplate {
+  createdAt: Date
+}
+
+function toLabelTemplate(row: StoredLabelTemplate): LabelTemplate {
+  return {
+    name: row.name,
+    description: row.description,
+    sheetWidth: row.sheetWidth,
+    sheetHeight: row.sheetHeight,
+    rows: row.rows,
+    columns: row.columns,
+    labelWidth: row.labelWidth,
+    labelHeight: row.labelHeight,
+    pitchX: row.pitchX,
+    pitchY: row.pitchY,
+    marginTop: row.marginTop,
+    marginLeft: row.marginLeft,
+  }
+}
+
+/**
+ * All templates, built-in first
+ */
+export async function listLabelTemplates(): Promise<LabelTemplate[]> {
+  const stored = await prisma.labelTemplate.findMany({ orderBy: { name: 'asc' } })
+  return [...Object.values(LABEL_TEMPLATES), ...stored.map(toLabelTemplate)]
+}
+
+/**
+ * Look up a template by name, or null if it doesn't exist
+ */
+export async function findLabelTemplate(name: string): Promise<LabelTemplate | null> {
+  if (LABEL_TEMPLATES[name]) {
+    return LABEL_TEMPLATES[name]
+  }
+
+  const stored = await prisma.labelTemplate.findUnique({ where: { name } })
+  return stored ? toLabelTemplate(stored) : null
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { generateBookPages, planPages, type ExistingPage } from './pageGeneration'
+import { JobCancelledError } from '../jobs/queue'
+
+// generateBookPages runs with the database, storage and renderer faked,
+// rendering a few pages at a time
+const { db, uploads } = vi.hoisted(() => {
+  process.env.RENDER_POOL_SIZE = '3'
+  return {
+    db: {
+      book: { findUnique: vi.fn() },
+      $transaction: vi.fn(),
+    },
+    uploads: new Set<string>(),
+  }
+})
+
+vi.mock('../db/prisma', () => ({ default: db }))
+
+vi.mock('../storage', () => ({
+  storeWaveCodeImage: async (bookId: string, code: string) => {
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    uploads.add(code)
+    return `/api/images/books/${bookId}/${code}.png`
+  },
+  deleteWaveCodeImage: async (_bookId: string, code: string) => {
+    uploads.delete(code)
+  },
+}))
+
+vi.mock('./renderPipeline', () => ({
+  renderPageImage: async () => Buffer.from('png'),
+}))
+
+vi.mock('./codeAllocator', () => ({
+  allocateCodes: async (count: number) => Array.from({ length: count }, (_, i) => `CODE${i}`),
+  loadCodeFilter: async () => () => null,
+}))
+
+vi.mock('./codeProfiles', () => ({
+  resolveBookCodeProfile: async () => ({ name: 'standard' }),
+}))
+
+const existing: ExistingPage[] = [
+  { id: 'p1', pageNumber: 1, audioLink: 'https://a.test/1.mp3', code: 'AAA111' },
+  { id: 'p2', pageNumber: 2, audioLink: 'https://a.test/2.mp3', code: 'BBB222' },
+  { id: 'p3', pageNumber: 3, audioLink: 'https://a.test/3.mp3', code: 'CCC333' },
+]
+
+describe('pageGeneration', () => {
+  describe('planPages', () => {
+    it('keeps every page when nothing changed', () => {
+      const plan = planPages(existing, existing.map(({ pageNumber, audioLink }) => ({ pageNumber, audioLink })))
+      expect(plan.keep.map(({ page }) => page.code)).toEqual(['AAA111', 'BBB222', 'CCC333'])
+      expect(plan.create).toEqual([])
+      expect(plan.remove).toEqual([])
+    })
+
+    it('creates pages whose audio link changed and removes the old ones', () => {
+      const plan = planPages(existing, [
+        { pageNumber: 1, audioLink: 'https://a.test/1.mp3' },
+        { pageNumber: 2, audioLink: 'https://a.test/2-new.mp3' },
+        { pageNumber: 3, audioLink: 'https://a.test/3.mp3' },
+      ])
+      expect(plan.keep.map(({ page }) => page.id)).toEqual(['p1', 'p3'])
+      expect(plan.create).toEqual([{ pageNumber: 2, audioLink: 'https://a.test/2-new.mp3' }])
+      expect(plan.remove.map((page) => page.id)).toEqual(['p2'])
+    })
+
+    it('keeps the code of a page that moved', () => {
+      const plan = planPages(existing, [
+        { pageNumber: 1, audioLink: 'https://a.test/1.mp3' },
+        { pageNumber: 2, audioLink: 'https://a.test/inserted.mp3' },
+        { pageNumber: 3, audioLink: 'https://a.test/2.mp3' },
+        { pageNumber: 4, audioLink: 'https://a.test/3.mp3' },
+      ])
+      expect(plan.keep).toEqual([
+        { page: existing[0], pageNumber: 1 },
+        { page: existing[1], pageNumber: 3 },
+        { page: existing[2], pageNumber: 4 },
+      ])
+      expect(plan.create).toEqual([{ pageNumber: 2, audioLink: 'https://a.test/inserted.mp3' }])
+      expect(plan.remove).toEqual([])
+    })
+
+    it('uses each existing page at most once for repeated audio links', () => {
+      const plan = planPages(existing.slice(0, 1), [
+        { pageNumber: 1, audioLink: 'https://a.test/1.mp3' },
+        { pageNumber: 2, audioLink: 'https://a.test/1.mp3' },
+      ])
+      expect(plan.keep).toHaveLength(1)
+      expect(plan.create).toEqual([{ pageNumber: 2, audioLink: 'https://a.test/1.mp3' }])
+    })
+
+    it('removes pages beyond the new page count', () => {
+      const plan = planPages(existing, [{ pageNumber: 1, audioLink: 'https://a.test/1.mp3' }])
+      expect(plan.remove.map((page) => page.id)).toEqual(['p2', 'p3'])
+    })
+  })
+})
+
+describe('generateBookPages', () => {
+  const requested = Array.from({ length: 12 }, (_, i) => ({
+    pageNumber: i + 1,
+    audioLink: `https://a.test/${i + 1}.mp3`,
+  }))
+
+  beforeEach(() => {
+    uploads.clear()
+    db.book.findUnique.mockResolvedValue({ id: 'b1', themeConfig: null, publisher: null, pages: [] })
+  })
+
+  it('leaves no uploads behind when cancelled part way', async () => {
+    const generation = generateBookPages('b1', requested, {
+      onProgress: async (done) => {
+        if (done === 4) throw new JobCancelledError()
+      },
+    })
+
+    await expect(generation).rejects.toBeInstanceOf(JobCancelledError)
+    // Give any render still running time to upload
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(uploads.size).toBe(0)
+    expect(db.$transaction).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,287 @@
+import type { Prisma } from '@prisma/client'
+import prisma from '../db/prisma'
+import { allocateCodes, loadCodeFilter } from './codeAllocator'
+import { resolveBookCodeProfile } from './codeProfiles'
+import { CURRENT_SYMBOLOGY_VERSION } from './symbology'
+import { renderPageImage } from './renderPipeline'
+import { renderEach } from './renderPool'
+import { storeWaveCodeImage, deleteWaveCodeImage } from '../storage'
+
+/**
+ * Staged page generation for a book
+ *
+ * 1. Plan: match the requested pages against the existing ones. A page whose
+ *    audio link is unchanged keeps its code and image (preferring the same
+ *    page number, so a moved page keeps its code too).
+ * 2. Prepare: allocate codes and render/store images for the new pages.
+ *    Nothing in the book changes yet; on failure the uploads are removed.
+ * 3. Commit: one transaction deletes dropped pages, renumbers kept ones and
+ *    creates the new ones.
+ * 4. Clean up images of dropped pages.
+ */
+
+export class PageGenerationError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'PageGenerationError'
+    this.status = status
+  }
+}
+
+export interface AudioLinkInput {
+  pageNumber: number
+  audioLink: string
+}
+
+export interface ExistingPage {
+  id: string
+  pageNumber: number
+  audioLink: string
+  code: string
+}
+
+export interface PagePlan {
+  keep: { page: ExistingPage; pageNumber: number }[]
+  create: AudioLinkInput[]
+  remove: ExistingPage[]
+}
+
+export interface GeneratedPage {
+  pageNumber: number
+  code: string
+  imageUrl: string
+  reused: boolean
+}
+
+export interface PageResult {
+  pageNumber: number
+  code: string
+  success: boolean
+  error?: string
+}
+
+export interface PageGenerationOptions {
+  // Called with each new page's outcome, before the progress report
+  onPage?: (result: PageResult) => Promise<void>
+  // Called after each new page is rendered; may throw to abort before commit
+  onProgress?: (done: number, total: number) => Promise<void>
+}
+
+export interface PageGenerationResult {
+  totalPages: number
+  keptPages: number
+  newPages: number
+  removedPages: number
+  pages: GeneratedPage[]
+}
+
+/**
+ * Work out which existing pages survive and which pages need new codes
+ */
+export function planPages(existing: ExistingPage[], requested: AudioLinkInput[]): PagePlan {
+  const available = new Set(existing)
+  const matched = new Map<AudioLinkInput, ExistingPage>()
+
+  // Same page number and audio link first, then the same audio link anywhere
+  for (const input of requested) {
+    const page = existing.find(
+      (p) => available.has(p) && p.pageNumber === input.pageNumber && p.audioLink === input.audioLink
+    )
+    if (page) {
+      matched.set(input, page)
+      available.delete(page)
+    }
+  }
+  for (const input of requested) {
+    if (matched.has(input)) continue
+    const page = existing.find((p) => available.has(p) && p.audioLink === input.audioLink)
+    if (page) {
+      matched.set(input, page)
+      available.delete(page)
+    }
+  }
+
+  return {
+    keep: requested
+      .filter((input) => matched.has(input))
+      .map((input) => ({ page: matched.get(input)!, pageNumber: input.pageNumber })),
+    create: requested.filter((input) => !matched.has(input)),
+    remove: existing.filter((page) => available.has(page)),
+  }
+}
+
+async function commitPlan(
+  tx: Prisma.TransactionClient,
+  bookId: string,
+  plan: PagePlan,
+  created: GeneratedPage[],
+  requested: AudioLinkInput[]
+): Promise<void> {
+  await tx.page.deleteMany({
+    where: { bookId, id: { in: plan.remove.map((page) => page.id) } },
+  })
+
+  // Park moved pages on negative numbers first so renumbering never trips
+  // the (bookId, pageNumber) unique index
+  const moved = plan.keep.filter(({ page, pageNumber }) => page.pageNumber !== pageNumber)
+  for (const { page, pageNumber } of moved) {
+    await tx.page.update({ where: { id: page.id }, data: { pageNumber: -pageNumber } })
+  }
+  for (const { page, pageNumber } of moved) {
+    await tx.page.update({ where: { id: page.id }, data: { pageNumber } })
+  }
+
+  const audioLinks = new Map(requested.map((input) => [input.pageNumber, input.audioLink]))
+  await tx.page.createMany({
+    data: created.map((page) => ({
+      bookId,
+      pageNumber: page.pageNumber,
+      code: page.code,
+      audioLink: audioLinks.get(page.pageNumber)!,
+      imageUrl: page.imageUrl,
+      symbologyVersion: CURRENT_SYMBOLOGY_VERSION,
+    })),
+  })
+
+  await tx.book.update({
+    where: { id: bookId },
+    data: { pageCount: requested.length },
+  })
+}
+
+/**
+ * Replace a book's pages with the requested ones, keeping unchanged pages'
+ * codes. The book is left untouched if anything fails.
+ */
+export async function generateBookPages(
+  bookId: string,
+  requested: AudioLinkInput[],
+  options: PageGenerationOptions = {}
+): Promise<PageGenerationResult> {
+  const pageNumbers = new Set(requested.map((input) => input.pageNumber))
+  if (pageNumbers.size !== requested.length) {
+    throw new PageGenerationError('Page numbers must be unique')
+  }
+
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    include: {
+      publisher: { select: { codeProfile: true } },
+      pages: { select: { id: true, pageNumber: true, audioLink: true, code: true, imageUrl: true } },
+    },
+  })
+
+  if (!book) {
+    throw new PageGenerationError('Book not found', 404)
+  }
+
+  // Stage 1: plan
+  const plan = planPages(book.pages, requested)
+
+  // Stage 2: allocate and render new pages
+  const codeProfile = await resolveBookCodeProfile(book)
+  const codes = await allocateCodes(plan.create.length, codeProfile, await loadCodeFilter(codeProfile))
+  const created: GeneratedPage[] = []
+
+  try {
+    await options.onProgress?.(0, plan.create.length)
+
+    // Pages render a pool's worth at a time. After a failure or a cancel no
+    // more are started, and renderEach waits for the ones under way, so
+    // every upload is in created by the time it's cleaned up
+    const pending = plan.create.map(({ pageNumber }, index) => ({ pageNumber, code: codes[index] }))
+    await renderEach(pending, async ({ pageNumber, code }) => {
+      let imageUrl: string
+      try {
+        const image = await renderPageImage({ code, symbologyVersion: CURRENT_SYMBOLOGY_VERSION }, book)
+        imageUrl = await storeWaveCodeImage(bookId, code, image)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error'
+        await options.onPage?.({ pageNumber, code, success: false, error: reason })
+        throw new PageGenerationError(`Failed to generate code for page ${pageNumber}: ${reason}`, 500)
+      }
+      created.push({ pageNumber, code, imageUrl, reused: false })
+      await options.onPage?.({ pageNumber, code, success: true })
+      await options.onProgress?.(created.length, plan.create.length)
+    })
+
+    // Stage 3: swap the pages in
+    await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      commitPlan(tx, bookId, plan, created, requested)
+    )
+  } catch (error) {
+    await Promise.all(created.map((page) => deleteWaveCodeImage(bookId, page.code)))
+    throw error
+  }
+
+  // Stage 4: the dropped pages' codes are gone, so are their images
+  await Promise.all(plan.remove.map((page) => deleteWaveCodeImage(bookId, page.code)))
+
+  const imageUrls = new Map(book.pages.map((page) => [page.id, page.imageUrl]))
+  const pages = [
+    ...plan.keep.map(({ page, pageNumber }) => ({
+      pageNumber,
+      code: page.code,
+      imageUrl: imageUrls.get(page.id)!,
+      reused: true,
+    })),
+    ...created,
+  ].sort((a, b) => a.pageNumber - b.pageNumber)
+
+  return {
+    totalPages: requested.length,
+    keptPages: plan.keep.length,
+    newPages: created.length,
+    removedPages: plan.remove.length,
+    pages,
+  }
+}
+
+export interface RegeneratedPage {
+  page: Prisma.PageGetPayload<object>
+  oldCode: string
+  newCode: string
+}
+
+/**
+ * Give a single page a new code and image (e.g. after a misprint)
+ */
+export async function regeneratePage(pageId: string): Promise<RegeneratedPage> {
+  const page = await prisma.page.findUnique({
+    where: { id: pageId },
+    include: { book: { include: { publisher: { select: { codeProfile: true } } } } },
+  })
+
+  if (!page) {
+    throw new PageGenerationError('Page not found', 404)
+  }
+
+  const oldCode = page.code
+
+  // Allocate a new code from the book's profile
+  const codeProfile = await resolveBookCodeProfile(page.book)
+  const [newCode] = await allocateCodes(1, codeProfile, await loadCodeFilter(codeProfile))
+
+  // A new code is always printed with the current symbology
+  const image = await renderPageImage(
+    { code: newCode, symbologyVersion: CURRENT_SYMBOLOGY_VERSION },
+    page.book
+  )
+
+  // Store the new image, then drop the old one
+  const imageUrl = await storeWaveCodeImage(page.bookId, newCode, image)
+
+  const updatedPage = await prisma.page.update({
+    where: { id: pageId },
+    data: {
+      code: newCode,
+      imageUrl,
+      symbologyVersion: CURRENT_SYMBOLOGY_VERSION,
+    },
+  })
+  await deleteWaveCodeImage(page.bookId, oldCode)
+
+  return { page: updatedPage, oldCode, newCode }
+}
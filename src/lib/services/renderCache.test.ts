@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { DEFAULT_THEME, PRESET_THEMES, mergeWithDefault } from '../types/theme'
+import {
+  cachedRender,
+  cachedPageOutput,
+  invalidateBookRenders,
+  rememberRender,
+  renderCacheStats,
+  renderCacheStorageKey,
+  themeHash,
+  type RenderCacheKey,
+} from './renderCache'
+import type { RenderedOutput } from './renderPipeline'
+
+const { objects, renderPageOutput } = vi.hoisted(() => ({
+  objects: new Map<string, Buffer>(),
+  renderPageOutput: vi.fn(),
+}))
+
+vi.mock('../storage', () => ({
+  getStorage: () => ({
+    get: async (key: string) => {
+      const body = objects.get(key)
+      return body ? { body, contentType: 'image/png', size: body.length, updatedAt: null } : null
+    },
+    put: async (key: string, body: Buffer) => {
+      objects.set(key, body)
+      return `/api/images/${key}`
+    },
+  }),
+  bookRenderPrefix: (bookId: string) => `renders/${bookId}/`,
+  deleteBookRenders: async (bookId: string) => {
+    for (const key of objects.keys()) {
+      if (key.startsWith(`renders/${bookId}/`)) objects.delete(key)
+    }
+  },
+}))
+
+vi.mock('./renderPipeline', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./renderPipeline')>()),
+  renderPageOutput,
+}))
+
+function png(text: string): RenderedOutput {
+  return { body: Buffer.from(text), contentType: 'image/png', extension: 'png' }
+}
+
+function key(code: string, overrides: Partial<RenderCacheKey> = {}): RenderCacheKey {
+  return { code, symbologyVersion: 'v2', themeHash: themeHash(DEFAULT_THEME), format: 'png', dpi: 300, ...overrides }
+}
+
+// Stats are shared by the whole module; compare before and after
+function delta(before: ReturnType<typeof renderCacheStats>) {
+  const after = renderCacheStats()
+  return {
+    memoryHits: after.memoryHits - before.memoryHits,
+    storageHits: after.storageHits - before.storageHits,
+    misses: after.misses - before.misses,
+  }
+}
+
+describe('renderCache', () => {
+  beforeEach(() => {
+    objects.clear()
+    renderPageOutput.mockReset()
+  })
+
+  describe('themeHash', () => {
+    it('ignores key order and the DPI', () => {
+      const reordered = JSON.parse(JSON.stringify({ ...DEFAULT_THEME, colorScheme: undefined }))
+      reordered.colorScheme = { ...DEFAULT_THEME.colorScheme }
+      const printDpi = { ...DEFAULT_THEME, dimensions: { ...DEFAULT_THEME.dimensions, dpi: 1200 } }
+
+      expect(themeHash(reordered)).toBe(themeHash(DEFAULT_THEME))
+      expect(themeHash(printDpi)).toBe(themeHash(DEFAULT_THEME))
+    })
+
+    it('changes with anything that shows in the render', () => {
+      expect(themeHash(mergeWithDefault(PRESET_THEMES.oceanBlue))).not.toBe(themeHash(DEFAULT_THEME))
+      expect(themeHash({ ...DEFAULT_THEME, layout: { ...DEFAULT_THEME.layout, mode: 'arc' } })).not.toBe(
+        themeHash(DEFAULT_THEME)
+      )
+    })
+  })
+
+  describe('rememberRender', () => {
+    it('counts a key stored twice only once', () => {
+      const storageKey = renderCacheStorageKey('b9', key('TWICE1'))
+      const before = renderCacheStats()
+
+      rememberRender(storageKey, png('first'))
+      rememberRender(storageKey, png('second!'))
+
+      const after = renderCacheStats()
+      expect(after.entries - before.entries).toBe(1)
+      expect(after.bytes - before.bytes).toBe('second!'.length)
+    })
+  })
+
+  describe('cachedRender', () => {
+    it('renders once, then serves the render from memory', async () => {
+      const render = vi.fn(async () => png('A'))
+      const before = renderCacheStats()
+
+      const first = await cachedRender('b1', key('AAA111'), render)
+      const second = await cachedRender('b1', key('AAA111'), render)
+
+      expect(second).toBe(first)
+      expect(render).toHaveBeenCalledTimes(1)
+      expect(delta(before)).toEqual({ memoryHits: 1, storageHits: 0, misses: 1 })
+    })
+
+    it('keys renders by format and DPI', async () => {
+      const render = vi.fn(async () => png('B'))
+
+      await cachedRender('b1', key('BBB222'), render)
+      await cachedRender('b1', key('BBB222', { dpi: 600 }), render)
+      await cachedRender('b1', key('BBB222', { format: 'svg' }), render)
+
+      expect(render).toHaveBeenCalledTimes(3)
+      expect(renderCacheStorageKey('b1', key('BBB222', { format: 'tiff' }))).toMatch(/^renders\/b1\/[0-9a-f]{32}\.tif$/)
+    })
+
+    it('saves renders to storage and serves them from there', async () => {
+      await cachedRender('b1', key('CCC333'), async () => png('C'))
+      expect(objects.get(renderCacheStorageKey('b1', key('CCC333')))?.toString()).toBe('C')
+
+      // Saved by another instance
+      objects.set(renderCacheStorageKey('b1', key('DDD444')), Buffer.from('D'))
+      const render = vi.fn(async () => png('not used'))
+      const before = renderCacheStats()
+
+      const output = await cachedRender('b1', key('DDD444'), render)
+
+      expect(output.body.toString()).toBe('D')
+      expect(output.contentType).toBe('image/png')
+      expect(render).not.toHaveBeenCalled()
+      expect(delta(before).storageHits).toBe(1)
+    })
+
+    it('keeps renders that are not to persist out of storage', async () => {
+      await cachedRender('b1', key('EEE555'), async () => png('E'), { persist: false })
+
+      expect(objects.size).toBe(0)
+    })
+
+    it('renders once for simultaneous requests', async () => {
+      const render = vi.fn(async () => png('F'))
+
+      const outputs = await Promise.all([1, 2, 3].map(() => cachedRender('b1', key('FFF666'), render)))
+
+      expect(render).toHaveBeenCalledTimes(1)
+      expect(outputs[1]).toBe(outputs[0])
+    })
+  })
+
+  describe('invalidateBookRenders', () => {
+    it('drops the book\'s renders from memory and storage', async () => {
+      const render = vi.fn(async () => png('G'))
+      await cachedRender('b2', key('GGG777'), render)
+      await cachedRender('b3', key('GGG777'), render)
+
+      await invalidateBookRenders('b2')
+      await cachedRender('b2', key('GGG777'), render)
+      await cachedRender('b3', key('GGG777'), render)
+
+      expect(render).toHaveBeenCalledTimes(3)
+      expect([...objects.keys()].filter((k) => k.startsWith('renders/b3/'))).toHaveLength(1)
+    })
+  })
+
+  describe('cachedPageOutput', () => {
+    it('renders a page again once its book\'s theme changes', async () => {
+      renderPageOutput.mockResolvedValue(png('H'))
+      const page = { code: 'HHH888', symbologyVersion: 'v2' }
+
+      await cachedPageOutput(page, { id: 'b4', themeConfig: null }, 'png')
+      await cachedPageOutput(page, { id: 'b4', themeConfig: null }, 'png')
+      await cachedPageOutput(page, { id: 'b4', themeConfig: PRESET_THEMES.forestGreen }, 'png')
+
+      expect(renderPageOutput).toHaveBeenCalledTimes(2)
+      expect(renderPageOutput).toHaveBeenLastCalledWith(page, { id: 'b4', themeConfig: PRESET_THEMES.forestGreen }, 'png')
+    })
+  })
+})
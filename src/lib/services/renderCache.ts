@@ -0,0 +1,280 @@
+import { createHash } from 'crypto'
+import { getStorage, bookRenderPrefix, deleteBookRenders } from '../storage'
+import type { ThemeConfig } from '../types/theme'
+import {
+  renderPageOutput,
+  resolveOutputTheme,
+  OUTPUT_TYPES,
+  type OutputFormat,
+  type RenderableBook,
+  type RenderablePage,
+  type RenderedOutput,
+} from './renderPipeline'
+import { generateThemedPreviewWaveCode, PREVIEW_DPI } from './imageGenerator'
+import { parseSymbologyVersion } from './symbology'
+import type { LogoImage } from './bookAssets'
+
+/**
+ * Render cache
+ *
+ * Renders are content addressed: the cache key is a hash of the code, its
+ * symbology version, the theme (as canonical JSON, so key order doesn't
+ * matter), the output format and the DPI. Changing a book's theme changes
+ * every key, so a stale render is never served; invalidateBookRenders only
+ * frees the space the old ones took. Recent renders are kept in memory
+ * (least recently used first out, by size); saved renders also go to the
+ * storage backend under renders/{bookId}/, where every instance finds them.
+ */
+
+// Bump whenever a renderer's output changes, so older cached renders are
+// no longer found
+export const RENDERER_VERSION = 1
+
+export interface RenderCacheKey {
+  code: string
+  symbologyVersion: string
+  themeHash: string
+  format: OutputFormat
+  dpi: number
+}
+
+export interface RenderCacheStats {
+  memoryHits: number
+  storageHits: number
+  misses: number
+  hitRate: number     // Hits of either kind over all lookups (0 before any)
+  entries: number     // In memory
+  bytes: number
+  maxBytes: number
+}
+
+export interface CachedRenderOptions {
+  // Save the render to storage as well as memory. Previews of unsaved themes
+  // don't, or every slider position would be kept.
+  persist?: boolean
+}
+
+const DEFAULT_MEMORY_MB = 64
+
+const memory = new Map<string, RenderedOutput>()
+const pending = new Map<string, Promise<RenderedOutput>>()
+const counts = { memoryHits: 0, storageHits: 0, misses: 0 }
+let memoryBytes = 0
+
+function maxMemoryBytes(): number {
+  const configured = Number(process.env.RENDER_CACHE_MEMORY_MB)
+  const megabytes = Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_MEMORY_MB
+  return megabytes * 1024 * 1024
+}
+
+// JSON with object keys sorted and undefined values left out, so equal
+// themes always serialise the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Hash of everything in a theme that shows in a render except its DPI,
+ * which is part of the cache key on its own
+ */
+export function themeHash(theme: ThemeConfig): string {
+  return createHash('sha256')
+    .update(canonicalJson({ ...theme, dimensions: { ...theme.dimensions, dpi: undefined } }))
+    .digest('hex')
+    .slice(0, 32)
+}
+
+/**
+ * Storage key (and memory key) of a book's cached render
+ */
+export function renderCacheStorageKey(bookId: string, key: RenderCacheKey): string {
+  const digest = createHash('sha256')
+    .update(
+      [RENDERER_VERSION, key.code, key.symbologyVersion, key.themeHash, key.format, key.dpi].join('|')
+    )
+    .digest('hex')
+    .slice(0, 32)
+  return `${bookRenderPrefix(bookId)}${digest}.${OUTPUT_TYPES[key.format].extension}`
+}
+
+/**
+ * Keep a render in memory under its storage key, replacing any render
+ * already there, and evict the least recently used past the memory limit
+ */
+export function rememberRender(storageKey: string, output: RenderedOutput): void {
+  const limit = maxMemoryBytes()
+  if (output.body.length > limit) return
+
+  const existing = memory.get(storageKey)
+  if (existing) {
+    memory.delete(storageKey)
+    memoryBytes -= existing.body.length
+  }
+  memory.set(storageKey, output)
+  memoryBytes += output.body.length
+  for (const [oldest, evicted] of memory) {
+    if (memoryBytes <= limit) break
+    memory.delete(oldest)
+    memoryBytes -= evicted.body.length
+  }
+}
+
+async function readStored(storageKey: string, format: OutputFormat): Promise<RenderedOutput | null> {
+  try {
+    const stored = await getStorage().get(storageKey)
+    return stored ? { body: stored.body, ...OUTPUT_TYPES[format] } : null
+  } catch (error) {
+    // A cache that can't be read is a cache miss
+    console.warn(`Failed to read cached render ${storageKey}:`, error)
+    return null
+  }
+}
+
+/**
+ * A render from the cache, or rendered (once, however many callers ask at
+ * the same time) and cached
+ */
+export async function cachedRender(
+  bookId: string,
+  key: RenderCacheKey,
+  render: () => Promise<RenderedOutput>,
+  options: CachedRenderOptions = {}
+): Promise<RenderedOutput> {
+  const storageKey = renderCacheStorageKey(bookId, key)
+
+  const cached = memory.get(storageKey)
+  if (cached) {
+    counts.memoryHits++
+    // Most recently used goes to the back of the eviction queue
+    memory.delete(storageKey)
+    memory.set(storageKey, cached)
+    return cached
+  }
+
+  const inFlight = pending.get(storageKey)
+  if (inFlight) {
+    counts.memoryHits++
+    return inFlight
+  }
+
+  const lookup = (async () => {
+    const stored = await readStored(storageKey, key.format)
+    if (stored) {
+      counts.storageHits++
+      rememberRender(storageKey, stored)
+      return stored
+    }
+
+    counts.misses++
+    const output = await render()
+    rememberRender(storageKey, output)
+    if (options.persist ?? true) {
+      try {
+        await getStorage().put(storageKey, output.body, output.contentType)
+      } catch (error) {
+        // The render is still good; it just won't be reused elsewhere
+        console.warn(`Failed to save cached render ${storageKey}:`, error)
+      }
+    }
+    return output
+  })()
+
+  pending.set(storageKey, lookup)
+  try {
+    return await lookup
+  } finally {
+    pending.delete(storageKey)
+  }
+}
+
+/**
+ * A page in any output format, from the cache where possible
+ */
+export async function cachedPageOutput(
+  page: RenderablePage,
+  book: RenderableBook & { id: string },
+  format: OutputFormat
+): Promise<RenderedOutput> {
+  const theme = resolveOutputTheme(page, book, format)
+  const key: RenderCacheKey = {
+    code: page.code,
+    symbologyVersion: parseSymbologyVersion(page.symbologyVersion),
+    themeHash: themeHash(theme),
+    format,
+    dpi: theme.dimensions.dpi,
+  }
+  return cachedRender(book.id, key, () => renderPageOutput(page, book, format))
+}
+
+/**
+ * A theme editor preview (PNG at PREVIEW_DPI) as a data URL, from the cache
+ * where possible. Only kept in memory, as the theme may never be saved.
+ */
+export async function cachedPreviewDataUrl(
+  bookId: string,
+  code: string,
+  theme: ThemeConfig,
+  symbologyVersion: string,
+  logo: LogoImage | null
+): Promise<string> {
+  const version = parseSymbologyVersion(symbologyVersion)
+  const key: RenderCacheKey = {
+    code,
+    symbologyVersion: version,
+    themeHash: themeHash(theme),
+    format: 'png',
+    dpi: PREVIEW_DPI,
+  }
+  const output = await cachedRender(
+    bookId,
+    key,
+    async () => ({
+      body: await generateThemedPreviewWaveCode(code, theme, version, logo),
+      ...OUTPUT_TYPES.png,
+    }),
+    { persist: false }
+  )
+  return `data:image/png;base64,${output.body.toString('base64')}`
+}
+
+/**
+ * Drop a book's cached renders, from memory and storage. Call it when the
+ * book's theme changes or the book is deleted.
+ */
+export async function invalidateBookRenders(bookId: string): Promise<void> {
+  const prefix = bookRenderPrefix(bookId)
+  for (const [storageKey, output] of memory) {
+    if (storageKey.startsWith(prefix)) {
+      memory.delete(storageKey)
+      memoryBytes -= output.body.length
+    }
+  }
+
+  try {
+    await deleteBookRenders(bookId)
+  } catch (error) {
+    // Stale renders are never served (their keys are gone); they only take space
+    console.warn(`Failed to delete cached renders for book ${bookId}:`, error)
+  }
+}
+
+export function renderCacheStats(): RenderCacheStats {
+  const hits = counts.memoryHits + counts.storageHits
+  const lookups = hits + counts.misses
+  return {
+    ...counts,
+    hitRate: lookups > 0 ? hits / lookups : 0,
+    entries: memory.size,
+    bytes: memoryBytes,
+    maxBytes: maxMemoryBytes(),
+  }
+}
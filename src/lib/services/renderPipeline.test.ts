@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PRESET_THEMES } from '../types/theme'
+import { CURRENT_SYMBOLOGY_VERSION } from './symbology'
+import { renderPageImage, renderPageOutput, resolveOutputTheme, resolvePageTheme } from './renderPipeline'
+import { generateBookPages, regeneratePage } from './pageGeneration'
+import { regenerateBookWithTheme } from './themeRegeneration'
+import { reconcileStorage } from './storageReconcile'
+import { bookExportEntries } from './bookExport'
+
+// Every path that produces a page image must produce the same bytes. The
+// database, storage and code allocation are faked; rendering is real.
+
+const { db, stored } = vi.hoisted(() => ({
+  db: {
+    book: { findUnique: vi.fn(), update: vi.fn() },
+    page: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+  stored: [] as { code: string; image: Buffer }[],
+}))
+
+vi.mock('../db/prisma', () => ({ default: db }))
+
+vi.mock('../storage', () => ({
+  storeWaveCodeImage: async (bookId: string, code: string, image: Buffer) => {
+    stored.push({ code, image })
+    return `/api/images/books/${bookId}/${code}.png`
+  },
+  deleteWaveCodeImage: async () => {},
+  getStorage: () => ({
+    name: 'local',
+    get: async () => null,
+    put: async (key: string) => `/api/images/${key}`,
+    list: async () => [],
+    url: (key: string) => `/api/images/${key}`,
+    delete: async () => {},
+  }),
+  bookImagePrefix: (bookId: string) => `books/${bookId}/`,
+  bookRenderPrefix: (bookId: string) => `renders/${bookId}/`,
+  deleteBookRenders: async () => {},
+  waveCodeImageKey: (bookId: string, code: string) => `books/${bookId}/${code}.png`,
+  parseWaveCodeImageKey: () => null,
+}))
+
+vi.mock('./codeAllocator', () => ({
+  allocateCodes: async () => [CODE],
+  loadCodeFilter: async () => () => null,
+}))
+
+vi.mock('./codeProfiles', () => ({
+  resolveBookCodeProfile: async () => ({ name: 'checked' }),
+}))
+
+const CODE = 'K7Q2ZBF'
+const book = {
+  id: 'b1',
+  title: 'Ocean Tales',
+  author: 'A. Writer',
+  isbn: null,
+  themeConfig: PRESET_THEMES.oceanBlue,
+  codeProfile: null,
+  publisher: null,
+}
+const page = {
+  id: 'p1',
+  bookId: 'b1',
+  pageNumber: 1,
+  code: CODE,
+  audioLink: 'https://a.test/1.mp3',
+  imageUrl: `/api/images/books/b1/${CODE}.png`,
+  symbologyVersion: CURRENT_SYMBOLOGY_VERSION,
+}
+
+describe('renderPipeline', () => {
+  let expected: Buffer
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    stored.length = 0
+    db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db))
+    expected = await renderPageImage(page, book)
+  })
+
+  it('resolves the book theme over the defaults', () => {
+    const theme = resolvePageTheme(book)
+    expect(theme.colorScheme.primary).toBe(PRESET_THEMES.oceanBlue.colorScheme?.primary)
+    expect(theme.dimensions.dpi).toBe(300)
+  })
+
+  it('applies the theme', async () => {
+    const unthemed = await renderPageImage(page, { themeConfig: null })
+    expect(unthemed.equals(expected)).toBe(false)
+  })
+
+  it('generate-codes stores the pipeline image', async () => {
+    db.book.findUnique.mockResolvedValue({ ...book, pages: [] })
+
+    await generateBookPages('b1', [{ pageNumber: 1, audioLink: page.audioLink }])
+
+    expect(stored).toHaveLength(1)
+    expect(stored[0].image.equals(expected)).toBe(true)
+  })
+
+  it('single-page regenerate stores the pipeline image', async () => {
+    db.page.findUnique.mockResolvedValue({ ...page, code: 'OLD123', book })
+    db.page.update.mockResolvedValue(page)
+
+    await regeneratePage('p1')
+
+    expect(stored).toHaveLength(1)
+    expect(stored[0].image.equals(expected)).toBe(true)
+  })
+
+  it('regenerate-with-theme stores the pipeline image', async () => {
+    db.book.findUnique.mockResolvedValue({ ...book, pages: [page] })
+
+    await regenerateBookWithTheme('b1')
+
+    expect(stored).toHaveLength(1)
+    expect(stored[0].image.equals(expected)).toBe(true)
+  })
+
+  it('storage reconcile re-renders missing images with the pipeline', async () => {
+    db.page.findMany.mockResolvedValue([page])
+    db.page.findUnique.mockResolvedValue({ ...page, book })
+    db.page.updateMany.mockResolvedValue({ count: 1 })
+
+    const report = await reconcileStorage({ dryRun: false })
+
+    expect(report.fixedPages).toBe(1)
+    expect(stored[0].image.equals(expected)).toBe(true)
+  })
+
+  it('the download export contains the pipeline image', async () => {
+    const entries = []
+    for await (const entry of bookExportEntries(book, [page])) {
+      entries.push(entry)
+    }
+
+    expect(entries.map((entry) => entry.name)).toEqual([`page_001_${CODE}.png`, 'manifest.csv'])
+    expect((entries[0].data as Buffer).equals(expected)).toBe(true)
+  })
+
+  it('renders the PNG for the png output format', async () => {
+    const output = await renderPageOutput(page, book, 'png')
+
+    expect(output.contentType).toBe('image/png')
+    expect(output.body.equals(expected)).toBe(true)
+  })
+
+  it('exports vector formats with the same renderer as the page endpoint', async () => {
+    const entries = []
+    for await (const entry of bookExportEntries(book, [page], 'pdfx')) {
+      entries.push(entry)
+    }
+    const output = await renderPageOutput(page, book, 'pdfx')
+
+    expect(entries[0].name).toBe(`page_001_${CODE}.pdf`)
+    expect((entries[0].data as Buffer).equals(output.body)).toBe(true)
+    expect(output.contentType).toBe('application/pdf')
+  })
+
+  it('names TIFF output .tif', async () => {
+    const output = await renderPageOutput(page, book, 'tiff')
+
+    expect(output.contentType).toBe('image/tiff')
+    expect(output.extension).toBe('tif')
+  })
+
+  it('sizes PDFs by the page\'s placement, leaving rasters at the theme size', () => {
+    const placed = {
+      ...page,
+      placement: { anchor: null, offsetXMm: null, offsetYMm: null, widthMm: 40, heightMm: 20, mirrorOnVerso: null },
+    }
+
+    expect(resolveOutputTheme(placed, book, 'pdf').dimensions).toMatchObject({ width: 40, height: 20 })
+    expect(resolveOutputTheme(placed, book, 'png')).toEqual(resolvePageTheme(book))
+    expect(resolveOutputTheme(page, book, 'pdfx')).toEqual(resolvePageTheme(book))
+  })
+})
@@ -0,0 +1,121 @@
+import { ThemeConfig, mergeWithDefault } from '../types/theme'
+import { placedSize, type PagePlacement } from '../types/placement'
+import { generateThemedWaveCode } from './imageGenerator'
+import { renderWaveCodeSvg, renderWaveCodePdf } from './vectorRenderer'
+import { renderWaveCodeTiff } from './cmykTiff'
+import { parseSymbologyVersion } from './symbology'
+import { loadLogo } from './bookAssets'
+
+/**
+ * The one way page images are rendered
+ *
+ * Generation, regeneration, storage repair and exports all render through
+ * renderPageImage, so the image a page gets is the same wherever it's
+ * produced: the book's theme (or the default theme) at print resolution,
+ * in the symbology the page was printed with. Vector formats (renderPageOutput)
+ * draw the same theme at the theme's exact size in mm; PDF and TIFF print
+ * the theme's CMYK and spot colours. A theme's logo is loaded from the
+ * book's assets for every format. PDFs are drawn at the page's placement
+ * size where it overrides the theme's; raster images keep the theme's size
+ * (and stay identical to the stored page image).
+ */
+
+export const OUTPUT_FORMATS = ['png', 'svg', 'pdf', 'pdfx', 'tiff'] as const
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+// What each format is served and saved as
+export const OUTPUT_TYPES: Record<OutputFormat, { contentType: string; extension: string }> = {
+  png: { contentType: 'image/png', extension: 'png' },
+  svg: { contentType: 'image/svg+xml', extension: 'svg' },
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+  pdfx: { contentType: 'application/pdf', extension: 'pdf' },
+  tiff: { contentType: 'image/tiff', extension: 'tif' },
+}
+
+export interface RenderedOutput {
+  body: Buffer
+  contentType: string
+  extension: string
+}
+
+export interface RenderableBook {
+  themeConfig: unknown  // Book.themeConfig (partial theme JSON or null)
+}
+
+export interface RenderablePage {
+  code: string
+  symbologyVersion: string
+  placement?: PagePlacement | null
+}
+
+/**
+ * The theme a page of the book is printed with
+ */
+export function resolvePageTheme(book: RenderableBook): ThemeConfig {
+  return mergeWithDefault(book.themeConfig as Partial<ThemeConfig> | null)
+}
+
+/**
+ * The theme a page is drawn with in the given format: the book's, at the
+ * page's size override for PDFs
+ */
+export function resolveOutputTheme(
+  page: RenderablePage,
+  book: RenderableBook,
+  format: OutputFormat
+): ThemeConfig {
+  const theme = resolvePageTheme(book)
+  if ((format !== 'pdf' && format !== 'pdfx') || !page.placement) return theme
+
+  const size = placedSize(page.placement, theme.dimensions)
+  return { ...theme, dimensions: { ...theme.dimensions, ...size } }
+}
+
+/**
+ * Render a page's print image (PNG)
+ */
+export async function renderPageImage(page: RenderablePage, book: RenderableBook): Promise<Buffer> {
+  const theme = resolvePageTheme(book)
+  return generateThemedWaveCode(
+    page.code,
+    theme,
+    parseSymbologyVersion(page.symbologyVersion),
+    await loadLogo(theme)
+  )
+}
+
+/**
+ * Render a page in any output format: the print PNG, an SVG, a PDF, a
+ * PDF/X-1a file for prepress or a CMYK TIFF
+ */
+export async function renderPageOutput(
+  page: RenderablePage,
+  book: RenderableBook,
+  format: OutputFormat
+): Promise<RenderedOutput> {
+  const theme = resolveOutputTheme(page, book, format)
+  const symbologyVersion = parseSymbologyVersion(page.symbologyVersion)
+  const logo = await loadLogo(theme)
+
+  switch (format) {
+    case 'svg':
+      return {
+        body: Buffer.from(renderWaveCodeSvg(page.code, theme, symbologyVersion, logo)),
+        ...OUTPUT_TYPES.svg,
+      }
+    case 'pdf':
+    case 'pdfx':
+      return {
+        body: await renderWaveCodePdf(page.code, theme, symbologyVersion, { pdfx: format === 'pdfx' }, logo),
+        ...OUTPUT_TYPES[format],
+      }
+    case 'tiff':
+      return {
+        body: await renderWaveCodeTiff(page.code, theme, symbologyVersion, logo),
+        ...OUTPUT_TYPES.tiff,
+      }
+    case 'png':
+    default:
+      return { body: await renderPageImage(page, book), ...OUTPUT_TYPES.png }
+  }
+}
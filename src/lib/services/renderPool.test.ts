@@ -0,0 +1,151 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import sharp from 'sharp'
+import {
+  createRenderPool,
+  getRenderPool,
+  greyPlate,
+  logoImages,
+  logoPlate,
+  renderEach,
+  renderPoolOptionsFromEnv,
+  RenderPoolError,
+  type RenderPool,
+  type RenderPoolOptions,
+} from './renderPool'
+
+const SVG = '<svg width="40" height="20" xmlns="http://www.w3.org/2000/svg"><rect width="100%" height="100%" fill="#123456"/></svg>'
+
+describe('renderPool', () => {
+  const pools: RenderPool[] = []
+
+  function pool(options: Partial<RenderPoolOptions> = {}): RenderPool {
+    const created = createRenderPool({ size: 1, maxQueue: 10, timeoutMs: 10000, ...options })
+    pools.push(created)
+    return created
+  }
+
+  afterEach(async () => {
+    await Promise.all(pools.splice(0).map((created) => created.close()))
+  })
+
+  describe('renderPoolOptionsFromEnv', () => {
+    it('reads the size, queue limit and timeout', () => {
+      expect(renderPoolOptionsFromEnv({ RENDER_POOL_SIZE: '3', RENDER_QUEUE_LIMIT: '0', RENDER_TIMEOUT_MS: '500' })).toEqual({
+        size: 3,
+        maxQueue: 0,
+        timeoutMs: 500,
+      })
+    })
+
+    it('falls back to defaults for missing or unusable values', () => {
+      const options = renderPoolOptionsFromEnv({ RENDER_POOL_SIZE: '0', RENDER_QUEUE_LIMIT: 'lots', RENDER_TIMEOUT_MS: '' })
+
+      expect(options.size).toBeGreaterThanOrEqual(1)
+      expect(options.maxQueue).toBe(200)
+      expect(options.timeoutMs).toBe(30000)
+    })
+  })
+
+  describe('createRenderPool', () => {
+    it('rasterises an SVG to a PNG at the given density', async () => {
+      const png = await pool().rasterise(SVG, 300)
+      const metadata = await sharp(png).metadata()
+
+      expect(metadata.format).toBe('png')
+      expect(metadata.width).toBe(40)
+      expect(metadata.density).toBe(300)
+    })
+
+    it('queues renders beyond the pool size', async () => {
+      const renders = pool({ size: 2 })
+
+      const pngs = Promise.all([1, 2, 3, 4, 5].map(() => renders.rasterise(SVG, 72)))
+      expect(renders.stats()).toMatchObject({ workers: 2, busy: 2, queued: 3 })
+
+      expect(await pngs).toHaveLength(5)
+      expect(renders.stats()).toMatchObject({ busy: 0, queued: 0, completed: 5 })
+    })
+
+    it('turns renders away once the queue is full', async () => {
+      const renders = pool({ maxQueue: 1 })
+
+      const accepted = [renders.rasterise(SVG, 72), renders.rasterise(SVG, 72)]
+      const turnedAway = renders.rasterise(SVG, 72)
+
+      await expect(turnedAway).rejects.toBeInstanceOf(RenderPoolError)
+      await expect(turnedAway).rejects.toMatchObject({ status: 503 })
+      await Promise.all(accepted)
+      expect(renders.stats().rejected).toBe(1)
+    })
+
+    it('abandons renders that take too long and replaces the worker', async () => {
+      const renders = pool({ timeoutMs: 1 })
+
+      await expect(renders.rasterise(SVG, 72)).rejects.toMatchObject({ name: 'RenderPoolError', status: 504 })
+      expect(renders.stats()).toMatchObject({ workers: 0, busy: 0, timedOut: 1 })
+    })
+
+    it('fails a render sharp rejects and carries on', async () => {
+      const renders = pool()
+
+      await expect(renders.rasterise('not an svg', 72)).rejects.toThrow()
+      expect(await renders.rasterise(SVG, 72)).toBeInstanceOf(Buffer)
+      expect(renders.stats()).toMatchObject({ workers: 1, completed: 1, failed: 1 })
+    })
+  })
+
+  describe('image ops', () => {
+    it('splits a greyscale plate out as raw bytes', async () => {
+      const png = await sharp({ create: { width: 3, height: 2, channels: 3, background: '#404040' } }).png().toBuffer()
+      const plate = await greyPlate(png)
+
+      expect(plate).toMatchObject({ width: 3, height: 2 })
+      expect([...plate.data]).toEqual([64, 64, 64, 64, 64, 64])
+    })
+
+    it('prepares a logo as a PNG and a CMYK JPEG, and splits its inks', async () => {
+      const images = await logoImages(Buffer.from(SVG), { svg: true, maxPixels: 200, background: '#ffffff' })
+
+      expect(images).toMatchObject({ width: 40, height: 20 })
+      expect((await sharp(images.png).metadata()).width).toBe(200)
+      expect((await sharp(images.cmyk).metadata()).space).toBe('cmyk')
+
+      const plate = await sharp(await logoPlate(images.cmyk, 3)).metadata()
+      expect(plate).toMatchObject({ format: 'png', width: 200, height: 100 })
+    })
+  })
+
+  describe('renderEach', () => {
+    it('renders a pool\'s worth at a time, keeping the list\'s order', async () => {
+      let running = 0
+      let mostRunning = 0
+
+      const results = await renderEach([5, 1, 4, 2, 3], async (delay) => {
+        running++
+        mostRunning = Math.max(mostRunning, running)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        running--
+        return delay * 10
+      })
+
+      expect(results).toEqual([50, 10, 40, 20, 30])
+      expect(mostRunning).toBe(Math.min(5, getRenderPool().size))
+    })
+
+    it('stops starting renders after a failure, and waits for the rest before rethrowing', async () => {
+      const started: number[] = []
+      const finished: number[] = []
+
+      const rendering = renderEach([1, 30, 30, 30, 30, 30, 30, 30, 30], async (delay) => {
+        started.push(delay)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        if (delay === 1) throw new Error('bad page')
+        finished.push(delay)
+      })
+
+      await expect(rendering).rejects.toThrow('bad page')
+      expect(finished).toHaveLength(started.length - 1)
+      expect(started.length).toBeLessThanOrEqual(getRenderPool().size)
+    })
+  })
+})
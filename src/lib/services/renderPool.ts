@@ -0,0 +1,378 @@
+import { Worker } from 'worker_threads'
+import { availableParallelism } from 'os'
+
+/**
+ * Render pool
+ *
+ * Image work with sharp is the slow, memory hungry part of a render, so it
+ * runs on a small pool of worker threads instead of the event loop that
+ * answers API requests: rasterising SVGs (rasterise), splitting TIFF plates
+ * (greyPlate, logoPlate) and preparing logos (logoImages). Every PNG and
+ * TIFF render goes through it, for page generation, regeneration, storage
+ * repair, exports and previews alike, so however many renders are asked
+ * for, only RENDER_POOL_SIZE run at once.
+ *
+ * Building the SVG stays on the calling thread. It is plain string work
+ * over the TypeScript layout modules (barLayout, captionLayout with its
+ * fontkit fonts), which the worker, as plain JavaScript with no build step
+ * of its own, can't load; it takes a small fraction of a render's time.
+ * PDFs, label sheets and imposition sheets are drawn with pdfkit on the
+ * calling thread for the same reason: they hold no rasters of their own,
+ * and their logo images come ready-made from logoImages.
+ *
+ * Renders waiting for a worker queue up to RENDER_QUEUE_LIMIT; past that
+ * they're turned away (503) rather than held in memory. A render that runs
+ * longer than RENDER_TIMEOUT_MS is abandoned (504) and its worker replaced.
+ * Workers start on first use and don't keep the process alive while idle.
+ */
+
+export class RenderPoolError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 503) {
+    super(message)
+    this.name = 'RenderPoolError'
+    this.status = status
+  }
+}
+
+export interface RenderPoolOptions {
+  size: number        // Worker threads
+  maxQueue: number    // Renders waiting for a worker before more are turned away
+  timeoutMs: number   // Longest a render may run
+}
+
+export interface RenderPoolStats {
+  size: number
+  workers: number     // Started so far (up to size)
+  busy: number
+  queued: number
+  maxQueue: number
+  completed: number
+  failed: number
+  timedOut: number
+  rejected: number    // Turned away with the queue full
+}
+
+// Work a worker can do, by op; the worker's copy of each is in WORKER_SOURCE
+export type RenderJob =
+  | { op: 'rasterise'; svg: string; density: number }
+  | { op: 'greyPlate'; png: Uint8Array }
+  | { op: 'logoPlate'; cmyk: Uint8Array; ink: number }
+  | { op: 'logoImages'; body: Uint8Array; svg: boolean; maxPixels: number; background: string }
+
+export interface RawPlate {
+  data: Buffer
+  width: number
+  height: number
+}
+
+export interface LogoImages {
+  png: Buffer
+  cmyk: Buffer
+  width: number
+  height: number
+}
+
+export interface RenderPool {
+  size: number
+  run(job: RenderJob): Promise<unknown>
+  rasterise(svg: string, density: number): Promise<Buffer>
+  stats(): RenderPoolStats
+  close(): Promise<void>
+}
+
+const DEFAULT_MAX_QUEUE = 200
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+
+// Run as plain JavaScript, so workers need no build step of their own. sharp
+// is loaded from node_modules as it is on the main thread, with one libvips
+// thread per worker: the pool size is what bounds CPU use.
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads')
+const sharp = require('sharp')
+
+sharp.concurrency(1)
+
+const INKS = 4
+const buffer = (bytes) => Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+const ops = {
+  rasterise({ svg, density }) {
+    return sharp(Buffer.from(svg)).png({ compressionLevel: 9 }).withMetadata({ density }).toBuffer()
+  },
+
+  // First channel of a greyscale PNG as raw bytes
+  async greyPlate({ png }) {
+    const { data, info } = await sharp(buffer(png)).extractChannel(0).raw().toBuffer({ resolveWithObject: true })
+    return { data, width: info.width, height: info.height }
+  },
+
+  // One ink of a CMYK JPEG as a PNG in coverage greys (white is no ink)
+  async logoPlate({ cmyk, ink }) {
+    const { data, info } = await sharp(buffer(cmyk))
+      .pipelineColourspace('cmyk')
+      .toColourspace('cmyk')
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+    const plate = Buffer.alloc(info.width * info.height)
+    for (let i = 0; i < plate.length; i++) {
+      plate[i] = 255 - data[i * INKS + ink]
+    }
+    return sharp(plate, { raw: { width: info.width, height: info.height, channels: 1 } }).png().toBuffer()
+  },
+
+  // A logo as a PNG (SVGs drawn maxPixels on their long side) and as a CMYK
+  // JPEG flattened onto the background
+  async logoImages({ body, svg, maxPixels, background }) {
+    const source = buffer(body)
+    const { width = 1, height = 1 } = await sharp(source).metadata()
+    const input = svg ? sharp(source, { density: (72 * maxPixels) / Math.max(width, height) }) : sharp(source)
+    const png = await input.png().toBuffer()
+    const cmyk = await sharp(png).flatten({ background }).toColourspace('cmyk').jpeg({ quality: 95 }).toBuffer()
+    return { png, cmyk, width, height }
+  },
+}
+
+parentPort.on('message', async (job) => {
+  try {
+    parentPort.postMessage({ result: await ops[job.op](job) })
+  } catch (error) {
+    parentPort.postMessage({ error: error instanceof Error ? error.message : String(error) })
+  }
+})
+`
+
+interface RenderTask {
+  job: RenderJob
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer?: ReturnType<typeof setTimeout>
+}
+
+type WorkerReply = { result: unknown; error?: undefined } | { result?: undefined; error: string }
+
+// Buffers come back from a worker as plain Uint8Arrays
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+type Env = Record<string, string | undefined>
+
+function envInteger(value: string | undefined, fallback: number, min: number): number {
+  const configured = Number(value)
+  return value && Number.isInteger(configured) && configured >= min ? configured : fallback
+}
+
+export function renderPoolOptionsFromEnv(env: Env = process.env): RenderPoolOptions {
+  return {
+    size: envInteger(env.RENDER_POOL_SIZE, Math.max(1, availableParallelism() - 1), 1),
+    maxQueue: envInteger(env.RENDER_QUEUE_LIMIT, DEFAULT_MAX_QUEUE, 0),
+    timeoutMs: envInteger(env.RENDER_TIMEOUT_MS, DEFAULT_TIMEOUT_MS, 1),
+  }
+}
+
+export function createRenderPool(options: RenderPoolOptions): RenderPool {
+  const live = new Set<Worker>()
+  const idle: Worker[] = []
+  const running = new Map<Worker, RenderTask>()
+  const queue: RenderTask[] = []
+  const counts = { completed: 0, failed: 0, timedOut: 0, rejected: 0 }
+  let closed = false
+
+  // Forget a worker that stopped or was stopped, failing its render
+  function discard(worker: Worker, error: Error): void {
+    if (!live.delete(worker)) return
+    const index = idle.indexOf(worker)
+    if (index >= 0) idle.splice(index, 1)
+
+    const task = running.get(worker)
+    if (task) {
+      running.delete(worker)
+      clearTimeout(task.timer)
+      counts.failed++
+      task.reject(error)
+    }
+    dispatch()
+  }
+
+  function spawn(): Worker {
+    const worker = new Worker(WORKER_SOURCE, { eval: true })
+    live.add(worker)
+
+    worker.on('message', (reply: WorkerReply) => {
+      const task = running.get(worker)
+      if (!task) return
+      running.delete(worker)
+      clearTimeout(task.timer)
+
+      if (reply.error === undefined) {
+        counts.completed++
+        task.resolve(reply.result)
+      } else {
+        counts.failed++
+        task.reject(new Error(reply.error))
+      }
+
+      worker.unref()
+      idle.push(worker)
+      dispatch()
+    })
+    worker.on('error', (error) => discard(worker, error))
+    worker.on('exit', (code) => discard(worker, new Error(`Render worker stopped (exit code ${code})`)))
+
+    return worker
+  }
+
+  function start(worker: Worker, task: RenderTask): void {
+    running.set(worker, task)
+    // Keep the process alive while a render is under way
+    worker.ref()
+    task.timer = setTimeout(() => {
+      running.delete(worker)
+      counts.timedOut++
+      task.reject(new RenderPoolError(`Render timed out after ${options.timeoutMs}ms`, 504))
+      discard(worker, new Error('Render timed out'))
+      void worker.terminate()
+    }, options.timeoutMs)
+    worker.postMessage(task.job)
+  }
+
+  function dispatch(): void {
+    while (!closed && queue.length > 0 && (idle.length > 0 || live.size < options.size)) {
+      start(idle.pop() ?? spawn(), queue.shift()!)
+    }
+  }
+
+  function run(job: RenderJob): Promise<unknown> {
+    return new Promise<unknown>((resolve, reject) => {
+      if (closed) {
+        reject(new RenderPoolError('Render pool is closed'))
+        return
+      }
+
+      queue.push({ job, resolve, reject })
+      dispatch()
+      if (queue.length > options.maxQueue) {
+        queue.pop()
+        counts.rejected++
+        reject(new RenderPoolError('Too many renders queued; try again shortly'))
+      }
+    })
+  }
+
+  return {
+    size: options.size,
+    run,
+
+    async rasterise(svg, density) {
+      return toBuffer((await run({ op: 'rasterise', svg, density })) as Uint8Array)
+    },
+
+    stats() {
+      return {
+        size: options.size,
+        workers: live.size,
+        busy: running.size,
+        queued: queue.length,
+        maxQueue: options.maxQueue,
+        ...counts,
+      }
+    },
+
+    async close() {
+      closed = true
+      for (const task of queue.splice(0)) {
+        task.reject(new RenderPoolError('Render pool is closed'))
+      }
+      await Promise.all([...live].map((worker) => worker.terminate()))
+    },
+  }
+}
+
+let pool: RenderPool | null = null
+
+export function getRenderPool(): RenderPool {
+  if (!pool) {
+    pool = createRenderPool(renderPoolOptionsFromEnv())
+  }
+  return pool
+}
+
+/**
+ * Rasterise an SVG to a PNG at density DPI on the shared pool
+ */
+export function rasterise(svg: string, density: number): Promise<Buffer> {
+  return getRenderPool().rasterise(svg, density)
+}
+
+/**
+ * Split the first channel of a greyscale PNG out as raw bytes, for a TIFF
+ * plate
+ */
+export async function greyPlate(png: Buffer): Promise<RawPlate> {
+  const plate = (await getRenderPool().run({ op: 'greyPlate', png })) as { data: Uint8Array; width: number; height: number }
+  return { ...plate, data: toBuffer(plate.data) }
+}
+
+/**
+ * One ink (0-3) of a CMYK JPEG as a PNG plate in coverage greys
+ */
+export async function logoPlate(cmyk: Buffer, ink: number): Promise<Buffer> {
+  return toBuffer((await getRenderPool().run({ op: 'logoPlate', cmyk, ink })) as Uint8Array)
+}
+
+/**
+ * A logo file as a PNG (SVGs drawn maxPixels on their long side) and a CMYK
+ * JPEG flattened onto the given background, with its size in pixels
+ */
+export async function logoImages(
+  body: Buffer,
+  options: { svg: boolean; maxPixels: number; background: string }
+): Promise<LogoImages> {
+  const images = (await getRenderPool().run({ op: 'logoImages', body, ...options })) as {
+    png: Uint8Array
+    cmyk: Uint8Array
+    width: number
+    height: number
+  }
+  return { ...images, png: toBuffer(images.png), cmyk: toBuffer(images.cmyk) }
+}
+
+/**
+ * Render a list a pool's worth at a time: enough to keep every worker busy
+ * without queueing (or holding the SVGs of) the whole list at once.
+ * Results keep the list's order. If a render throws, no more are started,
+ * and the first error is rethrown once the ones under way have finished, so
+ * callers can clean up after everything that was done.
+ */
+export async function renderEach<T, R>(items: T[], render: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  let failed = false
+
+  async function lane(): Promise<void> {
+    while (!failed && next < items.length) {
+      const index = next++
+      try {
+        results[index] = await render(items[index])
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  const lanes = await Promise.allSettled(
+    Array.from({ length: Math.min(items.length, getRenderPool().size) }, lane)
+  )
+  const rejected = lanes.find((settled) => settled.status === 'rejected')
+  if (rejected) {
+    throw rejected.reason
+  }
+  return results
+}
+
+export function renderPoolStats(): RenderPoolStats {
+  return getRenderPool().stats()
+}
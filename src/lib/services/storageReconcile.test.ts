@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { classifyImageUrl, findOrphans, ORPHAN_GRACE_MS } from './storageReconcile'
+
+describe('storage reconcile', () => {
+  describe('classifyImageUrl', () => {
+    const key = 'books/b1/ABC123.png'
+    const expectedUrl = '/api/images/books/b1/ABC123.png'
+    const stored = new Set([key])
+
+    it('flags inline data URLs', () => {
+      expect(classifyImageUrl('data:image/png;base64,iVBORw0KGgo=', expectedUrl, stored, key)).toBe('inline')
+    })
+
+    it('accepts images in the configured storage, ignoring the version parameter', () => {
+      expect(classifyImageUrl(`${expectedUrl}?v=3f2a9c1b7d4e`, expectedUrl, stored, key)).toBeNull()
+      expect(classifyImageUrl(expectedUrl, expectedUrl, stored, key)).toBeNull()
+    })
+
+    it('flags images whose object is gone', () => {
+      expect(classifyImageUrl(expectedUrl, expectedUrl, new Set(), key)).toBe('missing')
+    })
+
+    it('flags images stored in another backend', () => {
+      expect(
+        classifyImageUrl('https://storage.googleapis.com/old-bucket/books/b1/ABC123.png', expectedUrl, stored, key)
+      ).toBe('foreign')
+    })
+  })
+
+  describe('findOrphans', () => {
+    const now = Date.parse('2026-01-01T12:00:00Z')
+    const old = new Date(now - ORPHAN_GRACE_MS - 1000)
+    const fresh = new Date(now - 1000)
+
+    it('returns unreferenced objects', () => {
+      const objects = [
+        { key: 'books/b1/A.png', size: 1, updatedAt: old },
+        { key: 'books/b1/B.png', size: 1, updatedAt: old },
+      ]
+
+      const { orphans } = findOrphans(objects, new Set(['books/b1/A.png']), now)
+      expect(orphans.map((o) => o.key)).toEqual(['books/b1/B.png'])
+    })
+
+    it('holds back objects too new to be safely deleted', () => {
+      const objects = [
+        { key: 'books/b1/A.png', size: 1, updatedAt: fresh },
+        { key: 'books/b1/B.png', size: 1, updatedAt: null },
+      ]
+
+      const { orphans, recent } = findOrphans(objects, new Set(), now)
+      expect(orphans.map((o) => o.key)).toEqual(['books/b1/B.png'])
+      expect(recent.map((o) => o.key)).toEqual(['books/b1/A.png'])
+    })
+  })
+})
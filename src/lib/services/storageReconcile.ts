@@ -0,0 +1,271 @@
+import prisma from '../db/prisma'
+import {
+  getStorage,
+  bookImagePrefix,
+  waveCodeImageKey,
+  parseWaveCodeImageKey,
+  storeWaveCodeImage,
+  type StorageDriver,
+  type StorageObjectInfo,
+} from '../storage'
+import { renderPageImage } from './renderPipeline'
+
+/**
+ * Storage reconcile
+ *
+ * Brings page images and the storage backend back in line:
+ * - pages whose image is inline (a data URL), missing from storage, or stored
+ *   somewhere other than the configured backend get their image moved (or
+ *   re-rendered) into the backend;
+ * - objects under books/{id}/ that no page references are deleted.
+ * Run it as a dry run first to see what would change.
+ */
+
+export type ImageIssue = 'inline' | 'missing' | 'foreign'
+
+export interface PageImageIssue {
+  pageId: string
+  bookId: string
+  pageNumber: number
+  code: string
+  issue: ImageIssue
+  imageUrl: string  // Truncated for inline images
+}
+
+export interface ReconcileError {
+  target: string  // Page id or object key
+  error: string
+}
+
+export interface StorageReconcileReport {
+  dryRun: boolean
+  driver: StorageDriver['name']
+  scannedPages: number
+  issueCounts: Record<ImageIssue, number>
+  pages: PageImageIssue[]
+  orphans: StorageObjectInfo[]
+  recentObjects: number  // Unreferenced but too new to delete (possibly mid-generation)
+  fixedPages: number
+  deletedObjects: number
+  errors: ReconcileError[]
+}
+
+export interface StorageReconcileOptions {
+  dryRun?: boolean
+  bookId?: string
+  onProgress?: (done: number, total: number) => Promise<void>
+}
+
+const BATCH_SIZE = 500
+
+// Generation stores images before committing their pages, so young
+// unreferenced objects may be about to be referenced
+export const ORPHAN_GRACE_MS = 60 * 60 * 1000
+
+function stripQuery(url: string): string {
+  const index = url.indexOf('?')
+  return index === -1 ? url : url.slice(0, index)
+}
+
+/**
+ * What's wrong with a page's image URL, or null if it's fine
+ */
+export function classifyImageUrl(
+  imageUrl: string,
+  expectedUrl: string,
+  storedKeys: Set<string>,
+  key: string
+): ImageIssue | null {
+  if (imageUrl.startsWith('data:')) {
+    return 'inline'
+  }
+  if (stripQuery(imageUrl) !== expectedUrl) {
+    return 'foreign'
+  }
+  return storedKeys.has(key) ? null : 'missing'
+}
+
+/**
+ * Unreferenced objects, split into deletable orphans and ones too new to touch
+ */
+export function findOrphans(
+  objects: StorageObjectInfo[],
+  referencedKeys: Set<string>,
+  now: number = Date.now()
+): { orphans: StorageObjectInfo[]; recent: StorageObjectInfo[] } {
+  const unreferenced = objects.filter((object) => !referencedKeys.has(object.key))
+  const isRecent = (object: StorageObjectInfo) =>
+    !!object.updatedAt && now - object.updatedAt.getTime() < ORPHAN_GRACE_MS
+
+  return {
+    orphans: unreferenced.filter((object) => !isRecent(object)),
+    recent: unreferenced.filter(isRecent),
+  }
+}
+
+function decodeDataUrl(dataUrl: string): Buffer | null {
+  const match = /^data:[^;,]*;base64,([A-Za-z0-9+/=]*)$/.exec(dataUrl)
+  return match ? Buffer.from(match[1], 'base64') : null
+}
+
+async function downloadImage(url: string): Promise<Buffer | null> {
+  if (!/^https?:\/\//.test(url)) {
+    return null
+  }
+  try {
+    const response = await fetch(url)
+    return response.ok ? Buffer.from(await response.arrayBuffer()) : null
+  } catch {
+    return null
+  }
+}
+
+async function fixPage(issue: PageImageIssue): Promise<boolean> {
+  const page = await prisma.page.findUnique({
+    where: { id: issue.pageId },
+    select: {
+      id: true,
+      bookId: true,
+      code: true,
+      imageUrl: true,
+      symbologyVersion: true,
+      book: { select: { themeConfig: true } },
+    },
+  })
+  // Gone or changed since the scan
+  if (!page || page.code !== issue.code) {
+    return false
+  }
+
+  const image =
+    (issue.issue === 'inline' ? decodeDataUrl(page.imageUrl) : null) ??
+    (issue.issue === 'foreign' ? await downloadImage(page.imageUrl) : null) ??
+    (await renderPageImage(page, page.book))
+
+  const imageUrl = await storeWaveCodeImage(page.bookId, page.code, image)
+
+  // Only replace the URL we looked at, in case the page was regenerated meanwhile
+  const { count } = await prisma.page.updateMany({
+    where: { id: page.id, code: page.code, imageUrl: page.imageUrl },
+    data: { imageUrl },
+  })
+  return count > 0
+}
+
+async function isReferenced(key: string): Promise<boolean> {
+  const parsed = parseWaveCodeImageKey(key)
+  if (!parsed) {
+    return false
+  }
+  const page = await prisma.page.findFirst({
+    where: { bookId: parsed.bookId, code: parsed.code },
+    select: { id: true },
+  })
+  return !!page
+}
+
+/**
+ * Report (and unless dryRun, fix) image/storage mismatches for one book or all
+ */
+export async function reconcileStorage(
+  options: StorageReconcileOptions = {}
+): Promise<StorageReconcileReport> {
+  const dryRun = options.dryRun ?? true
+  const driver = getStorage()
+
+  const objects = await driver.list(options.bookId ? bookImagePrefix(options.bookId) : 'books/')
+  const storedKeys = new Set(objects.map((object) => object.key))
+  const referencedKeys = new Set<string>()
+  const pages: PageImageIssue[] = []
+
+  // Walk pages in id order, a batch at a time (inline images make rows large)
+  let scannedPages = 0
+  let cursor: string | undefined
+  for (;;) {
+    const batch = await prisma.page.findMany({
+      where: options.bookId ? { bookId: options.bookId } : undefined,
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      orderBy: { id: 'asc' },
+      select: { id: true, bookId: true, pageNumber: true, code: true, imageUrl: true },
+    })
+
+    for (const page of batch) {
+      const key = waveCodeImageKey(page.bookId, page.code)
+      referencedKeys.add(key)
+
+      const issue = classifyImageUrl(page.imageUrl, driver.url(key), storedKeys, key)
+      if (issue) {
+        pages.push({
+          pageId: page.id,
+          bookId: page.bookId,
+          pageNumber: page.pageNumber,
+          code: page.code,
+          issue,
+          imageUrl: issue === 'inline' ? `${page.imageUrl.slice(0, 32)}...` : page.imageUrl,
+        })
+      }
+    }
+
+    scannedPages += batch.length
+    if (batch.length < BATCH_SIZE) break
+    cursor = batch[batch.length - 1].id
+  }
+
+  const { orphans, recent } = findOrphans(objects, referencedKeys)
+
+  const report: StorageReconcileReport = {
+    dryRun,
+    driver: driver.name,
+    scannedPages,
+    issueCounts: {
+      inline: pages.filter((p) => p.issue === 'inline').length,
+      missing: pages.filter((p) => p.issue === 'missing').length,
+      foreign: pages.filter((p) => p.issue === 'foreign').length,
+    },
+    pages,
+    orphans,
+    recentObjects: recent.length,
+    fixedPages: 0,
+    deletedObjects: 0,
+    errors: [],
+  }
+
+  if (dryRun) {
+    return report
+  }
+
+  const total = pages.length + orphans.length
+  let done = 0
+  await options.onProgress?.(done, total)
+
+  for (const issue of pages) {
+    try {
+      if (await fixPage(issue)) report.fixedPages++
+    } catch (error) {
+      report.errors.push({
+        target: issue.pageId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+    await options.onProgress?.(++done, total)
+  }
+
+  for (const orphan of orphans) {
+    try {
+      // A page may have claimed the code since the scan
+      if (!(await isReferenced(orphan.key))) {
+        await driver.delete(orphan.key)
+        report.deletedObjects++
+      }
+    } catch (error) {
+      report.errors.push({
+        target: orphan.key,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+    await options.onProgress?.(++done, total)
+  }
+
+  return report
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import {
+  encodeV2Levels,
+  decodeV2Levels,
+  levelToAmplitude,
+  parseSymbologyVersion,
+  v2BarCount,
+  V2_START_GUARD,
+  V2_STOP_GUARD,
+} from './symbology'
+
+describe('symbology', () => {
+  const values = [0, 1, 2, 27, 28, 29] // ABC123
+
+  describe('encodeV2Levels', () => {
+    it('wraps data and parity bars in the guard bars', () => {
+      const levels = encodeV2Levels(values)
+      expect(levels).toHaveLength(v2BarCount(values.length))
+      expect(levels.slice(0, 2)).toEqual(V2_START_GUARD)
+      expect(levels.slice(-2)).toEqual(V2_STOP_GUARD)
+    })
+
+    it('uses 3-bit levels', () => {
+      encodeV2Levels(values).forEach((level) => {
+        expect(level).toBeGreaterThanOrEqual(0)
+        expect(level).toBeLessThanOrEqual(7)
+      })
+    })
+  })
+
+  describe('decodeV2Levels', () => {
+    it('round-trips character values', () => {
+      const result = decodeV2Levels(encodeV2Levels(values))
+      expect(result).toEqual({ values, correctedSymbols: 0 })
+    })
+
+    it('repairs a smudged bar', () => {
+      const levels = encodeV2Levels(values)
+      levels[5] = (levels[5] + 3) % 8
+      const result = decodeV2Levels(levels)
+      expect(result?.values).toEqual(values)
+      expect(result?.correctedSymbols).toBe(1)
+    })
+
+    it('repairs up to four doubtful bars in different characters', () => {
+      const levels = encodeV2Levels(values)
+      const doubtful = [3, 6, 9, 12]
+      doubtful.forEach((bar) => {
+        levels[bar] = (levels[bar] + 1) % 8
+      })
+      expect(decodeV2Levels(levels, doubtful)?.values).toEqual(values)
+    })
+
+    it('rejects sequences without guard bars', () => {
+      const levels = encodeV2Levels(values)
+      expect(decodeV2Levels([...levels].reverse())).toBeNull()
+    })
+  })
+
+  describe('levelToAmplitude', () => {
+    it('maps levels onto 0.2-1', () => {
+      expect(levelToAmplitude(0)).toBeCloseTo(0.2)
+      expect(levelToAmplitude(7)).toBeCloseTo(1)
+    })
+  })
+
+  describe('parseSymbologyVersion', () => {
+    it('falls back to v1 for unknown values', () => {
+      expect(parseSymbologyVersion('v2')).toBe('v2')
+      expect(parseSymbologyVersion('v9')).toBe('v1')
+      expect(parseSymbologyVersion(null)).toBe('v1')
+    })
+  })
+})
@@ -0,0 +1,135 @@
+import { rsEncode, rsDecode } from '../utils/reedSolomon'
+
+/**
+ * Wave code symbologies
+ *
+ * v1: 4 bars per character, each a slightly different linear transform of
+ *     the character value. No markers, no redundancy. Kept so books printed
+ *     before v2 stay readable.
+ * v2: discrete bar heights (8 levels, 3 bits per bar), one character per
+ *     pair of bars, Reed-Solomon parity over GF(64) and fixed guard bars:
+ *
+ *     [7, 0] data bars... parity bars... [4, 0]
+ *
+ *     The start guard is the tallest possible bar followed by the shortest,
+ *     the stop guard a mid-height bar followed by the shortest. Together they
+ *     give the decoder the height scale and tell a mirrored image apart.
+ */
+
+export type SymbologyVersion = 'v1' | 'v2'
+
+export const SYMBOLOGY_VERSIONS: SymbologyVersion[] = ['v1', 'v2']
+
+// Version used for newly allocated codes
+export const CURRENT_SYMBOLOGY_VERSION: SymbologyVersion = 'v2'
+
+// Version assumed for pages created before versions were recorded
+export const LEGACY_SYMBOLOGY_VERSION: SymbologyVersion = 'v1'
+
+export const V2_LEVELS = 8
+export const V2_PARITY_SYMBOLS = 4
+export const V2_START_GUARD = [7, 0]
+export const V2_STOP_GUARD = [4, 0]
+
+const BITS_PER_LEVEL = 3
+const BARS_PER_SYMBOL = 2
+const MIN_AMPLITUDE = 0.2
+
+export function isSymbologyVersion(value: unknown): value is SymbologyVersion {
+  return typeof value === 'string' && (SYMBOLOGY_VERSIONS as string[]).includes(value)
+}
+
+/**
+ * Read a stored version, treating unknown values as legacy
+ */
+export function parseSymbologyVersion(value: string | null | undefined): SymbologyVersion {
+  return isSymbologyVersion(value) ? value : LEGACY_SYMBOLOGY_VERSION
+}
+
+/**
+ * Normalised bar height (0-1) for a v2 level
+ */
+export function levelToAmplitude(level: number): number {
+  return MIN_AMPLITUDE + (level * (1 - MIN_AMPLITUDE)) / (V2_LEVELS - 1)
+}
+
+/**
+ * Number of bars a v2 code of the given length occupies
+ */
+export function v2BarCount(codeLength: number): number {
+  return (
+    V2_START_GUARD.length +
+    (codeLength + V2_PARITY_SYMBOLS) * BARS_PER_SYMBOL +
+    V2_STOP_GUARD.length
+  )
+}
+
+/**
+ * Encode character values (0-63) as the full v2 bar level sequence
+ */
+export function encodeV2Levels(values: number[]): number[] {
+  const symbols = [...values, ...rsEncode(values, V2_PARITY_SYMBOLS)]
+  const dataLevels = symbols.flatMap((symbol) => [
+    symbol >> BITS_PER_LEVEL,
+    symbol & (V2_LEVELS - 1),
+  ])
+
+  return [...V2_START_GUARD, ...dataLevels, ...V2_STOP_GUARD]
+}
+
+export interface V2DecodeResult {
+  values: number[]          // Character values, parity stripped
+  correctedSymbols: number  // Characters/parity repaired by Reed-Solomon
+}
+
+/**
+ * Decode a v2 bar level sequence (guards included, reading order)
+ * Bars listed in uncertainBars are treated as erasures when possible.
+ * Returns null if the guards don't match or the damage is beyond repair.
+ */
+export function decodeV2Levels(
+  levels: number[],
+  uncertainBars: number[] = []
+): V2DecodeResult | null {
+  const guardLength = V2_START_GUARD.length + V2_STOP_GUARD.length
+  const dataBars = levels.length - guardLength
+  if (dataBars <= V2_PARITY_SYMBOLS * BARS_PER_SYMBOL || dataBars % BARS_PER_SYMBOL !== 0) {
+    return null
+  }
+
+  const start = levels.slice(0, V2_START_GUARD.length)
+  const stop = levels.slice(levels.length - V2_STOP_GUARD.length)
+  if (
+    start.some((level, i) => level !== V2_START_GUARD[i]) ||
+    stop.some((level, i) => level !== V2_STOP_GUARD[i])
+  ) {
+    return null
+  }
+
+  const symbols: number[] = []
+  for (let i = V2_START_GUARD.length; i < levels.length - V2_STOP_GUARD.length; i += BARS_PER_SYMBOL) {
+    symbols.push((levels[i] << BITS_PER_LEVEL) | levels[i + 1])
+  }
+
+  const erasures = Array.from(
+    new Set(
+      uncertainBars
+        .filter((bar) => bar >= V2_START_GUARD.length && bar < levels.length - V2_STOP_GUARD.length)
+        .map((bar) => Math.floor((bar - V2_START_GUARD.length) / BARS_PER_SYMBOL))
+    )
+  )
+
+  // Too many doubtful bars to use as erasures: fall back to plain error correction
+  const decoded =
+    (erasures.length <= V2_PARITY_SYMBOLS && rsDecode(symbols, V2_PARITY_SYMBOLS, erasures)) ||
+    rsDecode(symbols, V2_PARITY_SYMBOLS)
+
+  if (!decoded) {
+    return null
+  }
+
+  return {
+    values: decoded.codeword.slice(0, symbols.length - V2_PARITY_SYMBOLS),
+    correctedSymbols: decoded.corrected.length,
+  }
+}
@@ -0,0 +1,120 @@
+import prisma from '../db/prisma'
+import { renderPageImage } from './renderPipeline'
+import { renderEach } from './renderPool'
+import { storeWaveCodeImage } from '../storage'
+
+/**
+ * Re-render a book's page images with its current theme
+ * Codes and symbology versions are kept; only the images change.
+ */
+
+export class ThemeRegenerationError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'ThemeRegenerationError'
+    this.status = status
+  }
+}
+
+export interface ThemeRegenerationOptions {
+  pageIds?: string[]  // Only these pages; all pages when empty
+  // Called with each page's outcome, before the progress report
+  onPage?: (result: PageRegenerationResult & { pageNumber: number; code: string }) => Promise<void>
+  // Called after each page; may throw to stop early
+  onProgress?: (done: number, total: number) => Promise<void>
+}
+
+export interface PageRegenerationResult {
+  pageId: string
+  success: boolean
+  error?: string
+}
+
+export interface ThemeRegenerationResult {
+  success: boolean
+  message: string
+  regenerated: number
+  failed: number
+  results: PageRegenerationResult[]
+}
+
+export async function regenerateBookWithTheme(
+  bookId: string,
+  options: ThemeRegenerationOptions = {}
+): Promise<ThemeRegenerationResult> {
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    select: {
+      id: true,
+      themeConfig: true,
+      pages: {
+        select: {
+          id: true,
+          code: true,
+          pageNumber: true,
+          symbologyVersion: true,
+        },
+        orderBy: { pageNumber: 'asc' },
+      },
+    },
+  })
+
+  if (!book) {
+    throw new ThemeRegenerationError('Book not found', 404)
+  }
+
+  const pageIds = options.pageIds ?? []
+  const pages = pageIds.length > 0
+    ? book.pages.filter((p: { id: string }) => pageIds.includes(p.id))
+    : book.pages
+
+  if (pages.length === 0) {
+    return {
+      success: true,
+      message: 'No pages to regenerate',
+      regenerated: 0,
+      failed: 0,
+      results: [],
+    }
+  }
+
+  let done = 0
+  await options.onProgress?.(0, pages.length)
+
+  // A pool's worth of pages at a time; results keep the pages' order
+  const results = await renderEach(pages, async (page) => {
+    let result: PageRegenerationResult
+    try {
+      // Re-render with the theme, keeping the symbology already printed
+      const imageBuffer = await renderPageImage(page, book)
+
+      const imageUrl = await storeWaveCodeImage(bookId, page.code, imageBuffer)
+
+      await prisma.page.update({
+        where: { id: page.id },
+        data: { imageUrl },
+      })
+
+      result = { pageId: page.id, success: true }
+    } catch (error) {
+      console.error(`Error regenerating page ${page.id}:`, error)
+      result = { pageId: page.id, success: false, error: String(error) }
+    }
+    await options.onPage?.({ ...result, pageNumber: page.pageNumber, code: page.code })
+    await options.onProgress?.(++done, pages.length)
+    return result
+  })
+
+  const regenerated = results.filter((r) => r.success).length
+  const failed = results.length - regenerated
+
+  return {
+    success: failed === 0,
+    message: `Regenerated ${regenerated} of ${pages.length} pages`,
+    regenerated,
+    failed,
+    results,
+  }
+}
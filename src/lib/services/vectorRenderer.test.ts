@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_THEME, PRESET_THEMES, mergeWithDefault, type ThemeConfig } from '../types/theme'
+import { codeToWavePattern } from './codeGenerator'
+import { layoutWaveCode, renderWaveCodeSvg, renderWaveCodePdf, hexToCmyk, slotInk } from './vectorRenderer'
+import type { LogoImage } from './bookAssets'
+
+const CODE = 'K7Q2ZBF'
+const MM_TO_PT = 72 / 25.4
+
+function withPrint(
+  print: ThemeConfig['colorScheme']['print'],
+  type: ThemeConfig['colorScheme']['type'] = 'solid'
+): ThemeConfig {
+  return {
+    ...DEFAULT_THEME,
+    colorScheme: { ...DEFAULT_THEME.colorScheme, type, secondary: '#D4AF37', print },
+  }
+}
+
+function pdfBox(pdf: Buffer, name: string): number[] | null {
+  const match = new RegExp(`/${name} \\[([^\\]]+)\\]`).exec(pdf.toString('latin1'))
+  return match ? match[1].trim().split(/\s+/).map(Number) : null
+}
+
+describe('vectorRenderer', () => {
+  describe('layoutWaveCode', () => {
+    it('uses the theme size in mm exactly', () => {
+      const theme = mergeWithDefault({ dimensions: { width: 15.3, height: 5.1, dpi: 300 } })
+      const layout = layoutWaveCode(CODE, theme, 'v2')
+
+      expect(layout.width).toBe(15.3)
+      expect(layout.height).toBe(5.1)
+    })
+
+    it('lays out one bar per pattern value, centred and inside the artwork', () => {
+      const layout = layoutWaveCode(CODE, DEFAULT_THEME, 'v2')
+      const bars = layout.bars
+
+      expect(bars).toHaveLength(codeToWavePattern(CODE, 'v2').length)
+      const left = bars[0].x
+      const right = layout.width - (bars[bars.length - 1].x + bars[bars.length - 1].width)
+      expect(left).toBeCloseTo(right, 9)
+      for (const bar of bars) {
+        expect(bar.y).toBeGreaterThanOrEqual(0)
+        expect(bar.y + bar.height).toBeLessThanOrEqual(layout.height)
+      }
+    })
+
+    it('matches the 300 DPI reference bar size (4px bar, 2px gap)', () => {
+      const { bars } = layoutWaveCode('AB12', mergeWithDefault({ dimensions: { width: 40, height: 5, dpi: 300 } }))
+
+      expect(bars[0].width).toBeCloseTo((4 * 25.4) / 300, 9)
+      expect(bars[1].x - bars[0].x).toBeCloseTo((6 * 25.4) / 300, 9)
+    })
+
+    it('shrinks bars to fit narrow artwork', () => {
+      const theme = mergeWithDefault({ dimensions: { width: 5, height: 5, dpi: 300 } })
+      const { bars } = layoutWaveCode(CODE, theme, 'v2')
+      const last = bars[bars.length - 1]
+
+      expect(bars[0].x).toBeCloseTo(0, 9)
+      expect(last.x + last.width).toBeCloseTo(5, 9)
+    })
+  })
+
+  describe('renderWaveCodeSvg', () => {
+    it('is sized in mm with a mm viewBox', () => {
+      const svg = renderWaveCodeSvg(CODE, mergeWithDefault({ dimensions: { width: 15.3, height: 5.1, dpi: 600 } }))
+
+      expect(svg).toContain('width="15.3mm" height="5.1mm" viewBox="0 0 15.3 5.1"')
+    })
+
+    it('draws the theme', () => {
+      const svg = renderWaveCodeSvg(CODE, mergeWithDefault(PRESET_THEMES.midnightPurple), 'v2')
+
+      expect(svg).toContain('<linearGradient id="barGradient"')
+      expect(svg).toContain('<feDropShadow')
+      expect(svg).toContain('<circle')
+      expect(svg).toContain('opacity="0.9"')
+      expect(svg).toContain(`fill="${PRESET_THEMES.midnightPurple.colorScheme?.background}"`)
+    })
+  })
+
+  describe('captions', () => {
+    const captioned: ThemeConfig = {
+      ...DEFAULT_THEME,
+      dimensions: { ...DEFAULT_THEME.dimensions, width: 30, height: 12 },
+      caption: { ...DEFAULT_THEME.caption, position: 'below', color: '#123456', prefix: 'Listen:' },
+    }
+
+    it('keeps the bars clear of the caption', () => {
+      const layout = layoutWaveCode(CODE, captioned, 'v2')
+      const lowest = Math.max(...layout.bars.map((bar) => bar.y + bar.height))
+
+      expect(layout.caption).toMatch(/^M/)
+      expect(lowest).toBeLessThan(12 * 0.75)
+    })
+
+    it('draws the caption outlines in the SVG', () => {
+      const svg = renderWaveCodeSvg(CODE, captioned, 'v2')
+
+      expect(svg).toContain('fill="#123456"')
+      expect(svg).not.toContain('<text')
+    })
+  })
+
+  describe('logos', () => {
+    const logo: LogoImage = {
+      href: 'data:image/png;base64,AAAA',
+      png: Buffer.alloc(0),
+      cmyk: Buffer.alloc(0),
+      aspectRatio: 1,
+    }
+    const withLogo = (position: 'start' | 'end'): ThemeConfig => ({
+      ...DEFAULT_THEME,
+      dimensions: { ...DEFAULT_THEME.dimensions, width: 25 },
+      logo: { assetId: 'asset-1', position, size: 80, quietZone: 2 },
+    })
+
+    it('puts the logo at the chosen end, clear of the bars by its quiet zone', () => {
+      const start = layoutWaveCode(CODE, withLogo('start'), 'v2', logo)
+      const end = layoutWaveCode(CODE, withLogo('end'), 'v2', logo)
+
+      expect(start.logo!.x).toBe(0)
+      expect(start.bars[0].x - (start.logo!.x + start.logo!.width)).toBeGreaterThanOrEqual(2)
+      const last = end.bars[end.bars.length - 1]
+      expect(end.logo!.x + end.logo!.width).toBeCloseTo(25, 9)
+      expect(end.logo!.x - (last.x + last.width)).toBeGreaterThanOrEqual(2)
+    })
+
+    it('leaves no room for a logo whose image is missing', () => {
+      const layout = layoutWaveCode(CODE, withLogo('start'), 'v2')
+
+      expect(layout.logo).toBeNull()
+      expect(layout.bars).toEqual(layoutWaveCode(CODE, { ...withLogo('start'), logo: undefined }, 'v2').bars)
+    })
+
+    it('embeds the logo in the SVG', () => {
+      const svg = renderWaveCodeSvg(CODE, withLogo('start'), 'v2', logo)
+
+      expect(svg).toContain('href="data:image/png;base64,AAAA"')
+    })
+  })
+
+  describe('layouts', () => {
+    const withLayout = (mode: ThemeConfig['layout']['mode']): ThemeConfig => ({
+      ...DEFAULT_THEME,
+      dimensions: { ...DEFAULT_THEME.dimensions, width: 20, height: 20 },
+      layout: { ...DEFAULT_THEME.layout, mode },
+    })
+
+    it('stands mirrored bars on a shared baseline', () => {
+      const { bars } = layoutWaveCode(CODE, { ...DEFAULT_THEME, layout: { ...DEFAULT_THEME.layout, mode: 'mirrored' } }, 'v2')
+      const bottoms = new Set(bars.map((bar) => (bar.y + bar.height).toFixed(9)))
+
+      expect(bottoms.size).toBe(1)
+    })
+
+    it('turns the bars around the ring, in order', () => {
+      const { bars } = layoutWaveCode(CODE, withLayout('circular'), 'v2')
+      const angles = bars.map((bar) => bar.rotation!.angle)
+
+      expect(bars.every((bar) => bar.rotation!.x === 10 && bar.rotation!.y === 10)).toBe(true)
+      expect(angles).toEqual([...angles].sort((a, b) => a - b))
+      expect(angles[0]).toBeCloseTo(-angles[angles.length - 1], 9)
+    })
+
+    it('keeps the pattern in every mode', () => {
+      const heights = (mode: ThemeConfig['layout']['mode']) => {
+        const { bars } = layoutWaveCode(CODE, withLayout(mode), 'v2')
+        const tallest = Math.max(...bars.map((bar) => bar.height))
+        return bars.map((bar) => Math.round((bar.height / tallest) * 100))
+      }
+
+      for (const mode of ['mirrored', 'vertical', 'circular', 'arc'] as const) {
+        expect(heights(mode)).toEqual(heights('horizontal'))
+      }
+    })
+
+    it('writes each bar\'s rotation into the SVG', () => {
+      const svg = renderWaveCodeSvg(CODE, withLayout('vertical'), 'v2')
+
+      expect(svg).toContain('transform="rotate(90 ')
+    })
+  })
+
+  describe('renderWaveCodePdf', () => {
+    it('makes the page and trim box the theme size', async () => {
+      const pdf = await renderWaveCodePdf(CODE, DEFAULT_THEME, 'v2')
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+      const mediaBox = pdfBox(pdf, 'MediaBox')!
+      expect(mediaBox[2]).toBeCloseTo(15 * MM_TO_PT, 3)
+      expect(mediaBox[3]).toBeCloseTo(5 * MM_TO_PT, 3)
+      expect(pdfBox(pdf, 'TrimBox')).toEqual(mediaBox)
+      expect(pdf.toString('latin1')).not.toContain('GTS_PDFX')
+    })
+
+    it('renders the same bytes every time', async () => {
+      const theme = mergeWithDefault(PRESET_THEMES.oceanBlue)
+      const first = await renderWaveCodePdf(CODE, theme, 'v2')
+      const second = await renderWaveCodePdf(CODE, theme, 'v2')
+
+      expect(first.equals(second)).toBe(true)
+    })
+
+    it('declares PDF/X-1a with an output intent when asked', async () => {
+      const pdf = (await renderWaveCodePdf(CODE, DEFAULT_THEME, 'v2', { pdfx: true })).toString('latin1')
+
+      expect(pdf).toContain('(PDF/X-1a:2001)')
+      expect(pdf).toContain('/S /GTS_PDFX')
+      expect(pdf).toContain('(CGATS TR 001)')
+      expect(pdf).toContain('/False')
+    })
+
+    it('prints spot colours as separations with their CMYK alternate', async () => {
+      const theme = withPrint(
+        { primary: { spot: 'PANTONE 871 C', cmyk: [20, 30, 70, 15] }, secondary: { spot: 'gold' } },
+        'dual-tone'
+      )
+      const pdf = (await renderWaveCodePdf(CODE, theme, 'v2')).toString('latin1')
+
+      expect(pdf).toContain('/Separation /PANTONE#20871#20C /DeviceCMYK')
+      expect(pdf).toContain('/C1 [0.2 0.3 0.7 0.15]')
+      // Not mistaken for the CSS colour of the same name
+      expect(pdf).toContain('/Separation /gold /DeviceCMYK')
+    })
+
+    it('renders the same bytes every time with spot colours', async () => {
+      const theme = withPrint({ primary: { spot: 'Brand Blue' } })
+      const first = await renderWaveCodePdf(CODE, theme, 'v2', { pdfx: true })
+      const second = await renderWaveCodePdf(CODE, theme, 'v2', { pdfx: true })
+
+      expect(first.equals(second)).toBe(true)
+    })
+  })
+
+  describe('slotInk', () => {
+    it('prefers the theme\'s CMYK values', () => {
+      expect(slotInk(withPrint({ primary: { cmyk: [0, 0, 0, 90] } }), 'primary')).toEqual({ cmyk: [0, 0, 0, 90] })
+    })
+
+    it('converts the hex colour when there is no print colour', () => {
+      expect(slotInk(DEFAULT_THEME, 'background')).toEqual({ cmyk: [0, 0, 0, 0] })
+    })
+
+    it('gives a spot colour without CMYK the converted hex as its alternate', () => {
+      expect(slotInk(withPrint({ primary: { spot: 'Black 6 C' } }), 'primary')).toEqual({
+        cmyk: [0, 0, 0, 100],
+        spot: 'Black 6 C',
+      })
+    })
+
+    it('falls back to the primary colour for an unset secondary', () => {
+      expect(slotInk(DEFAULT_THEME, 'secondary')).toEqual(slotInk(DEFAULT_THEME, 'primary'))
+    })
+  })
+
+  describe('hexToCmyk', () => {
+    it('converts device colours', () => {
+      expect(hexToCmyk('#000000')).toEqual([0, 0, 0, 100])
+      expect(hexToCmyk('#FFFFFF')).toEqual([0, 0, 0, 0])
+      expect(hexToCmyk('#FF0000')).toEqual([0, 100, 100, 0])
+    })
+  })
+})
@@ -0,0 +1,547 @@
+import PDFDocument from 'pdfkit'
+import { codeToWavePattern } from './codeGenerator'
+import { SymbologyVersion, LEGACY_SYMBOLOGY_VERSION } from './symbology'
+import { ThemeConfig, CmykColor, ColorSlot, hexToRgb } from '../types/theme'
+import { layoutArtwork } from './captionLayout'
+import { barTrack, spreadBars, type Rotation } from './barLayout'
+import type { LogoImage } from './bookAssets'
+
+/**
+ * Vector wave code output (SVG and PDF)
+ *
+ * The PNG renderer lays bars out in whole pixels at the theme's DPI; here the
+ * same layout is worked out in millimetres, so the artwork is exactly
+ * ThemeConfig.dimensions in size and scales without loss. Bar sizes follow
+ * the PNG renderer's 300 DPI reference (4px bars, 2px gaps at the default
+ * thickness and spacing). PDFs print the theme's CMYK and spot colours
+ * (ColorScheme.print) where it has them. A logo is drawn as the uploaded
+ * SVG or PNG in SVG output and as an image in PDFs. Bars follow the theme's
+ * layout mode (see barTrack).
+ */
+
+export interface WaveCodeBar {
+  x: number       // All in mm from the top left corner
+  y: number
+  width: number
+  height: number
+  rotation?: Rotation  // Turned into place after drawing upright at x, y
+}
+
+export interface WaveCodeLayout {
+  width: number   // Artwork size in mm
+  height: number
+  bars: WaveCodeBar[]
+  caption: string | null  // Caption outlines as SVG path data, in mm
+  logo: (WaveCodeBar & { image: LogoImage }) | null
+}
+
+export interface PdfRenderOptions {
+  // PDF/X-1a:2001 output: CMYK only, no transparency, registered output intent
+  pdfx?: boolean
+}
+
+// One pixel of the PNG renderer's 300 DPI reference, in mm
+const REFERENCE_PX_MM = 25.4 / 300
+
+const PT_PER_MM = 72 / 25.4
+
+// Vector files carry no render time, so a page always renders to the same
+// bytes (as its PNG does)
+const VECTOR_CREATION_DATE = new Date('2024-01-01T00:00:00Z')
+
+// Printing condition PDF/X files declare (SWOP coated), by its registered name
+const PDFX_OUTPUT_CONDITION = 'CGATS TR 001'
+
+/**
+ * Bar, caption and logo geometry for a code, in mm. The logo is the theme's
+ * logo image (see loadLogo); without it no room is kept for one.
+ */
+export function layoutWaveCode(
+  code: string,
+  theme: ThemeConfig,
+  symbologyVersion: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION,
+  logo: LogoImage | null = null
+): WaveCodeLayout {
+  const { width, height } = theme.dimensions
+  const wavePattern = codeToWavePattern(code, symbologyVersion)
+
+  let barWidth = 4 * (theme.barStyle.thickness / 5) * REFERENCE_PX_MM
+  let barGap = 2 * (theme.barStyle.spacing / 3) * REFERENCE_PX_MM
+
+  const artwork = layoutArtwork(
+    code,
+    theme,
+    width,
+    height,
+    25.4 / 72,
+    false,
+    logo ? { aspectRatio: logo.aspectRatio, barPitch: barWidth + barGap } : null
+  )
+  const track = barTrack(theme, artwork, wavePattern.length)
+
+  // Longer codes get narrower bars and gaps (same ratio) instead of being
+  // cut off; around a ring, bars are spread to fill it
+  const needed = wavePattern.length * (barWidth + barGap) - barGap
+  if (track.spread) {
+    ({ barWidth, barGap } = spreadBars(wavePattern.length, track, barWidth, barGap))
+  } else if (needed > track.length) {
+    const scale = track.length / needed
+    barWidth *= scale
+    barGap *= scale
+  }
+
+  const startX = (track.length - (wavePattern.length * (barWidth + barGap) - barGap)) / 2
+  const minBarHeight = 4 * REFERENCE_PX_MM
+  const usableHeight = track.thickness - 8 * REFERENCE_PX_MM
+
+  return {
+    width,
+    height,
+    bars: wavePattern.map((amplitude, i) => {
+      const barHeight = Math.max(minBarHeight, amplitude * usableHeight)
+      return track.place({
+        x: startX + i * (barWidth + barGap),
+        y: track.baseline
+          ? track.thickness - 4 * REFERENCE_PX_MM - barHeight
+          : (track.thickness - barHeight) / 2,
+        width: barWidth,
+        height: barHeight,
+      })
+    }),
+    caption: artwork.caption?.path ?? null,
+    logo: logo && artwork.logo ? { ...artwork.logo, image: logo } : null,
+  }
+}
+
+// Trim float noise; 0.1µm is well below any print resolution
+function num(value: number): string {
+  return String(Math.round(value * 10000) / 10000)
+}
+
+function gradientVector(angle: number): { x1: number; y1: number; x2: number; y2: number } {
+  const rad = (angle * Math.PI) / 180
+  return {
+    x1: 50 - 50 * Math.cos(rad),
+    y1: 50 - 50 * Math.sin(rad),
+    x2: 50 + 50 * Math.cos(rad),
+    y2: 50 + 50 * Math.sin(rad),
+  }
+}
+
+// Circles stacked down a bar, as the PNG renderer draws them
+function barCircles(bar: WaveCodeBar): { cx: number; cy: number; r: number }[] {
+  const count = Math.max(1, Math.floor(bar.height / (bar.width + REFERENCE_PX_MM)))
+  const spacing = bar.height / count
+  return Array.from({ length: count }, (_, i) => ({
+    cx: bar.x + bar.width / 2,
+    cy: bar.y + spacing / 2 + i * spacing,
+    r: bar.width / 2,
+  }))
+}
+
+function barFill(theme: ThemeConfig, index: number): string {
+  const { colorScheme } = theme
+  if (colorScheme.type === 'dual-tone' && colorScheme.secondary) {
+    return index % 2 === 0 ? colorScheme.primary : colorScheme.secondary
+  }
+  if (colorScheme.type === 'gradient' && colorScheme.secondary) {
+    return 'url(#barGradient)'
+  }
+  return colorScheme.primary
+}
+
+function svgBar(bar: WaveCodeBar, theme: ThemeConfig, attributes: string): string {
+  const { shape, roundness = 0 } = theme.barStyle
+  const { x, y, width, height, rotation } = bar
+  const placed = rotation
+    ? `${attributes} transform="rotate(${num(rotation.angle)} ${num(rotation.x)} ${num(rotation.y)})"`
+    : attributes
+
+  switch (shape) {
+    case 'rounded': {
+      const r = Math.min(width / 2, (roundness / 100) * (width / 2))
+      return `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" rx="${num(r)}" ry="${num(r)}" ${placed}/>`
+    }
+    case 'circular':
+      return barCircles(bar)
+        .map(({ cx, cy, r }) => `<circle cx="${num(cx)}" cy="${num(cy)}" r="${num(r)}" ${placed}/>`)
+        .join('')
+    case 'triangle': {
+      const points = [[x + width / 2, y], [x + width, y + height], [x, y + height]]
+      return `<polygon points="${points.map((p) => p.map(num).join(',')).join(' ')}" ${placed}/>`
+    }
+    case 'rectangle':
+    default:
+      return `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" ${placed}/>`
+  }
+}
+
+/**
+ * Render a wave code as an SVG document sized in mm (viewBox units are mm)
+ */
+export function renderWaveCodeSvg(
+  code: string,
+  theme: ThemeConfig,
+  symbologyVersion: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION,
+  logo: LogoImage | null = null
+): string {
+  const layout = layoutWaveCode(code, theme, symbologyVersion, logo)
+  const { colorScheme, effects } = theme
+
+  const defs: string[] = []
+  if (colorScheme.type === 'gradient' && colorScheme.secondary) {
+    const { x1, y1, x2, y2 } = gradientVector(colorScheme.gradientAngle || 90)
+    defs.push(
+      `<linearGradient id="barGradient" x1="${num(x1)}%" y1="${num(y1)}%" x2="${num(x2)}%" y2="${num(y2)}%">` +
+        `<stop offset="0%" stop-color="${colorScheme.primary}"/>` +
+        `<stop offset="100%" stop-color="${colorScheme.secondary}"/>` +
+        '</linearGradient>'
+    )
+  }
+  if (effects.shadow) {
+    // The PNG renderer's 1px offset and blur radius, at 300 DPI
+    const blur = (effects.shadowBlur || 2) * REFERENCE_PX_MM
+    defs.push(
+      '<filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">' +
+        `<feDropShadow dx="${num(REFERENCE_PX_MM)}" dy="${num(REFERENCE_PX_MM)}" stdDeviation="${num(blur)}" ` +
+        `flood-color="${effects.shadowColor || '#000000'}" flood-opacity="0.5"/>` +
+        '</filter>'
+    )
+  }
+
+  const filter = effects.shadow ? ' filter="url(#shadow)"' : ''
+  const bars = layout.bars
+    .map((bar, i) => svgBar(bar, theme, `fill="${barFill(theme, i)}"${filter}`))
+    .join('')
+  const opacity = effects.opacity < 100 ? ` opacity="${effects.opacity / 100}"` : ''
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(layout.width)}mm" height="${num(layout.height)}mm" viewBox="0 0 ${num(layout.width)} ${num(layout.height)}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    `<rect width="${num(layout.width)}" height="${num(layout.height)}" fill="${colorScheme.background}"/>`,
+    `<g${opacity}>${bars}</g>`,
+    layout.caption ? `<path d="${layout.caption}" fill="${theme.caption.color}"/>` : '',
+    layout.logo
+      ? `<image x="${num(layout.logo.x)}" y="${num(layout.logo.y)}" width="${num(layout.logo.width)}" height="${num(layout.logo.height)}" href="${layout.logo.image.href}"/>`
+      : '',
+    '</svg>',
+    '',
+  ].join('\n')
+}
+
+type PdfColor = string | CmykColor
+
+export interface PrintInk {
+  cmyk: CmykColor  // For a spot colour, its process alternate
+  spot?: string
+}
+
+/**
+ * Naive device CMYK (0-100) for a hex colour
+ */
+export function hexToCmyk(hex: string): CmykColor {
+  const rgb = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 }
+  const [r, g, b] = [rgb.r / 255, rgb.g / 255, rgb.b / 255]
+  const k = 1 - Math.max(r, g, b)
+  if (k === 1) {
+    return [0, 0, 0, 100]
+  }
+  const cmy = [r, g, b].map((v) => Math.round(((1 - v - k) / (1 - k)) * 1000) / 10)
+  return [cmy[0], cmy[1], cmy[2], Math.round(k * 1000) / 10]
+}
+
+function hasPrintColor(theme: ThemeConfig, slot: ColorSlot): boolean {
+  const print = theme.colorScheme.print?.[slot]
+  return !!(print?.cmyk || print?.spot)
+}
+
+/**
+ * The ink a colour slot prints with: its spot colour, its CMYK values, or
+ * failing those a conversion of its hex colour. An unset secondary colour
+ * falls back to the primary.
+ */
+export function slotInk(theme: ThemeConfig, slot: ColorSlot): PrintInk {
+  const resolved = slot === 'secondary' && !theme.colorScheme.secondary ? 'primary' : slot
+  const print = theme.colorScheme.print?.[resolved]
+  const cmyk = print?.cmyk ?? hexToCmyk(theme.colorScheme[resolved] as string)
+  return print?.spot ? { cmyk, spot: print.spot } : { cmyk }
+}
+
+// A colour painted at an opacity over the background, as one opaque colour
+function flattenCmyk(ink: CmykColor, background: CmykColor, opacity: number): CmykColor {
+  return ink.map((value, i) =>
+    Math.round((background[i] + (value - background[i]) * opacity) * 10) / 10
+  ) as CmykColor
+}
+
+// pdfkit's spot colour support isn't in its typings
+interface SpotColorDocument {
+  spotColors: Record<string, unknown>
+  addSpotColor(name: string, c: number, m: number, y: number, k: number): void
+}
+
+// pdfkit writes names as given; spaces and delimiters need #xx escapes
+function escapePdfName(name: string): string {
+  return name.replace(/[^!-~]|[#()<>[\]{}/%]/g, (c) =>
+    Array.from(Buffer.from(c), (byte) => `#${byte.toString(16).padStart(2, '0')}`).join('')
+  )
+}
+
+// Register a spot colour (a Separation colour space) once per document and
+// return the key to fill with. pdfkit looks colours up by the separation's
+// name, after hex and CSS names, so a spot called "gold" would come out as
+// RGB; it's filed under a key that can't be either.
+function spotColor(doc: PDFKit.PDFDocument, ink: PrintInk & { spot: string }): string {
+  const spots = doc as unknown as SpotColorDocument
+  const name = escapePdfName(ink.spot)
+  const key = `spot:${name}`
+  if (!spots.spotColors[key]) {
+    spots.addSpotColor(name, ...ink.cmyk)
+    spots.spotColors[key] = spots.spotColors[name]
+    delete spots.spotColors[name]
+  }
+  return key
+}
+
+// pdfkit only reuses images opened from a file path; a logo opened once per
+// document is embedded once however many codes a sheet holds
+const openedImages = new WeakMap<PDFKit.PDFDocument, Map<Buffer, unknown>>()
+
+function pdfImage(doc: PDFKit.PDFDocument, src: Buffer): Buffer {
+  let images = openedImages.get(doc)
+  if (!images) {
+    images = new Map()
+    openedImages.set(doc, images)
+  }
+  if (!images.has(src)) {
+    // openImage isn't in pdfkit's typings; image() takes what it returns
+    images.set(src, (doc as unknown as { openImage(src: Buffer): unknown }).openImage(src))
+  }
+  return images.get(src) as Buffer
+}
+
+// pdfkit writes every Info value as text; PDF/X needs Trapped as a name
+function pdfName(name: string): object {
+  return { [Symbol.toStringTag]: 'PDFName', toString: () => `/${name}` }
+}
+
+export interface PdfDocumentOptions {
+  title: string
+  pdfx?: boolean
+  creationDate?: Date  // Defaults to a fixed date, for reproducible files
+}
+
+export interface PdfOutput {
+  doc: PDFKit.PDFDocument
+  finish: () => Promise<Buffer>  // Ends the document and returns its bytes
+}
+
+/**
+ * Start a PDF with no pages (add them with addPdfPage). With pdfx the file
+ * declares PDF/X-1a:2001 conformance; everything drawn must then be CMYK
+ * and opaque.
+ */
+export function createPdf(options: PdfDocumentOptions): PdfOutput {
+  const creationDate = options.creationDate ?? VECTOR_CREATION_DATE
+  const doc = new PDFDocument({
+    autoFirstPage: false,
+    pdfVersion: '1.3',
+    info: {
+      Title: options.title,
+      Creator: 'BookCode',
+      CreationDate: creationDate,
+      ModDate: creationDate,
+    },
+  })
+
+  const chunks: Buffer[] = []
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+  const finished = new Promise<void>((resolve, reject) => {
+    doc.on('end', resolve)
+    doc.on('error', reject)
+  })
+
+  if (options.pdfx) {
+    Object.assign(doc.info, {
+      GTS_PDFXVersion: 'PDF/X-1:2001',
+      GTS_PDFXConformance: 'PDF/X-1a:2001',
+      Trapped: pdfName('False'),
+    })
+    const intent = doc.ref({
+      Type: 'OutputIntent',
+      S: 'GTS_PDFX',
+      OutputConditionIdentifier: new String(PDFX_OUTPUT_CONDITION),
+      RegistryName: new String('http://www.color.org'),
+      Info: new String(PDFX_OUTPUT_CONDITION),
+    })
+    intent.end(undefined)
+    // The document catalog isn't part of pdfkit's typings
+    const root = (doc as unknown as { _root: { data: Record<string, unknown> } })._root
+    root.data.OutputIntents = [intent]
+  }
+
+  return {
+    doc,
+    finish: async () => {
+      doc.end()
+      await finished
+      return Buffer.concat(chunks)
+    },
+  }
+}
+
+/**
+ * Add a page of the given size in mm (trim box = page) and switch drawing
+ * units to mm, origin top left
+ */
+export function addPdfPage(doc: PDFKit.PDFDocument, width: number, height: number): void {
+  const size = [width * PT_PER_MM, height * PT_PER_MM]
+  doc.addPage({ size, margin: 0 })
+
+  const box = [0, 0, size[0], size[1]]
+  Object.assign(doc.page.dictionary.data, { TrimBox: box, BleedBox: box })
+  doc.scale(PT_PER_MM)
+}
+
+/**
+ * Draw a laid-out wave code (background included) with its top left corner
+ * at the current origin, in mm units. Slots with print colours are drawn in
+ * their spot colour or CMYK; with pdfx every colour is, and opacity is
+ * flattened: process colours are mixed with the background and spot colours
+ * printed as a tint. Gradients blend process colours (a spot's alternate).
+ * Drop shadows are left out: they need transparency. With pdfx the logo is
+ * drawn from its CMYK copy, flattened onto the background.
+ */
+export function drawWaveCode(
+  doc: PDFKit.PDFDocument,
+  layout: WaveCodeLayout,
+  theme: ThemeConfig,
+  options: PdfRenderOptions = {}
+): void {
+  const { colorScheme, effects, barStyle } = theme
+  const pdfx = options.pdfx ?? false
+  const opacity = effects.opacity / 100
+  const flatten = pdfx && opacity < 1
+  const background = slotInk(theme, 'background').cmyk
+
+  // Process colour for a slot, flattened over the background for bars
+  const processColor = (slot: ColorSlot, bar: boolean): CmykColor => {
+    const { cmyk } = slotInk(theme, slot)
+    return bar && flatten ? flattenCmyk(cmyk, background, opacity) : cmyk
+  }
+
+  const setFill = (slot: ColorSlot, bar: boolean): void => {
+    if (!pdfx && !hasPrintColor(theme, slot)) {
+      doc.fillColor((colorScheme[slot] ?? colorScheme.primary) as string)
+      return
+    }
+    const ink = slotInk(theme, slot)
+    if (!ink.spot) {
+      doc.fillColor(processColor(slot, bar))
+      return
+    }
+    doc.fillColor(spotColor(doc, { ...ink, spot: ink.spot }))
+    if (bar && flatten) {
+      doc.addContent(`${num(opacity)} scn`)
+    }
+  }
+
+  doc.save()
+  setFill('background', false)
+  doc.rect(0, 0, layout.width, layout.height).fill()
+
+  if (layout.caption) {
+    doc.path(layout.caption).fill(pdfx ? hexToCmyk(theme.caption.color) : theme.caption.color)
+  }
+
+  if (layout.logo) {
+    const { x, y, width, height, image } = layout.logo
+    doc.image(pdfImage(doc, pdfx ? image.cmyk : image.png), x, y, { width, height })
+  }
+
+  if (!pdfx && opacity < 1) {
+    doc.fillOpacity(opacity)
+  }
+
+  // Stops share a colour space: RGB unless either needs printing in CMYK
+  const gradientStop = (slot: ColorSlot): PdfColor =>
+    pdfx || hasPrintColor(theme, 'primary') || hasPrintColor(theme, 'secondary')
+      ? processColor(slot, true)
+      : (colorScheme[slot] as string)
+
+  const gradient =
+    colorScheme.type === 'gradient' && colorScheme.secondary
+      ? { vector: gradientVector(colorScheme.gradientAngle || 90) }
+      : null
+
+  layout.bars.forEach((bar, i) => {
+    const { x, y, width, height, rotation } = bar
+
+    if (rotation) {
+      doc.save().rotate(rotation.angle, { origin: [rotation.x, rotation.y] })
+    }
+
+    switch (barStyle.shape) {
+      case 'rounded':
+        doc.roundedRect(x, y, width, height, Math.min(width / 2, ((barStyle.roundness ?? 0) / 100) * (width / 2)))
+        break
+      case 'circular':
+        for (const { cx, cy, r } of barCircles(bar)) {
+          doc.circle(cx, cy, r)
+        }
+        break
+      case 'triangle':
+        doc.polygon([x + width / 2, y], [x + width, y + height], [x, y + height])
+        break
+      case 'rectangle':
+      default:
+        doc.rect(x, y, width, height)
+    }
+
+    if (gradient) {
+      // Spans each bar, like SVG's default objectBoundingBox gradient
+      const { x1, y1, x2, y2 } = gradient.vector
+      const fill = doc.linearGradient(
+        x + (width * x1) / 100,
+        y + (height * y1) / 100,
+        x + (width * x2) / 100,
+        y + (height * y2) / 100
+      )
+      // pdfkit takes CMYK arrays for stops too
+      fill.stop(0, gradientStop('primary') as string).stop(1, gradientStop('secondary') as string)
+      doc.fill(fill)
+    } else {
+      const dualTone = colorScheme.type === 'dual-tone' && colorScheme.secondary
+      setFill(dualTone && i % 2 === 1 ? 'secondary' : 'primary', true)
+      doc.fill()
+    }
+
+    if (rotation) {
+      doc.restore()
+    }
+  })
+
+  doc.restore()
+}
+
+/**
+ * Render a wave code as a single-page PDF whose page (and trim box) is
+ * exactly the theme's dimensions. pdfx gives a PDF/X-1a:2001 file, as
+ * prepress (and EPS-based) workflows expect.
+ */
+export async function renderWaveCodePdf(
+  code: string,
+  theme: ThemeConfig,
+  symbologyVersion: SymbologyVersion = LEGACY_SYMBOLOGY_VERSION,
+  options: PdfRenderOptions = {},
+  logo: LogoImage | null = null
+): Promise<Buffer> {
+  const layout = layoutWaveCode(code, theme, symbologyVersion, logo)
+  const { doc, finish } = createPdf({ title: `Wave code ${code}`, pdfx: options.pdfx })
+
+  addPdfPage(doc, layout.width, layout.height)
+  drawWaveCode(doc, layout, theme, options)
+
+  return finish()
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import sharp from 'sharp'
+import { decodeWaveCode, decodeBarHeights, WaveDecodeError } from './waveDecoder'
+import { codeToWavePattern, generateUniqueCode, CODE_PROFILES, SAFE_ALPHABET } from './codeGenerator'
+import {
+  generatePrintableWaveCode,
+  generateThemedWaveCode,
+} from './imageGenerator'
+import { PRESET_THEMES, mergeWithDefault, type LayoutMode } from '../types/theme'
+import { prepareLogo } from './bookAssets'
+
+describe('waveDecoder', () => {
+  describe('decodeBarHeights', () => {
+    it('recovers the code from rendered bar heights at any scale', () => {
+      const heights = codeToWavePattern('K7Q2ZB').map((amplitude) => Math.floor(amplitude * 137))
+      const result = decodeBarHeights(heights)
+      expect(result.code).toBe('K7Q2ZB')
+      expect(result.confidence).toBeGreaterThan(0.8)
+    })
+
+    it('rejects the wrong number of bars', () => {
+      expect(() => decodeBarHeights([10, 20, 30])).toThrow(WaveDecodeError)
+    })
+  })
+
+  describe('decodeWaveCode', () => {
+    it.each(['ABC123', 'ZZZZZZ', '000000', 'M4X9QA'])(
+      'reads back a printable wave code for %s',
+      async (code) => {
+        const png = await generatePrintableWaveCode(code)
+        const result = await decodeWaveCode(png)
+        expect(result.code).toBe(code)
+        expect(result.barCount).toBe(24)
+      }
+    )
+
+    it('reads back themed wave codes', async () => {
+      for (const preset of ['classic', 'elegantGold', 'oceanBlue', 'forestGreen']) {
+        const png = await generateThemedWaveCode('HELLO7', PRESET_THEMES[preset])
+        const result = await decodeWaveCode(png)
+        expect(result.code).toBe('HELLO7')
+      }
+    })
+
+    it('finds the code inside a larger, rescaled image', async () => {
+      const png = await generateThemedWaveCode('PAGE42', {
+        dimensions: { width: 30, height: 10, dpi: 600 },
+      })
+      const enlarged = await sharp(png).resize({ width: 1000 }).toBuffer()
+      const photo = await sharp({
+        create: { width: 1600, height: 900, channels: 3, background: '#F4F4F0' },
+      })
+        .composite([{ input: enlarged, left: 300, top: 250 }])
+        .jpeg({ quality: 90 })
+        .toBuffer()
+
+      const result = await decodeWaveCode(photo)
+      expect(result.code).toBe('PAGE42')
+    })
+
+    it('reads back v2 codes and reports the version', async () => {
+      const png = await generatePrintableWaveCode('000000', { symbologyVersion: 'v2' })
+      const result = await decodeWaveCode(png)
+      expect(result.code).toBe('000000')
+      expect(result.version).toBe('v2')
+      expect(result.mirrored).toBe(false)
+    })
+
+    it('reads back 7-character checked codes', async () => {
+      const code = generateUniqueCode(CODE_PROFILES.checked)
+      const png = await generatePrintableWaveCode(code, { symbologyVersion: 'v2' })
+      const result = await decodeWaveCode(png)
+      expect(result.code).toBe(code)
+      expect(result.barCount).toBe(26)
+    })
+
+    it('reads back long prefixed publisher codes', async () => {
+      const profile = { name: 'publisher', alphabet: SAFE_ALPHABET, length: 8, prefix: 'PX', checkCharacter: false }
+      const code = generateUniqueCode(profile)
+      const png = await generatePrintableWaveCode(code, { symbologyVersion: 'v2' })
+      const result = await decodeWaveCode(png)
+      expect(result.code).toBe(code)
+      expect(result.barCount).toBe(32)
+    })
+
+    it('reads a mirrored v2 image as the same code', async () => {
+      const png = await generateThemedWaveCode('ABC123', PRESET_THEMES.oceanBlue, 'v2')
+      const mirrored = await sharp(png).flop().toBuffer()
+      const result = await decodeWaveCode(mirrored)
+      expect(result.code).toBe('ABC123')
+      expect(result.mirrored).toBe(true)
+    })
+
+    it('recovers a v2 code with a smudged bar', async () => {
+      const png = await generatePrintableWaveCode('R2D2C3', { symbologyVersion: 'v2' })
+      const smudge = await sharp({
+        create: { width: 4, height: 51, channels: 3, background: '#000000' },
+      })
+        .png()
+        .toBuffer()
+      // Bars are 6px apart starting at x=17; ink the 8th bar to full height
+      const damaged = await sharp(png)
+        .composite([{ input: smudge, left: 17 + 7 * 6, top: 4 }])
+        .toBuffer()
+
+      const result = await decodeWaveCode(damaged)
+      expect(result.code).toBe('R2D2C3')
+      expect(result.corrections).toBeGreaterThan(0)
+    })
+
+    it('ignores a logo, even one made of bar-like stripes', async () => {
+      // Stripes as wide and as far apart as the bars, centred on the bar row
+      // and running up to the logo's edge
+      const rects = [8, 4, 12, 2, 10, 6, 14, 3, 9]
+        .map((y, i) => `<rect x="${1 + 4.5 * i}" y="${y}" width="3" height="${40 - 2 * y}"/>`)
+        .join('')
+      const stripes = Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40">${rects}</svg>`)
+      const logo = await prepareLogo(stripes, 'image/svg+xml', '#FFFFFF')
+
+      // Narrow enough that only the quiet zone separates logo and bars
+      for (const position of ['start', 'end'] as const) {
+        const theme = mergeWithDefault({
+          dimensions: { width: 17, height: 6, dpi: 300 },
+          logo: { assetId: 'a1', position, size: 80, quietZone: 0 },
+        })
+        for (const version of ['v1', 'v2'] as const) {
+          const result = await decodeWaveCode(await generateThemedWaveCode('HELLO7', theme, version, logo))
+          expect(result.code).toBe('HELLO7')
+        }
+      }
+    })
+
+    it.each([
+      ['mirrored', { width: 20, height: 6 }],
+      ['vertical', { width: 6, height: 20 }],
+      ['circular', { width: 20, height: 20 }],
+      ['arc', { width: 20, height: 14 }],
+    ] as [LayoutMode, { width: number; height: number }][])('reads back %s layouts', async (mode, size) => {
+      for (const shape of ['rectangle', 'rounded'] as const) {
+        const theme = mergeWithDefault({
+          dimensions: { ...size, dpi: 300 },
+          barStyle: { shape, thickness: 5, spacing: 3, roundness: 50 },
+          layout: { mode, arcAngle: 180, innerRadius: 50 },
+        })
+        for (const version of ['v1', 'v2'] as const) {
+          const result = await decodeWaveCode(await generateThemedWaveCode('HELLO7', theme, version))
+          expect(result.code).toBe('HELLO7')
+        }
+      }
+    })
+
+    it('reads a ring around a logo, above a caption', async () => {
+      const dot = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40"><circle cx="20" cy="20" r="18"/></svg>')
+      const logo = await prepareLogo(dot, 'image/svg+xml', '#FFFFFF')
+      const theme = mergeWithDefault({
+        dimensions: { width: 20, height: 20, dpi: 300 },
+        layout: { mode: 'circular', arcAngle: 180, innerRadius: 50 },
+        caption: { ...mergeWithDefault(null).caption, position: 'below' },
+        logo: { assetId: 'a1', position: 'start', size: 80, quietZone: 1 },
+      })
+
+      const result = await decodeWaveCode(await generateThemedWaveCode('HELLO7', theme, 'v2', logo))
+      expect(result.code).toBe('HELLO7')
+    })
+
+    it('throws when there is no wave code in the image', async () => {
+      const blank = await sharp({
+        create: { width: 200, height: 80, channels: 3, background: '#FFFFFF' },
+      })
+        .png()
+        .toBuffer()
+
+      await expect(decodeWaveCode(blank)).rejects.toThrow(WaveDecodeError)
+    })
+  })
+})
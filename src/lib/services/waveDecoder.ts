@@ -0,0 +1,719 @@
+import sharp from 'sharp'
+import { ALPHABET, codeToWavePattern } from './codeGenerator'
+import {
+  SymbologyVersion,
+  V2_LEVELS,
+  V2_PARITY_SYMBOLS,
+  V2_START_GUARD,
+  V2_STOP_GUARD,
+  decodeV2Levels,
+} from './symbology'
+
+export interface DecodedWaveCode {
+  code: string
+  confidence: number    // 0-1, weakest character decides
+  barCount: number
+  version: SymbologyVersion
+  mirrored: boolean     // Image was flipped or rotated 180°
+  corrections: number   // Symbols repaired by error correction (v2)
+}
+
+export interface DetectedBar {
+  x: number             // Left edge in pixels
+  width: number
+  top: number
+  height: number
+}
+
+/**
+ * Raised when an image cannot be decoded (no bar row found, wrong bar count...)
+ */
+export class WaveDecodeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WaveDecodeError'
+  }
+}
+
+const BARS_PER_CHARACTER = 4
+const CODE_LENGTH = 6
+const EXPECTED_BARS = CODE_LENGTH * BARS_PER_CHARACTER
+
+// Large photos are scaled down before analysis; bars stay several pixels wide
+const MAX_ANALYSIS_WIDTH = 2000
+
+// Renderers leave 4px above and below the tallest possible bar
+const RENDER_VERTICAL_MARGIN = 8
+
+// A gap this many bar pitches wide ends a bar row. A theme's logo sits at
+// least LOGO_QUIET_ZONE_PITCHES from the bars, so whatever shapes it is made
+// of (even bar-like stripes) end up in a row of their own, never in the code.
+const ROW_BREAK_PITCHES = 2.5
+
+// v1 bar amplitude curves for every character value, taken from the encoder
+// so both sides always agree. REFERENCE_CURVES[value] = 4 normalised heights.
+const REFERENCE_CURVES: number[][] = ALPHABET.split('').map((char) =>
+  codeToWavePattern(char.repeat(CODE_LENGTH), 'v1').slice(0, BARS_PER_CHARACTER)
+)
+
+interface GreyscaleImage {
+  data: Buffer
+  width: number
+  height: number
+}
+
+interface Component {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+  area: number
+  sumX: number          // For the centroid
+  sumY: number
+}
+
+async function readGreyscale(buffer: Buffer): Promise<GreyscaleImage> {
+  const { data, info } = await sharp(buffer)
+    .rotate() // Honour EXIF orientation from phone cameras
+    .flatten({ background: '#FFFFFF' })
+    .resize({ width: MAX_ANALYSIS_WIDTH, withoutEnlargement: true })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  return { data, width: info.width, height: info.height }
+}
+
+// Otsu's method: threshold that best separates ink from paper
+function otsuThreshold(data: Buffer): number {
+  const histogram = new Array<number>(256).fill(0)
+  for (let i = 0; i < data.length; i++) {
+    histogram[data[i]]++
+  }
+
+  const total = data.length
+  let sumAll = 0
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i]
+
+  let sumBackground = 0
+  let weightBackground = 0
+  let bestThreshold = 127
+  let bestVariance = -1
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t]
+    if (weightBackground === 0) continue
+    const weightForeground = total - weightBackground
+    if (weightForeground === 0) break
+
+    sumBackground += t * histogram[t]
+    const meanBackground = sumBackground / weightBackground
+    const meanForeground = (sumAll - sumBackground) / weightForeground
+    const variance =
+      weightBackground * weightForeground * (meanBackground - meanForeground) ** 2
+
+    if (variance > bestVariance) {
+      bestVariance = variance
+      bestThreshold = t
+    }
+  }
+
+  return bestThreshold
+}
+
+// Build a binary ink mask. Paper colour is whatever dominates the border,
+// so light bars on a dark background work as well as dark on light.
+function binarize(image: GreyscaleImage): Uint8Array {
+  const { data, width, height } = image
+  const threshold = otsuThreshold(data)
+
+  let darkBorder = 0
+  let borderPixels = 0
+  for (let x = 0; x < width; x++) {
+    darkBorder += data[x] <= threshold ? 1 : 0
+    darkBorder += data[(height - 1) * width + x] <= threshold ? 1 : 0
+    borderPixels += 2
+  }
+  for (let y = 0; y < height; y++) {
+    darkBorder += data[y * width] <= threshold ? 1 : 0
+    darkBorder += data[y * width + width - 1] <= threshold ? 1 : 0
+    borderPixels += 2
+  }
+  const inkIsDark = darkBorder < borderPixels / 2
+
+  const mask = new Uint8Array(width * height)
+  for (let i = 0; i < data.length; i++) {
+    const dark = data[i] <= threshold
+    mask[i] = dark === inkIsDark ? 1 : 0
+  }
+  return mask
+}
+
+function findComponents(mask: Uint8Array, width: number, height: number): Component[] {
+  const labels = new Int32Array(width * height)
+  const components: Component[] = []
+  const stack: number[] = []
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue
+
+    const component: Component = {
+      minX: width,
+      maxX: -1,
+      minY: height,
+      maxY: -1,
+      area: 0,
+      sumX: 0,
+      sumY: 0,
+    }
+    labels[start] = components.length + 1
+    stack.push(start)
+
+    while (stack.length > 0) {
+      const index = stack.pop() as number
+      const x = index % width
+      const y = (index - x) / width
+
+      component.area++
+      component.sumX += x
+      component.sumY += y
+      if (x < component.minX) component.minX = x
+      if (x > component.maxX) component.maxX = x
+      if (y < component.minY) component.minY = y
+      if (y > component.maxY) component.maxY = y
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ]
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !labels[n]) {
+          labels[n] = components.length + 1
+          stack.push(n)
+        }
+      }
+    }
+
+    components.push(component)
+  }
+
+  return components
+}
+
+// Bars drawn as stacked dots (the 'circular' shape) arrive as several
+// components sharing the same columns; fold them back into one bar.
+function mergeColumns(components: Component[]): DetectedBar[] {
+  const sorted = [...components].sort((a, b) => a.minX - b.minX)
+  const merged: Component[] = []
+
+  for (const component of sorted) {
+    const last = merged[merged.length - 1]
+    if (last) {
+      const overlap = Math.min(last.maxX, component.maxX) - Math.max(last.minX, component.minX) + 1
+      const narrower = Math.min(last.maxX - last.minX, component.maxX - component.minX) + 1
+      if (overlap >= narrower * 0.5) {
+        last.minX = Math.min(last.minX, component.minX)
+        last.maxX = Math.max(last.maxX, component.maxX)
+        last.minY = Math.min(last.minY, component.minY)
+        last.maxY = Math.max(last.maxY, component.maxY)
+        last.area += component.area
+        last.sumX += component.sumX
+        last.sumY += component.sumY
+        continue
+      }
+    }
+    merged.push({ ...component })
+  }
+
+  return merged.map((c) => ({
+    x: c.minX,
+    width: c.maxX - c.minX + 1,
+    top: c.minY,
+    height: c.maxY - c.minY + 1,
+  }))
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+// Where bars in a row line up: their centres, or the baseline they stand on
+// (mirrored layouts; upside down, the top edge)
+const ROW_ALIGNMENTS: ((bar: DetectedBar) => number)[] = [
+  (bar) => bar.top + bar.height / 2,
+  (bar) => bar.top + bar.height,
+  (bar) => bar.top,
+]
+
+// Pick the longest run of bars that line up, have similar widths and a
+// regular pitch. Everything else in a photo (text, edges) is ignored. Part
+// of a centred row can share a baseline by chance, so an alignment only wins
+// with more bars than the one before it.
+function selectBarRow(candidates: DetectedBar[], expected: number): DetectedBar[] {
+  let best: DetectedBar[] = []
+
+  for (const align of ROW_ALIGNMENTS) {
+    let aligned: DetectedBar[] = []
+    for (const anchor of candidates) {
+      const row = alignedRow(candidates, anchor, align)
+      if (row.length < 2) continue
+
+      // Split the row wherever the pitch breaks, keep the best-sized segment
+      const pitch = median(row.slice(1).map((bar, i) => bar.x - row[i].x))
+      let segment: DetectedBar[] = [row[0]]
+      for (let i = 1; i <= row.length; i++) {
+        const gapBreaks = i === row.length || row[i].x - row[i - 1].x > pitch * ROW_BREAK_PITCHES
+        if (gapBreaks) {
+          if (isBetterRow(segment, aligned, expected)) aligned = segment
+          segment = []
+        }
+        if (i < row.length) segment.push(row[i])
+      }
+    }
+    if (aligned.length > best.length) best = aligned
+  }
+
+  return best
+}
+
+function alignedRow(
+  candidates: DetectedBar[],
+  anchor: DetectedBar,
+  align: (bar: DetectedBar) => number
+): DetectedBar[] {
+  const anchorLine = align(anchor)
+  return candidates.filter((bar) => {
+    const tolerance = Math.max(2, Math.min(bar.height, anchor.height) * 0.25)
+    return (
+      Math.abs(align(bar) - anchorLine) <= tolerance &&
+      bar.width <= anchor.width * 2 &&
+      bar.width * 2 >= anchor.width
+    )
+  })
+}
+
+function isBetterRow(row: DetectedBar[], current: DetectedBar[], expected: number): boolean {
+  const rowDistance = Math.abs(row.length - expected)
+  const currentDistance = Math.abs(current.length - expected)
+  if (rowDistance !== currentDistance) return rowDistance < currentDistance
+  return row.length > current.length
+}
+
+/**
+ * Locate the bars of a wave code in an image.
+ * Accepts tight crops as well as photos with surrounding content.
+ */
+export async function detectBars(
+  buffer: Buffer
+): Promise<{ bars: DetectedBar[]; imageHeight: number }> {
+  const image = await readGreyscale(buffer)
+  return { bars: findBarRow(image), imageHeight: image.height }
+}
+
+function findBarRow(image: GreyscaleImage): DetectedBar[] {
+  const mask = binarize(image)
+
+  const components = findComponents(mask, image.width, image.height)
+    .filter((c) => c.area >= 2)
+
+  const candidates = mergeColumns(components)
+    .filter((bar) => bar.height >= bar.width * 0.5)
+
+  return selectBarRow(candidates, EXPECTED_BARS)
+}
+
+// The image turned a quarter anticlockwise, so a vertical code's column
+// (first bar at the top) reads as a row from the left
+function rotateQuarter(image: GreyscaleImage): GreyscaleImage {
+  const { data, width, height } = image
+  const rotated = Buffer.alloc(data.length)
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < height; x++) {
+      rotated[y * height + x] = data[x * width + (width - 1 - y)]
+    }
+  }
+  return { data: rotated, width: height, height: width }
+}
+
+interface Blob {
+  x: number             // Centroid
+  y: number
+  reach: number         // Half the bounding box diagonal
+}
+
+// Fewest blobs worth fitting a ring through
+const MIN_RING_BLOBS = 8
+// Blobs further from the ring than this many times the typical blob aren't
+// bars (bars' centroids lie on the ring, give or take their shape)
+const RING_TOLERANCE = 3
+const RING_FIT_PASSES = 5
+// The first guess at the ring is the circle through three blobs that most
+// others lie near (within this share of its radius), tried among the largest
+const RING_SEED_BLOBS = 40
+const RING_SEED_TOLERANCE = 0.5   // x the median blob's reach
+// Unrolled rings sample the radius this many times per pixel, so bar heights
+// keep the precision of their anti-aliased ends
+const RING_SUPERSAMPLE = 4
+const MAX_RING_ROWS = 1000
+
+// Least squares circle (Kasa's method) through the blobs' centroids. Every
+// blob counts the same, so one large shape (a logo) can't drag the fit.
+function fitCircle(blobs: Blob[]): { cx: number; cy: number; r: number } | null {
+  const total = blobs.length
+  const meanX = blobs.reduce((sum, b) => sum + b.x, 0) / total
+  const meanY = blobs.reduce((sum, b) => sum + b.y, 0) / total
+
+  let sxx = 0, syy = 0, sxy = 0, sxz = 0, syz = 0, sz = 0
+  for (const b of blobs) {
+    const x = b.x - meanX
+    const y = b.y - meanY
+    const z = x * x + y * y
+    sxx += x * x
+    syy += y * y
+    sxy += x * y
+    sxz += x * z
+    syz += y * z
+    sz += z
+  }
+
+  // Centred on the mean, the normal equations for x² + y² + Dx + Ey + F = 0
+  // reduce to a 2x2 system for D and E
+  const det = sxx * syy - sxy * sxy
+  if (Math.abs(det) < 1e-9) return null
+  const d = (-sxz * syy + syz * sxy) / det
+  const e = (-syz * sxx + sxz * sxy) / det
+  const f = -sz / total
+  const cx = -d / 2
+  const cy = -e / 2
+  const r2 = cx * cx + cy * cy - f
+  return r2 > 0 ? { cx: cx + meanX, cy: cy + meanY, r: Math.sqrt(r2) } : null
+}
+
+function circleThrough(a: Blob, b: Blob, c: Blob): { cx: number; cy: number; r: number } | null {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y))
+  if (Math.abs(d) < 1e-9) return null
+  const a2 = a.x * a.x + a.y * a.y
+  const b2 = b.x * b.x + b.y * b.y
+  const c2 = c.x * c.x + c.y * c.y
+  const cx = (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d
+  const cy = (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d
+  return { cx, cy, r: Math.hypot(a.x - cx, a.y - cy) }
+}
+
+// Blobs near the circle that most blobs lie near (the closest fit on a
+// tie): a first guess that text and logos can't pull off the ring, as they
+// would a least squares fit. Bars are centred on the ring, so their centres
+// lie within a fraction of a bar's length of it.
+function ringBlobs(blobs: Blob[], largest: Blob[], maxRadius: number): Blob[] {
+  const tolerance = Math.max(2, median(blobs.map((b) => b.reach)) * RING_SEED_TOLERANCE)
+  let best: Blob[] = []
+  let bestOff = Infinity
+  for (let i = 0; i < largest.length; i++) {
+    for (let j = i + 1; j < largest.length; j++) {
+      for (let k = j + 1; k < largest.length; k++) {
+        const circle = circleThrough(largest[i], largest[j], largest[k])
+        if (!circle || circle.r < MIN_RING_BLOBS || circle.r > maxRadius) continue
+        let off = 0
+        const near = blobs.filter((b) => {
+          const distance = Math.abs(Math.hypot(b.x - circle.cx, b.y - circle.cy) - circle.r)
+          if (distance > tolerance) return false
+          off += distance
+          return true
+        })
+        if (near.length > best.length || (near.length === best.length && off < bestOff)) {
+          best = near
+          bestOff = off
+        }
+      }
+    }
+  }
+  return best
+}
+
+function sample(image: GreyscaleImage, x: number, y: number): number {
+  const { data, width, height } = image
+  const cx = Math.min(width - 1, Math.max(0, x))
+  const cy = Math.min(height - 1, Math.max(0, y))
+  const x0 = Math.floor(cx)
+  const y0 = Math.floor(cy)
+  const x1 = Math.min(width - 1, x0 + 1)
+  const y1 = Math.min(height - 1, y0 + 1)
+  const fx = cx - x0
+  const fy = cy - y0
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx
+  return top * (1 - fy) + bottom * fy
+}
+
+// Circular and arc codes stand their bars around a ring, centred on it. The
+// ring is found by fitting a circle through the ink's blobs (text and logos
+// fall away as outliers), then unrolled into a strip, clockwise from the
+// middle of its widest gap (where the code starts), outer end of the bars at
+// the top. In the strip the bars read as an ordinary row. The strip goes
+// round twice, so the whole row is in it even if something else (a caption
+// under the ring) fills the gap.
+function unwrapRing(image: GreyscaleImage): GreyscaleImage | null {
+  const mask = binarize(image)
+  const components = findComponents(mask, image.width, image.height)
+    .filter((c) => c.area >= 2)
+    .sort((a, b) => b.area - a.area)
+  if (components.length < MIN_RING_BLOBS) return null
+
+  const all: Blob[] = components.map((c) => ({
+    x: c.sumX / c.area,
+    y: c.sumY / c.area,
+    reach: Math.hypot(c.maxX - c.minX + 1, c.maxY - c.minY + 1) / 2,
+  }))
+  let blobs = ringBlobs(all, all.slice(0, RING_SEED_BLOBS), Math.hypot(image.width, image.height))
+
+  let circle: ReturnType<typeof fitCircle> = null
+  for (let pass = 0; pass < RING_FIT_PASSES; pass++) {
+    if (blobs.length < MIN_RING_BLOBS) return null
+    circle = fitCircle(blobs)
+    if (!circle) return null
+    const { cx, cy, r } = circle
+    const offRing = blobs.map((b) => Math.abs(Math.hypot(b.x - cx, b.y - cy) - r))
+    const limit = Math.max(2, median(offRing) * RING_TOLERANCE)
+    blobs = blobs.filter((_, i) => offRing[i] <= limit)
+  }
+  if (!circle || blobs.length < MIN_RING_BLOBS) return null
+  const { cx, cy, r } = circle
+
+  // Bars are centred on the ring, so the band is symmetric about it
+  const outer = Math.max(...blobs.map((b) => Math.hypot(b.x - cx, b.y - cy) + b.reach)) + 2
+  const inner = Math.max(0, 2 * r - outer)
+
+  const angles = blobs.map((b) => Math.atan2(b.y - cy, b.x - cx)).sort((a, b) => a - b)
+  let start = 0
+  let widest = -1
+  angles.forEach((angle, i) => {
+    const next = i + 1 < angles.length ? angles[i + 1] : angles[0] + 2 * Math.PI
+    if (next - angle > widest) {
+      widest = next - angle
+      start = (angle + next) / 2
+    }
+  })
+
+  // One column per pixel of the ring's circumference
+  const turn = Math.ceil(2 * Math.PI * r)
+  const width = 2 * turn
+  const supersample = Math.max(1, Math.min(RING_SUPERSAMPLE, Math.floor(MAX_RING_ROWS / (outer - inner))))
+  const height = Math.ceil((outer - inner) * supersample)
+  const data = Buffer.alloc(width * height)
+  for (let column = 0; column < width; column++) {
+    const angle = start + ((column + 0.5) / turn) * 2 * Math.PI
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    for (let row = 0; row < height; row++) {
+      const radius = outer - (row + 0.5) / supersample
+      data[row * width + column] = Math.round(sample(image, cx + radius * cos, cy + radius * sin))
+    }
+  }
+
+  return { data, width, height }
+}
+
+// An untouched render centres the bars in a frame whose height fixes the
+// scale exactly; anything else (photos, loose crops) gets no hint.
+function renderScaleHint(bars: DetectedBar[], imageHeight: number): number | undefined {
+  const centres = bars.map((bar) => bar.top + bar.height / 2)
+  const rowCentre = centres.reduce((sum, c) => sum + c, 0) / centres.length
+  const tallest = Math.max(...bars.map((bar) => bar.height))
+  const scale = imageHeight - RENDER_VERTICAL_MARGIN
+
+  if (Math.abs(rowCentre - imageHeight / 2) > 2 || tallest > scale) {
+    return undefined
+  }
+  return scale
+}
+
+// Bars whose height falls this far between two levels count as doubtful
+const V2_UNCERTAIN_LEVEL = 0.3
+
+/**
+ * Try to read bar heights as a v2 symbol. The guard bars supply the height
+ * scale, so no hint is needed. Returns null if the bars are not v2.
+ */
+function decodeV2Heights(heights: number[]): DecodedWaveCode | null {
+  if (heights.length < V2_START_GUARD.length + V2_STOP_GUARD.length + 2) {
+    return null
+  }
+
+  // The start guard opens with the tallest bar, the stop guard ends with the
+  // shortest; if the tallest end is on the right, the image is mirrored.
+  const mirrored = heights[heights.length - 1] > heights[0]
+  const bars = mirrored ? [...heights].reverse() : heights
+
+  const low = (bars[1] + bars[bars.length - 1]) / 2
+  const high = bars[0]
+  if (high - low < 3) {
+    return null
+  }
+
+  const maxLevel = V2_LEVELS - 1
+  const rawLevels = bars.map((h) => ((h - low) / (high - low)) * maxLevel)
+  const levels = rawLevels.map((level) => Math.max(0, Math.min(maxLevel, Math.round(level))))
+  const deviations = rawLevels.map((level, i) => Math.abs(level - levels[i]))
+
+  const uncertainBars = deviations
+    .map((deviation, i) => (deviation > V2_UNCERTAIN_LEVEL ? i : -1))
+    .filter((i) => i >= 0)
+
+  const decoded = decodeV2Levels(levels, uncertainBars)
+  if (!decoded || decoded.values.some((value) => value >= ALPHABET.length)) {
+    return null
+  }
+
+  // Bars that were repaired don't count against the fit quality
+  const fit = Math.min(
+    ...deviations
+      .filter((_, i) => !uncertainBars.includes(i))
+      .map((deviation) => 1 - deviation * 2)
+  )
+  const repairPenalty = 1 - decoded.correctedSymbols / (V2_PARITY_SYMBOLS + 1)
+  const confidence = Math.max(0, Math.min(1, fit * repairPenalty))
+
+  return {
+    code: decoded.values.map((value) => ALPHABET[value]).join(''),
+    confidence: Math.round(confidence * 1000) / 1000,
+    barCount: heights.length,
+    version: 'v2',
+    mirrored,
+    corrections: decoded.correctedSymbols,
+  }
+}
+
+/**
+ * Recover a code from measured bar heights.
+ * v2 symbols are recognised by their guard bars; anything else is read as
+ * v1, where the absolute scale is unknown (crops, photos), so the scale and
+ * the character values are fitted together against the encoder's curves.
+ * A scale hint narrows the v1 search to within 1% of that value.
+ */
+export function decodeBarHeights(heights: number[], scaleHint?: number): DecodedWaveCode {
+  const v2 = decodeV2Heights(heights)
+  if (v2) {
+    return v2
+  }
+
+  if (heights.length !== EXPECTED_BARS) {
+    throw new WaveDecodeError(
+      `Expected ${EXPECTED_BARS} bars but found ${heights.length}`
+    )
+  }
+
+  const tallest = Math.max(...heights)
+  if (tallest <= 0) {
+    throw new WaveDecodeError('No bar heights to decode')
+  }
+
+  // The tallest bar has a normalised amplitude somewhere in [0.1, 1]
+  const minScale = scaleHint ? scaleHint * 0.99 : tallest
+  const maxScale = scaleHint ? scaleHint * 1.01 : tallest * 10
+  const steps = scaleHint ? 40 : 800
+  let bestScale = minScale
+  let bestError = Infinity
+  let bestValues: number[] = []
+  let bestCharErrors: number[] = []
+
+  for (let step = 0; step <= steps; step++) {
+    const scale = minScale * Math.pow(maxScale / minScale, step / steps)
+    let totalError = 0
+    const values: number[] = []
+    const charErrors: number[] = []
+
+    for (let c = 0; c < CODE_LENGTH; c++) {
+      const measured = heights.slice(c * BARS_PER_CHARACTER, (c + 1) * BARS_PER_CHARACTER)
+      let charBest = Infinity
+      let charValue = 0
+
+      REFERENCE_CURVES.forEach((curve, value) => {
+        let error = 0
+        for (let k = 0; k < BARS_PER_CHARACTER; k++) {
+          // Renderers floor bar heights, so measurements sit ~0.5px low
+          error += (measured[k] - (curve[k] * scale - 0.5)) ** 2
+        }
+        if (error < charBest) {
+          charBest = error
+          charValue = value
+        }
+      })
+
+      totalError += charBest
+      values.push(charValue)
+      charErrors.push(charBest)
+    }
+
+    if (totalError < bestError) {
+      bestError = totalError
+      bestScale = scale
+      bestValues = values
+      bestCharErrors = charErrors
+    }
+  }
+
+  // Adjacent character values differ by at least this many pixels per bar
+  const levelStep = (bestScale * 0.8) / (ALPHABET.length - 1)
+  const confidence = Math.min(
+    ...bestCharErrors.map((error) => {
+      const rms = Math.sqrt(error / BARS_PER_CHARACTER)
+      return Math.max(0, Math.min(1, 1 - rms / levelStep))
+    })
+  )
+
+  return {
+    code: bestValues.map((value) => ALPHABET[value]).join(''),
+    confidence: Math.round(confidence * 1000) / 1000,
+    barCount: heights.length,
+    version: 'v1',
+    mirrored: false,
+    corrections: 0,
+  }
+}
+
+/**
+ * Decode a wave code from a PNG/JPEG/WebP image buffer
+ */
+export async function decodeWaveCode(buffer: Buffer): Promise<DecodedWaveCode> {
+  let image: GreyscaleImage
+  try {
+    image = await readGreyscale(buffer)
+  } catch (error) {
+    throw new WaveDecodeError(
+      `Unreadable image: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  }
+
+  // Every layout mode draws the same bars: rows are read as they are,
+  // vertical codes turned on their side and ring codes unrolled. Unrolling
+  // resamples the image, so it gets no scale hint.
+  const views: (() => { image: GreyscaleImage | null; exact: boolean })[] = [
+    () => ({ image, exact: true }),
+    () => ({ image: rotateQuarter(image), exact: true }),
+    () => ({ image: unwrapRing(image), exact: false }),
+  ]
+
+  let failure: WaveDecodeError | null = null
+  for (const view of views) {
+    const { image: viewImage, exact } = view()
+    if (!viewImage) continue
+
+    const bars = findBarRow(viewImage)
+    if (bars.length === 0) continue
+
+    try {
+      return decodeBarHeights(
+        bars.map((bar) => bar.height),
+        exact ? renderScaleHint(bars, viewImage.height) : undefined
+      )
+    } catch (error) {
+      if (!(error instanceof WaveDecodeError)) throw error
+      failure ??= error
+    }
+  }
+
+  throw failure ?? new WaveDecodeError('No wave code found in image')
+}
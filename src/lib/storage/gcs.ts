@@ -0,0 +1,74 @@
+import { Storage } from '@google-cloud/storage'
+import { assertValidKey, type StorageDriver } from './types'
+
+export interface GcsStorageOptions {
+  projectId: string
+  bucket: string
+}
+
+/**
+ * Google Cloud Storage driver (uses Application Default Credentials in Cloud Run).
+ * Objects are made public and served straight from storage.googleapis.com.
+ */
+export function createGcsDriver({ projectId, bucket: bucketName }: GcsStorageOptions): StorageDriver {
+  const bucket = new Storage({ projectId }).bucket(bucketName)
+
+  const driver: StorageDriver = {
+    name: 'gcs',
+
+    async put(key, body, contentType) {
+      const file = bucket.file(assertValidKey(key))
+      await file.save(body, {
+        contentType,
+        metadata: {
+          cacheControl: 'public, max-age=31536000',
+        },
+      })
+      // Make the file publicly readable
+      await file.makePublic()
+      return driver.url(key)
+    },
+
+    async get(key) {
+      const file = bucket.file(assertValidKey(key))
+      try {
+        const [[body], [metadata]] = await Promise.all([file.download(), file.getMetadata()])
+        return {
+          body,
+          contentType: metadata.contentType || 'application/octet-stream',
+          size: Number(metadata.size ?? body.length),
+          updatedAt: metadata.updated ? new Date(metadata.updated) : null,
+        }
+      } catch (error) {
+        if ((error as { code?: number }).code === 404) return null
+        throw error
+      }
+    },
+
+    async exists(key) {
+      const [exists] = await bucket.file(assertValidKey(key)).exists()
+      return exists
+    },
+
+    async delete(key) {
+      await bucket.file(assertValidKey(key)).delete({ ignoreNotFound: true })
+    },
+
+    async list(prefix) {
+      const [files] = await bucket.getFiles({ prefix })
+      return files
+        .map((file) => ({
+          key: file.name,
+          size: Number(file.metadata.size ?? 0),
+          updatedAt: file.metadata.updated ? new Date(file.metadata.updated) : null,
+        }))
+        .sort((a, b) => a.key.localeCompare(b.key))
+    },
+
+    url(key) {
+      return `https://storage.googleapis.com/${bucketName}/${assertValidKey(key)}`
+    },
+  }
+
+  return driver
+}
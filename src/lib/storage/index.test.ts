@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import {
+  storageDriverName,
+  createStorageFromEnv,
+  waveCodeImageKey,
+  parseWaveCodeImageKey,
+  assertValidKey,
+  contentTypeFor,
+} from './index'
+
+describe('storage configuration', () => {
+  describe('storageDriverName', () => {
+    it('uses STORAGE_DRIVER when set', () => {
+      expect(storageDriverName({ STORAGE_DRIVER: 's3' })).toBe('s3')
+      expect(storageDriverName({ STORAGE_DRIVER: 'LOCAL', GCS_BUCKET_NAME: 'b', GOOGLE_CLOUD_PROJECT: 'p' })).toBe('local')
+    })
+
+    it('falls back to GCS when it is configured, otherwise local', () => {
+      expect(storageDriverName({ GCS_BUCKET_NAME: 'b', GOOGLE_CLOUD_PROJECT: 'p' })).toBe('gcs')
+      expect(storageDriverName({})).toBe('local')
+    })
+
+    it('rejects unknown drivers', () => {
+      expect(() => storageDriverName({ STORAGE_DRIVER: 'ftp' })).toThrow('Unknown STORAGE_DRIVER')
+    })
+  })
+
+  describe('createStorageFromEnv', () => {
+    it('serves local files from the images route', () => {
+      const driver = createStorageFromEnv({ STORAGE_DRIVER: 'local', LOCAL_STORAGE_DIR: '/tmp/bookcode' })
+      expect(driver.name).toBe('local')
+      expect(driver.url('books/b1/ABC123.png')).toBe('/api/images/books/b1/ABC123.png')
+    })
+
+    it('builds S3 URLs from the public URL or endpoint', () => {
+      expect(createStorageFromEnv({
+        STORAGE_DRIVER: 's3',
+        S3_BUCKET: 'codes',
+        S3_PUBLIC_URL: 'https://cdn.example.com/',
+      }).url('books/b1/A.png')).toBe('https://cdn.example.com/books/b1/A.png')
+
+      expect(createStorageFromEnv({
+        STORAGE_DRIVER: 's3',
+        S3_BUCKET: 'codes',
+        S3_ENDPOINT: 'http://localhost:9000',
+      }).url('books/b1/A.png')).toBe('http://localhost:9000/codes/books/b1/A.png')
+
+      expect(createStorageFromEnv({
+        STORAGE_DRIVER: 's3',
+        S3_BUCKET: 'codes',
+        S3_REGION: 'eu-west-1',
+      }).url('books/b1/A.png')).toBe('https://codes.s3.eu-west-1.amazonaws.com/books/b1/A.png')
+    })
+
+    it('requires a bucket for cloud drivers', () => {
+      expect(() => createStorageFromEnv({ STORAGE_DRIVER: 's3' })).toThrow('S3_BUCKET is required')
+      expect(() => createStorageFromEnv({ STORAGE_DRIVER: 'gcs' })).toThrow('GCS_BUCKET_NAME is required')
+    })
+  })
+
+  describe('keys', () => {
+    it('puts wave code images under the book', () => {
+      expect(waveCodeImageKey('b1', 'ABC123')).toBe('books/b1/ABC123.png')
+    })
+
+    it('parses wave code image keys back', () => {
+      expect(parseWaveCodeImageKey('books/b1/ABC123.png')).toEqual({ bookId: 'b1', code: 'ABC123' })
+      expect(parseWaveCodeImageKey('books/b1/exports/print.pdf')).toBeNull()
+    })
+
+    it('accepts plain relative keys only', () => {
+      expect(assertValidKey('books/b1/A.png')).toBe('books/b1/A.png')
+      for (const key of ['', '/books/A.png', 'books//A.png', 'books/../A.png', 'books\\A.png', './A.png']) {
+        expect(() => assertValidKey(key)).toThrow('Invalid storage key')
+      }
+    })
+
+    it('derives content types from the extension', () => {
+      expect(contentTypeFor('books/b1/A.png')).toBe('image/png')
+      expect(contentTypeFor('books/b1/A.PDF')).toBe('application/pdf')
+      expect(contentTypeFor('books/b1/A')).toBe('application/octet-stream')
+    })
+  })
+})
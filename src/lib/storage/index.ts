@@ -0,0 +1,158 @@
+import { createHash } from 'crypto'
+import { createGcsDriver } from './gcs'
+import { createLocalDriver } from './local'
+import { createS3Driver } from './s3'
+import type { StorageDriver } from './types'
+
+export type { StorageDriver, StoredObject, StorageObjectInfo } from './types'
+export { StorageKeyError, assertValidKey, contentTypeFor } from './types'
+
+/**
+ * Configured storage backend
+ *
+ * STORAGE_DRIVER picks the driver: "gcs", "s3" or "local". When unset, GCS is
+ * used if GOOGLE_CLOUD_PROJECT and GCS_BUCKET_NAME are set, otherwise local.
+ */
+
+export type StorageDriverName = StorageDriver['name']
+
+// Where the /api/images route serves local files from
+export const LOCAL_IMAGE_BASE_URL = '/api/images'
+
+// Keys the app hands out URLs for: page images and book assets (logos).
+// Cached renders and anything else stay private.
+export const PUBLIC_IMAGE_PREFIXES = ['books/', 'assets/']
+
+export function isPublicImageKey(key: string): boolean {
+  return PUBLIC_IMAGE_PREFIXES.some((prefix) => key.startsWith(prefix))
+}
+
+type Env = Record<string, string | undefined>
+
+export function storageDriverName(env: Env = process.env): StorageDriverName {
+  const configured = env.STORAGE_DRIVER?.toLowerCase()
+  if (configured === 'gcs' || configured === 's3' || configured === 'local') {
+    return configured
+  }
+  if (configured) {
+    throw new Error(`Unknown STORAGE_DRIVER "${env.STORAGE_DRIVER}"; expected gcs, s3 or local`)
+  }
+  return env.GOOGLE_CLOUD_PROJECT && env.GCS_BUCKET_NAME ? 'gcs' : 'local'
+}
+
+export function createStorageFromEnv(env: Env = process.env): StorageDriver {
+  switch (storageDriverName(env)) {
+    case 'gcs':
+      if (!env.GCS_BUCKET_NAME) {
+        throw new Error('GCS_BUCKET_NAME is required for the gcs storage driver')
+      }
+      return createGcsDriver({
+        projectId: env.GOOGLE_CLOUD_PROJECT || '',
+        bucket: env.GCS_BUCKET_NAME,
+      })
+    case 's3':
+      if (!env.S3_BUCKET) {
+        throw new Error('S3_BUCKET is required for the s3 storage driver')
+      }
+      return createS3Driver({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || 'us-east-1',
+        endpoint: env.S3_ENDPOINT || undefined,
+        accessKeyId: env.S3_ACCESS_KEY_ID || undefined,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY || undefined,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+        publicUrl: env.S3_PUBLIC_URL || undefined,
+      })
+    case 'local':
+      return createLocalDriver({
+        root: env.LOCAL_STORAGE_DIR || 'storage',
+        baseUrl: LOCAL_IMAGE_BASE_URL,
+      })
+  }
+}
+
+let storage: StorageDriver | null = null
+
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    storage = createStorageFromEnv()
+  }
+  return storage
+}
+
+export function bookImagePrefix(bookId: string): string {
+  return `books/${bookId}/`
+}
+
+// Uploaded book assets (logos) live apart from generated images, which
+// storage reconcile treats as its own
+export function bookAssetPrefix(bookId: string): string {
+  return `assets/${bookId}/`
+}
+
+export function bookAssetKey(bookId: string, assetId: string, extension: string): string {
+  return `${bookAssetPrefix(bookId)}${assetId}.${extension}`
+}
+
+// Cached renders (see renderCache.ts); storage reconcile leaves them alone too
+export function bookRenderPrefix(bookId: string): string {
+  return `renders/${bookId}/`
+}
+
+export function waveCodeImageKey(bookId: string, code: string): string {
+  return `${bookImagePrefix(bookId)}${code}.png`
+}
+
+/**
+ * Book id and code of a wave code image key, or null for other keys
+ */
+export function parseWaveCodeImageKey(key: string): { bookId: string; code: string } | null {
+  const match = /^books\/([^/]+)\/([A-Z0-9]+)\.png$/.exec(key)
+  return match ? { bookId: match[1], code: match[2] } : null
+}
+
+/**
+ * Store a page's wave code image and return its URL. The URL carries a
+ * content hash, so a re-rendered image never hits a stale browser or CDN cache.
+ */
+export async function storeWaveCodeImage(bookId: string, code: string, image: Buffer): Promise<string> {
+  const url = await getStorage().put(waveCodeImageKey(bookId, code), image, 'image/png')
+  const version = createHash('sha256').update(image).digest('hex').slice(0, 12)
+  return `${url}?v=${version}`
+}
+
+export async function deleteWaveCodeImage(bookId: string, code: string): Promise<void> {
+  try {
+    await getStorage().delete(waveCodeImageKey(bookId, code))
+  } catch (error) {
+    // A leftover image is harmless; don't fail the caller over it
+    console.warn(`Failed to delete image for code ${code}:`, error)
+  }
+}
+
+/**
+ * Delete all wave code images for a book
+ */
+export async function deleteBookImages(bookId: string): Promise<void> {
+  const driver = getStorage()
+  const objects = await driver.list(bookImagePrefix(bookId))
+  await Promise.all(objects.map((object) => driver.delete(object.key)))
+}
+
+/**
+ * Delete all cached renders for a book
+ */
+export async function deleteBookRenders(bookId: string): Promise<void> {
+  const driver = getStorage()
+  const objects = await driver.list(bookRenderPrefix(bookId))
+  await Promise.all(objects.map((object) => driver.delete(object.key)))
+}
+
+/**
+ * Delete all uploaded assets for a book
+ */
+export async function deleteBookAssetFiles(bookId: string): Promise<void> {
+  const driver = getStorage()
+  const objects = await driver.list(bookAssetPrefix(bookId))
+  await Promise.all(objects.map((object) => driver.delete(object.key)))
+}
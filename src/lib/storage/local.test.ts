@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createLocalDriver } from './local'
+import type { StorageDriver } from './types'
+
+describe('local storage driver', () => {
+  let root: string
+  let driver: StorageDriver
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'bookcode-storage-'))
+    driver = createLocalDriver({ root, baseUrl: '/api/images' })
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('stores objects and returns their URL', async () => {
+    const url = await driver.put('books/b1/ABC123.png', Buffer.from('png'), 'image/png')
+
+    expect(url).toBe('/api/images/books/b1/ABC123.png')
+    expect(await fs.readFile(path.join(root, 'books', 'b1', 'ABC123.png'), 'utf8')).toBe('png')
+  })
+
+  it('reads objects back with their content type', async () => {
+    await driver.put('books/b1/ABC123.png', Buffer.from('png'), 'image/png')
+
+    const object = await driver.get('books/b1/ABC123.png')
+    expect(object?.body.toString()).toBe('png')
+    expect(object?.contentType).toBe('image/png')
+    expect(object?.size).toBe(3)
+  })
+
+  it('returns null for missing objects', async () => {
+    expect(await driver.get('books/b1/missing.png')).toBeNull()
+    expect(await driver.exists('books/b1/missing.png')).toBe(false)
+  })
+
+  it('deletes objects and ignores missing ones', async () => {
+    await driver.put('books/b1/ABC123.png', Buffer.from('png'), 'image/png')
+    await driver.delete('books/b1/ABC123.png')
+    await driver.delete('books/b1/ABC123.png')
+
+    expect(await driver.exists('books/b1/ABC123.png')).toBe(false)
+  })
+
+  it('lists keys under a prefix', async () => {
+    await driver.put('books/b1/A.png', Buffer.from('a'), 'image/png')
+    await driver.put('books/b1/B.png', Buffer.from('b'), 'image/png')
+    await driver.put('books/b2/C.png', Buffer.from('c'), 'image/png')
+
+    const objects = await driver.list('books/b1/')
+    expect(objects.map((object) => object.key)).toEqual(['books/b1/A.png', 'books/b1/B.png'])
+    expect(objects[0].size).toBe(1)
+    expect(objects[0].updatedAt).toBeInstanceOf(Date)
+    expect(await driver.list('books/b3/')).toEqual([])
+  })
+
+  it('only walks the directory a prefix ends in', async () => {
+    await driver.put('books/b1/AB.png', Buffer.from('a'), 'image/png')
+    await driver.put('books/b1/CD.png', Buffer.from('c'), 'image/png')
+    await driver.put('renders/b1/AB.png', Buffer.from('r'), 'image/png')
+
+    const readdir = vi.spyOn(fs, 'readdir')
+    try {
+      const objects = await driver.list('books/b1/A')
+      expect(objects.map((object) => object.key)).toEqual(['books/b1/AB.png'])
+      expect(readdir).toHaveBeenCalledTimes(1)
+      expect(readdir.mock.calls[0][0]).toBe(path.join(root, 'books', 'b1'))
+    } finally {
+      readdir.mockRestore()
+    }
+
+    expect(await driver.list('books/b1/AB.png/')).toEqual([])
+    expect((await driver.list('')).map((object) => object.key)).toEqual([
+      'books/b1/AB.png',
+      'books/b1/CD.png',
+      'renders/b1/AB.png',
+    ])
+  })
+
+  it('rejects keys that escape the storage root', async () => {
+    await expect(driver.put('../outside.png', Buffer.from('x'), 'image/png')).rejects.toThrow('Invalid storage key')
+    await expect(driver.get('books/../../etc/passwd')).rejects.toThrow('Invalid storage key')
+  })
+})
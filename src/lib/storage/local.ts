@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { assertValidKey, contentTypeFor, type StorageDriver } from './types'
+
+export interface LocalStorageOptions {
+  root: string     // Directory objects are written under
+  baseUrl: string  // URL prefix objects are served from (the /api/images route)
+}
+
+/**
+ * Local filesystem driver, for development and single-instance deployments.
+ * Objects are served by GET /api/images/[...path].
+ */
+export function createLocalDriver({ root, baseUrl }: LocalStorageOptions): StorageDriver {
+  const resolvedRoot = path.resolve(root)
+
+  const filePath = (key: string) => path.join(resolvedRoot, ...assertValidKey(key).split('/'))
+
+  async function walk(dir: string): Promise<string[]> {
+    let entries
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true })
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code
+      if (code === 'ENOENT' || code === 'ENOTDIR') return []
+      throw error
+    }
+
+    const files = await Promise.all(
+      entries.map((entry) => {
+        const full = path.join(dir, entry.name)
+        return entry.isDirectory() ? walk(full) : Promise.resolve([full])
+      })
+    )
+    return files.flat()
+  }
+
+  const driver: StorageDriver = {
+    name: 'local',
+
+    async put(key, body) {
+      const target = filePath(key)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      // Write then rename so readers never see a half-written file
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`
+      await fs.writeFile(temp, body)
+      await fs.rename(temp, target)
+      return driver.url(key)
+    },
+
+    async get(key) {
+      try {
+        const target = filePath(key)
+        const [body, stat] = await Promise.all([fs.readFile(target), fs.stat(target)])
+        return { body, contentType: contentTypeFor(key), size: stat.size, updatedAt: stat.mtime }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async exists(key) {
+      try {
+        await fs.access(filePath(key))
+        return true
+      } catch {
+        return false
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(filePath(key), { force: true })
+    },
+
+    async list(prefix) {
+      // Only walk the directory the prefix ends in, not the whole root
+      const slash = prefix.lastIndexOf('/')
+      const files = await walk(slash > 0 ? filePath(prefix.slice(0, slash)) : resolvedRoot)
+      const keys = files
+        .map((file) => path.relative(resolvedRoot, file).split(path.sep).join('/'))
+        .filter((key) => key.startsWith(prefix) && !key.endsWith('.tmp'))
+        .sort()
+
+      return Promise.all(keys.map(async (key) => {
+        const stat = await fs.stat(filePath(key))
+        return { key, size: stat.size, updatedAt: stat.mtime }
+      }))
+    },
+
+    url(key) {
+      return `${baseUrl}/${assertValidKey(key)}`
+    },
+  }
+
+  return driver
+}
@@ -0,0 +1,114 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3'
+import { assertValidKey, type StorageDriver, type StorageObjectInfo } from './types'
+
+export interface S3StorageOptions {
+  bucket: string
+  region: string
+  endpoint?: string         // For S3-compatible services (MinIO, R2, Spaces...)
+  accessKeyId?: string      // Falls back to the SDK's default credential chain
+  secretAccessKey?: string
+  forcePathStyle?: boolean  // Most S3-compatible services need path-style URLs
+  publicUrl?: string        // Public base URL of the bucket (e.g. a CDN)
+}
+
+function isNotFound(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } }
+  return name === 'NoSuchKey' || name === 'NotFound' || $metadata?.httpStatusCode === 404
+}
+
+/**
+ * Amazon S3 and S3-compatible driver. Objects are expected to be publicly
+ * readable through `publicUrl` (bucket policy or CDN), not per-object ACLs,
+ * since many S3-compatible services don't support them.
+ */
+export function createS3Driver(options: S3StorageOptions): StorageDriver {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials:
+      options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+  })
+  const Bucket = options.bucket
+
+  const baseUrl = (
+    options.publicUrl ||
+    (options.endpoint
+      ? `${options.endpoint}/${Bucket}`
+      : `https://${Bucket}.s3.${options.region}.amazonaws.com`)
+  ).replace(/\/+$/, '')
+
+  const driver: StorageDriver = {
+    name: 's3',
+
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket,
+        Key: assertValidKey(key),
+        Body: body,
+        ContentType: contentType,
+        CacheControl: 'public, max-age=31536000',
+      }))
+      return driver.url(key)
+    },
+
+    async get(key) {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket, Key: assertValidKey(key) }))
+        const body = Buffer.from(await object.Body!.transformToByteArray())
+        return {
+          body,
+          contentType: object.ContentType || 'application/octet-stream',
+          size: object.ContentLength ?? body.length,
+          updatedAt: object.LastModified ?? null,
+        }
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+
+    async exists(key) {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket, Key: assertValidKey(key) }))
+        return true
+      } catch (error) {
+        if (isNotFound(error)) return false
+        throw error
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key: assertValidKey(key) }))
+    },
+
+    async list(prefix) {
+      const objects: StorageObjectInfo[] = []
+      let ContinuationToken: string | undefined
+      do {
+        const page = await client.send(new ListObjectsV2Command({ Bucket, Prefix: prefix, ContinuationToken }))
+        for (const object of page.Contents ?? []) {
+          if (!object.Key) continue
+          objects.push({ key: object.Key, size: object.Size ?? 0, updatedAt: object.LastModified ?? null })
+        }
+        ContinuationToken = page.IsTruncated ? page.NextContinuationToken : undefined
+      } while (ContinuationToken)
+      return objects.sort((a, b) => a.key.localeCompare(b.key))
+    },
+
+    url(key) {
+      return `${baseUrl}/${assertValidKey(key)}`
+    },
+  }
+
+  return driver
+}
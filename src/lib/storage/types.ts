@@ -0,0 +1,76 @@
+/**
+ * Storage backends for generated files
+ *
+ * Keys are relative, slash-separated paths such as books/{bookId}/{code}.png.
+ * Every driver can return a URL the browser can load the object from.
+ */
+
+export interface StoredObject {
+  body: Buffer
+  contentType: string
+  size: number
+  updatedAt: Date | null
+}
+
+export interface StorageObjectInfo {
+  key: string
+  size: number
+  updatedAt: Date | null
+}
+
+export interface StorageDriver {
+  name: 'gcs' | 'local' | 's3'
+  // Store an object and return its URL
+  put(key: string, body: Buffer, contentType: string): Promise<string>
+  // Read an object, or null if it doesn't exist
+  get(key: string): Promise<StoredObject | null>
+  exists(key: string): Promise<boolean>
+  // Delete an object; missing objects are ignored
+  delete(key: string): Promise<void>
+  // All objects under a prefix, sorted by key
+  list(prefix: string): Promise<StorageObjectInfo[]>
+  // URL of an object (whether or not it exists)
+  url(key: string): string
+}
+
+export class StorageKeyError extends Error {
+  constructor(key: string) {
+    super(`Invalid storage key "${key}"`)
+    this.name = 'StorageKeyError'
+  }
+}
+
+/**
+ * Reject keys that could escape the storage root (.., absolute paths,
+ * backslashes, empty segments)
+ */
+export function assertValidKey(key: string): string {
+  const segments = key.split('/')
+  const valid =
+    key.length > 0 &&
+    !key.includes('\\') &&
+    !key.includes('\0') &&
+    segments.every((segment) => segment !== '' && segment !== '.' && segment !== '..')
+
+  if (!valid) {
+    throw new StorageKeyError(key)
+  }
+  return key
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  json: 'application/json',
+  csv: 'text/csv',
+}
+
+export function contentTypeFor(key: string): string {
+  const extension = key.split('.').pop()?.toLowerCase() ?? ''
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream'
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import {
+  NO_PLACEMENT,
+  pagePlacement,
+  pageSide,
+  placedSize,
+  placementColumns,
+  placementOnPage,
+  placeOnPage,
+  type PagePlacement,
+} from './placement'
+
+function placement(fields: Partial<PagePlacement>): PagePlacement {
+  return { ...NO_PLACEMENT, ...fields }
+}
+
+const code = { width: 15, height: 5 }
+const trim = { width: 150, height: 210 }
+
+describe('placement', () => {
+  describe('pagePlacement', () => {
+    it('is null for a page with no placement columns set', () => {
+      expect(pagePlacement({})).toBeNull()
+      expect(pagePlacement({ placementAnchor: null, placementWidth: null })).toBeNull()
+    })
+
+    it('reads the columns, dropping unknown anchors', () => {
+      expect(pagePlacement({ placementAnchor: 'top-left', placementOffsetX: 4, placementMirror: true })).toEqual(
+        placement({ anchor: 'top-left', offsetXMm: 4, mirrorOnVerso: true })
+      )
+      expect(pagePlacement({ placementAnchor: 'top-middle', placementWidth: 20 })).toEqual(placement({ widthMm: 20 }))
+    })
+  })
+
+  describe('placementColumns', () => {
+    it('maps only the fields given, so nulls clear and omissions keep', () => {
+      expect(placementColumns({ anchor: 'centre', widthMm: null })).toEqual({
+        placementAnchor: 'centre',
+        placementWidth: null,
+      })
+      expect(Object.keys(placementColumns(NO_PLACEMENT))).toHaveLength(6)
+    })
+  })
+
+  it('puts odd pages on the recto', () => {
+    expect(pageSide(1)).toBe('recto')
+    expect(pageSide(2)).toBe('verso')
+  })
+
+  describe('placedSize', () => {
+    it('keeps the theme\'s proportions when only one side is given', () => {
+      expect(placedSize(null, code)).toEqual(code)
+      expect(placedSize(placement({ widthMm: 30 }), code)).toEqual({ width: 30, height: 10 })
+      expect(placedSize(placement({ heightMm: 2.5 }), code)).toEqual({ width: 7.5, height: 2.5 })
+      expect(placedSize(placement({ widthMm: 20, heightMm: 20 }), code)).toEqual({ width: 20, height: 20 })
+    })
+  })
+
+  describe('placementOnPage', () => {
+    it('defaults to the bottom centre with no offset', () => {
+      expect(placementOnPage(null, 1)).toEqual({ anchor: 'bottom-centre', offsetXMm: 0, offsetYMm: 0 })
+    })
+
+    it('mirrors left and right on verso pages only when asked', () => {
+      const outside = placement({ anchor: 'bottom-right', offsetXMm: 5, offsetYMm: 8, mirrorOnVerso: true })
+
+      expect(placementOnPage(outside, 3).anchor).toBe('bottom-right')
+      expect(placementOnPage(outside, 4)).toEqual({ anchor: 'bottom-left', offsetXMm: 5, offsetYMm: 8 })
+      expect(placementOnPage({ ...outside, mirrorOnVerso: false }, 4).anchor).toBe('bottom-right')
+    })
+
+    it('turns the offset round for centred anchors', () => {
+      const shifted = placement({ anchor: 'top-centre', offsetXMm: 6, mirrorOnVerso: true })
+
+      expect(placementOnPage(shifted, 2)).toEqual({ anchor: 'top-centre', offsetXMm: -6, offsetYMm: 0 })
+    })
+  })
+
+  describe('placeOnPage', () => {
+    it('measures offsets in from the anchor\'s edges', () => {
+      expect(placeOnPage(placement({ anchor: 'top-left', offsetXMm: 10, offsetYMm: 12 }), 1, code, trim)).toEqual({ x: 10, y: 12 })
+      expect(placeOnPage(placement({ anchor: 'bottom-right', offsetXMm: 10, offsetYMm: 12 }), 1, code, trim)).toEqual({
+        x: 125,
+        y: 193,
+      })
+    })
+
+    it('centres the code, then shifts it by the offset', () => {
+      expect(placeOnPage(null, 1, code, trim)).toEqual({ x: 67.5, y: 205 })
+      expect(placeOnPage(placement({ anchor: 'centre', offsetXMm: 5, offsetYMm: -5 }), 1, code, trim)).toEqual({
+        x: 72.5,
+        y: 97.5,
+      })
+    })
+
+    it('keeps a mirrored code at the outside corner on both sides of a spread', () => {
+      const outside = placement({ anchor: 'bottom-right', offsetXMm: 10, mirrorOnVerso: true })
+
+      expect(placeOnPage(outside, 1, code, trim).x).toBe(125)
+      expect(placeOnPage(outside, 2, code, trim).x).toBe(10)
+    })
+  })
+})
@@ -0,0 +1,183 @@
+/**
+ * Page placement: where a page's code goes on the printed book page
+ *
+ * The anchor picks an edge or corner of the page (or its centre); offsets
+ * move the code in from the anchor's edges, in mm. For centred anchors the
+ * offset moves right or down instead. Width and height override the theme's
+ * size; give one and the other keeps the theme's proportions. Pages with
+ * mirrorOnVerso swap left and right on verso (even) pages, so a code at the
+ * outside corner stays at the outside corner across a spread. All fields
+ * are optional; a page with none set has no placement.
+ */
+
+export const PLACEMENT_ANCHORS = [
+  'top-left',
+  'top-centre',
+  'top-right',
+  'middle-left',
+  'centre',
+  'middle-right',
+  'bottom-left',
+  'bottom-centre',
+  'bottom-right',
+] as const
+export type PlacementAnchor = (typeof PLACEMENT_ANCHORS)[number]
+
+export const ANCHOR_LABELS: Record<PlacementAnchor, string> = {
+  'top-left': 'Top left',
+  'top-centre': 'Top centre',
+  'top-right': 'Top right',
+  'middle-left': 'Middle left',
+  centre: 'Centre',
+  'middle-right': 'Middle right',
+  'bottom-left': 'Bottom left (footer)',
+  'bottom-centre': 'Bottom centre (footer)',
+  'bottom-right': 'Bottom right (footer)',
+}
+
+export interface PagePlacement {
+  anchor: PlacementAnchor | null
+  offsetXMm: number | null
+  offsetYMm: number | null
+  widthMm: number | null
+  heightMm: number | null
+  mirrorOnVerso: boolean | null
+}
+
+// The same fields as Page columns
+export interface PlacementColumns {
+  placementAnchor: string | null
+  placementOffsetX: number | null
+  placementOffsetY: number | null
+  placementWidth: number | null
+  placementHeight: number | null
+  placementMirror: boolean | null
+}
+
+// Prisma select for a page's placement columns
+export const PLACEMENT_SELECT = {
+  placementAnchor: true,
+  placementOffsetX: true,
+  placementOffsetY: true,
+  placementWidth: true,
+  placementHeight: true,
+  placementMirror: true,
+} as const
+
+export type PageSide = 'recto' | 'verso'
+
+export const NO_PLACEMENT: PagePlacement = {
+  anchor: null,
+  offsetXMm: null,
+  offsetYMm: null,
+  widthMm: null,
+  heightMm: null,
+  mirrorOnVerso: null,
+}
+
+// Where pages without an anchor go when a code has to be placed
+export const DEFAULT_PLACEMENT_ANCHOR: PlacementAnchor = 'bottom-centre'
+
+export function isPlacementAnchor(value: unknown): value is PlacementAnchor {
+  return PLACEMENT_ANCHORS.includes(value as PlacementAnchor)
+}
+
+/**
+ * A page's placement from its columns, or null if it has none
+ */
+export function pagePlacement(columns: Partial<PlacementColumns>): PagePlacement | null {
+  const placement: PagePlacement = {
+    anchor: isPlacementAnchor(columns.placementAnchor) ? columns.placementAnchor : null,
+    offsetXMm: columns.placementOffsetX ?? null,
+    offsetYMm: columns.placementOffsetY ?? null,
+    widthMm: columns.placementWidth ?? null,
+    heightMm: columns.placementHeight ?? null,
+    mirrorOnVerso: columns.placementMirror ?? null,
+  }
+  return Object.values(placement).some((value) => value !== null) ? placement : null
+}
+
+/**
+ * Page columns for the given placement fields; fields left out are left out
+ */
+export function placementColumns(placement: Partial<PagePlacement>): Partial<PlacementColumns> {
+  const columns: Partial<PlacementColumns> = {}
+  if (placement.anchor !== undefined) columns.placementAnchor = placement.anchor
+  if (placement.offsetXMm !== undefined) columns.placementOffsetX = placement.offsetXMm
+  if (placement.offsetYMm !== undefined) columns.placementOffsetY = placement.offsetYMm
+  if (placement.widthMm !== undefined) columns.placementWidth = placement.widthMm
+  if (placement.heightMm !== undefined) columns.placementHeight = placement.heightMm
+  if (placement.mirrorOnVerso !== undefined) columns.placementMirror = placement.mirrorOnVerso
+  return columns
+}
+
+// Odd pages are on the right of a spread
+export function pageSide(pageNumber: number): PageSide {
+  return pageNumber % 2 === 1 ? 'recto' : 'verso'
+}
+
+/**
+ * The size a code is placed at: the page's override, or the theme's size
+ */
+export function placedSize(
+  placement: PagePlacement | null,
+  size: { width: number; height: number }
+): { width: number; height: number } {
+  const width = placement?.widthMm ?? null
+  const height = placement?.heightMm ?? null
+  if (width !== null && height !== null) return { width, height }
+  if (width !== null) return { width, height: (size.height * width) / size.width }
+  if (height !== null) return { width: (size.width * height) / size.height, height }
+  return size
+}
+
+/**
+ * Anchor and offsets as they apply on the given page: mirrored on verso
+ * pages if the placement asks for it
+ */
+export function placementOnPage(
+  placement: PagePlacement | null,
+  pageNumber: number
+): { anchor: PlacementAnchor; offsetXMm: number; offsetYMm: number } {
+  const anchor = placement?.anchor ?? DEFAULT_PLACEMENT_ANCHOR
+  const offsetXMm = placement?.offsetXMm ?? 0
+  const offsetYMm = placement?.offsetYMm ?? 0
+
+  if (!placement?.mirrorOnVerso || pageSide(pageNumber) === 'recto') {
+    return { anchor, offsetXMm, offsetYMm }
+  }
+  if (anchor.endsWith('-left')) {
+    return { anchor: anchor.replace(/-left$/, '-right') as PlacementAnchor, offsetXMm, offsetYMm }
+  }
+  if (anchor.endsWith('-right')) {
+    return { anchor: anchor.replace(/-right$/, '-left') as PlacementAnchor, offsetXMm, offsetYMm }
+  }
+  // Centred: the offset changes direction instead
+  return { anchor, offsetXMm: -offsetXMm, offsetYMm }
+}
+
+/**
+ * Top left corner (mm) of a code of the given size placed on a page of the
+ * given trim size
+ */
+export function placeOnPage(
+  placement: PagePlacement | null,
+  pageNumber: number,
+  code: { width: number; height: number },
+  trim: { width: number; height: number }
+): { x: number; y: number } {
+  const { anchor, offsetXMm, offsetYMm } = placementOnPage(placement, pageNumber)
+
+  const x = anchor.endsWith('left')
+    ? offsetXMm
+    : anchor.endsWith('right')
+      ? trim.width - code.width - offsetXMm
+      : (trim.width - code.width) / 2 + offsetXMm
+  const y = anchor.startsWith('top')
+    ? offsetYMm
+    : anchor.startsWith('bottom')
+      ? trim.height - code.height - offsetYMm
+      : (trim.height - code.height) / 2 + offsetYMm
+
+  return { x, y }
+}
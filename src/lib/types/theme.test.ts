@@ -6,6 +6,8 @@ import {
   getContrastRatio,
   hexToRgb,
   validateTheme,
+  isInPressGamut,
+  logoQuietZone,
   ThemeConfig,
 } from './theme'
 
@@ -81,6 +83,11 @@ describe('theme types', () => {
       })
       expect(result.colorScheme.gradientAngle).toBe(45)
     })
+
+    it('merges partial layout', () => {
+      const result = mergeWithDefault({ layout: { mode: 'arc' } } as Partial<ThemeConfig>)
+      expect(result.layout).toEqual({ mode: 'arc', arcAngle: 180, innerRadius: 50 })
+    })
   })
 
   describe('hexToRgb', () => {
@@ -124,6 +131,21 @@ describe('theme types', () => {
     })
   })
 
+  describe('isInPressGamut', () => {
+    it('accepts greys and the preset colours', () => {
+      expect(isInPressGamut('#000000')).toBe(true)
+      expect(isInPressGamut('#808080')).toBe(true)
+      expect(isInPressGamut('#D4AF37')).toBe(true)
+      expect(isInPressGamut('#0077BE')).toBe(true)
+    })
+
+    it('rejects vivid screen primaries', () => {
+      expect(isInPressGamut('#00FF00')).toBe(false)
+      expect(isInPressGamut('#0000FF')).toBe(false)
+      expect(isInPressGamut('#FF0000')).toBe(false)
+    })
+  })
+
   describe('validateTheme', () => {
     it('returns no warnings for default theme', () => {
       const warnings = validateTheme(DEFAULT_THEME)
@@ -179,6 +201,135 @@ describe('theme types', () => {
       expect(warnings.some((w) => w.type === 'size')).toBe(true)
     })
 
+    it('warns about colours outside the press gamut', () => {
+      const vividTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        colorScheme: { ...DEFAULT_THEME.colorScheme, primary: '#00FF00' },
+      }
+      const warnings = validateTheme(vividTheme)
+      expect(warnings.some((w) => w.type === 'gamut' && w.message.includes('#00FF00'))).toBe(true)
+    })
+
+    it('does not warn about gamut for slots with a print colour', () => {
+      const spotTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        colorScheme: {
+          ...DEFAULT_THEME.colorScheme,
+          primary: '#00FF00',
+          print: { primary: { spot: 'PANTONE 802 C' } },
+        },
+      }
+      expect(validateTheme(spotTheme).some((w) => w.type === 'gamut')).toBe(false)
+    })
+
+    it('warns about high total ink coverage', () => {
+      const richBlackTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        colorScheme: {
+          ...DEFAULT_THEME.colorScheme,
+          print: { primary: { cmyk: [90, 80, 80, 100] } },
+        },
+      }
+      const warning = validateTheme(richBlackTheme).find((w) => w.type === 'ink')
+      expect(warning?.message).toContain('350%')
+    })
+
+    it('does not check a caption that is turned off', () => {
+      const hiddenCaptionTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        caption: { ...DEFAULT_THEME.caption, color: '#FFFFFF', size: 2 },
+      }
+      expect(validateTheme(hiddenCaptionTheme).some((w) => w.type === 'caption')).toBe(false)
+    })
+
+    it('warns about low caption contrast', () => {
+      const paleCaptionTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        dimensions: { ...DEFAULT_THEME.dimensions, width: 40 },
+        caption: { ...DEFAULT_THEME.caption, position: 'below', color: '#DDDDDD' },
+      }
+      const warning = validateTheme(paleCaptionTheme).find((w) => w.type === 'caption')
+      expect(warning?.message).toContain('contrast')
+      expect(warning?.severity).toBe('error')
+    })
+
+    it('warns when a caption has to shrink below a legible size', () => {
+      const longCaptionTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        caption: { ...DEFAULT_THEME.caption, position: 'below', prefix: 'Scan or type this code:' },
+      }
+      const warning = validateTheme(longCaptionTheme).find((w) => w.type === 'caption')
+      expect(warning?.message).toContain('shrink')
+    })
+
+    it('errors on captions too few pixels tall at the DPI', () => {
+      const lowDpiCaptionTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        dimensions: { width: 40, height: 10, dpi: 72 },
+        caption: { ...DEFAULT_THEME.caption, position: 'below', size: 8 },
+      }
+      const warnings = validateTheme(lowDpiCaptionTheme)
+      expect(warnings.some((w) => w.type === 'caption' && w.severity === 'error')).toBe(true)
+    })
+
+    it('accepts a well spaced logo', () => {
+      const logoTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        dimensions: { ...DEFAULT_THEME.dimensions, width: 25 },
+        logo: { assetId: 'a1', position: 'start', size: 80, quietZone: 2 },
+      }
+      expect(validateTheme(logoTheme).filter((w) => w.type === 'logo')).toEqual([])
+    })
+
+    it('warns when a logo quiet zone has to be widened', () => {
+      const tightLogoTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        dimensions: { ...DEFAULT_THEME.dimensions, width: 25 },
+        logo: { assetId: 'a1', position: 'end', size: 80, quietZone: 0.5 },
+      }
+      const warning = validateTheme(tightLogoTheme).find((w) => w.type === 'logo')
+      expect(warning?.message).toContain('widened')
+      expect(logoQuietZone(tightLogoTheme)).toBeCloseTo(3 * (6 * 25.4) / 300, 9)
+    })
+
+    it('warns when a logo crowds the bars', () => {
+      const crowdedTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        logo: { assetId: 'a1', position: 'start', size: 80, quietZone: 2 },
+      }
+      const warning = validateTheme(crowdedTheme).find((w) => w.type === 'logo')
+      expect(warning?.message).toContain('narrowed')
+    })
+
+    it('accepts a roomy circular layout', () => {
+      const ringTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        dimensions: { ...DEFAULT_THEME.dimensions, width: 20, height: 20 },
+        layout: { mode: 'circular', arcAngle: 180, innerRadius: 50 },
+      }
+      expect(validateTheme(ringTheme).filter((w) => w.type === 'layout')).toEqual([])
+    })
+
+    it('warns when a ring is too small for its bars', () => {
+      const smallRingTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        layout: { mode: 'circular', arcAngle: 180, innerRadius: 50 },
+      }
+      const messages = validateTheme(smallRingTheme)
+        .filter((w) => w.type === 'layout')
+        .map((w) => w.message)
+      expect(messages).toEqual([expect.stringContaining('narrowed'), expect.stringContaining('grow in')])
+    })
+
+    it('warns when a vertical code is too short', () => {
+      const verticalTheme: ThemeConfig = {
+        ...DEFAULT_THEME,
+        layout: { ...DEFAULT_THEME.layout, mode: 'vertical' },
+      }
+      const warning = validateTheme(verticalTheme).find((w) => w.type === 'layout')
+      expect(warning?.message).toContain('taller')
+    })
+
     it('errors on low DPI', () => {
       const lowDpiTheme: ThemeConfig = {
         ...DEFAULT_THEME,
@@ -1,9 +1,21 @@
+export type CmykColor = [number, number, number, number]  // Ink percentages, 0-100
+
+export type ColorSlot = 'primary' | 'secondary' | 'background'
+
+// How a colour slot prints. A spot colour is a named ink (e.g. "PANTONE 871 C");
+// its cmyk is the process alternate used where the ink isn't available.
+export interface PrintColor {
+  cmyk?: CmykColor
+  spot?: string
+}
+
 export interface ColorScheme {
   type: 'solid' | 'gradient' | 'dual-tone'
   primary: string
   secondary?: string
   background: string
   gradientAngle?: number
+  print?: Partial<Record<ColorSlot, PrintColor>>  // Print output only; screens use the hex colours
 }
 
 export interface BarStyle {
@@ -26,11 +38,60 @@ export interface Dimensions {
   dpi: number
 }
 
+// Fonts bundled for captions (public/fonts), drawn as outlines so every
+// output looks the same without any fonts installed
+export const CAPTION_FONTS = {
+  sans: 'IBM Plex Sans',
+  serif: 'IBM Plex Serif',
+  mono: 'IBM Plex Mono',
+} as const
+export type CaptionFont = keyof typeof CAPTION_FONTS
+
+// The code printed as text, for readers without a scanner. It sits inside
+// the artwork (dimensions), beside or under the bars.
+export interface Caption {
+  position: 'below' | 'right' | 'none'
+  font: CaptionFont
+  size: number           // pt
+  color: string
+  letterSpacing: number  // Extra space between letters, in em
+  prefix?: string        // Text before the code, e.g. "Listen:"
+}
+
+// A mark (one of the book's uploaded assets) at one end of the bars, as on
+// a Spotify code, or in the middle of a circular or arc layout. The logo
+// carries no data; its quiet zone keeps it far enough from the bars that
+// readers never take part of it for a bar.
+export interface Logo {
+  assetId: string
+  position: 'start' | 'end'  // Left or right end (top or bottom when vertical)
+  size: number       // Percentage of the bars' area height (width when vertical, the hole in a ring)
+  quietZone: number  // mm between the logo and the nearest bar
+}
+
+// The path the bars follow. Every mode draws the same bars in the same
+// order; only the path changes, so the code reads the same in all of them.
+// horizontal: a row, bars centred on its middle; mirrored: a row, bars
+// standing on a baseline; vertical: a column, first bar at the top;
+// circular: clockwise around a ring, with a gap at the bottom where the
+// code starts and ends; arc: clockwise along an arc, centred at the top.
+export const LAYOUT_MODES = ['horizontal', 'mirrored', 'vertical', 'circular', 'arc'] as const
+export type LayoutMode = (typeof LAYOUT_MODES)[number]
+
+export interface Layout {
+  mode: LayoutMode
+  arcAngle: number     // Degrees the arc spans (arc)
+  innerRadius: number  // Inside edge of the bars, as a percentage of the outer radius (circular, arc)
+}
+
 export interface ThemeConfig {
   colorScheme: ColorScheme
   barStyle: BarStyle
   effects: Effects
   dimensions: Dimensions
+  caption: Caption
+  layout: Layout
+  logo?: Logo
 }
 
 export const DEFAULT_THEME: ThemeConfig = {
@@ -53,6 +114,18 @@ export const DEFAULT_THEME: ThemeConfig = {
     height: 5,
     dpi: 300,
   },
+  caption: {
+    position: 'none',
+    font: 'mono',
+    size: 7,
+    color: '#000000',
+    letterSpacing: 0.05,
+  },
+  layout: {
+    mode: 'horizontal',
+    arcAngle: 180,
+    innerRadius: 50,
+  },
 }
 
 export const PRESET_THEMES: Record<string, Partial<ThemeConfig>> = {
@@ -120,6 +193,9 @@ export function mergeWithDefault(partial: Partial<ThemeConfig> | null): ThemeCon
     barStyle: { ...DEFAULT_THEME.barStyle, ...partial.barStyle },
     effects: { ...DEFAULT_THEME.effects, ...partial.effects },
     dimensions: { ...DEFAULT_THEME.dimensions, ...partial.dimensions },
+    caption: { ...DEFAULT_THEME.caption, ...partial.caption },
+    layout: { ...DEFAULT_THEME.layout, ...partial.layout },
+    ...(partial.logo ? { logo: partial.logo } : {}),
   }
 }
 
@@ -152,12 +228,303 @@ export function hexToRgb(hex: string): { r: number; g: number; b: number } | nul
     : null
 }
 
+// Highest total ink (C+M+Y+K) coated stock takes without smearing or set-off
+export const MAX_TOTAL_INK = 300
+
+export function totalInk(cmyk: CmykColor): number {
+  return cmyk[0] + cmyk[1] + cmyk[2] + cmyk[3]
+}
+
+// sRGB to CIE L*a*b* (D65)
+function hexToLab(hex: string): { l: number; a: number; b: number } | null {
+  const rgb = hexToRgb(hex)
+  if (!rgb) return null
+  const [r, g, b] = [rgb.r, rgb.g, rgb.b].map((v) => {
+    v /= 255
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+  })
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116)
+  const x = f((0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047)
+  const y = f(0.2126 * r + 0.7152 * g + 0.0722 * b)
+  const z = f((0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883)
+  return { l: 116 * y - 16, a: 500 * (x - y), b: 200 * (y - z) }
+}
+
+// Approximate gamut of offset printing on coated paper (FOGRA39): the
+// lightness and chroma of the most colourful printable colour at each hue,
+// from the process inks and their overprints
+const PRESS_GAMUT_CUSPS = [
+  { hue: 35, l: 47, c: 83 },     // Red (M+Y)
+  { hue: 93, l: 89, c: 93 },     // Yellow
+  { hue: 157, l: 50, c: 70 },    // Green (C+Y)
+  { hue: 233.5, l: 55, c: 62 },  // Cyan
+  { hue: 296, l: 24, c: 51 },    // Blue (C+M)
+  { hue: 357.7, l: 48, c: 74 },  // Magenta
+]
+const WHITE_L = 100
+const BLACK_L = 5           // Rich black
+const GAMUT_TOLERANCE = 5   // Chroma; the cusps are approximate
+
+/**
+ * Whether an sRGB colour can be printed with process inks, roughly. Vivid
+ * screen colours (pure RGB primaries, electric blues and greens) can't and
+ * print duller than they look.
+ */
+export function isInPressGamut(hex: string): boolean {
+  const lab = hexToLab(hex)
+  if (!lab) return true
+
+  const chroma = Math.hypot(lab.a, lab.b)
+  const hue = ((Math.atan2(lab.b, lab.a) * 180) / Math.PI + 360) % 360
+
+  // Interpolate the cusp between the neighbouring ones by hue
+  const next = Math.max(0, PRESS_GAMUT_CUSPS.findIndex((cusp) => cusp.hue > hue))
+  const after = PRESS_GAMUT_CUSPS[next]
+  const before = PRESS_GAMUT_CUSPS[(next + PRESS_GAMUT_CUSPS.length - 1) % PRESS_GAMUT_CUSPS.length]
+  const span = (after.hue - before.hue + 360) % 360
+  const along = ((hue - before.hue + 360) % 360) / span
+  const cuspL = before.l + (after.l - before.l) * along
+  const cuspC = before.c + (after.c - before.c) * along
+
+  // Chroma narrows from the cusp to white and to black, with the gamut's
+  // outward bulge
+  const t = lab.l >= cuspL
+    ? (lab.l - cuspL) / (WHITE_L - cuspL)
+    : (cuspL - lab.l) / (cuspL - BLACK_L)
+  const maxChroma = cuspC * Math.max(0, 1 - t * t)
+
+  return chroma <= maxChroma + GAMUT_TOLERANCE
+}
+
+// Smallest caption that reads comfortably in print, and the fewest pixels
+// a capital letter needs to keep its shape in the rendered image
+export const MIN_CAPTION_SIZE = 6
+const MIN_CAPTION_CAP_PX = 10
+const CAPTION_CAP_HEIGHT = 0.7  // em, about the same in all bundled fonts
+// Typical width of a capital or digit in the bundled fonts, in em
+const CAPTION_CHAR_WIDTH = 0.6
+// Characters in a typical code (6 plus a check character)
+const TYPICAL_CODE_LENGTH = 7
+
+// The logo's quiet zone is widened to at least this many bar pitches;
+// readers split a bar row at gaps over 2.5 pitches, so the logo always
+// falls outside the row they decode
+export const LOGO_QUIET_ZONE_PITCHES = 3
+// A logo may take at most this share of the bars' width
+export const MAX_LOGO_SHARE = 0.25
+// Bars in a typical (v1, 6 character) code
+const TYPICAL_BAR_COUNT = 24
+// Smallest logo height (percentage of the bars' area) that stays recognisable
+const MIN_LOGO_SIZE = 30
+
+/**
+ * Distance between neighbouring bars' left edges in mm, before any
+ * squeezing to fit (bars of 4px and gaps of 2px at 300 DPI, scaled by the
+ * bar style)
+ */
+export function nominalBarPitch(barStyle: BarStyle): number {
+  return ((4 * barStyle.thickness) / 5 + (2 * barStyle.spacing) / 3) * (25.4 / 300)
+}
+
+/**
+ * The quiet zone a logo gets in mm: its own, or the minimum if that's wider
+ */
+export function logoQuietZone(theme: ThemeConfig): number {
+  const minimum = LOGO_QUIET_ZONE_PITCHES * nominalBarPitch(theme.barStyle)
+  return Math.max(theme.logo?.quietZone ?? 0, minimum)
+}
+
+// A circular code leaves a gap this many bar pitches wide at the bottom of
+// its ring: wider than readers' row breaks, it marks where the code starts
+export const RING_GAP_PITCHES = 3
+// Shallowest ring (outer minus inner radius, mm) whose bar heights can still
+// be told apart at print sizes
+const MIN_RING_DEPTH = 3
+
+export interface RingExtents {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+/**
+ * Bounding box of a circular or arc layout's bars with an outer radius of 1,
+ * around the ring's centre (y down). Arcs are centred on 12 o'clock. hollow
+ * is a box centred on the ring's centre (a logo) to take in as well.
+ */
+export function ringExtents(layout: Layout, hollow: { width: number; height: number } | null = null): RingExtents {
+  const half = ((layout.mode === 'arc' ? layout.arcAngle : 360) / 2) * (Math.PI / 180)
+  const inner = layout.innerRadius / 100
+  const points: [number, number][] = []
+
+  // The ends of the arc, inside and out, and its outermost points
+  for (const angle of [-half, half]) {
+    for (const radius of [inner, 1]) {
+      points.push([radius * Math.sin(angle), -radius * Math.cos(angle)])
+    }
+  }
+  for (const angle of [0, Math.PI / 2, -Math.PI / 2, Math.PI, -Math.PI]) {
+    if (Math.abs(angle) <= half) {
+      points.push([Math.sin(angle), -Math.cos(angle)])
+    }
+  }
+  if (hollow) {
+    points.push([-hollow.width / 2, -hollow.height / 2], [hollow.width / 2, hollow.height / 2])
+  }
+
+  return {
+    minX: Math.min(...points.map(([x]) => x)),
+    maxX: Math.max(...points.map(([x]) => x)),
+    minY: Math.min(...points.map(([, y]) => y)),
+    maxY: Math.max(...points.map(([, y]) => y)),
+  }
+}
+
+/**
+ * The text a caption shows for a code
+ */
+export function captionText(code: string, caption: Caption): string {
+  return caption.prefix ? `${caption.prefix} ${code}` : code
+}
+
 export interface ThemeValidationWarning {
-  type: 'contrast' | 'thickness' | 'opacity' | 'size' | 'dpi'
+  type: 'contrast' | 'thickness' | 'opacity' | 'size' | 'dpi' | 'gamut' | 'ink' | 'caption' | 'logo' | 'layout'
   message: string
   severity: 'warning' | 'error'
 }
 
+function validateCaption(theme: ThemeConfig): ThemeValidationWarning[] {
+  const { caption, dimensions, colorScheme } = theme
+  if (caption.position === 'none') return []
+
+  const warnings: ThemeValidationWarning[] = []
+
+  const contrast = getContrastRatio(caption.color, colorScheme.background)
+  if (contrast < 4.5) {
+    warnings.push({
+      type: 'caption',
+      message: `Caption contrast is low (${contrast.toFixed(2)}:1). Recommended minimum is 4.5:1.`,
+      severity: contrast < 3 ? 'error' : 'warning',
+    })
+  }
+
+  // Captions too wide for their space are shrunk to fit
+  const length = captionText('X'.repeat(TYPICAL_CODE_LENGTH), caption).length
+  const widthMm = (length * CAPTION_CHAR_WIDTH + (length - 1) * caption.letterSpacing) * caption.size * (25.4 / 72)
+  const roomMm = caption.position === 'right' ? dimensions.width / 2 : dimensions.width
+  const size = Math.min(caption.size, (caption.size * roomMm) / widthMm)
+
+  if (size < MIN_CAPTION_SIZE) {
+    warnings.push({
+      type: 'caption',
+      message: size < caption.size
+        ? `Caption has to shrink to about ${size.toFixed(1)}pt to fit a ${dimensions.width}mm wide code. Use a shorter prefix, a larger width or place it below.`
+        : `Caption size ${caption.size}pt is too small to read in print. Minimum recommended is ${MIN_CAPTION_SIZE}pt.`,
+      severity: 'warning',
+    })
+  }
+
+  const capPx = (size / 72) * dimensions.dpi * CAPTION_CAP_HEIGHT
+  if (capPx < MIN_CAPTION_CAP_PX) {
+    warnings.push({
+      type: 'caption',
+      message: `Caption letters are only ${Math.round(capPx)}px tall at ${dimensions.dpi} DPI and will be illegible. Increase the size or DPI.`,
+      severity: 'error',
+    })
+  }
+
+  return warnings
+}
+
+function validateLogo(theme: ThemeConfig): ThemeValidationWarning[] {
+  const { logo, dimensions } = theme
+  if (!logo) return []
+
+  const warnings: ThemeValidationWarning[] = []
+  const quietZone = logoQuietZone(theme)
+
+  if (logo.quietZone < quietZone) {
+    warnings.push({
+      type: 'logo',
+      message: `Logo quiet zone ${logo.quietZone}mm is narrower than ${LOGO_QUIET_ZONE_PITCHES} bar widths and will be widened to ${quietZone.toFixed(2)}mm so scanners don't read the logo as bars.`,
+      severity: 'warning',
+    })
+  }
+
+  if (logo.size < MIN_LOGO_SIZE) {
+    warnings.push({
+      type: 'logo',
+      message: `Logo size ${logo.size}% is too small to recognise in print. Minimum recommended is ${MIN_LOGO_SIZE}%.`,
+      severity: 'warning',
+    })
+  }
+
+  // In a row or column, the logo (assumed square) and its quiet zone come out
+  // of the bars' length; rings keep it in the middle
+  const { mode } = theme.layout
+  const vertical = mode === 'vertical'
+  const length = vertical ? dimensions.height : dimensions.width
+  const depth = vertical ? dimensions.width : dimensions.height
+  const logoLength = Math.min(length * MAX_LOGO_SHARE, (depth * logo.size) / 100)
+  const barsLength = TYPICAL_BAR_COUNT * nominalBarPitch(theme.barStyle)
+  if (mode !== 'circular' && mode !== 'arc' && logoLength + quietZone + barsLength > length) {
+    warnings.push({
+      type: 'logo',
+      message: `The logo leaves too little room for the bars in a ${length}mm ${vertical ? 'tall' : 'wide'} code; bars will be narrowed to fit. Use a larger ${vertical ? 'height' : 'width'} or a smaller logo.`,
+      severity: 'warning',
+    })
+  }
+
+  return warnings
+}
+
+function validateLayout(theme: ThemeConfig): ThemeValidationWarning[] {
+  const { layout, dimensions } = theme
+  const pitch = nominalBarPitch(theme.barStyle)
+
+  if (layout.mode === 'vertical') {
+    return TYPICAL_BAR_COUNT * pitch > dimensions.height
+      ? [{
+          type: 'layout',
+          message: `Vertical codes run down the height, and ${dimensions.height}mm is too short for the bars; they will be narrowed to fit. Use a taller code.`,
+          severity: 'warning',
+        }]
+      : []
+  }
+  if (layout.mode !== 'circular' && layout.mode !== 'arc') return []
+
+  const warnings: ThemeValidationWarning[] = []
+  const extents = ringExtents(layout)
+  const outer = Math.min(
+    dimensions.width / (extents.maxX - extents.minX),
+    dimensions.height / (extents.maxY - extents.minY)
+  )
+  const inner = (outer * layout.innerRadius) / 100
+
+  // Bars are spread along the middle of the ring
+  const circular = layout.mode === 'circular'
+  const length = ((outer + inner) / 2) * (circular ? 360 : layout.arcAngle) * (Math.PI / 180)
+  const slots = TYPICAL_BAR_COUNT + (circular ? RING_GAP_PITCHES : 0)
+  if (length / slots < pitch) {
+    warnings.push({
+      type: 'layout',
+      message: `The ${layout.mode === 'arc' ? 'arc' : 'ring'} is too short for the bars at this thickness; they will be narrowed to fit. Use a larger code${circular ? '' : ' or a wider arc'}.`,
+      severity: 'warning',
+    })
+  }
+
+  if (outer - inner < MIN_RING_DEPTH) {
+    warnings.push({
+      type: 'layout',
+      message: `Bars only have ${(outer - inner).toFixed(1)}mm to grow in, too little to tell their heights apart. Use a larger code or a smaller inner radius. Minimum recommended is ${MIN_RING_DEPTH}mm.`,
+      severity: 'warning',
+    })
+  }
+
+  return warnings
+}
+
 export function validateTheme(theme: ThemeConfig): ThemeValidationWarning[] {
   const warnings: ThemeValidationWarning[] = []
 
@@ -207,5 +574,36 @@ export function validateTheme(theme: ThemeConfig): ThemeValidationWarning[] {
     })
   }
 
+  // Check print colours: RGB-only colours the press can't reach, and
+  // explicit CMYK with too much ink
+  const { colorScheme } = theme
+  const slots: ColorSlot[] = colorScheme.secondary && colorScheme.type !== 'solid'
+    ? ['primary', 'secondary', 'background']
+    : ['primary', 'background']
+
+  for (const slot of slots) {
+    const hex = colorScheme[slot] as string
+    const print = colorScheme.print?.[slot]
+
+    if (!print?.cmyk && !print?.spot && !isInPressGamut(hex)) {
+      warnings.push({
+        type: 'gamut',
+        message: `${slot[0].toUpperCase()}${slot.slice(1)} color ${hex} is outside the typical CMYK press gamut and will print duller. Set CMYK values or a spot color for it.`,
+        severity: 'warning',
+      })
+    }
+    if (print?.cmyk && !print.spot && totalInk(print.cmyk) > MAX_TOTAL_INK) {
+      warnings.push({
+        type: 'ink',
+        message: `${slot[0].toUpperCase()}${slot.slice(1)} color has ${totalInk(print.cmyk)}% total ink coverage. Keep it under ${MAX_TOTAL_INK}% to avoid smearing and slow drying.`,
+        severity: 'warning',
+      })
+    }
+  }
+
+  warnings.push(...validateCaption(theme))
+  warnings.push(...validateLayout(theme))
+  warnings.push(...validateLogo(theme))
+
   return warnings
 }
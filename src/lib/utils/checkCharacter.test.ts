@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { luhnModNCheckCharacter, hasValidLuhnModN } from './checkCharacter'
+
+const DIGITS = '0123456789'
+const BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+
+describe('checkCharacter', () => {
+  describe('luhnModNCheckCharacter', () => {
+    it('matches the classic Luhn algorithm for decimal digits', () => {
+      // 7992739871 has Luhn check digit 3
+      expect(luhnModNCheckCharacter('7992739871', DIGITS)).toBe('3')
+    })
+
+    it('produces a character from the alphabet', () => {
+      const check = luhnModNCheckCharacter('K7Q2ZB', BASE32)
+      expect(BASE32).toContain(check)
+    })
+
+    it('throws for characters outside the alphabet', () => {
+      expect(() => luhnModNCheckCharacter('ABCIO1', BASE32)).toThrow()
+    })
+  })
+
+  describe('hasValidLuhnModN', () => {
+    it('accepts a payload followed by its check character', () => {
+      const payload = 'K7Q2ZB'
+      const code = payload + luhnModNCheckCharacter(payload, BASE32)
+      expect(hasValidLuhnModN(code, BASE32)).toBe(true)
+    })
+
+    it('detects every single-character substitution', () => {
+      const payload = 'M4X9QA'
+      const code = payload + luhnModNCheckCharacter(payload, BASE32)
+
+      for (let position = 0; position < code.length; position++) {
+        for (const replacement of BASE32) {
+          if (replacement === code[position]) continue
+          const typo = code.slice(0, position) + replacement + code.slice(position + 1)
+          expect(hasValidLuhnModN(typo, BASE32)).toBe(false)
+        }
+      }
+    })
+
+    it('detects adjacent transpositions of different characters', () => {
+      const payload = 'ABCDEF'
+      const code = payload + luhnModNCheckCharacter(payload, BASE32)
+      const swapped = code[1] + code[0] + code.slice(2)
+      expect(hasValidLuhnModN(swapped, BASE32)).toBe(false)
+    })
+
+    it('rejects codes with characters outside the alphabet', () => {
+      expect(hasValidLuhnModN('ABCDEFI', BASE32)).toBe(false)
+      expect(hasValidLuhnModN('', BASE32)).toBe(false)
+    })
+  })
+})
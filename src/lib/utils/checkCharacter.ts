@@ -0,0 +1,58 @@
+/**
+ * Luhn mod N check characters
+ *
+ * Generalises the Luhn algorithm to any alphabet. Detects every single
+ * character substitution and most adjacent transpositions.
+ */
+
+function sumDigits(codePoints: number[], base: number, startFactor: 1 | 2): number {
+  let factor = startFactor
+  let sum = 0
+
+  // Work right to left, doubling every other code point
+  for (let i = codePoints.length - 1; i >= 0; i--) {
+    let addend = factor * codePoints[i]
+    factor = factor === 2 ? 1 : 2
+    addend = Math.floor(addend / base) + (addend % base)
+    sum += addend
+  }
+
+  return sum
+}
+
+function toCodePoints(input: string, alphabet: string): number[] | null {
+  const codePoints: number[] = []
+  for (const char of input) {
+    const index = alphabet.indexOf(char)
+    if (index < 0) return null
+    codePoints.push(index)
+  }
+  return codePoints
+}
+
+/**
+ * Compute the check character for a payload
+ * Throws if the payload contains characters outside the alphabet.
+ */
+export function luhnModNCheckCharacter(payload: string, alphabet: string): string {
+  const codePoints = toCodePoints(payload, alphabet)
+  if (!codePoints) {
+    throw new Error(`Payload "${payload}" contains characters outside the alphabet`)
+  }
+
+  const base = alphabet.length
+  const remainder = sumDigits(codePoints, base, 2) % base
+  return alphabet[(base - remainder) % base]
+}
+
+/**
+ * Check that the last character of a code is its Luhn mod N check character
+ */
+export function hasValidLuhnModN(code: string, alphabet: string): boolean {
+  if (!code || code.length < 2) return false
+
+  const codePoints = toCodePoints(code, alphabet)
+  if (!codePoints) return false
+
+  return sumDigits(codePoints, alphabet.length, 1) % alphabet.length === 0
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest'
+import { waitForJob, streamJob, estimateRemainingMs, formatDuration } from './jobClient'
+
+function jobResponse(job: Record<string, unknown>, ok: boolean = true): Response {
+  return { ok, json: async () => job } as Response
+}
+
+describe('waitForJob', () => {
+  it('polls until the job succeeds and returns its result', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(jobResponse({ status: 'queued', progress: 0, total: 0 }))
+      .mockResolvedValueOnce(jobResponse({ status: 'running', progress: 1, total: 2 }))
+      .mockResolvedValueOnce(jobResponse({ status: 'succeeded', progress: 2, total: 2, result: { newPages: 2 } }))
+    const onProgress = vi.fn()
+
+    const result = await waitForJob('job-1', { intervalMs: 0, onProgress, fetchImpl })
+
+    expect(result).toEqual({ newPages: 2 })
+    expect(fetchImpl).toHaveBeenCalledWith('/api/admin/jobs/job-1')
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2)
+  })
+
+  it('rejects with the job error when the job fails', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(
+      jobResponse({ status: 'failed', progress: 0, total: 3, error: 'Book not found' })
+    )
+
+    await expect(waitForJob('job-2', { intervalMs: 0, fetchImpl })).rejects.toThrow('Book not found')
+  })
+
+  it('rejects when the job is cancelled', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(jobResponse({ status: 'cancelled', progress: 1, total: 3 }))
+
+    await expect(waitForJob('job-3', { intervalMs: 0, fetchImpl })).rejects.toThrow('cancelled')
+  })
+
+  it('rejects when the status request fails', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(jobResponse({ error: 'Job not found' }, false))
+
+    await expect(waitForJob('job-4', { intervalMs: 0, fetchImpl })).rejects.toThrow('Job not found')
+  })
+})
+
+// Minimal EventSource stand-in that lets a test push named events
+class FakeEventSource {
+  static last: FakeEventSource
+  listeners = new Map<string, (event: MessageEvent) => void>()
+  closed = false
+
+  constructor(public url: string) {
+    FakeEventSource.last = this
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, listener)
+  }
+
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.({ data: JSON.stringify(data) } as MessageEvent)
+  }
+
+  close() {
+    this.closed = true
+  }
+}
+
+describe('streamJob', () => {
+  const eventSourceImpl = FakeEventSource as unknown as typeof EventSource
+
+  it('reports progress and pages, then resolves with the result', async () => {
+    const onProgress = vi.fn()
+    const onPage = vi.fn()
+    const stream = streamJob('job-1', { onProgress, onPage, eventSourceImpl })
+    const source = FakeEventSource.last
+
+    source.emit('progress', { progress: 1, total: 2, at: '2026-01-01T00:00:00.000Z' })
+    source.emit('page', { pageNumber: 3, code: 'ABC123', success: true })
+    source.emit('status', { status: 'succeeded', result: { newPages: 2 } })
+
+    await expect(stream.done).resolves.toEqual({ newPages: 2 })
+    expect(source.url).toBe('/api/admin/jobs/job-1/events')
+    expect(onProgress).toHaveBeenCalledWith(1, 2, Date.parse('2026-01-01T00:00:00.000Z'))
+    expect(onPage).toHaveBeenCalledWith({ pageNumber: 3, code: 'ABC123', success: true })
+    expect(source.closed).toBe(true)
+  })
+
+  it('keeps listening through a retry and rejects when the job fails', async () => {
+    const onStatus = vi.fn()
+    const stream = streamJob('job-2', { onStatus, eventSourceImpl })
+    const source = FakeEventSource.last
+
+    source.emit('status', { status: 'queued', error: 'Storage timeout', willRetry: true })
+    expect(source.closed).toBe(false)
+
+    source.emit('status', { status: 'failed', error: 'Storage timeout' })
+    await expect(stream.done).rejects.toThrow('Storage timeout')
+    expect(onStatus).toHaveBeenCalledWith('queued', 'Storage timeout')
+    expect(source.closed).toBe(true)
+  })
+})
+
+describe('estimateRemainingMs', () => {
+  it('extrapolates from the rate so far', () => {
+    expect(estimateRemainingMs(0, 10000, 5, 20)).toBe(30000)
+  })
+
+  it('has no estimate before the first page', () => {
+    expect(estimateRemainingMs(0, 10000, 0, 20)).toBeNull()
+  })
+
+  it('is zero once everything is done', () => {
+    expect(estimateRemainingMs(0, 10000, 20, 20)).toBe(0)
+  })
+})
+
+describe('formatDuration', () => {
+  it('uses seconds under a minute and minutes above', () => {
+    expect(formatDuration(40000)).toBe('about 40 s')
+    expect(formatDuration(150000)).toBe('about 3 min')
+  })
+})
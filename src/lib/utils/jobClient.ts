@@ -0,0 +1,144 @@
+/**
+ * Browser helpers for following a background job to completion
+ */
+
+export interface JobStatusResponse<T = unknown> {
+  id: string
+  type: string
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+  progress: number
+  total: number
+  attempts: number
+  error: string | null
+  result: T | null
+}
+
+interface WaitForJobOptions {
+  intervalMs?: number
+  onProgress?: (progress: number, total: number) => void
+  fetchImpl?: typeof fetch
+}
+
+/**
+ * Poll a job until it finishes. Resolves with its result when it succeeds;
+ * rejects with the job's error when it fails or is cancelled.
+ */
+export async function waitForJob<T = unknown>(
+  jobId: string,
+  { intervalMs = 1000, onProgress, fetchImpl = fetch }: WaitForJobOptions = {}
+): Promise<T> {
+  for (;;) {
+    const response = await fetchImpl(`/api/admin/jobs/${jobId}`)
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to fetch job status')
+    }
+
+    const job = (await response.json()) as JobStatusResponse<T>
+    onProgress?.(job.progress, job.total)
+
+    if (job.status === 'succeeded') {
+      return job.result as T
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Job failed')
+    }
+    if (job.status === 'cancelled') {
+      throw new Error('Job was cancelled')
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs))
+  }
+}
+
+export interface JobPageEvent {
+  pageNumber: number
+  code?: string
+  success: boolean
+  error?: string
+}
+
+interface JobStatusEvent<T> {
+  status: JobStatusResponse['status']
+  error?: string | null
+  result?: T | null
+  willRetry?: boolean
+}
+
+interface StreamJobOptions {
+  onStatus?: (status: JobStatusResponse['status'], error?: string | null) => void
+  onProgress?: (progress: number, total: number, at: number) => void
+  onPage?: (page: JobPageEvent) => void
+  eventSourceImpl?: typeof EventSource
+}
+
+export interface JobStream<T> {
+  done: Promise<T>
+  close: () => void
+}
+
+/**
+ * Follow a job over Server-Sent Events. The browser reconnects on its own
+ * after a dropped connection and resumes from the last event it received.
+ * `done` resolves with the job's result, or rejects when it fails or is
+ * cancelled.
+ */
+export function streamJob<T = unknown>(
+  jobId: string,
+  { onStatus, onProgress, onPage, eventSourceImpl = EventSource }: StreamJobOptions = {}
+): JobStream<T> {
+  const source = new eventSourceImpl(`/api/admin/jobs/${jobId}/events`)
+
+  const done = new Promise<T>((resolve, reject) => {
+    source.addEventListener('progress', (event) => {
+      const { progress, total, at } = JSON.parse((event as MessageEvent).data)
+      onProgress?.(progress, total, at ? Date.parse(at) : Date.now())
+    })
+
+    source.addEventListener('page', (event) => {
+      onPage?.(JSON.parse((event as MessageEvent).data))
+    })
+
+    source.addEventListener('status', (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as JobStatusEvent<T>
+      onStatus?.(data.status, data.error)
+
+      if (data.status === 'succeeded') {
+        source.close()
+        resolve(data.result as T)
+      } else if (data.status === 'failed') {
+        source.close()
+        reject(new Error(data.error || 'Job failed'))
+      } else if (data.status === 'cancelled') {
+        source.close()
+        reject(new Error('Job was cancelled'))
+      }
+    })
+  })
+
+  return { done, close: () => source.close() }
+}
+
+/**
+ * Estimated time left from the rate so far, or null before the first page
+ */
+export function estimateRemainingMs(
+  startedAt: number,
+  now: number,
+  done: number,
+  total: number
+): number | null {
+  if (done <= 0 || total <= 0 || now <= startedAt) {
+    return null
+  }
+  return Math.round(((now - startedAt) / done) * Math.max(total - done, 0))
+}
+
+/**
+ * "about 2 min", "about 40 s"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000))
+  if (seconds < 60) return `about ${seconds} s`
+  return `about ${Math.round(seconds / 60)} min`
+}
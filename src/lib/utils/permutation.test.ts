@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { createPermutation } from './permutation'
+
+describe('permutation', () => {
+  describe('createPermutation', () => {
+    it('is a bijection on small domains', () => {
+      for (const size of [2, 10, 37, 1000]) {
+        const permute = createPermutation(size, 'key')
+        const outputs = new Set(Array.from({ length: size }, (_, i) => permute(i)))
+        expect(outputs.size).toBe(size)
+        expect(Math.max(...outputs)).toBe(size - 1)
+      }
+    })
+
+    it('stays inside a large domain', () => {
+      const size = 36 ** 6
+      const permute = createPermutation(size, 'key')
+      for (let i = 0; i < 200; i++) {
+        const value = permute(i)
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(size)
+      }
+    })
+
+    it('is deterministic for a key and differs between keys', () => {
+      const a = createPermutation(36 ** 6, 'alpha')
+      const b = createPermutation(36 ** 6, 'beta')
+      const first = Array.from({ length: 10 }, (_, i) => a(i))
+      expect(Array.from({ length: 10 }, (_, i) => a(i))).toEqual(first)
+      expect(Array.from({ length: 10 }, (_, i) => b(i))).not.toEqual(first)
+    })
+
+    it('does not preserve counter order', () => {
+      const permute = createPermutation(36 ** 6, 'key')
+      const values = Array.from({ length: 10 }, (_, i) => permute(i))
+      expect(values).not.toEqual([...values].sort((x, y) => x - y))
+    })
+
+    it('rejects indexes outside the domain', () => {
+      const permute = createPermutation(100, 'key')
+      expect(() => permute(100)).toThrow(RangeError)
+      expect(() => permute(-1)).toThrow(RangeError)
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import { createHmac } from 'crypto'
+
+/**
+ * Keyed pseudo-random permutation of the integers [0, domainSize)
+ *
+ * A balanced Feistel network over the smallest even number of bits that
+ * covers the domain, with cycle walking to stay inside it. Every input maps
+ * to a distinct output, so feeding it a counter yields values that look
+ * random but never repeat. Without the key the sequence can't be predicted.
+ */
+
+const DEFAULT_ROUNDS = 4
+// Keep both halves well inside 32-bit integer arithmetic
+const MAX_HALF_BITS = 26
+
+export type Permutation = (index: number) => number
+
+export function createPermutation(
+  domainSize: number,
+  key: string,
+  rounds: number = DEFAULT_ROUNDS
+): Permutation {
+  if (!Number.isSafeInteger(domainSize) || domainSize < 2) {
+    throw new Error(`Invalid permutation domain size: ${domainSize}`)
+  }
+
+  const bits = Math.ceil(Math.log2(domainSize))
+  const halfBits = Math.max(1, Math.ceil(bits / 2))
+  if (halfBits > MAX_HALF_BITS) {
+    throw new Error(`Permutation domain too large: ${domainSize}`)
+  }
+
+  const halfSize = 2 ** halfBits
+  const mask = halfSize - 1
+
+  function round(r: number, half: number): number {
+    const digest = createHmac('sha256', key).update(`${r}:${half}`).digest()
+    return digest.readUInt32BE(0) & mask
+  }
+
+  function feistel(value: number): number {
+    let left = Math.floor(value / halfSize)
+    let right = value % halfSize
+    for (let r = 0; r < rounds; r++) {
+      const next = left ^ round(r, right)
+      left = right
+      right = next
+    }
+    return left * halfSize + right
+  }
+
+  return (index) => {
+    if (!Number.isSafeInteger(index) || index < 0 || index >= domainSize) {
+      throw new RangeError(`Index ${index} is outside the permutation domain`)
+    }
+
+    // Cycle walking: re-apply until the value lands back inside the domain
+    let value = feistel(index)
+    while (value >= domainSize) {
+      value = feistel(value)
+    }
+    return value
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { rsEncode, rsDecode } from './reedSolomon'
+
+describe('reedSolomon', () => {
+  const data = [10, 0, 35, 27, 1, 63]
+  const parity = rsEncode(data, 4)
+  const codeword = [...data, ...parity]
+
+  describe('rsEncode', () => {
+    it('produces the requested number of parity symbols', () => {
+      expect(parity).toHaveLength(4)
+      parity.forEach((symbol) => {
+        expect(symbol).toBeGreaterThanOrEqual(0)
+        expect(symbol).toBeLessThan(64)
+      })
+    })
+
+    it('rejects symbols outside GF(64)', () => {
+      expect(() => rsEncode([64], 4)).toThrow()
+      expect(() => rsEncode([-1], 4)).toThrow()
+    })
+  })
+
+  describe('rsDecode', () => {
+    it('returns a clean codeword unchanged', () => {
+      const result = rsDecode(codeword, 4)
+      expect(result?.codeword).toEqual(codeword)
+      expect(result?.corrected).toEqual([])
+    })
+
+    it('corrects a single error', () => {
+      const damaged = [...codeword]
+      damaged[2] = 5
+      const result = rsDecode(damaged, 4)
+      expect(result?.codeword).toEqual(codeword)
+      expect(result?.corrected).toEqual([2])
+    })
+
+    it('corrects two errors anywhere in the codeword', () => {
+      for (let a = 0; a < codeword.length; a++) {
+        for (let b = a + 1; b < codeword.length; b++) {
+          const damaged = [...codeword]
+          damaged[a] ^= 17
+          damaged[b] ^= 42
+          expect(rsDecode(damaged, 4)?.codeword).toEqual(codeword)
+        }
+      }
+    })
+
+    it('corrects up to four erasures when positions are known', () => {
+      const damaged = [...codeword]
+      const erasures = [0, 3, 6, 9]
+      erasures.forEach((p) => {
+        damaged[p] = 0
+      })
+      expect(rsDecode(damaged, 4, erasures)?.codeword).toEqual(codeword)
+    })
+
+    it('corrects one error plus two erasures', () => {
+      const damaged = [...codeword]
+      damaged[1] = 0
+      damaged[4] = 0
+      damaged[8] ^= 9
+      expect(rsDecode(damaged, 4, [1, 4])?.codeword).toEqual(codeword)
+    })
+
+    it('returns null when there are too many errors', () => {
+      const damaged = [...codeword]
+      damaged[0] ^= 1
+      damaged[2] ^= 2
+      damaged[4] ^= 3
+      const result = rsDecode(damaged, 4)
+      // Three errors exceed the capacity: either detected, or not silently
+      // "corrected" back to the original
+      expect(result?.codeword).not.toEqual(codeword)
+    })
+  })
+})
@@ -0,0 +1,294 @@
+/**
+ * Reed-Solomon error correction over GF(64)
+ *
+ * Symbols are 6-bit values (0-63), which fits one code character
+ * (36-character alphabet) per symbol. Polynomials are arrays of
+ * coefficients, highest degree first. A codeword can be at most 63 symbols.
+ *
+ * With n parity symbols the decoder corrects any combination of e errors
+ * and f erasures (known-bad positions) where 2e + f <= n.
+ */
+
+const FIELD_SIZE = 64
+const FIELD_ORDER = FIELD_SIZE - 1 // Multiplicative group order
+const PRIMITIVE_POLYNOMIAL = 0x43  // x^6 + x + 1
+const GENERATOR = 2
+
+export const MAX_CODEWORD_LENGTH = FIELD_ORDER
+
+const EXP = new Array<number>(FIELD_ORDER * 2)
+const LOG = new Array<number>(FIELD_SIZE).fill(0)
+
+;(function initTables() {
+  let x = 1
+  for (let i = 0; i < FIELD_ORDER; i++) {
+    EXP[i] = x
+    LOG[x] = i
+    x <<= 1
+    if (x & FIELD_SIZE) {
+      x ^= PRIMITIVE_POLYNOMIAL
+    }
+  }
+  for (let i = FIELD_ORDER; i < FIELD_ORDER * 2; i++) {
+    EXP[i] = EXP[i - FIELD_ORDER]
+  }
+})()
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0
+  return EXP[LOG[a] + LOG[b]]
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(64)')
+  if (a === 0) return 0
+  return EXP[(LOG[a] + FIELD_ORDER - LOG[b]) % FIELD_ORDER]
+}
+
+function gfPow(a: number, power: number): number {
+  const exponent = ((LOG[a] * power) % FIELD_ORDER + FIELD_ORDER) % FIELD_ORDER
+  return EXP[exponent]
+}
+
+function gfInverse(a: number): number {
+  return EXP[FIELD_ORDER - LOG[a]]
+}
+
+function polyScale(p: number[], x: number): number[] {
+  return p.map((coef) => gfMul(coef, x))
+}
+
+function polyAdd(p: number[], q: number[]): number[] {
+  const result = new Array<number>(Math.max(p.length, q.length)).fill(0)
+  p.forEach((coef, i) => {
+    result[i + result.length - p.length] = coef
+  })
+  q.forEach((coef, i) => {
+    result[i + result.length - q.length] ^= coef
+  })
+  return result
+}
+
+function polyMul(p: number[], q: number[]): number[] {
+  const result = new Array<number>(p.length + q.length - 1).fill(0)
+  for (let j = 0; j < q.length; j++) {
+    for (let i = 0; i < p.length; i++) {
+      result[i + j] ^= gfMul(p[i], q[j])
+    }
+  }
+  return result
+}
+
+function polyEval(p: number[], x: number): number {
+  let y = p[0]
+  for (let i = 1; i < p.length; i++) {
+    y = gfMul(y, x) ^ p[i]
+  }
+  return y
+}
+
+function generatorPolynomial(paritySymbols: number): number[] {
+  let g = [1]
+  for (let i = 0; i < paritySymbols; i++) {
+    g = polyMul(g, [1, gfPow(GENERATOR, i)])
+  }
+  return g
+}
+
+function assertSymbols(symbols: number[]): void {
+  for (const symbol of symbols) {
+    if (!Number.isInteger(symbol) || symbol < 0 || symbol >= FIELD_SIZE) {
+      throw new Error(`Invalid GF(64) symbol: ${symbol}`)
+    }
+  }
+}
+
+/**
+ * Compute parity symbols for a message
+ * Returns only the parity; the full codeword is [...data, ...parity]
+ */
+export function rsEncode(data: number[], paritySymbols: number): number[] {
+  assertSymbols(data)
+  if (data.length + paritySymbols > MAX_CODEWORD_LENGTH) {
+    throw new Error(`Codeword longer than ${MAX_CODEWORD_LENGTH} symbols`)
+  }
+
+  const generator = generatorPolynomial(paritySymbols)
+  const remainder = [...data, ...new Array<number>(paritySymbols).fill(0)]
+
+  for (let i = 0; i < data.length; i++) {
+    const coef = remainder[i]
+    if (coef !== 0) {
+      for (let j = 1; j < generator.length; j++) {
+        remainder[i + j] ^= gfMul(generator[j], coef)
+      }
+    }
+  }
+
+  return remainder.slice(data.length)
+}
+
+function calcSyndromes(codeword: number[], paritySymbols: number): number[] {
+  const syndromes = [0]
+  for (let i = 0; i < paritySymbols; i++) {
+    syndromes.push(polyEval(codeword, gfPow(GENERATOR, i)))
+  }
+  return syndromes
+}
+
+function errataLocator(coefficientPositions: number[]): number[] {
+  let locator = [1]
+  for (const position of coefficientPositions) {
+    locator = polyMul(locator, polyAdd([1], [gfPow(GENERATOR, position), 0]))
+  }
+  return locator
+}
+
+function errorEvaluator(syndromes: number[], locator: number[], paritySymbols: number): number[] {
+  const product = polyMul(syndromes, locator)
+  return product.slice(product.length - (paritySymbols + 1))
+}
+
+function correctErrata(codeword: number[], syndromes: number[], positions: number[]): number[] {
+  const coefficientPositions = positions.map((p) => codeword.length - 1 - p)
+  const locator = errataLocator(coefficientPositions)
+  const evaluator = errorEvaluator(
+    [...syndromes].reverse(),
+    locator,
+    locator.length - 1
+  ).reverse()
+
+  const X = coefficientPositions.map((p) => gfPow(GENERATOR, p))
+  const magnitudes = new Array<number>(codeword.length).fill(0)
+
+  X.forEach((Xi, i) => {
+    const XiInverse = gfInverse(Xi)
+
+    let locatorPrime = 1
+    X.forEach((Xj, j) => {
+      if (j !== i) {
+        locatorPrime = gfMul(locatorPrime, 1 ^ gfMul(XiInverse, Xj))
+      }
+    })
+
+    const y = gfMul(Xi, polyEval([...evaluator].reverse(), XiInverse))
+    magnitudes[positions[i]] = gfDiv(y, locatorPrime)
+  })
+
+  return polyAdd(codeword, magnitudes)
+}
+
+function errorLocator(
+  syndromes: number[],
+  paritySymbols: number,
+  erasureCount: number
+): number[] | null {
+  // Berlekamp-Massey on the (erasure-free) Forney syndromes
+  let locator = [1]
+  let oldLocator = [1]
+  const shift = syndromes.length - paritySymbols
+
+  for (let i = 0; i < paritySymbols - erasureCount; i++) {
+    const K = i + shift
+    let delta = syndromes[K]
+    for (let j = 1; j < locator.length; j++) {
+      delta ^= gfMul(locator[locator.length - (j + 1)], syndromes[K - j])
+    }
+
+    oldLocator = [...oldLocator, 0]
+
+    if (delta !== 0) {
+      if (oldLocator.length > locator.length) {
+        const newLocator = polyScale(oldLocator, delta)
+        oldLocator = polyScale(locator, gfInverse(delta))
+        locator = newLocator
+      }
+      locator = polyAdd(locator, polyScale(oldLocator, delta))
+    }
+  }
+
+  while (locator.length > 0 && locator[0] === 0) {
+    locator.shift()
+  }
+
+  const errors = locator.length - 1
+  if (errors * 2 + erasureCount > paritySymbols) {
+    return null
+  }
+  return locator
+}
+
+function findErrors(locator: number[], length: number): number[] | null {
+  // Chien search
+  const positions: number[] = []
+  for (let i = 0; i < length; i++) {
+    if (polyEval(locator, gfPow(GENERATOR, i)) === 0) {
+      positions.push(length - 1 - i)
+    }
+  }
+  return positions.length === locator.length - 1 ? positions : null
+}
+
+function forneySyndromes(syndromes: number[], erasures: number[], length: number): number[] {
+  const result = syndromes.slice(1)
+  for (const erasure of erasures) {
+    const x = gfPow(GENERATOR, length - 1 - erasure)
+    for (let j = 0; j < result.length - 1; j++) {
+      result[j] = gfMul(result[j], x) ^ result[j + 1]
+    }
+  }
+  return result
+}
+
+export interface RsDecodeResult {
+  codeword: number[]     // Corrected codeword (data followed by parity)
+  corrected: number[]    // Positions that were changed
+}
+
+/**
+ * Correct a received codeword
+ * Returns null when there are more errors than the parity can fix.
+ */
+export function rsDecode(
+  received: number[],
+  paritySymbols: number,
+  erasures: number[] = []
+): RsDecodeResult | null {
+  assertSymbols(received)
+  if (erasures.length > paritySymbols) {
+    return null
+  }
+
+  const codeword = [...received]
+  for (const position of erasures) {
+    codeword[position] = 0
+  }
+
+  let syndromes = calcSyndromes(codeword, paritySymbols)
+  if (Math.max(...syndromes) === 0) {
+    return {
+      codeword,
+      corrected: erasures.filter((p) => received[p] !== 0),
+    }
+  }
+
+  const fSyndromes = forneySyndromes(syndromes, erasures, codeword.length)
+  const locator = errorLocator(fSyndromes, paritySymbols, erasures.length)
+  if (!locator) return null
+
+  const errors = findErrors([...locator].reverse(), codeword.length)
+  if (!errors) return null
+
+  const positions = [...erasures, ...errors.filter((p) => !erasures.includes(p))]
+  const corrected = correctErrata(codeword, syndromes, positions)
+
+  syndromes = calcSyndromes(corrected, paritySymbols)
+  if (Math.max(...syndromes) !== 0) {
+    return null
+  }
+
+  return {
+    codeword: corrected,
+    corrected: positions.filter((p) => corrected[p] !== received[p]),
+  }
+}
@@ -7,6 +7,10 @@ import {
   validateCodeSchema,
   audioLinksSchema,
   csvRowSchema,
+  codeSchemaFor,
+  codeProfileSchema,
+  downloadSchema,
+  placementUpdateSchema,
 } from './validation'
 
 describe('validation schemas', () => {
@@ -139,6 +143,52 @@ describe('validation schemas', () => {
     })
   })
 
+  describe('codeSchemaFor', () => {
+    const schema = codeSchemaFor({
+      name: 'eight',
+      alphabet: '0123456789ABCDEF',
+      length: 6,
+      prefix: 'PX',
+      checkCharacter: false,
+    })
+
+    it('follows the profile prefix, alphabet and length', () => {
+      expect(schema.safeParse('PX0A1B2C').success).toBe(true)
+      expect(schema.safeParse('PX0A1B2').success).toBe(false)
+      expect(schema.safeParse('PX0A1B2Z').success).toBe(false)
+      expect(schema.safeParse('QX0A1B2C').success).toBe(false)
+    })
+  })
+
+  describe('codeProfileSchema', () => {
+    const valid = { name: 'big-publisher', alphabet: '0123456789ABCDEFGHJKMNPQRSTVWXYZ', length: 8, prefix: 'px' }
+
+    it('accepts a valid profile and normalises the prefix', () => {
+      const result = codeProfileSchema.safeParse(valid)
+      expect(result.success).toBe(true)
+      expect(result.data?.prefix).toBe('PX')
+      expect(result.data?.checkCharacter).toBe(false)
+    })
+
+    it('rejects built-in names', () => {
+      expect(codeProfileSchema.safeParse({ ...valid, name: 'standard' }).success).toBe(false)
+    })
+
+    it('rejects alphabets outside A-Z and 0-9 or with repeats', () => {
+      expect(codeProfileSchema.safeParse({ ...valid, alphabet: 'ABCDEFGHIJ!' }).success).toBe(false)
+      expect(codeProfileSchema.safeParse({ ...valid, alphabet: 'AABCDEFGHIJ' }).success).toBe(false)
+    })
+
+    it('rejects prefixes outside the alphabet', () => {
+      expect(codeProfileSchema.safeParse({ ...valid, prefix: 'PO' }).success).toBe(false)
+    })
+
+    it('limits the code length', () => {
+      expect(codeProfileSchema.safeParse({ ...valid, length: 3 }).success).toBe(false)
+      expect(codeProfileSchema.safeParse({ ...valid, length: 11 }).success).toBe(false)
+    })
+  })
+
   describe('validateCodeSchema', () => {
     it('validates object with valid code', () => {
       const result = validateCodeSchema.safeParse({ code: 'ABC123' })
@@ -149,6 +199,12 @@ describe('validation schemas', () => {
       const result = validateCodeSchema.safeParse({ code: 'invalid' })
       expect(result.success).toBe(false)
     })
+
+    it('accepts checked and longer profile codes', () => {
+      expect(validateCodeSchema.safeParse({ code: 'K7Q2ZBF' }).success).toBe(true)
+      expect(validateCodeSchema.safeParse({ code: 'PXK7Q2ZBF5' }).success).toBe(true)
+      expect(validateCodeSchema.safeParse({ code: 'PXK7Q2ZBF5K7Q2ZB' }).success).toBe(false)
+    })
   })
 
   describe('audioLinksSchema', () => {
@@ -216,4 +272,43 @@ describe('validation schemas', () => {
       expect(result.success).toBe(false)
     })
   })
+
+  describe('downloadSchema', () => {
+    it('defaults to the standard profile with a CSV manifest', () => {
+      const result = downloadSchema.parse({ chapter: [] })
+      expect(result).toMatchObject({ format: 'png', manifest: 'csv', profile: 'standard', columns: ['page_number', 'code'] })
+    })
+
+    it('parses data merge columns and chapters', () => {
+      const result = downloadSchema.parse({
+        profile: 'datamerge',
+        encoding: 'utf-16',
+        columns: 'page_label, chapter,code',
+        chapter: ['1:Introduction', '12:The Storm: Part 1'],
+      })
+      expect(result.columns).toEqual(['page_label', 'chapter', 'code'])
+      expect(result.chapter).toEqual([
+        { page: 1, title: 'Introduction' },
+        { page: 12, title: 'The Storm: Part 1' },
+      ])
+    })
+
+    it('rejects unknown columns and malformed chapters', () => {
+      expect(downloadSchema.safeParse({ columns: 'code,isbn', chapter: [] }).success).toBe(false)
+      expect(downloadSchema.safeParse({ chapter: ['The Storm'] }).success).toBe(false)
+    })
+  })
+
+  describe('placementUpdateSchema', () => {
+    it('accepts partial placements and null to clear', () => {
+      expect(placementUpdateSchema.safeParse({ pageIds: ['p1'], placement: { anchor: 'top-right', widthMm: null } }).success).toBe(true)
+      expect(placementUpdateSchema.safeParse({ placement: null }).success).toBe(true)
+    })
+
+    it('rejects unknown anchors and sizes that are not positive', () => {
+      expect(placementUpdateSchema.safeParse({ placement: { anchor: 'top-middle' } }).success).toBe(false)
+      expect(placementUpdateSchema.safeParse({ placement: { heightMm: 0 } }).success).toBe(false)
+      expect(placementUpdateSchema.safeParse({}).success).toBe(false)
+    })
+  })
 })
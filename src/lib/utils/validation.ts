@@ -1,4 +1,22 @@
 import { z } from 'zod'
+import {
+  ALPHABET,
+  DEFAULT_CODE_PROFILE,
+  codeLengthFor,
+  isBuiltInCodeProfile,
+  type CodeProfile,
+} from '../services/codeGenerator'
+import { OUTPUT_FORMATS } from '../services/renderPipeline'
+import { MANIFEST_FORMATS } from '../services/exportManifest'
+import { EXPORT_PROFILES } from '../services/bookExport'
+import {
+  DATA_MERGE_COLUMNS,
+  DATA_MERGE_ENCODINGS,
+  DEFAULT_DATA_MERGE_OPTIONS,
+} from '../services/dataMerge'
+import { SHEET_SIZE_NAMES, IMPOSITION_LAYOUTS } from '../services/imposition'
+import { PLACEMENT_ANCHORS } from '../types/placement'
+import { isBuiltInLabelTemplate, labelTemplateFits } from '../services/labelSheets'
 
 // Book validation schemas
 export const createBookSchema = z.object({
@@ -7,6 +25,8 @@ export const createBookSchema = z.object({
   isbn: z.string().optional().nullable(),
   pageCount: z.number().int().min(1, 'Page count must be at least 1').max(10000),
   coverImageUrl: z.string().url().optional().nullable(),
+  codeProfile: z.string().min(1).max(32).optional().nullable(),
+  publisherId: z.string().uuid().optional().nullable(),
 })
 
 export const updateBookSchema = createBookSchema.partial()
@@ -51,16 +71,195 @@ export const csvRowSchema = z.object({
   audio_link: z.string().url(),
 })
 
-// Validate code format
-export const codeSchema = z.string().regex(/^[A-Z0-9]{6}$/, 'Invalid code format')
+// Publisher validation schemas
+export const publisherSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  codeProfile: z.string().min(1).max(32).optional().nullable(),
+})
+
+export const updatePublisherSchema = publisherSchema.partial()
+
+// Code profile limits: the permutation allocator needs the code space to
+// fit in 52 bits (36^10 does), and v2 Reed-Solomon codewords max out at 63
+// symbols
+export const MIN_CODE_PAYLOAD_LENGTH = 4
+export const MAX_CODE_PAYLOAD_LENGTH = 10
+export const MAX_CODE_PREFIX_LENGTH = 4
+
+// Custom code profiles
+export const codeProfileSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-z0-9-]{2,32}$/, 'Name must be 2-32 lowercase letters, digits or dashes')
+      .refine((name) => !isBuiltInCodeProfile(name), 'Name is used by a built-in profile'),
+    alphabet: z
+      .string()
+      .transform((val) => val.toUpperCase())
+      .refine((val) => val.split('').every((char) => ALPHABET.includes(char)), 'Alphabet may only use A-Z and 0-9')
+      .refine((val) => new Set(val).size === val.length, 'Alphabet characters must be unique')
+      .refine((val) => val.length >= 10, 'Alphabet needs at least 10 characters'),
+    length: z.number().int().min(MIN_CODE_PAYLOAD_LENGTH).max(MAX_CODE_PAYLOAD_LENGTH),
+    prefix: z
+      .string()
+      .transform((val) => val.toUpperCase())
+      .pipe(z.string().regex(new RegExp(`^[A-Z0-9]{0,${MAX_CODE_PREFIX_LENGTH}}$`), 'Invalid prefix'))
+      .default(''),
+    checkCharacter: z.boolean().default(false),
+  })
+  .refine((profile) => profile.prefix.split('').every((char) => profile.alphabet.includes(char)), {
+    message: 'Prefix characters must come from the alphabet',
+    path: ['prefix'],
+  })
+
+/**
+ * Strict format schema for codes issued under a profile
+ * (profile alphabets are plain A-Z/0-9, so they drop straight into a
+ * character class; check characters are verified by isValidCodeFormat)
+ */
+export function codeSchemaFor(profile: CodeProfile) {
+  const random = `[${profile.alphabet}]`
+  const pattern = `^${profile.prefix}${random}{${codeLengthFor(profile) - profile.prefix.length}}$`
+  return z.string().regex(new RegExp(pattern), 'Invalid code format')
+}
+
+// Validate code format (default profile)
+export const codeSchema = codeSchemaFor(DEFAULT_CODE_PROFILE)
+
+// Any profile's code: bounds cover the shortest and longest allowed profiles.
+// Confusable characters are accepted here and normalised before lookup.
+export const anyCodeSchema = z.string().regex(
+  new RegExp(`^[A-Z0-9]{${MIN_CODE_PAYLOAD_LENGTH},${MAX_CODE_PREFIX_LENGTH + MAX_CODE_PAYLOAD_LENGTH + 1}}$`),
+  'Invalid code format'
+)
+
+// Reserved code prefixes (kept out of random allocation)
+export const reservedPrefixSchema = z.object({
+  prefix: z
+    .string()
+    .transform((val) => val.trim().toUpperCase())
+    .pipe(z.string().regex(/^[A-Z0-9]{1,6}$/, 'Prefix must be 1-6 letters or digits')),
+  note: z.string().max(255).optional().nullable(),
+})
 
 // API validation schemas
 export const validateCodeSchema = z.object({
-  code: codeSchema,
+  code: anyCodeSchema,
+})
+
+// Image output format (?format= on image and download routes)
+export const outputFormatSchema = z.enum(OUTPUT_FORMATS).default('png')
+
+// Download ZIP options (query string of the download route; chapter may
+// repeat). The rest only apply to the data merge profile.
+export const downloadSchema = z.object({
+  format: outputFormatSchema,
+  manifest: z.enum(MANIFEST_FORMATS).default('csv'),
+  profile: z.enum(EXPORT_PROFILES).default('standard'),
+  encoding: z.enum(DATA_MERGE_ENCODINGS).default(DEFAULT_DATA_MERGE_OPTIONS.encoding),
+  // Comma separated, e.g. page_label,chapter,code
+  columns: z
+    .string()
+    .optional()
+    .transform((val) =>
+      val === undefined
+        ? DEFAULT_DATA_MERGE_OPTIONS.columns
+        : val.split(',').map((column) => column.trim()).filter(Boolean)
+    )
+    .pipe(z.array(z.enum(DATA_MERGE_COLUMNS))),
+  pageLabel: z.string().max(100).default(DEFAULT_DATA_MERGE_OPTIONS.pageLabel),
+  // First page and title of each chapter, e.g. 12:The Storm
+  chapter: z
+    .array(
+      z
+        .string()
+        .regex(/^\d+:.+$/, 'Chapters must be given as page:title, e.g. 12:The Storm')
+        .transform((val) => {
+          const colon = val.indexOf(':')
+          return { page: Number(val.slice(0, colon)), title: val.slice(colon + 1).trim() }
+        })
+    )
+    .max(500)
+    .default([]),
+})
+
+// Print sheet options (query string of the imposition route); sizes in mm
+export const impositionSchema = z
+  .object({
+    layout: z.enum(IMPOSITION_LAYOUTS).optional(),
+    sheet: z.enum(SHEET_SIZE_NAMES).optional(),
+    width: z.coerce.number().min(50).max(1500).optional(),
+    height: z.coerce.number().min(50).max(1500).optional(),
+    orientation: z.enum(['portrait', 'landscape']).optional(),
+    margin: z.coerce.number().min(0).max(100).optional(),
+    gutter: z.coerce.number().min(0).max(100).optional(),
+    cropMarks: z.stringbool().optional(),
+    registrationMarks: z.stringbool().optional(),
+    captions: z.stringbool().optional(),
+    slug: z.stringbool().optional(),
+  })
+  .refine((options) => options.sheet !== 'custom' || (options.width && options.height), {
+    message: 'Custom sheets need a width and height',
+    path: ['width'],
+  })
+
+// Bulk placement edit (sizes in mm): the fields given are set on the pages,
+// null clears a field, and a null placement clears them all
+export const placementUpdateSchema = z.object({
+  pageIds: z.array(z.string()).optional(),  // All pages when omitted
+  placement: z
+    .object({
+      anchor: z.enum(PLACEMENT_ANCHORS).nullable().optional(),
+      offsetXMm: z.number().min(-1000).max(1000).nullable().optional(),
+      offsetYMm: z.number().min(-1000).max(1000).nullable().optional(),
+      widthMm: z.number().positive().max(1000).nullable().optional(),
+      heightMm: z.number().positive().max(1000).nullable().optional(),
+      mirrorOnVerso: z.boolean().nullable().optional(),
+    })
+    .nullable(),
+})
+
+// Custom label templates (sizes in mm)
+export const labelTemplateSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-z0-9-]{2,32}$/, 'Name must be 2-32 lowercase letters, digits or dashes')
+      .refine((name) => !isBuiltInLabelTemplate(name), 'Name is used by a built-in template'),
+    description: z.string().max(255).default(''),
+    sheetWidth: z.number().positive().max(1500),
+    sheetHeight: z.number().positive().max(1500),
+    rows: z.number().int().min(1).max(100),
+    columns: z.number().int().min(1).max(100),
+    labelWidth: z.number().positive(),
+    labelHeight: z.number().positive(),
+    pitchX: z.number().positive(),
+    pitchY: z.number().positive(),
+    marginTop: z.number().min(0),
+    marginLeft: z.number().min(0),
+  })
+  .refine(labelTemplateFits, {
+    message: 'Labels must fit on the sheet without overlapping',
+    path: ['pitchX'],
+  })
+
+// Label sheet export
+export const labelExportSchema = z.object({
+  template: z.string().min(1),
+  startPosition: z.number().int().min(1).default(1),
+  pageIds: z.array(z.string()).optional(),  // All pages when omitted
+  outlines: z.boolean().default(false),
 })
 
 // Types from schemas
 export type CreateBookInput = z.infer<typeof createBookSchema>
 export type UpdateBookInput = z.infer<typeof updateBookSchema>
 export type CreatePageInput = z.infer<typeof createPageSchema>
+export type PublisherInput = z.infer<typeof publisherSchema>
+export type CodeProfileInput = z.infer<typeof codeProfileSchema>
+export type ReservedPrefixInput = z.infer<typeof reservedPrefixSchema>
 export type ValidateCodeInput = z.infer<typeof validateCodeSchema>
+export type ImpositionInput = z.infer<typeof impositionSchema>
+export type LabelTemplateInput = z.infer<typeof labelTemplateSchema>
+export type LabelExportInput = z.infer<typeof labelExportSchema>
+export type PlacementUpdateInput = z.infer<typeof placementUpdateSchema>